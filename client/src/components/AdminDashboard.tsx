@@ -1,5 +1,7 @@
-import { useQuery } from "@tanstack/react-query";
-import { getAdminQueryFn } from "@/lib/queryClient";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getAdminQueryFn, adminApiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { LoanExpiryRun, CollateralRiskLoan } from "@shared/schema";
 import { 
   Activity, 
   AlertTriangle, 
@@ -15,7 +17,9 @@ import {
   Zap,
   Eye,
   Bell,
-  HandHeart
+  HandHeart,
+  Gavel,
+  TrendingDown
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -57,6 +61,22 @@ interface EnhancedAdminStats {
   };
 }
 
+interface LoanExpiryOverview {
+  schedule: {
+    graceDays: number;
+    intervalMs: number;
+    nextRunAt: string | null;
+    lastError: string | null;
+    isRunning: boolean;
+  };
+  runs: LoanExpiryRun[];
+}
+
+interface CollateralRiskOverview {
+  thresholds: { warning: number; liquidation: number };
+  loans: CollateralRiskLoan[];
+}
+
 interface PerformanceMetric {
   id: string;
   metricType: string;
@@ -87,6 +107,66 @@ export default function AdminDashboard() {
     refetchInterval: refreshInterval,
   });
 
+  // Fetch loan expiry sweep schedule and recent runs
+  const { data: loanExpiry } = useQuery<LoanExpiryOverview>({
+    queryKey: ["/api/admin/loan-expiry/runs"],
+    queryFn: getAdminQueryFn({ on401: "throw" }),
+    refetchInterval: refreshInterval,
+  });
+
+  // Fetch loans whose market-priced collateral has crossed an LTV threshold
+  const { data: collateralRisk } = useQuery<CollateralRiskOverview>({
+    queryKey: ["/api/admin/loans/at-risk"],
+    queryFn: getAdminQueryFn({ on401: "throw" }),
+    refetchInterval: refreshInterval,
+  });
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const runExpirySweepMutation = useMutation({
+    mutationFn: async () => {
+      const response = await adminApiRequest('POST', '/api/admin/process-expired-loans');
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Expiry Sweep Complete",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/loan-expiry/runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/dashboard/kpis"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Expiry Sweep Failed",
+        description: error.message || "Failed to run the loan expiry sweep.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const revalueCollateralMutation = useMutation({
+    mutationFn: async () => {
+      const response = await adminApiRequest('POST', '/api/admin/loans/revalue-collateral');
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Collateral Revalued",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/loans/at-risk"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revaluation Failed",
+        description: error.message || "Failed to revalue loan collateral.",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Auto-refresh functionality
   useEffect(() => {
     const interval = setInterval(() => {
@@ -305,6 +385,133 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           )}
+          {/* Loan Expiry Engine */}
+          {loanExpiry && (
+            <Card data-testid="card-loan-expiry">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Gavel className="h-5 w-5" />
+                    Loan Expiry &amp; Forfeiture
+                  </CardTitle>
+                  <CardDescription>
+                    {loanExpiry.schedule.graceDays}-day grace period · next sweep{" "}
+                    {loanExpiry.schedule.isRunning
+                      ? "in progress"
+                      : loanExpiry.schedule.nextRunAt
+                      ? new Date(loanExpiry.schedule.nextRunAt).toLocaleTimeString()
+                      : "not scheduled"}
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => runExpirySweepMutation.mutate()}
+                  disabled={runExpirySweepMutation.isPending || loanExpiry.schedule.isRunning}
+                  data-testid="button-run-expiry-sweep"
+                >
+                  {runExpirySweepMutation.isPending ? "Running..." : "Run Now"}
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {loanExpiry.schedule.lastError && (
+                  <p className="text-sm text-red-600 mb-3" data-testid="loan-expiry-last-error">
+                    Last error: {loanExpiry.schedule.lastError}
+                  </p>
+                )}
+                {loanExpiry.runs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No expiry sweeps have run yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {loanExpiry.runs.slice(0, 5).map((run) => (
+                      <div
+                        key={run.id}
+                        className="flex items-center justify-between p-3 border rounded-lg text-sm"
+                        data-testid={`loan-expiry-run-${run.id}`}
+                      >
+                        <div>
+                          <p className="font-medium">
+                            {run.startedAt ? new Date(run.startedAt).toLocaleString() : "—"}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {run.trigger === "manual" ? `Manual (${run.triggeredBy})` : "Scheduled"}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                          <span>{run.loansForfeited}/{run.loansScanned} forfeited</span>
+                          <span>{run.assetsCreated} listed</span>
+                          {run.errorCount > 0 && (
+                            <span className="text-red-600">{run.errorCount} errors</span>
+                          )}
+                          <Badge variant={run.status === "failed" ? "destructive" : run.status === "running" ? "secondary" : "outline"}>
+                            {run.status}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* At-Risk Loans (collateral health) */}
+          {collateralRisk && (
+            <Card data-testid="card-collateral-risk">
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingDown className="h-5 w-5" />
+                    At-Risk Loans
+                  </CardTitle>
+                  <CardDescription>
+                    Crypto and precious metals collateral · warning at {Math.round(collateralRisk.thresholds.warning * 100)}% LTV,
+                    liquidation at {Math.round(collateralRisk.thresholds.liquidation * 100)}%
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revalueCollateralMutation.mutate()}
+                  disabled={revalueCollateralMutation.isPending}
+                  data-testid="button-revalue-collateral"
+                >
+                  {revalueCollateralMutation.isPending ? "Revaluing..." : "Revalue Now"}
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {collateralRisk.loans.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No loans are past the warning threshold.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {collateralRisk.loans.map((loan) => (
+                      <div
+                        key={loan.loanId}
+                        className="flex items-center justify-between p-3 border rounded-lg text-sm"
+                        data-testid={`collateral-risk-loan-${loan.loanId}`}
+                      >
+                        <div>
+                          <p className="font-medium">{loan.assetName}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {loan.symbol} · revalued {loan.revaluedAt ? new Date(loan.revaluedAt).toLocaleString() : "—"}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                          <span>
+                            {parseFloat(loan.collateralValue).toLocaleString()} / {parseFloat(loan.assetValue).toLocaleString()} value
+                          </span>
+                          <span className="font-semibold">{(loan.currentLtv * 100).toFixed(1)}% LTV</span>
+                          <Badge variant={loan.collateralHealth === "liquidation" ? "destructive" : "secondary"}>
+                            {loan.collateralHealth}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
         {/* Security & Fraud Tab */}
@@ -35,6 +35,7 @@ import { useToast } from "@/hooks/use-toast";
 import { adminApiRequest, getAdminQueryFn } from "@/lib/queryClient";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
+import type { LoanPolicy, LoanValuation } from "@shared/schema";
 
 interface AssetSubmission {
   id: string;
@@ -91,6 +92,14 @@ interface AssetReview {
   submission?: AssetSubmission;
 }
 
+interface ValuationPreview {
+  valuation: LoanValuation;
+  policy: LoanPolicy | null;
+  loanAmount: string | null;
+  expiryDate: string | null;
+  revaluedCategory: string | null; // crypto or precious metals - approval needs a market symbol
+}
+
 interface AssetReviewData {
   reviews: AssetReview[];
   totalCount: number;
@@ -118,6 +127,8 @@ export default function AssetReview() {
       decision: '',
       adjustedValue: '',
       reviewNotes: '',
+      overrideReason: '',
+      collateralSymbol: '',
       inspectionRequired: false,
       riskLevel: 'medium',
       confidenceLevel: '80'
@@ -131,6 +142,15 @@ export default function AssetReview() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
+  // Reconciled valuation and loan terms for the asset under review, updated as the admin appraises it
+  const adjustedValue = reviewForm.watch('adjustedValue');
+  const reviewSubmissionId = selectedReview?.submission?.id;
+  const { data: valuationPreview } = useQuery<ValuationPreview>({
+    queryKey: [`/api/admin/assets/${reviewSubmissionId}/valuation`, { adminValue: adjustedValue }],
+    queryFn: getAdminQueryFn({ on401: "throw" }),
+    enabled: isReviewDialogOpen && !!reviewSubmissionId,
+  });
+
   // Create asset review mutation
   const createReviewMutation = useMutation({
     mutationFn: async ({ submissionId, reviewData }: { submissionId: string; reviewData: any }) => {
@@ -298,16 +318,45 @@ export default function AssetReview() {
   const handleApproveAsset = (data: any) => {
     if (!selectedReview?.submission) return;
     
+    if (valuationPreview && valuationPreview.valuation.adminValue === null) {
+      toast({
+        title: "Appraisal Required",
+        description: "Enter an adjusted value before approving - loans are never sized on the user's claim alone.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (valuationPreview?.valuation.overrideRequired && !data.overrideReason?.trim()) {
+      toast({
+        title: "Override Reason Required",
+        description: "Explain why your valuation differs from the reference value before approving.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     approveAssetMutation.mutate({
       submissionId: selectedReview.submission.id,
       reviewData: {
-        estimatedValue: data.adjustedValue || selectedReview.submission.estimatedValue,
+        // Without an adjusted value the server falls back to the latest asset review valuation
+        estimatedValue: data.adjustedValue || undefined,
         reasoning: data.reviewNotes,
+        overrideReason: data.overrideReason || undefined,
+        collateralSymbol: data.collateralSymbol?.trim() || undefined,
         conditions: data.conditions || []
       }
     });
   };
 
+  const getCappedByLabel = (cappedBy: LoanValuation["cappedBy"]) => {
+    switch (cappedBy) {
+      case 'pricing_estimate': return 'Capped by pricing estimate';
+      case 'claimed_value': return 'Capped by claimed value';
+      default: return null;
+    }
+  };
+
   const handleRejectAsset = (reasoning: string) => {
     if (!selectedReview?.submission) return;
     
@@ -907,6 +956,91 @@ export default function AssetReview() {
                                     />
                                   </div>
 
+                                  {valuationPreview && (
+                                    <div className="rounded-lg border p-4 space-y-2" data-testid="valuation-breakdown">
+                                      <h4 className="font-semibold flex items-center gap-2">
+                                        <DollarSign className="h-4 w-4" />
+                                        Valuation Breakdown
+                                      </h4>
+                                      <div className="grid grid-cols-2 gap-2 text-sm">
+                                        <span className="text-muted-foreground">Claimed by user</span>
+                                        <span data-testid="valuation-claimed">{formatCurrency(valuationPreview.valuation.claimedValue)}</span>
+                                        <span className="text-muted-foreground">Pricing estimate</span>
+                                        <span data-testid="valuation-pricing">
+                                          {valuationPreview.valuation.pricingEstimate ? formatCurrency(valuationPreview.valuation.pricingEstimate) : 'None recorded'}
+                                        </span>
+                                        <span className="text-muted-foreground">Admin valuation</span>
+                                        <span data-testid="valuation-admin">
+                                          {valuationPreview.valuation.adminValue ? formatCurrency(valuationPreview.valuation.adminValue) : 'Not appraised'}
+                                          {valuationPreview.valuation.adminValueSource === 'asset_review' && (
+                                            <span className="text-xs text-muted-foreground ml-1">(from asset review)</span>
+                                          )}
+                                        </span>
+                                        <span className="text-muted-foreground font-medium">Reconciled value</span>
+                                        <span className="font-medium" data-testid="valuation-reconciled">
+                                          {formatCurrency(valuationPreview.valuation.reconciledValue)}
+                                          {getCappedByLabel(valuationPreview.valuation.cappedBy) && (
+                                            <Badge variant="outline" className="ml-2 text-xs">
+                                              {getCappedByLabel(valuationPreview.valuation.cappedBy)}
+                                            </Badge>
+                                          )}
+                                        </span>
+                                        <span className="text-muted-foreground">Loan principal</span>
+                                        <span data-testid="valuation-loan-amount">
+                                          {valuationPreview.policy && valuationPreview.loanAmount
+                                            ? `${formatCurrency(valuationPreview.loanAmount)} (${(parseFloat(valuationPreview.policy.ltvRatio) * 100).toFixed(1)}% LTV, policy v${valuationPreview.policy.version})`
+                                            : 'No loan policy for this category'}
+                                        </span>
+                                      </div>
+                                    </div>
+                                  )}
+
+                                  {valuationPreview?.revaluedCategory && (
+                                    <FormField
+                                      control={reviewForm.control}
+                                      name="collateralSymbol"
+                                      render={({ field }) => (
+                                        <FormItem>
+                                          <FormLabel>Market Symbol</FormLabel>
+                                          <FormControl>
+                                            <Input 
+                                              placeholder={valuationPreview.revaluedCategory === 'precious_metals' ? 'e.g. XAU' : 'e.g. BTC'} 
+                                              data-testid="input-collateral-symbol"
+                                              {...field} 
+                                            />
+                                          </FormControl>
+                                          <p className="text-xs text-muted-foreground">
+                                            The loan's collateral is revalued against this symbol's market price from approval onwards.
+                                          </p>
+                                          <FormMessage />
+                                        </FormItem>
+                                      )}
+                                    />
+                                  )}
+
+                                  {valuationPreview?.valuation.overrideRequired && (
+                                    <FormField
+                                      control={reviewForm.control}
+                                      name="overrideReason"
+                                      render={({ field }) => (
+                                        <FormItem>
+                                          <FormLabel className="flex items-center gap-2 text-orange-600">
+                                            <AlertTriangle className="h-4 w-4" />
+                                            Override Reason (valuation differs by {Math.round(Math.abs(valuationPreview.valuation.deviation ?? 0) * 100)}%)
+                                          </FormLabel>
+                                          <FormControl>
+                                            <Textarea 
+                                              placeholder="Explain why your valuation differs from the reference value..." 
+                                              data-testid="input-override-reason"
+                                              {...field} 
+                                            />
+                                          </FormControl>
+                                          <FormMessage />
+                                        </FormItem>
+                                      )}
+                                    />
+                                  )}
+
                                   <FormField
                                     control={reviewForm.control}
                                     name="reviewNotes"
@@ -37,6 +37,7 @@ interface FraudAlert {
   status: 'open' | 'investigating' | 'resolved' | 'false_positive';
   targetType: string;
   targetId: string;
+  relatedTargetId?: string;
   userId?: string;
   riskScore: string;
   alertData: any;
@@ -438,6 +439,18 @@ export default function FraudAlerts() {
                                 <Label className="text-sm font-medium">Detection Method</Label>
                                 <p className="text-sm">{selectedAlert.detectionMethod}</p>
                               </div>
+                              <div>
+                                <Label className="text-sm font-medium">Target</Label>
+                                <p className="text-sm font-mono">{selectedAlert.targetType}: {selectedAlert.targetId}</p>
+                              </div>
+                              {selectedAlert.relatedTargetId && (
+                                <div>
+                                  <Label className="text-sm font-medium">Related Target</Label>
+                                  <p className="text-sm font-mono" data-testid="text-alert-related-target">
+                                    {selectedAlert.targetType}: {selectedAlert.relatedTargetId}
+                                  </p>
+                                </div>
+                              )}
                               <div>
                                 <Label className="text-sm font-medium">Risk Score</Label>
                                 <div className="flex items-center gap-2">
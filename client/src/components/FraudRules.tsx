@@ -0,0 +1,748 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getAdminQueryFn, adminApiRequest } from "@/lib/queryClient";
+import {
+  FRAUD_BLACKLIST_TYPES,
+  FRAUD_DOCUMENT_TYPES,
+  FRAUD_RULE_TYPES,
+  FRAUD_SEVERITIES,
+  type DocumentTemplate,
+  type FraudBlacklistEntry,
+  type FraudRule,
+  type FraudRuleSetVersion,
+} from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldAlert, FileCheck, Ban, History, Pencil, Plus, Trash2 } from "lucide-react";
+
+interface FraudRulesResponse {
+  version: number;
+  rules: FraudRule[];
+  templates: DocumentTemplate[];
+  blacklist: FraudBlacklistEntry[];
+  versions: FraudRuleSetVersion[];
+}
+
+interface RuleForm {
+  ruleType: string;
+  name: string;
+  documentType: string;
+  pattern: string;
+  terms: string;
+  minTermsPresent: string;
+  severity: string;
+  weight: string;
+  changeSummary: string;
+}
+
+interface TemplateForm {
+  templateName: string;
+  documentType: string;
+  issuerName: string;
+  templateVersion: string;
+  expectedFields: string;
+  securityFeatures: string;
+  confidence: string;
+  changeSummary: string;
+}
+
+interface BlacklistForm {
+  listType: string;
+  value: string;
+  reason: string;
+}
+
+interface PublishRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+  action: string;
+}
+
+const ALL_DOCUMENT_TYPES = "all";
+
+const formatLabel = (value: string) =>
+  value.split("_").map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+const formatDate = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "2-digit", minute: "2-digit" }) : "—";
+
+const splitList = (value: string) => value.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+
+const severityVariant = (severity: string): "destructive" | "default" | "secondary" | "outline" => {
+  if (severity === "critical") return "destructive";
+  if (severity === "high") return "default";
+  if (severity === "medium") return "secondary";
+  return "outline";
+};
+
+const ruleFormFrom = (rule: FraudRule | null): RuleForm => ({
+  ruleType: rule?.ruleType ?? "suspicious_text",
+  name: rule?.name ?? "",
+  documentType: rule?.documentType ?? ALL_DOCUMENT_TYPES,
+  pattern: rule?.pattern ?? "",
+  terms: rule?.terms?.join(", ") ?? "",
+  minTermsPresent: rule?.minTermsPresent?.toString() ?? "1",
+  severity: rule?.severity ?? "medium",
+  weight: rule?.weight ?? "0.800",
+  changeSummary: "",
+});
+
+const templateFormFrom = (template: DocumentTemplate | null): TemplateForm => ({
+  templateName: template?.templateName ?? "",
+  documentType: template?.documentType ?? "coa",
+  issuerName: template?.issuerName ?? "",
+  templateVersion: template?.templateVersion ?? "1",
+  expectedFields: ((template?.expectedFields as string[] | null) ?? []).join(", "),
+  securityFeatures: ((template?.securityFeatures as string[] | null) ?? []).join(", "),
+  confidence: template?.confidence ?? "0.900",
+  changeSummary: "",
+});
+
+const emptyBlacklistForm: BlacklistForm = { listType: "serial", value: "", reason: "" };
+
+export default function FraudRules() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingRule, setEditingRule] = useState<FraudRule | "new" | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleForm>(ruleFormFrom(null));
+  const [editingTemplate, setEditingTemplate] = useState<DocumentTemplate | "new" | null>(null);
+  const [templateForm, setTemplateForm] = useState<TemplateForm>(templateFormFrom(null));
+  const [blacklistForm, setBlacklistForm] = useState<BlacklistForm>(emptyBlacklistForm);
+
+  const { data, isLoading } = useQuery<FraudRulesResponse>({
+    queryKey: ["/api/admin/fraud-rules"],
+    queryFn: getAdminQueryFn({ on401: "throw" }),
+  });
+
+  // Every change publishes a new rule set version, which fraud detection picks up on its next document
+  const publishMutation = useMutation({
+    mutationFn: async ({ method, url, body }: PublishRequest) => {
+      const response = await adminApiRequest(method, url, body);
+      return response.json();
+    },
+    onSuccess: (publication: { version: FraudRuleSetVersion }, request) => {
+      toast({
+        title: `${request.action} - Rule Set v${publication.version.version}`,
+        description: publication.version.changeSummary,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/fraud-rules"] });
+    },
+    onError: (error: any, request) => {
+      toast({
+        title: `${request.action} Failed`,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditingRule = (rule: FraudRule | "new") => {
+    setRuleForm(ruleFormFrom(rule === "new" ? null : rule));
+    setEditingRule(rule);
+  };
+
+  const startEditingTemplate = (template: DocumentTemplate | "new") => {
+    setTemplateForm(templateFormFrom(template === "new" ? null : template));
+    setEditingTemplate(template);
+  };
+
+  const saveRule = () => {
+    if (!editingRule) return;
+    const isTermsRule = ruleForm.ruleType === "required_terms";
+    const body = {
+      ruleType: ruleForm.ruleType,
+      name: ruleForm.name,
+      documentType: ruleForm.documentType === ALL_DOCUMENT_TYPES ? null : ruleForm.documentType,
+      pattern: isTermsRule ? null : ruleForm.pattern,
+      terms: isTermsRule ? splitList(ruleForm.terms) : null,
+      minTermsPresent: isTermsRule ? parseInt(ruleForm.minTermsPresent, 10) : null,
+      severity: ruleForm.severity,
+      weight: ruleForm.weight,
+      changeSummary: ruleForm.changeSummary || undefined,
+    };
+    publishMutation.mutate(
+      editingRule === "new"
+        ? { method: "POST", url: "/api/admin/fraud-rules/rules", body, action: "Rule Added" }
+        : { method: "PUT", url: `/api/admin/fraud-rules/rules/${editingRule.id}`, body, action: "Rule Updated" },
+      { onSuccess: () => setEditingRule(null) }
+    );
+  };
+
+  const saveTemplate = () => {
+    if (!editingTemplate) return;
+    const body = {
+      templateName: templateForm.templateName,
+      documentType: templateForm.documentType,
+      issuerName: templateForm.issuerName,
+      templateVersion: templateForm.templateVersion,
+      expectedFields: splitList(templateForm.expectedFields),
+      securityFeatures: splitList(templateForm.securityFeatures),
+      confidence: templateForm.confidence,
+      changeSummary: templateForm.changeSummary || undefined,
+    };
+    publishMutation.mutate(
+      editingTemplate === "new"
+        ? { method: "POST", url: "/api/admin/fraud-rules/templates", body, action: "Template Added" }
+        : { method: "PUT", url: `/api/admin/fraud-rules/templates/${editingTemplate.id}`, body, action: "Template Updated" },
+      { onSuccess: () => setEditingTemplate(null) }
+    );
+  };
+
+  const addBlacklistEntry = () => {
+    publishMutation.mutate(
+      {
+        method: "POST",
+        url: "/api/admin/fraud-rules/blacklist",
+        body: { listType: blacklistForm.listType, value: blacklistForm.value, reason: blacklistForm.reason || undefined },
+        action: "Blacklist Entry Added",
+      },
+      { onSuccess: () => setBlacklistForm(emptyBlacklistForm) }
+    );
+  };
+
+  const updateRuleForm = (field: keyof RuleForm, value: string) => {
+    setRuleForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const updateTemplateForm = (field: keyof TemplateForm, value: string) => {
+    setTemplateForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const rules = data?.rules ?? [];
+  const templates = data?.templates ?? [];
+  const blacklist = data?.blacklist ?? [];
+  const versions = data?.versions ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-white">Fraud Rules</h2>
+          <p className="text-muted-foreground">
+            Patterns, document templates and blacklists used to score uploaded documents. Every change publishes a new rule set version and applies to the next analysis.
+          </p>
+        </div>
+        {data && (
+          <Badge variant="outline" className="text-base" data-testid="badge-fraud-rule-set-version">
+            Rule set v{data.version}
+          </Badge>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading fraud rules...</p>
+      ) : (
+        <Tabs defaultValue="rules" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="rules" data-testid="tab-fraud-rules">Rules ({rules.length})</TabsTrigger>
+            <TabsTrigger value="templates" data-testid="tab-fraud-templates">Templates ({templates.length})</TabsTrigger>
+            <TabsTrigger value="blacklist" data-testid="tab-fraud-blacklist">Blacklists ({blacklist.length})</TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-fraud-rule-history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rules" className="space-y-4">
+            <Card data-testid="card-fraud-rules">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <ShieldAlert className="w-5 h-5" />
+                    Detection Rules
+                  </CardTitle>
+                  <CardDescription>Regex patterns and required terms checked against each document's OCR text</CardDescription>
+                </div>
+                <Button size="sm" onClick={() => startEditingRule("new")} data-testid="button-add-fraud-rule">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Rule
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {rules.length === 0 ? (
+                  <p className="text-muted-foreground">No rules in this rule set</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Documents</TableHead>
+                        <TableHead>Match</TableHead>
+                        <TableHead>Severity</TableHead>
+                        <TableHead>Weight</TableHead>
+                        <TableHead>Since</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rules.map((rule) => (
+                        <TableRow key={rule.id} data-testid={`fraud-rule-${rule.id}`}>
+                          <TableCell className="text-xs">{formatLabel(rule.ruleType)}</TableCell>
+                          <TableCell className="font-medium">{rule.name}</TableCell>
+                          <TableCell>{rule.documentType ? formatLabel(rule.documentType) : "All"}</TableCell>
+                          <TableCell className="font-mono text-xs max-w-xs truncate">
+                            {rule.ruleType === "required_terms"
+                              ? `${rule.minTermsPresent} of ${rule.terms?.join(", ")}`
+                              : rule.pattern}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={severityVariant(rule.severity)}>{rule.severity}</Badge>
+                          </TableCell>
+                          <TableCell>{parseFloat(rule.weight).toFixed(2)}</TableCell>
+                          <TableCell>v{rule.introducedInVersion}</TableCell>
+                          <TableCell className="text-right space-x-2">
+                            <Button size="sm" variant="outline" onClick={() => startEditingRule(rule)} data-testid={`button-edit-fraud-rule-${rule.id}`}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={publishMutation.isPending}
+                              onClick={() => publishMutation.mutate({ method: "DELETE", url: `/api/admin/fraud-rules/rules/${rule.id}`, action: "Rule Removed" })}
+                              data-testid={`button-remove-fraud-rule-${rule.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {editingRule && (
+              <Card data-testid="card-edit-fraud-rule">
+                <CardHeader>
+                  <CardTitle>{editingRule === "new" ? "New Rule" : `Edit "${editingRule.name}"`}</CardTitle>
+                  <CardDescription>Saving replaces the rule in a new rule set version; earlier results keep the version they were scored under</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Rule Type</Label>
+                      <Select value={ruleForm.ruleType} onValueChange={(value) => updateRuleForm("ruleType", value)}>
+                        <SelectTrigger data-testid="select-fraud-rule-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FRAUD_RULE_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{formatLabel(type)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fraud-rule-name">Name</Label>
+                      <Input
+                        id="fraud-rule-name"
+                        value={ruleForm.name}
+                        onChange={(e) => updateRuleForm("name", e.target.value)}
+                        placeholder="Shown as the issue description"
+                        data-testid="input-fraud-rule-name"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Document Type</Label>
+                      <Select value={ruleForm.documentType} onValueChange={(value) => updateRuleForm("documentType", value)}>
+                        <SelectTrigger data-testid="select-fraud-rule-document-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_DOCUMENT_TYPES}>All documents</SelectItem>
+                          {FRAUD_DOCUMENT_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{formatLabel(type)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {ruleForm.ruleType === "required_terms" ? (
+                      <>
+                        <div className="space-y-2">
+                          <Label htmlFor="fraud-rule-terms">Terms (comma separated)</Label>
+                          <Input
+                            id="fraud-rule-terms"
+                            value={ruleForm.terms}
+                            onChange={(e) => updateRuleForm("terms", e.target.value)}
+                            data-testid="input-fraud-rule-terms"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="fraud-rule-min-terms">Minimum Terms Present</Label>
+                          <Input
+                            id="fraud-rule-min-terms"
+                            type="number"
+                            min="1"
+                            value={ruleForm.minTermsPresent}
+                            onChange={(e) => updateRuleForm("minTermsPresent", e.target.value)}
+                            data-testid="input-fraud-rule-min-terms"
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="fraud-rule-pattern">Pattern (case-insensitive regex)</Label>
+                        <Input
+                          id="fraud-rule-pattern"
+                          className="font-mono"
+                          value={ruleForm.pattern}
+                          onChange={(e) => updateRuleForm("pattern", e.target.value)}
+                          data-testid="input-fraud-rule-pattern"
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label>Severity</Label>
+                      <Select value={ruleForm.severity} onValueChange={(value) => updateRuleForm("severity", value)}>
+                        <SelectTrigger data-testid="select-fraud-rule-severity">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FRAUD_SEVERITIES.map((severity) => (
+                            <SelectItem key={severity} value={severity}>{formatLabel(severity)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fraud-rule-weight">Weight (0-1)</Label>
+                      <Input
+                        id="fraud-rule-weight"
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={ruleForm.weight}
+                        onChange={(e) => updateRuleForm("weight", e.target.value)}
+                        data-testid="input-fraud-rule-weight"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="fraud-rule-summary">Change Summary</Label>
+                    <Textarea
+                      id="fraud-rule-summary"
+                      placeholder="Reason for the change..."
+                      value={ruleForm.changeSummary}
+                      onChange={(e) => updateRuleForm("changeSummary", e.target.value)}
+                      data-testid="input-fraud-rule-summary"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={saveRule} disabled={publishMutation.isPending} data-testid="button-save-fraud-rule">
+                      {publishMutation.isPending ? "Publishing..." : "Publish"}
+                    </Button>
+                    <Button variant="outline" onClick={() => setEditingRule(null)} data-testid="button-cancel-fraud-rule">
+                      Cancel
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="templates" className="space-y-4">
+            <Card data-testid="card-fraud-templates">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileCheck className="w-5 h-5" />
+                    Document Templates
+                  </CardTitle>
+                  <CardDescription>Fields expected on authentic documents, matched against extracted form fields</CardDescription>
+                </div>
+                <Button size="sm" onClick={() => startEditingTemplate("new")} data-testid="button-add-fraud-template">
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Template
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {templates.length === 0 ? (
+                  <p className="text-muted-foreground">No templates in this rule set</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Template</TableHead>
+                        <TableHead>Document Type</TableHead>
+                        <TableHead>Issuer</TableHead>
+                        <TableHead>Expected Fields</TableHead>
+                        <TableHead>Confidence</TableHead>
+                        <TableHead>Since</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {templates.map((template) => (
+                        <TableRow key={template.id} data-testid={`fraud-template-${template.id}`}>
+                          <TableCell className="font-medium">
+                            {template.templateName}
+                            <span className="text-xs text-muted-foreground ml-1">v{template.templateVersion}</span>
+                          </TableCell>
+                          <TableCell>{formatLabel(template.documentType)}</TableCell>
+                          <TableCell>{template.issuerName}</TableCell>
+                          <TableCell className="text-xs max-w-xs truncate">
+                            {((template.expectedFields as string[] | null) ?? []).join(", ")}
+                          </TableCell>
+                          <TableCell>{template.confidence ? parseFloat(template.confidence).toFixed(2) : "—"}</TableCell>
+                          <TableCell>v{template.introducedInVersion}</TableCell>
+                          <TableCell className="text-right space-x-2">
+                            <Button size="sm" variant="outline" onClick={() => startEditingTemplate(template)} data-testid={`button-edit-fraud-template-${template.id}`}>
+                              <Pencil className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={publishMutation.isPending}
+                              onClick={() => publishMutation.mutate({ method: "DELETE", url: `/api/admin/fraud-rules/templates/${template.id}`, action: "Template Removed" })}
+                              data-testid={`button-remove-fraud-template-${template.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {editingTemplate && (
+              <Card data-testid="card-edit-fraud-template">
+                <CardHeader>
+                  <CardTitle>{editingTemplate === "new" ? "New Template" : `Edit "${editingTemplate.templateName}"`}</CardTitle>
+                  <CardDescription>Saving replaces the template in a new rule set version</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="fraud-template-name">Template Name</Label>
+                      <Input
+                        id="fraud-template-name"
+                        value={templateForm.templateName}
+                        onChange={(e) => updateTemplateForm("templateName", e.target.value)}
+                        data-testid="input-fraud-template-name"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Document Type</Label>
+                      <Select value={templateForm.documentType} onValueChange={(value) => updateTemplateForm("documentType", value)}>
+                        <SelectTrigger data-testid="select-fraud-template-document-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FRAUD_DOCUMENT_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>{formatLabel(type)}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fraud-template-issuer">Issuer</Label>
+                      <Input
+                        id="fraud-template-issuer"
+                        value={templateForm.issuerName}
+                        onChange={(e) => updateTemplateForm("issuerName", e.target.value)}
+                        data-testid="input-fraud-template-issuer"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fraud-template-version">Template Version</Label>
+                      <Input
+                        id="fraud-template-version"
+                        value={templateForm.templateVersion}
+                        onChange={(e) => updateTemplateForm("templateVersion", e.target.value)}
+                        data-testid="input-fraud-template-version"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fraud-template-fields">Expected Fields (comma separated)</Label>
+                      <Input
+                        id="fraud-template-fields"
+                        value={templateForm.expectedFields}
+                        onChange={(e) => updateTemplateForm("expectedFields", e.target.value)}
+                        data-testid="input-fraud-template-fields"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fraud-template-security">Security Features (comma separated)</Label>
+                      <Input
+                        id="fraud-template-security"
+                        value={templateForm.securityFeatures}
+                        onChange={(e) => updateTemplateForm("securityFeatures", e.target.value)}
+                        data-testid="input-fraud-template-security"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="fraud-template-confidence">Confidence (0-1)</Label>
+                      <Input
+                        id="fraud-template-confidence"
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.05"
+                        value={templateForm.confidence}
+                        onChange={(e) => updateTemplateForm("confidence", e.target.value)}
+                        data-testid="input-fraud-template-confidence"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="fraud-template-summary">Change Summary</Label>
+                    <Textarea
+                      id="fraud-template-summary"
+                      placeholder="Reason for the change..."
+                      value={templateForm.changeSummary}
+                      onChange={(e) => updateTemplateForm("changeSummary", e.target.value)}
+                      data-testid="input-fraud-template-summary"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={saveTemplate} disabled={publishMutation.isPending} data-testid="button-save-fraud-template">
+                      {publishMutation.isPending ? "Publishing..." : "Publish"}
+                    </Button>
+                    <Button variant="outline" onClick={() => setEditingTemplate(null)} data-testid="button-cancel-fraud-template">
+                      Cancel
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="blacklist" className="space-y-4">
+            <Card data-testid="card-fraud-blacklist">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Ban className="w-5 h-5" />
+                  Serial and Issuer Blacklists
+                </CardTitle>
+                <CardDescription>Serial numbers match exactly; issuers match anywhere in the extracted issuer name</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-col md:flex-row gap-2">
+                  <Select value={blacklistForm.listType} onValueChange={(value) => setBlacklistForm((current) => ({ ...current, listType: value }))}>
+                    <SelectTrigger className="md:w-40" data-testid="select-fraud-blacklist-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FRAUD_BLACKLIST_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>{formatLabel(type)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder={blacklistForm.listType === "serial" ? "Serial number" : "Issuer name"}
+                    value={blacklistForm.value}
+                    onChange={(e) => setBlacklistForm((current) => ({ ...current, value: e.target.value }))}
+                    data-testid="input-fraud-blacklist-value"
+                  />
+                  <Input
+                    placeholder="Reason (optional)"
+                    value={blacklistForm.reason}
+                    onChange={(e) => setBlacklistForm((current) => ({ ...current, reason: e.target.value }))}
+                    data-testid="input-fraud-blacklist-reason"
+                  />
+                  <Button
+                    onClick={addBlacklistEntry}
+                    disabled={!blacklistForm.value.trim() || publishMutation.isPending}
+                    data-testid="button-add-fraud-blacklist"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+
+                {blacklist.length === 0 ? (
+                  <p className="text-muted-foreground">No blacklist entries in this rule set</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Since</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {blacklist.map((entry) => (
+                        <TableRow key={entry.id} data-testid={`fraud-blacklist-${entry.id}`}>
+                          <TableCell>
+                            <Badge variant="outline">{formatLabel(entry.listType)}</Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{entry.value}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{entry.reason || "—"}</TableCell>
+                          <TableCell>v{entry.introducedInVersion}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={publishMutation.isPending}
+                              onClick={() => publishMutation.mutate({ method: "DELETE", url: `/api/admin/fraud-rules/blacklist/${entry.id}`, action: "Blacklist Entry Removed" })}
+                              data-testid={`button-remove-fraud-blacklist-${entry.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-4">
+            <Card data-testid="card-fraud-rule-history">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <History className="w-5 h-5" />
+                  Rule Set Versions
+                </CardTitle>
+                <CardDescription>Fraud detection results record the version they were scored under</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {versions.length === 0 ? (
+                  <p className="text-muted-foreground">No versions published yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Version</TableHead>
+                        <TableHead>Change</TableHead>
+                        <TableHead>Published By</TableHead>
+                        <TableHead>Published</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {versions.map((version) => (
+                        <TableRow key={version.id} data-testid={`fraud-rule-set-version-${version.version}`}>
+                          <TableCell>v{version.version}</TableCell>
+                          <TableCell>{version.changeSummary}</TableCell>
+                          <TableCell>{version.createdBy || "—"}</TableCell>
+                          <TableCell className="text-xs">{formatDate(version.createdAt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { getAdminQueryFn, adminApiRequest } from "@/lib/queryClient";
+import { LOAN_POLICY_CATEGORIES, MAX_LOAN_TERM_DAYS, type LoanPolicy } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Scale, History, Pencil } from "lucide-react";
+
+interface LoanPoliciesResponse {
+  policies: LoanPolicy[];
+  effective: Record<string, LoanPolicy | null>;
+}
+
+interface PolicyForm {
+  ltvPercent: string;
+  termDays: string;
+  feeAmount: string;
+  maxPrincipal: string;
+  effectiveFrom: string;
+  notes: string;
+}
+
+const formatCategory = (category: string) =>
+  category.split("_").map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+const formatDate = (date: string | Date | null) =>
+  date ? new Date(date).toLocaleString("en-US", { month: "short", day: "numeric", year: "numeric", hour: "2-digit", minute: "2-digit" }) : "—";
+
+// datetime-local inputs take local time without a timezone suffix
+const toLocalInputValue = (date: Date) => {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+const formFromPolicy = (policy: LoanPolicy | null): PolicyForm => ({
+  ltvPercent: policy ? (parseFloat(policy.ltvRatio) * 100).toString() : "70",
+  termDays: policy ? policy.termDays.toString() : "90",
+  feeAmount: policy ? policy.feeAmount : "2.00",
+  maxPrincipal: policy ? policy.maxPrincipal : "5000000.00",
+  effectiveFrom: toLocalInputValue(new Date()),
+  notes: "",
+});
+
+export default function LoanPolicies() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [historyCategory, setHistoryCategory] = useState<string | null>(null);
+  const [form, setForm] = useState<PolicyForm>(formFromPolicy(null));
+
+  const { data, isLoading } = useQuery<LoanPoliciesResponse>({
+    queryKey: ["/api/admin/loan-policies"],
+    queryFn: getAdminQueryFn({ on401: "throw" }),
+  });
+
+  const createPolicyMutation = useMutation({
+    mutationFn: async ({ category, form }: { category: string; form: PolicyForm }) => {
+      const response = await adminApiRequest('POST', '/api/admin/loan-policies', {
+        category,
+        ltvRatio: parseFloat(form.ltvPercent) / 100,
+        termDays: parseInt(form.termDays, 10),
+        feeAmount: form.feeAmount,
+        maxPrincipal: form.maxPrincipal,
+        effectiveFrom: new Date(form.effectiveFrom).toISOString(),
+        notes: form.notes || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (policy: LoanPolicy) => {
+      toast({
+        title: "Policy Published",
+        description: `${formatCategory(policy.category)} policy v${policy.version} takes effect ${formatDate(policy.effectiveFrom)}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/loan-policies"] });
+      setEditingCategory(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Publish Policy",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (category: string) => {
+    setForm(formFromPolicy(data?.effective[category] ?? null));
+    setEditingCategory(category);
+  };
+
+  const updateForm = (field: keyof PolicyForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+  };
+
+  const policies = data?.policies ?? [];
+  const history = historyCategory ? policies.filter((policy) => policy.category === historyCategory) : [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-white">Loan Policies</h2>
+        <p className="text-muted-foreground">
+          Loan-to-value, term and fee limits per asset category. Changes publish a new version; existing loans keep the version they were created under.
+        </p>
+      </div>
+
+      <Card data-testid="card-loan-policies">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="w-5 h-5" />
+            Policies in Effect
+          </CardTitle>
+          <CardDescription>Applied when a submission is approved and its loan is created</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading policies...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>LTV</TableHead>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Fee</TableHead>
+                  <TableHead>Max Principal</TableHead>
+                  <TableHead>Effective Since</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {LOAN_POLICY_CATEGORIES.map((category) => {
+                  const policy = data?.effective[category] ?? null;
+                  return (
+                    <TableRow key={category} data-testid={`loan-policy-${category}`}>
+                      <TableCell className="font-medium">{formatCategory(category)}</TableCell>
+                      <TableCell>
+                        {policy ? <Badge variant="outline">v{policy.version}</Badge> : <Badge variant="destructive">None</Badge>}
+                      </TableCell>
+                      <TableCell>{policy ? `${(parseFloat(policy.ltvRatio) * 100).toFixed(1)}%` : "—"}</TableCell>
+                      <TableCell>{policy ? `${policy.termDays} days` : "—"}</TableCell>
+                      <TableCell>{policy ? `$${parseFloat(policy.feeAmount).toFixed(2)}` : "—"}</TableCell>
+                      <TableCell>{policy ? `$${parseFloat(policy.maxPrincipal).toLocaleString()}` : "—"}</TableCell>
+                      <TableCell>{policy ? formatDate(policy.effectiveFrom) : "—"}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setHistoryCategory(historyCategory === category ? null : category)}
+                          data-testid={`button-policy-history-${category}`}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => startEditing(category)}
+                          data-testid={`button-edit-policy-${category}`}
+                        >
+                          <Pencil className="w-4 h-4 mr-1" />
+                          New Version
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {editingCategory && (
+        <Card data-testid="card-edit-loan-policy">
+          <CardHeader>
+            <CardTitle>New {formatCategory(editingCategory)} Policy Version</CardTitle>
+            <CardDescription>The current version is closed when this one takes effect</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="policy-ltv">Loan-to-Value (%)</Label>
+                <Input
+                  id="policy-ltv"
+                  type="number"
+                  min="1"
+                  max="95"
+                  step="0.5"
+                  value={form.ltvPercent}
+                  onChange={(e) => updateForm("ltvPercent", e.target.value)}
+                  data-testid="input-policy-ltv"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-term">Term (days)</Label>
+                <Input
+                  id="policy-term"
+                  type="number"
+                  min="7"
+                  max={MAX_LOAN_TERM_DAYS}
+                  value={form.termDays}
+                  onChange={(e) => updateForm("termDays", e.target.value)}
+                  data-testid="input-policy-term"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-fee">Origination Fee ($)</Label>
+                <Input
+                  id="policy-fee"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.feeAmount}
+                  onChange={(e) => updateForm("feeAmount", e.target.value)}
+                  data-testid="input-policy-fee"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-max-principal">Maximum Principal ($)</Label>
+                <Input
+                  id="policy-max-principal"
+                  type="number"
+                  min="10"
+                  step="0.01"
+                  value={form.maxPrincipal}
+                  onChange={(e) => updateForm("maxPrincipal", e.target.value)}
+                  data-testid="input-policy-max-principal"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="policy-effective-from">Effective From</Label>
+                <Input
+                  id="policy-effective-from"
+                  type="datetime-local"
+                  value={form.effectiveFrom}
+                  onChange={(e) => updateForm("effectiveFrom", e.target.value)}
+                  data-testid="input-policy-effective-from"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="policy-notes">Notes</Label>
+              <Textarea
+                id="policy-notes"
+                placeholder="Reason for the change..."
+                value={form.notes}
+                onChange={(e) => updateForm("notes", e.target.value)}
+                data-testid="input-policy-notes"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                onClick={() => createPolicyMutation.mutate({ category: editingCategory, form })}
+                disabled={createPolicyMutation.isPending}
+                data-testid="button-publish-policy"
+              >
+                {createPolicyMutation.isPending ? "Publishing..." : "Publish Version"}
+              </Button>
+              <Button variant="outline" onClick={() => setEditingCategory(null)} data-testid="button-cancel-policy">
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {historyCategory && (
+        <Card data-testid="card-loan-policy-history">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              {formatCategory(historyCategory)} Version History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-muted-foreground">No versions published yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>LTV</TableHead>
+                    <TableHead>Term</TableHead>
+                    <TableHead>Fee</TableHead>
+                    <TableHead>Max Principal</TableHead>
+                    <TableHead>Effective</TableHead>
+                    <TableHead>Created By</TableHead>
+                    <TableHead>Notes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((policy) => (
+                    <TableRow key={policy.id} data-testid={`loan-policy-version-${policy.id}`}>
+                      <TableCell>v{policy.version}</TableCell>
+                      <TableCell>{(parseFloat(policy.ltvRatio) * 100).toFixed(1)}%</TableCell>
+                      <TableCell>{policy.termDays} days</TableCell>
+                      <TableCell>${parseFloat(policy.feeAmount).toFixed(2)}</TableCell>
+                      <TableCell>${parseFloat(policy.maxPrincipal).toLocaleString()}</TableCell>
+                      <TableCell className="text-xs">
+                        {formatDate(policy.effectiveFrom)} → {policy.effectiveTo ? formatDate(policy.effectiveTo) : "open"}
+                      </TableCell>
+                      <TableCell>{policy.createdBy || "—"}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{policy.notes || "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Clock, FileText, CheckCircle, ExternalLink, Wallet, MessageSquare } from "lucide-react";
-import type { PawnLoan, RwaSubmission } from "@shared/schema";
+import { useState } from "react";
+import { useQuery, useQueries, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Clock, FileText, CheckCircle, ExternalLink, Wallet, MessageSquare, CalendarPlus, Coins, ChevronDown, ChevronUp } from "lucide-react";
+import { LOAN_EXTENSION_DAYS, MAX_LOAN_EXTENSIONS } from "@shared/schema";
+import type { PawnLoan, RwaSubmission, LoanPayoffQuote, LoanExtensionQuote, LoanPayment, LoanRepaymentSchedule } from "@shared/schema";
 
 // Extended type for pawn loans with submission details
 type PawnLoanWithSubmission = PawnLoan & {
@@ -8,11 +10,18 @@ type PawnLoanWithSubmission = PawnLoan & {
   category: string;
 };
 
+interface LoanPaymentsResponse {
+  schedule: LoanRepaymentSchedule | null;
+  payments: LoanPayment[];
+}
+
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/useAuth";
 import { useICPWallet } from "@/hooks/useICPWallet";
+import { useLoanRedemption } from "@/hooks/useLoanRedemption";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import CountdownTimer from "@/components/countdown-timer";
@@ -23,6 +32,8 @@ export default function ActivePawns() {
   const { wallet, sendTransaction } = useICPWallet();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [paymentAmounts, setPaymentAmounts] = useState<Record<string, string>>({});
+  const [expandedSchedules, setExpandedSchedules] = useState<Record<string, boolean>>({});
 
   // Fetch pending RWA submissions
   const { data: submissions = [], isLoading: submissionsLoading } = useQuery<RwaSubmission[]>({
@@ -36,55 +47,166 @@ export default function ActivePawns() {
     enabled: isAuthenticated && !!user?.id,
   });
 
-  const redeemMutation = useMutation({
-    mutationFn: async ({ pawnId, loanAmount }: { pawnId: string; loanAmount: string }) => {
+  // Live payoff quotes (principal + accrued interest + fees) for active loans
+  const activePawnIds = pawns.filter(p => p.status === 'active').map(p => p.id);
+  const payoffQuotes = useQueries({
+    queries: activePawnIds.map((pawnId) => ({
+      queryKey: ["/api/pawn-loans", pawnId, "payoff-quote"],
+      refetchInterval: 60000,
+      staleTime: 30000,
+    })),
+  });
+  const quotesByPawn = new Map<string, LoanPayoffQuote>();
+  payoffQuotes.forEach((result) => {
+    const quote = result.data as LoanPayoffQuote | undefined;
+    if (quote) quotesByPawn.set(quote.loanId, quote);
+  });
+
+  // Repayment schedule and payment history for active loans
+  const loanPayments = useQueries({
+    queries: activePawnIds.map((pawnId) => ({
+      queryKey: ["/api/pawn-loans", pawnId, "payments"],
+      staleTime: 30000,
+    })),
+  });
+  const paymentsByPawn = new Map<string, LoanPaymentsResponse>();
+  loanPayments.forEach((result, index) => {
+    const data = result.data as LoanPaymentsResponse | undefined;
+    if (data) paymentsByPawn.set(activePawnIds[index], data);
+  });
+
+  const redeemMutation = useLoanRedemption();
+
+  const extendMutation = useMutation({
+    mutationFn: async ({ pawnId }: { pawnId: string }) => {
+      // Create the extension_fee payment - waived fees are extended straight away
+      const extendResponse = await apiRequest('POST', `/api/pawn-loans/${pawnId}/extend`);
+      const extension: {
+        extended: boolean;
+        loan?: PawnLoan;
+        quote: LoanExtensionQuote;
+        transaction: { id: string };
+        payment?: { recipientAccountId: string; memo: string; amountICP: number };
+      } = await extendResponse.json();
+
+      if (extension.extended || !extension.payment) {
+        return extension.loan;
+      }
+
       if (!wallet) {
-        throw new Error('Please connect your ICP wallet to redeem assets');
+        throw new Error('Please connect your ICP wallet to pay the extension fee');
       }
 
-      const amount = parseFloat(loanAmount);
-      if (wallet.balance < (amount + 0.0001)) {
-        throw new Error(`Insufficient balance. You need ${amount + 0.0001} ICP (including transaction fee) to redeem this asset.`);
+      if (wallet.balance < (extension.payment.amountICP + 0.0001)) {
+        throw new Error(`Insufficient balance. You need ${extension.payment.amountICP + 0.0001} ICP (including transaction fee) to extend this loan.`);
       }
 
-      // Get secure payment intent from backend
-      const paymentIntentResponse = await apiRequest('POST', '/api/payment-intents', {
-        type: 'redemption_payment',
-        amount: loanAmount,
-        metadata: { pawnId }
+      await sendTransaction(
+        extension.payment.recipientAccountId,
+        extension.payment.amountICP,
+        'extension_fee',
+        extension.payment.memo
+      );
+
+      // Expiry only moves once the backend has verified the payment on the ICP ledger
+      const confirmResponse = await apiRequest('POST', `/api/pawn-loans/${pawnId}/extend/confirm`, {
+        transactionId: extension.transaction.id
+      });
+      const confirmed: { loan: PawnLoan } = await confirmResponse.json();
+      return confirmed.loan;
+    },
+    onSuccess: (loan) => {
+      toast({
+        title: "Loan Extended",
+        description: loan
+          ? `Your loan now expires on ${new Date(loan.expiryDate).toLocaleDateString()}.`
+          : `Your loan has been extended by ${LOAN_EXTENSION_DAYS} days.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/pawn-loans/user", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pawn-loans"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Extension Failed",
+        description: error.message,
+        variant: "destructive",
       });
-      const paymentIntent = await paymentIntentResponse.json();
+    },
+  });
 
-      // Send redemption payment using secure recipient
-      await sendTransaction(
-        paymentIntent.recipient,
-        amount,
-        'redemption_payment',
-        paymentIntent.memo
+  const paymentMutation = useMutation({
+    mutationFn: async ({ pawnId, amount }: { pawnId: string; amount: number }) => {
+      if (!wallet) {
+        throw new Error('Please connect your ICP wallet to make a payment');
+      }
+
+      if (wallet.balance < (amount + 0.0001)) {
+        throw new Error(`Insufficient balance. You need ${amount + 0.0001} ICP (including transaction fee) for this payment.`);
+      }
+
+      const intentResponse = await apiRequest('POST', `/api/pawn-loans/${pawnId}/payments/intent`, { amount });
+      const intent: {
+        transaction: { id: string };
+        payment: { recipientAccountId: string; memo: string; amountICP: number };
+      } = await intentResponse.json();
+
+      const sent = await sendTransaction(
+        intent.payment.recipientAccountId,
+        intent.payment.amountICP,
+        'loan_repayment',
+        intent.payment.memo
       );
 
-      // Update pawn status via API
-      const response = await apiRequest('PATCH', `/api/pawn-loans/${pawnId}/redeem`, {});
-      return response.json();
+      if (!sent?.blockHeight) {
+        throw new Error('Payment was sent but no ledger block was returned - please contact support');
+      }
+
+      // The balance only drops once the backend has verified the transfer at this ledger block
+      const response = await apiRequest('POST', `/api/pawn-loans/${pawnId}/payments`, {
+        transactionId: intent.transaction.id,
+        blockHeight: sent.blockHeight
+      });
+      return response.json() as Promise<{ loan: PawnLoan; payment: LoanPayment; redeemed: boolean }>;
     },
-    onSuccess: () => {
+    onSuccess: (result, variables) => {
       toast({
-        title: "Asset Redeemed",
-        description: "Your asset has been successfully redeemed!",
+        title: result.redeemed ? "Loan Repaid" : "Payment Received",
+        description: result.redeemed
+          ? "Your loan is fully repaid and your asset has been redeemed!"
+          : `Outstanding principal is now ${parseFloat(result.payment.principalAfter).toLocaleString()} ICP.`,
       });
+      setPaymentAmounts((current) => ({ ...current, [variables.pawnId]: "" }));
       queryClient.invalidateQueries({ queryKey: ["/api/pawn-loans/user", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pawn-loans"] });
     },
     onError: (error) => {
       toast({
-        title: "Redemption Failed",
+        title: "Payment Failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 
-  const handleRedeemAsset = (pawnId: string, loanAmount: string) => {
-    redeemMutation.mutate({ pawnId, loanAmount });
+  const handleMakePayment = (pawnId: string) => {
+    const amount = parseFloat(paymentAmounts[pawnId] ?? "");
+    if (isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Invalid Amount",
+        description: "Enter the amount you want to repay.",
+        variant: "destructive",
+      });
+      return;
+    }
+    paymentMutation.mutate({ pawnId, amount });
+  };
+
+  const handleRedeemAsset = (pawnId: string) => {
+    redeemMutation.mutate(pawnId);
+  };
+
+  const handleExtendLoan = (pawnId: string) => {
+    extendMutation.mutate({ pawnId });
   };
 
   const isLoading = submissionsLoading || pawnsLoading;
@@ -256,6 +378,14 @@ export default function ActivePawns() {
             const now = new Date();
             const daysRemaining = Math.ceil((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
             const isExpiringSoon = daysRemaining <= 7;
+            const quote = quotesByPawn.get(pawn.id);
+            const amountOwed = parseFloat(quote?.totalDue ?? pawn.loanAmount);
+            const extensionsUsed = pawn.extensionCount ?? 0;
+            const canExtend = pawn.status === 'active' && daysRemaining > 0 && extensionsUsed < MAX_LOAN_EXTENSIONS;
+            const outstandingPrincipal = parseFloat(pawn.loanAmount) - parseFloat(pawn.principalRepaid ?? "0");
+            const extensionFee = outstandingPrincipal * 0.01;
+            const repayments = paymentsByPawn.get(pawn.id);
+            const isScheduleOpen = !!expandedSchedules[pawn.id];
 
             return (
               <Card
@@ -295,15 +425,161 @@ export default function ActivePawns() {
                   </div>
                 </div>
 
+                {quote && (
+                  <div className="mb-4 p-3 bg-muted/50 border border-border rounded text-xs sm:text-sm" data-testid={`pawn-payoff-${pawn.id}`}>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="text-muted-foreground">Amount Owed Today:</span>
+                      <span className="font-semibold text-sm sm:text-base" data-testid={`pawn-amount-owed-${pawn.id}`}>
+                        {parseFloat(quote.totalDue).toLocaleString(undefined, { minimumFractionDigits: 2 })} {quote.currency}
+                      </span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      Principal {parseFloat(quote.principal).toLocaleString()} + interest {quote.accruedInterest} ({quote.interestDays} {quote.interestDays === 1 ? 'day' : 'days'}) + fees {quote.fees}
+                    </div>
+                    {quote.waiver.applied && (
+                      <div className="text-green-600 dark:text-green-400 mt-1">
+                        {quote.waiver.amount} waived{quote.waiver.reason ? ` - ${quote.waiver.reason}` : ''}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <CountdownTimer
                   expiryDate={expiryDate}
+                  startDate={pawn.startDate ? new Date(pawn.startDate) : undefined}
                   isExpiringSoon={isExpiringSoon}
                   pawnId={pawn.id}
                 />
 
+                <div className="flex justify-between items-center text-xs sm:text-sm text-muted-foreground">
+                  <span data-testid={`pawn-expiry-${pawn.id}`}>
+                    Expires {expiryDate.toLocaleDateString()}
+                  </span>
+                  <span data-testid={`pawn-extensions-${pawn.id}`}>
+                    Extensions used: {extensionsUsed} of {MAX_LOAN_EXTENSIONS}
+                  </span>
+                </div>
+
+                {pawn.status === 'active' && (
+                  <div className="mt-4 p-3 border border-border rounded space-y-3 text-xs sm:text-sm" data-testid={`pawn-repayment-${pawn.id}`}>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Outstanding Principal:</span>
+                      <span className="font-medium" data-testid={`pawn-outstanding-${pawn.id}`}>
+                        {outstandingPrincipal.toLocaleString(undefined, { minimumFractionDigits: 2 })} ICP
+                      </span>
+                    </div>
+                    {parseFloat(pawn.principalRepaid ?? "0") > 0 && (
+                      <div className="flex justify-between items-center text-green-600 dark:text-green-400">
+                        <span>Principal Repaid:</span>
+                        <span>{parseFloat(pawn.principalRepaid).toLocaleString(undefined, { minimumFractionDigits: 2 })} ICP</span>
+                      </div>
+                    )}
+
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="Amount (ICP)"
+                        value={paymentAmounts[pawn.id] ?? ""}
+                        onChange={(e) => setPaymentAmounts((current) => ({ ...current, [pawn.id]: e.target.value }))}
+                        className="h-10"
+                        data-testid={`input-payment-amount-${pawn.id}`}
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => handleMakePayment(pawn.id)}
+                        disabled={paymentMutation.isPending || !wallet}
+                        className="h-10 whitespace-nowrap"
+                        data-testid={`button-make-payment-${pawn.id}`}
+                      >
+                        <Coins className="mr-2 h-4 w-4" />
+                        {paymentMutation.isPending && paymentMutation.variables?.pawnId === pawn.id ? "Processing..." : "Make Payment"}
+                      </Button>
+                    </div>
+
+                    {repayments && (
+                      <button
+                        type="button"
+                        onClick={() => setExpandedSchedules((current) => ({ ...current, [pawn.id]: !isScheduleOpen }))}
+                        className="flex items-center gap-1 text-primary"
+                        data-testid={`button-toggle-schedule-${pawn.id}`}
+                      >
+                        {isScheduleOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        Repayment schedule &amp; history
+                      </button>
+                    )}
+
+                    {repayments && isScheduleOpen && (
+                      <div className="space-y-3">
+                        {repayments.schedule && repayments.schedule.installments.length > 0 && (
+                          <div>
+                            <span className="text-muted-foreground block mb-1">Suggested schedule:</span>
+                            <div className="space-y-1">
+                              {repayments.schedule.installments.map((installment) => (
+                                <div
+                                  key={installment.number}
+                                  className="flex justify-between bg-muted/50 px-2 py-1 rounded"
+                                  data-testid={`pawn-installment-${pawn.id}-${installment.number}`}
+                                >
+                                  <span>#{installment.number} · due {new Date(installment.dueDate).toLocaleDateString()}</span>
+                                  <span className="font-medium">
+                                    {installment.total} {repayments.schedule!.currency}
+                                    <span className="text-muted-foreground font-normal ml-1">(balance {installment.balanceAfter})</span>
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        <div>
+                          <span className="text-muted-foreground block mb-1">Payment history:</span>
+                          {repayments.payments.length === 0 ? (
+                            <p className="text-muted-foreground">No payments yet.</p>
+                          ) : (
+                            <div className="space-y-1">
+                              {repayments.payments.map((payment) => (
+                                <div
+                                  key={payment.id}
+                                  className="flex justify-between bg-muted/50 px-2 py-1 rounded"
+                                  data-testid={`pawn-payment-${payment.id}`}
+                                >
+                                  <span>{payment.createdAt ? new Date(payment.createdAt).toLocaleDateString() : ''}</span>
+                                  <span>
+                                    <span className="font-medium">{payment.amount} ICP</span>
+                                    <span className="text-muted-foreground ml-1">
+                                      (principal {payment.principalPortion}, interest {payment.interestPortion}, fees {payment.feesPortion})
+                                    </span>
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {canExtend && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleExtendLoan(pawn.id)}
+                    disabled={extendMutation.isPending}
+                    className="w-full mt-4 h-11 sm:h-10 text-sm"
+                    data-testid={`button-extend-${pawn.id}`}
+                  >
+                    <CalendarPlus className="mr-2 h-4 w-4" />
+                    {extendMutation.isPending
+                      ? "Processing..."
+                      : `Extend ${LOAN_EXTENSION_DAYS} Days (${extensionFee.toFixed(2)} ICP fee)`}
+                  </Button>
+                )}
+
                 <Button
-                  onClick={() => handleRedeemAsset(pawn.id, pawn.loanAmount)}
-                  disabled={redeemMutation.isPending || !wallet || wallet.balance < parseFloat(pawn.loanAmount)}
+                  onClick={() => handleRedeemAsset(pawn.id)}
+                  disabled={redeemMutation.isPending || !wallet || wallet.balance < amountOwed}
                   className={`w-full mt-4 h-11 sm:h-10 text-sm ${
                     isExpiringSoon
                       ? "bg-destructive hover:bg-destructive/90 text-destructive-foreground"
@@ -315,7 +591,7 @@ export default function ActivePawns() {
                     ? "Processing..."
                     : !wallet
                     ? "Connect Wallet"
-                    : wallet.balance < parseFloat(pawn.loanAmount)
+                    : wallet.balance < amountOwed
                     ? "Insufficient Balance"
                     : isExpiringSoon
                     ? "Redeem Now"
@@ -16,7 +16,8 @@ import {
   Users,
   TrendingUp,
   Shield,
-  Zap
+  Activity,
+  Inbox
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
@@ -27,10 +28,14 @@ interface QueueItem {
   id: string;
   documentId: string;
   priority: number;
-  retryCount: number;
-  maxRetries: number;
-  status: 'pending' | 'processing' | 'failed';
-  errorMessage?: string;
+  attempts: number;
+  maxAttempts: number;
+  queueStatus: 'queued' | 'retrying' | 'processing' | 'dead_letter';
+  lastError?: string | null;
+  nextRetryAt?: string | null;
+  processingNode?: string | null;
+  heartbeatAt?: string | null;
+  deadLetteredAt?: string | null;
   createdAt: string;
   document: {
     id: string;
@@ -38,7 +43,28 @@ interface QueueItem {
     documentType: string;
     analysisStatus: string;
     submissionId: string;
-  };
+  } | null;
+}
+
+interface QueueStats {
+  queued: number;
+  retrying: number;
+  processing: number;
+  deadLetter: number;
+  oldestQueuedAt: string | null;
+  completedLastHour: number;
+  failedLastHour: number;
+  avgProcessingSeconds: number | null;
+}
+
+interface WorkerStatus {
+  workerId: string;
+  running: boolean;
+  concurrency: number;
+  active: Array<{ queueId: string; documentId: string; attempt: number; startedAt: string }>;
+  completed: number;
+  failed: number;
+  leasesLost: number;
 }
 
 interface DocumentStats {
@@ -85,7 +111,7 @@ export default function AdminDocumentQueue() {
     refetchInterval: 10000, // Auto-refresh every 10 seconds
   });
 
-  // Process single document mutation
+  // Process a waiting document now, skipping any retry backoff
   const processMutation = useMutation({
     mutationFn: async (queueId: string) => {
       const response = await apiRequest('POST', `/api/admin/documents/queue/${queueId}/process`);
@@ -94,7 +120,7 @@ export default function AdminDocumentQueue() {
     onSuccess: () => {
       toast({
         title: "Processing Started",
-        description: "Document processing has been initiated",
+        description: "The next free worker will pick up this document",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/documents/queue'] });
     },
@@ -107,87 +133,38 @@ export default function AdminDocumentQueue() {
     },
   });
 
-  // Batch analyze mutation
-  const batchMutation = useMutation({
-    mutationFn: async (documentIds: string[]) => {
-      const response = await apiRequest('POST', '/api/admin/documents/batch-analyze', { documentIds });
+  // Replay a dead-lettered document with a fresh set of attempts
+  const replayMutation = useMutation({
+    mutationFn: async (queueId: string) => {
+      const response = await apiRequest('POST', `/api/admin/documents/queue/${queueId}/replay`);
       return await response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: () => {
       toast({
-        title: "Batch Analysis Started",
-        description: `Processing ${data.processed?.length || 0} documents`,
+        title: "Document Replayed",
+        description: "The document is back in the queue",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/admin/documents/queue'] });
     },
     onError: (error: any) => {
       toast({
-        title: "Batch Analysis Failed",
-        description: error.message || "Failed to start batch analysis",
+        title: "Replay Failed",
+        description: error.message || "Failed to replay document",
         variant: "destructive",
       });
     },
   });
 
-  // Get status badge for queue items
-  const getStatusBadge = (status: string) => {
-    const badges = {
-      pending: { variant: "secondary" as const, icon: Clock, text: "Pending" },
-      processing: { variant: "outline" as const, icon: Clock, text: "Processing" },
-      failed: { variant: "destructive" as const, icon: AlertTriangle, text: "Failed" },
-    };
-    
-    const config = badges[status as keyof typeof badges] || badges.pending;
-    const Icon = config.icon;
-    
-    return (
-      <Badge variant={config.variant}>
-        <Icon className="w-3 h-3 mr-1" />
-        {config.text}
-      </Badge>
-    );
-  };
-
-  // Get priority badge
-  const getPriorityBadge = (priority: number) => {
-    const variants = {
-      1: { variant: "default" as const, text: "Low" },
-      2: { variant: "secondary" as const, text: "Medium" }, 
-      3: { variant: "destructive" as const, text: "High" },
-    };
-    
-    const config = variants[priority as keyof typeof variants] || variants[1];
-    
-    return (
-      <Badge variant={config.variant}>
-        {config.text} Priority
-      </Badge>
-    );
-  };
-
-  // Handle batch processing
-  const handleBatchProcess = () => {
-    const pendingDocuments = queueData?.queue
-      ?.filter((item: QueueItem) => item.status === 'pending')
-      ?.map((item: QueueItem) => item.documentId) || [];
-      
-    if (pendingDocuments.length === 0) {
-      toast({
-        title: "No Documents to Process",
-        description: "There are no pending documents in the queue",
-        variant: "default",
-      });
-      return;
-    }
-    
-    batchMutation.mutate(pendingDocuments);
-  };
-
   const stats: DocumentStats = statsData;
   const queue: QueueItem[] = queueData?.queue || [];
+  const queueStats: QueueStats | undefined = queueData?.stats;
+  const workers: WorkerStatus | undefined = queueData?.workers;
   const totalPending = queueData?.totalPending || 0;
   const totalProcessing = queueData?.totalProcessing || 0;
-  const totalFailed = queueData?.totalFailed || 0;
+  const totalDeadLetter = queueData?.totalDeadLetter || 0;
+  const oldestWaitMinutes = queueStats?.oldestQueuedAt
+    ? Math.max(0, Math.round((Date.now() - new Date(queueStats.oldestQueuedAt).getTime()) / 60000))
+    : null;
 
   return (
     <div className="space-y-6" data-testid="admin-document-queue">
@@ -212,11 +189,14 @@ export default function AdminDocumentQueue() {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-gray-600">Queue Status</p>
+                  <p className="text-sm text-gray-600">Queue Depth</p>
                   <p className="text-2xl font-bold" data-testid="stat-queue-pending">
                     {totalPending}
                   </p>
-                  <p className="text-xs text-gray-500">Pending</p>
+                  <p className="text-xs text-gray-500" data-testid="stat-queue-oldest">
+                    {queueStats?.retrying ? `${queueStats.retrying} retrying · ` : ''}
+                    {oldestWaitMinutes !== null ? `oldest ${oldestWaitMinutes}m` : 'Nothing waiting'}
+                  </p>
                 </div>
                 <Clock className="w-8 h-8 text-yellow-500" />
               </div>
@@ -242,11 +222,16 @@ export default function AdminDocumentQueue() {
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-gray-600">Avg Processing</p>
-                  <p className="text-2xl font-bold" data-testid="stat-avg-processing">
-                    {Math.round(stats.documents.avg_processing_time || 0)}s
+                  <p className="text-sm text-gray-600">Throughput</p>
+                  <p className="text-2xl font-bold" data-testid="stat-throughput">
+                    {queueStats?.completedLastHour || 0}/h
+                  </p>
+                  <p className="text-xs text-gray-500" data-testid="stat-avg-processing">
+                    {queueStats?.avgProcessingSeconds != null
+                      ? `${Math.round(queueStats.avgProcessingSeconds)}s per document`
+                      : `${Math.round(stats.documents.avg_processing_time || 0)}s per document`}
+                    {queueStats?.failedLastHour ? ` · ${queueStats.failedLastHour} failed` : ''}
                   </p>
-                  <p className="text-xs text-gray-500">Per Document</p>
                 </div>
                 <TrendingUp className="w-8 h-8 text-green-500" />
               </div>
@@ -266,18 +251,14 @@ export default function AdminDocumentQueue() {
                   <Users className="w-5 h-5" />
                   Document Queue ({queue.length})
                 </div>
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleBatchProcess}
-                    disabled={batchMutation.isPending || totalPending === 0}
-                    data-testid="button-batch-process"
-                  >
-                    <Zap className="w-4 h-4 mr-1" />
-                    Process All ({totalPending})
-                  </Button>
-                </div>
+                {workers && (
+                  <div className="flex items-center gap-2 text-sm font-normal text-gray-500" data-testid="worker-status">
+                    <Activity className={`w-4 h-4 ${workers.running ? 'text-green-500' : 'text-gray-400'}`} />
+                    <span>
+                      {workers.running ? `${workers.active.length}/${workers.concurrency} workers busy` : 'Workers stopped'}
+                    </span>
+                  </div>
+                )}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -289,14 +270,14 @@ export default function AdminDocumentQueue() {
                   <TabsTrigger value="processing" data-testid="tab-processing">
                     Processing ({totalProcessing})
                   </TabsTrigger>
-                  <TabsTrigger value="failed" data-testid="tab-failed">
-                    Failed ({totalFailed})
+                  <TabsTrigger value="dead_letter" data-testid="tab-dead-letter">
+                    Dead Letter ({totalDeadLetter})
                   </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="pending" className="space-y-3">
                   {queue
-                    .filter(item => item.status === 'pending')
+                    .filter(item => item.queueStatus === 'queued' || item.queueStatus === 'retrying')
                     .map((item) => (
                       <QueueItemCard
                         key={item.id}
@@ -310,7 +291,7 @@ export default function AdminDocumentQueue() {
 
                 <TabsContent value="processing" className="space-y-3">
                   {queue
-                    .filter(item => item.status === 'processing')
+                    .filter(item => item.queueStatus === 'processing')
                     .map((item) => (
                       <QueueItemCard
                         key={item.id}
@@ -321,16 +302,16 @@ export default function AdminDocumentQueue() {
                     ))}
                 </TabsContent>
 
-                <TabsContent value="failed" className="space-y-3">
+                <TabsContent value="dead_letter" className="space-y-3">
                   {queue
-                    .filter(item => item.status === 'failed')
+                    .filter(item => item.queueStatus === 'dead_letter')
                     .map((item) => (
                       <QueueItemCard
                         key={item.id}
                         item={item}
-                        onProcess={() => processMutation.mutate(item.id)}
+                        onProcess={() => replayMutation.mutate(item.id)}
                         onView={() => setSelectedDocument(item.documentId)}
-                        isProcessing={processMutation.isPending}
+                        isProcessing={replayMutation.isPending}
                         showRetry
                       />
                     ))}
@@ -339,7 +320,7 @@ export default function AdminDocumentQueue() {
 
               {queue.length === 0 && !queueLoading && (
                 <div className="text-center py-8 text-gray-500">
-                  <Clock className="w-12 h-12 mx-auto mb-2 opacity-50" />
+                  <Inbox className="w-12 h-12 mx-auto mb-2 opacity-50" />
                   <p>No documents in queue</p>
                 </div>
               )}
@@ -395,12 +376,13 @@ interface QueueItemCardProps {
 function QueueItemCard({ item, onProcess, onView, isProcessing, showRetry }: QueueItemCardProps) {
   const getStatusBadge = (status: string) => {
     const badges = {
-      pending: { variant: "secondary" as const, icon: Clock, text: "Pending" },
+      queued: { variant: "secondary" as const, icon: Clock, text: "Queued" },
+      retrying: { variant: "secondary" as const, icon: RotateCcw, text: "Retrying" },
       processing: { variant: "outline" as const, icon: Clock, text: "Processing" },
-      failed: { variant: "destructive" as const, icon: AlertTriangle, text: "Failed" },
+      dead_letter: { variant: "destructive" as const, icon: AlertTriangle, text: "Dead Letter" },
     };
     
-    const config = badges[status as keyof typeof badges] || badges.pending;
+    const config = badges[status as keyof typeof badges] || badges.queued;
     const Icon = config.icon;
     
     return (
@@ -436,20 +418,30 @@ function QueueItemCard({ item, onProcess, onView, isProcessing, showRetry }: Que
         <div className="flex items-center gap-2">
           <FileText className="w-4 h-4 text-gray-500" />
           <span className="font-medium" data-testid={`item-filename-${item.id}`}>
-            {item.document.originalFileName}
+            {item.document?.originalFileName ?? item.documentId}
           </span>
         </div>
         <div className="flex items-center gap-2">
-          {getStatusBadge(item.status)}
+          {getStatusBadge(item.queueStatus)}
           {getPriorityBadge(item.priority)}
         </div>
       </div>
       
       <div className="flex items-center justify-between text-sm text-gray-500">
         <div>
-          <span>Type: {item.document.documentType}</span>
-          {item.retryCount > 0 && (
-            <span className="ml-2">• Retries: {item.retryCount}/{item.maxRetries}</span>
+          <span>Type: {item.document?.documentType ?? 'unknown'}</span>
+          {item.attempts > 0 && (
+            <span className="ml-2">• Attempts: {item.attempts}/{item.maxAttempts}</span>
+          )}
+          {item.queueStatus === 'retrying' && item.nextRetryAt && (
+            <span className="ml-2" data-testid={`item-next-retry-${item.id}`}>
+              • Next retry {new Date(item.nextRetryAt).toLocaleTimeString()}
+            </span>
+          )}
+          {item.queueStatus === 'processing' && item.heartbeatAt && (
+            <span className="ml-2" data-testid={`item-heartbeat-${item.id}`}>
+              • {item.processingNode} · heartbeat {new Date(item.heartbeatAt).toLocaleTimeString()}
+            </span>
           )}
         </div>
         <div className="flex gap-1">
@@ -461,7 +453,7 @@ function QueueItemCard({ item, onProcess, onView, isProcessing, showRetry }: Que
           >
             <Eye className="w-4 h-4" />
           </Button>
-          {onProcess && (showRetry || item.status === 'pending') && (
+          {onProcess && item.queueStatus !== 'processing' && (
             <Button 
               variant="ghost" 
               size="sm" 
@@ -475,11 +467,11 @@ function QueueItemCard({ item, onProcess, onView, isProcessing, showRetry }: Que
         </div>
       </div>
 
-      {item.errorMessage && (
+      {item.lastError && (
         <Alert variant="destructive" className="mt-2">
           <AlertTriangle className="w-4 h-4" />
           <AlertDescription className="text-sm" data-testid={`error-message-${item.id}`}>
-            {item.errorMessage}
+            {item.lastError}
           </AlertDescription>
         </Alert>
       )}
@@ -5,7 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getAdminQueryFn } from "@/lib/queryClient";
+import { LOAN_POLICY_CATEGORIES, SUBMISSION_POLICY_CATEGORIES, type LoanPolicy } from "@shared/schema";
 
 interface AdminStats {
   pendingApprovals: number;
@@ -43,6 +44,24 @@ export default function AdminPanel() {
     } as AdminStats,
   });
 
+  // Effective loan policies, used to preview the loan each approval will create
+  const { data: loanPolicies } = useQuery<{ effective: Record<string, LoanPolicy | null> }>({
+    queryKey: ["/api/admin/loan-policies"],
+    queryFn: getAdminQueryFn({ on401: "throw" }),
+  });
+
+  const getMaxLoan = (submission: PendingSubmission): string | null => {
+    const category = (LOAN_POLICY_CATEGORIES as readonly string[]).includes(submission.category)
+      ? submission.category
+      : SUBMISSION_POLICY_CATEGORIES[submission.category];
+    const policy = category ? loanPolicies?.effective[category] : null;
+    if (!policy) {
+      return null;
+    }
+    const ltvAmount = parseFloat(submission.estimatedValue) * parseFloat(policy.ltvRatio);
+    return (Math.floor(Math.min(ltvAmount, parseFloat(policy.maxPrincipal)) * 100) / 100).toFixed(2);
+  };
+
   // Fetch real pending submissions from API
   const { data: pendingSubmissions = [], isLoading, error } = useQuery({
     queryKey: ["/api/rwa-submissions/pending"],
@@ -193,7 +212,7 @@ export default function AdminPanel() {
           ) : (
             <div className="space-y-4">
               {pendingSubmissions.map((submission: any) => {
-                const maxLoan = (parseFloat(submission.estimatedValue) * 0.7).toFixed(2);
+                const maxLoan = getMaxLoan(submission);
                 
                 return (
                   <Card
@@ -218,7 +237,7 @@ export default function AdminPanel() {
                           {formatCurrency(submission.estimatedValue)}
                         </p>
                         <p className="text-sm text-muted-foreground">
-                          Max Loan: <span className="font-medium">{formatCurrency(maxLoan)}</span>
+                          Max Loan: <span className="font-medium">{maxLoan ? formatCurrency(maxLoan) : "No policy"}</span>
                         </p>
                       </div>
 
@@ -1,5 +1,5 @@
-import { useState, useMemo } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useMemo, useEffect } from "react";
+import { useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,18 +11,30 @@ import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useICPWallet } from "@/hooks/useICPWallet";
+import { useMarketplacePurchase } from "@/hooks/useMarketplacePurchase";
 import { apiRequest } from "@/lib/queryClient";
-import type { MarketplaceAsset } from "@shared/schema";
+import { formatAuctionTimeRemaining } from "@/lib/utils";
+import { getMinimumNextBid, getBuyNowRejection, type MarketplaceAsset, type MarketplaceAssetPage } from "@shared/schema";
 import { demoMarketplaceAssets, demoAssetImages } from "@shared/demo-assets";
 
 
 export default function AssetMarketplace() {
   const [filters, setFilters] = useState({
     category: "all",
+    status: "available",
     sortBy: "",
     minPrice: "",
     maxPrice: "",
+    maxDaysExpired: "",
   });
+
+  // Only search once the user pauses typing
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
   
   const [bidAmount, setBidAmount] = useState("");
   const [selectedAsset, setSelectedAsset] = useState<MarketplaceAsset | null>(null);
@@ -32,69 +44,66 @@ export default function AssetMarketplace() {
   const { user, isAuthenticated } = useAuth();
   const { wallet, sendTransaction } = useICPWallet();
 
-  // Fetch real marketplace assets from API
-  const { data: apiAssets = [], isLoading } = useQuery<MarketplaceAsset[]>({
-    queryKey: ["/api/marketplace/assets"],
+  // Re-render periodically so auction countdowns stay current
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const isAuctionEnded = (asset: MarketplaceAsset) =>
+    asset.status !== "available" || (!!asset.auctionEndsAt && new Date(asset.auctionEndsAt).getTime() <= now);
+
+  const purchaseMutation = useMarketplacePurchase();
+
+  // Filtering, sorting and paging all happen on the server
+  const searchParams = useMemo(() => {
+    const params = new URLSearchParams();
+    if (search) params.set("q", search);
+    if (filters.category !== "all") params.set("category", filters.category);
+    params.set("status", filters.status);
+    if (filters.sortBy) params.set("sortBy", filters.sortBy);
+    if (filters.minPrice) params.set("minPrice", filters.minPrice);
+    if (filters.maxPrice) params.set("maxPrice", filters.maxPrice);
+    if (filters.maxDaysExpired) params.set("maxDaysExpired", filters.maxDaysExpired);
+    return params.toString();
+  }, [search, filters]);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<MarketplaceAssetPage>({
+    queryKey: ["/api/marketplace/assets", searchParams],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(searchParams);
+      if (pageParam) params.set("cursor", pageParam as string);
+      const response = await apiRequest("GET", `/api/marketplace/assets?${params.toString()}`);
+      return response.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    // Keep showing the current results while a new search loads
+    placeholderData: keepPreviousData,
   });
 
-  // Enhance demo assets with images and combine with API assets
-  const allAssets = useMemo(() => {
+  // Demo listings are a static showcase, shown only on the unfiltered view
+  const isUnfiltered = !search && filters.category === "all" && filters.status === "available" &&
+    !filters.minPrice && !filters.maxPrice && !filters.maxDaysExpired;
+
+  const assets = useMemo(() => {
+    const apiAssets = data?.pages.flatMap((page) => page.assets) ?? [];
+    if (!isUnfiltered) {
+      return apiAssets;
+    }
     const enhancedDemoAssets = demoMarketplaceAssets.map(asset => ({
       ...asset,
       imageUrl: demoAssetImages[asset.id] || asset.imageUrl
     }));
     return [...enhancedDemoAssets, ...apiAssets];
-  }, [apiAssets]);
-
-  // Apply filters to the combined assets
-  const filteredAssets = useMemo(() => {
-    let filtered = [...allAssets];
-
-    // Filter by category
-    if (filters.category !== "all") {
-      filtered = filtered.filter(asset => asset.category === filters.category);
-    }
-
-    // Filter by price range
-    if (filters.minPrice) {
-      const minPrice = parseFloat(filters.minPrice);
-      filtered = filtered.filter(asset => {
-        const currentPrice = asset.currentBid ? parseFloat(asset.currentBid) : parseFloat(asset.startingPrice);
-        return currentPrice >= minPrice;
-      });
-    }
-
-    if (filters.maxPrice) {
-      const maxPrice = parseFloat(filters.maxPrice);
-      filtered = filtered.filter(asset => {
-        const currentPrice = asset.currentBid ? parseFloat(asset.currentBid) : parseFloat(asset.startingPrice);
-        return currentPrice <= maxPrice;
-      });
-    }
-
-    // Sort assets
-    if (filters.sortBy) {
-      filtered.sort((a, b) => {
-        const aCurrentPrice = a.currentBid ? parseFloat(a.currentBid) : parseFloat(a.startingPrice);
-        const bCurrentPrice = b.currentBid ? parseFloat(b.currentBid) : parseFloat(b.startingPrice);
-
-        switch (filters.sortBy) {
-          case "price-low":
-            return aCurrentPrice - bCurrentPrice;
-          case "price-high":
-            return bCurrentPrice - aCurrentPrice;
-          case "recent":
-            return new Date(b.createdAt || "").getTime() - new Date(a.createdAt || "").getTime();
-          case "ending":
-            return a.daysExpired - b.daysExpired;
-          default:
-            return 0;
-        }
-      });
-    }
-
-    return filtered;
-  }, [allAssets, filters]);
+  }, [data, isUnfiltered]);
 
   const bidMutation = useMutation({
     mutationFn: async ({ assetId, amount }: { assetId: string; amount: string }) => {
@@ -116,32 +125,36 @@ export default function AssetMarketplace() {
         throw new Error(`Insufficient balance. You need ${bidAmountICP + 0.0001} ICP (including transaction fee) to place this bid.`);
       }
 
-      // Get secure payment intent from backend
-      const paymentIntentResponse = await apiRequest('POST', '/api/payment-intents', {
-        type: 'bid_payment',
-        amount: amount,
-        metadata: { assetId }
+      // Escrow the bid amount - the bid only counts once the backend verifies the transfer
+      const intentResponse = await apiRequest('POST', `/api/marketplace/assets/${assetId}/bids/intent`, {
+        amount: bidAmountICP
       });
-      const paymentIntent = await paymentIntentResponse.json();
-
-      // Send bid payment using secure recipient
-      await sendTransaction(
-        paymentIntent.recipient,
-        bidAmountICP,
+      const intent: {
+        transaction: { id: string };
+        payment: { recipientAccountId: string; memo: string; amountICP: number };
+      } = await intentResponse.json();
+
+      const sent = await sendTransaction(
+        intent.payment.recipientAccountId,
+        intent.payment.amountICP,
         'bid_payment',
-        paymentIntent.memo
+        intent.payment.memo
       );
 
+      if (!sent?.blockHeight) {
+        throw new Error('Escrow was sent but no ledger block was returned - please contact support');
+      }
+
       const response = await apiRequest("POST", `/api/marketplace/assets/${assetId}/bid`, {
-        bidderId: user.id,
-        amount: bidAmountICP.toFixed(2),
+        transactionId: intent.transaction.id,
+        blockHeight: sent.blockHeight
       });
       return response.json();
     },
     onSuccess: () => {
       toast({
         title: "Bid Placed Successfully",
-        description: "Your bid has been placed and payment has been processed.",
+        description: "Your bid has been placed. Your escrow is refunded if you are outbid.",
       });
       setBidAmount("");
       setSelectedAsset(null);
@@ -164,14 +177,20 @@ export default function AssetMarketplace() {
   const submitBid = () => {
     if (!selectedAsset || !bidAmount) return;
     
-    const currentHighest = selectedAsset.currentBid 
-      ? parseFloat(selectedAsset.currentBid)
-      : parseFloat(selectedAsset.startingPrice);
-    
-    if (parseFloat(bidAmount) <= currentHighest) {
+    if (isAuctionEnded(selectedAsset)) {
+      toast({
+        title: "Auction Ended",
+        description: "This auction is no longer accepting bids.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const minimumBid = getMinimumNextBid(selectedAsset);
+    if (parseFloat(bidAmount) < minimumBid) {
       toast({
         title: "Invalid Bid",
-        description: "Your bid must be higher than the current highest bid.",
+        description: `Your bid must be at least ${formatPrice(minimumBid.toString())}.`,
         variant: "destructive",
       });
       return;
@@ -208,6 +227,29 @@ export default function AssetMarketplace() {
         {/* Filter Bar - Mobile Optimized */}
         <Card className="bg-card border border-border p-4 sm:p-6 mb-6 sm:mb-8 glass-effect">
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+            <Input
+              type="search"
+              placeholder="Search name or description"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              data-testid="filter-search"
+              className="h-11 sm:h-10 sm:col-span-2"
+            />
+
+            <Select
+              value={filters.status}
+              onValueChange={(value) => setFilters(prev => ({ ...prev, status: value }))}
+            >
+              <SelectTrigger data-testid="filter-status" className="h-11 sm:h-10">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent className="bg-background dark:bg-black border-border dark:border-gray-800">
+                <SelectItem value="available">Available</SelectItem>
+                <SelectItem value="sold">Sold</SelectItem>
+                <SelectItem value="unsold">Unsold</SelectItem>
+              </SelectContent>
+            </Select>
+
             <Select
               value={filters.category}
               onValueChange={(value) => setFilters(prev => ({ ...prev, category: value }))}
@@ -238,6 +280,7 @@ export default function AssetMarketplace() {
                 <SelectItem value="price-high">Price: High to Low</SelectItem>
                 <SelectItem value="recent">Recently Added</SelectItem>
                 <SelectItem value="ending">Ending Soon</SelectItem>
+                <SelectItem value="days-expired">Longest Expired</SelectItem>
               </SelectContent>
             </Select>
 
@@ -258,18 +301,27 @@ export default function AssetMarketplace() {
               data-testid="filter-max-price"
               className="h-11 sm:h-10"
             />
+
+            <Input
+              type="number"
+              placeholder="Max Days Expired"
+              value={filters.maxDaysExpired}
+              onChange={(e) => setFilters(prev => ({ ...prev, maxDaysExpired: e.target.value }))}
+              data-testid="filter-max-days-expired"
+              className="h-11 sm:h-10"
+            />
           </div>
         </Card>
 
         {/* Asset Grid - Mobile Optimized */}
-        {filteredAssets.length === 0 ? (
+        {assets.length === 0 ? (
           <div className="text-center py-12 sm:py-16 text-muted-foreground">
             <p className="text-sm sm:text-base">No assets available in the marketplace{filters.category !== "all" ? ` for ${filters.category}` : ""}.</p>
             <p className="text-xs sm:text-sm mt-2">Check back later for new listings or try different filters!</p>
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredAssets.map((asset) => (
+            {assets.map((asset) => (
               <Card
                 key={asset.id}
                 className="bg-card border border-border overflow-hidden hover:border-purple-500 transition-colors glass-effect h-fit"
@@ -292,7 +344,14 @@ export default function AssetMarketplace() {
                       </h3>
                       <p className="text-xs sm:text-sm text-muted-foreground">{asset.category}</p>
                     </div>
-                    <Badge variant="destructive" className="text-xs self-start xs:self-auto">Expired</Badge>
+                    <div className="flex gap-1 self-start xs:self-auto">
+                      {asset.listingType !== "auction" && (
+                        <Badge variant="secondary" className="text-xs" data-testid={`asset-listing-type-${asset.id}`}>
+                          {asset.listingType === "fixed_price" ? "Fixed Price" : "Buy Now"}
+                        </Badge>
+                      )}
+                      <Badge variant="destructive" className="text-xs">Expired</Badge>
+                    </div>
                   </div>
 
                   <div className="space-y-2 mb-4">
@@ -302,20 +361,51 @@ export default function AssetMarketplace() {
                         {formatPrice(asset.originalValue)}
                       </span>
                     </div>
-                    <div className="flex justify-between text-xs sm:text-sm">
-                      <span className="text-muted-foreground">
-                        {asset.currentBid ? "Current Bid:" : "Starting Bid:"}
-                      </span>
-                      <span className="font-medium text-purple-500" data-testid={`asset-current-bid-${asset.id}`}>
-                        {formatPrice(asset.currentBid || asset.startingPrice)}
-                      </span>
-                    </div>
+                    {asset.listingType !== "fixed_price" && (
+                      <div className="flex justify-between text-xs sm:text-sm">
+                        <span className="text-muted-foreground">
+                          {asset.currentBid ? "Current Bid:" : "Starting Bid:"}
+                        </span>
+                        <span className="font-medium text-purple-500" data-testid={`asset-current-bid-${asset.id}`}>
+                          {formatPrice(asset.currentBid || asset.startingPrice)}
+                        </span>
+                      </div>
+                    )}
+                    {asset.listingType !== "auction" && asset.buyNowPrice && (
+                      <div className="flex justify-between text-xs sm:text-sm">
+                        <span className="text-muted-foreground">
+                          {asset.listingType === "fixed_price" ? "Price:" : "Buy Now:"}
+                        </span>
+                        <span className="font-medium text-green-600" data-testid={`asset-buy-now-price-${asset.id}`}>
+                          {formatPrice(asset.buyNowPrice)}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-xs sm:text-sm">
                       <span className="text-muted-foreground">Days Expired:</span>
                       <span data-testid={`asset-days-expired-${asset.id}`}>
                         {asset.daysExpired} days
                       </span>
                     </div>
+                    {asset.auctionEndsAt && (
+                      <div className="flex justify-between text-xs sm:text-sm">
+                        <span className="text-muted-foreground">Ends In:</span>
+                        <span
+                          className={isAuctionEnded(asset) ? "text-destructive font-medium" : "font-medium"}
+                          data-testid={`asset-time-remaining-${asset.id}`}
+                        >
+                          {formatAuctionTimeRemaining(asset.auctionEndsAt)}
+                        </span>
+                      </div>
+                    )}
+                    {asset.reservePrice && (
+                      <div className="flex justify-between text-xs sm:text-sm">
+                        <span className="text-muted-foreground">Reserve:</span>
+                        <span data-testid={`asset-reserve-status-${asset.id}`}>
+                          {asset.currentBid && parseFloat(asset.currentBid) >= parseFloat(asset.reservePrice) ? "Met" : "Not met"}
+                        </span>
+                      </div>
+                    )}
                   </div>
 
                   <div className="flex gap-2">
@@ -328,68 +418,103 @@ export default function AssetMarketplace() {
                         View Details
                       </Button>
                     </Link>
-                    <Dialog>
-                      <DialogTrigger asChild>
-                        <Button
-                          onClick={() => handlePlaceBid(asset)}
-                          className="flex-1 h-11 sm:h-10 text-sm bg-purple-600 hover:bg-purple-700 text-white"
-                          data-testid={`button-place-bid-${asset.id}`}
-                        >
-                          Place Bid
-                        </Button>
-                      </DialogTrigger>
-                    <DialogContent className="sm:max-w-md">
-                      <DialogHeader>
-                        <DialogTitle className="text-base sm:text-lg">Place Bid on {asset.assetName}</DialogTitle>
-                      </DialogHeader>
-                      <div className="space-y-4">
-                        <div>
-                          <Label htmlFor="bidAmount" className="text-sm">Bid Amount (ICP)</Label>
-                          <Input
-                            id="bidAmount"
-                            type="number"
-                            placeholder="Enter your bid"
-                            value={bidAmount}
-                            onChange={(e) => setBidAmount(e.target.value)}
-                            data-testid="input-bid-amount"
-                            className="h-11 sm:h-10 mt-1"
-                          />
-                          <p className="text-xs text-muted-foreground mt-2">
-                            Must be higher than current bid of{" "}
-                            {formatPrice(asset.currentBid || asset.startingPrice)}
-                          </p>
+                    {asset.listingType !== "auction" && asset.buyNowPrice && (
+                      <Button
+                        onClick={() => purchaseMutation.mutate(asset)}
+                        disabled={purchaseMutation.isPending || getBuyNowRejection(asset, new Date(now)) !== null}
+                        className="flex-1 h-11 sm:h-10 text-sm bg-green-600 hover:bg-green-700 text-white"
+                        data-testid={`button-buy-now-${asset.id}`}
+                      >
+                        {purchaseMutation.isPending && purchaseMutation.variables?.id === asset.id
+                          ? "Buying..."
+                          : isAuctionEnded(asset)
+                          ? "Listing Closed"
+                          : "Buy Now"}
+                      </Button>
+                    )}
+                    {asset.listingType !== "fixed_price" && (
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button
+                            onClick={() => handlePlaceBid(asset)}
+                            disabled={isAuctionEnded(asset)}
+                            className="flex-1 h-11 sm:h-10 text-sm bg-purple-600 hover:bg-purple-700 text-white"
+                            data-testid={`button-place-bid-${asset.id}`}
+                          >
+                            {isAuctionEnded(asset) ? "Auction Ended" : "Place Bid"}
+                          </Button>
+                        </DialogTrigger>
+                      <DialogContent className="sm:max-w-md">
+                        <DialogHeader>
+                          <DialogTitle className="text-base sm:text-lg">Place Bid on {asset.assetName}</DialogTitle>
+                        </DialogHeader>
+                        <div className="space-y-4">
+                          <div>
+                            <Label htmlFor="bidAmount" className="text-sm">Bid Amount (ICP)</Label>
+                            <Input
+                              id="bidAmount"
+                              type="number"
+                              placeholder="Enter your bid"
+                              value={bidAmount}
+                              onChange={(e) => setBidAmount(e.target.value)}
+                              data-testid="input-bid-amount"
+                              className="h-11 sm:h-10 mt-1"
+                            />
+                            <p className="text-xs text-muted-foreground mt-2" data-testid="text-minimum-bid">
+                              Minimum bid: {formatPrice(getMinimumNextBid(asset).toString())}
+                              {asset.currentBid && ` (current bid plus ${formatPrice(asset.minBidIncrement)} increment)`}
+                            </p>
+                            {asset.auctionEndsAt && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                Bids in the final minutes extend the auction.
+                              </p>
+                            )}
+                          </div>
+                          <Button
+                            onClick={submitBid}
+                            disabled={
+                              bidMutation.isPending || 
+                              !bidAmount || 
+                              !isAuthenticated || 
+                              !wallet || 
+                              (bidAmount && wallet ? wallet.balance < parseFloat(bidAmount) : false)
+                            }
+                            className="w-full h-11 sm:h-10 text-sm bg-purple-600 hover:bg-purple-700 text-white"
+                            data-testid="button-submit-bid"
+                          >
+                            {bidMutation.isPending
+                              ? "Placing Bid..."
+                              : !isAuthenticated
+                              ? "Login to Bid"
+                              : !wallet
+                              ? "Connect Wallet"
+                              : bidAmount && wallet.balance < parseFloat(bidAmount)
+                              ? "Insufficient Balance"
+                              : "Place Bid"}
+                          </Button>
                         </div>
-                        <Button
-                          onClick={submitBid}
-                          disabled={
-                            bidMutation.isPending || 
-                            !bidAmount || 
-                            !isAuthenticated || 
-                            !wallet || 
-                            (bidAmount && wallet ? wallet.balance < parseFloat(bidAmount) : false)
-                          }
-                          className="w-full h-11 sm:h-10 text-sm bg-purple-600 hover:bg-purple-700 text-white"
-                          data-testid="button-submit-bid"
-                        >
-                          {bidMutation.isPending
-                            ? "Placing Bid..."
-                            : !isAuthenticated
-                            ? "Login to Bid"
-                            : !wallet
-                            ? "Connect Wallet"
-                            : bidAmount && wallet.balance < parseFloat(bidAmount)
-                            ? "Insufficient Balance"
-                            : "Place Bid"}
-                        </Button>
-                      </div>
-                    </DialogContent>
-                  </Dialog>
+                      </DialogContent>
+                    </Dialog>
+                    )}
                   </div>
                 </div>
               </Card>
             ))}
           </div>
         )}
+
+        {hasNextPage && (
+          <div className="text-center mt-8">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              data-testid="button-load-more-assets"
+            >
+              {isFetchingNextPage ? "Loading..." : "Load More"}
+            </Button>
+          </div>
+        )}
       </div>
     </section>
   );
@@ -191,6 +191,9 @@ export default function BlockchainBridge() {
     enabled: !!user,
   });
 
+  // Bitcoin is only offered when the server has the route enabled
+  const bitcoinAvailable = supportedPairs.some(pair => pair.from === 'bitcoin' || pair.to === 'bitcoin');
+
   // Get supported tokens for networks
   const { data: ethereumTokens = { tokens: [] } } = useQuery<{ network: string; tokens: string[] }>({
     queryKey: ['/api/bridge/supported-tokens', 'ethereum'],
@@ -220,7 +223,11 @@ export default function BlockchainBridge() {
   // Bridge initiation mutation
   const bridgeMutation = useMutation({
     mutationFn: async (data: BridgeFormData) => {
-      const response = await apiRequest("POST", "/api/bridge/initiate", data);
+      // ck token refunds are sent to the wallet's principal rather than its account id
+      const response = await apiRequest("POST", "/api/bridge/initiate", {
+        ...data,
+        refundPrincipal: data.fromNetwork === 'icp' ? wallet?.principalId : undefined,
+      });
       return response.json();
     },
     onSuccess: (data) => {
@@ -392,11 +399,13 @@ export default function BlockchainBridge() {
                                       <Infinity className="w-4 h-4" /> ICP
                                     </div>
                                   </SelectItem>
-                                  <SelectItem value="bitcoin">
-                                    <div className="flex items-center gap-2">
-                                      <span>₿</span> Bitcoin
-                                    </div>
-                                  </SelectItem>
+                                  {bitcoinAvailable && (
+                                    <SelectItem value="bitcoin">
+                                      <div className="flex items-center gap-2">
+                                        <span>₿</span> Bitcoin
+                                      </div>
+                                    </SelectItem>
+                                  )}
                                 </SelectContent>
                               </Select>
                               <FormMessage />
@@ -503,11 +512,13 @@ export default function BlockchainBridge() {
                                       <Infinity className="w-4 h-4" /> ICP
                                     </div>
                                   </SelectItem>
-                                  <SelectItem value="bitcoin">
-                                    <div className="flex items-center gap-2">
-                                      <span>₿</span> Bitcoin
-                                    </div>
-                                  </SelectItem>
+                                  {bitcoinAvailable && (
+                                    <SelectItem value="bitcoin">
+                                      <div className="flex items-center gap-2">
+                                        <span>₿</span> Bitcoin
+                                      </div>
+                                    </SelectItem>
+                                  )}
                                 </SelectContent>
                               </Select>
                               <FormMessage />
@@ -638,7 +649,7 @@ export default function BlockchainBridge() {
                     <Button
                       type="submit"
                       className="w-full"
-                      disabled={bridgeMutation.isPending || !user || !estimation}
+                      disabled={bridgeMutation.isPending || !user || !estimation || !!estimation.limitRejection}
                       data-testid="button-initiate-bridge"
                     >
                       {bridgeMutation.isPending ? (
@@ -699,7 +710,21 @@ export default function BlockchainBridge() {
                         <span>Total cost:</span>
                         <span>{estimation.totalCost} {form.watch('fromToken')}</span>
                       </div>
+                      {estimation.allowance && (
+                        <div className="flex justify-between text-sm text-muted-foreground" data-testid="text-bridge-allowance">
+                          <span>Remaining limit:</span>
+                          <span>
+                            ${estimation.allowance.daily.remainingUsd.toLocaleString()} today · ${estimation.allowance.weekly.remainingUsd.toLocaleString()} this week
+                          </span>
+                        </div>
+                      )}
                     </div>
+                    {estimation.limitRejection && (
+                      <Alert variant="destructive" className="mt-4" data-testid="alert-bridge-limit">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{estimation.limitRejection.error}</AlertDescription>
+                      </Alert>
+                    )}
                   </Card>
                 )}
 
@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { format } from "date-fns";
 import {
   Clock, CheckCircle, AlertCircle, XCircle, RefreshCw, Download, 
-  Filter, Eye, MoreHorizontal, Copy, ExternalLink, Search
+  Filter, Eye, MoreHorizontal, Copy, ExternalLink, Search, RotateCcw
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -24,6 +24,7 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/useRealtime";
 import { apiRequest } from "@/lib/queryClient";
 
 interface BridgeTransaction {
@@ -45,6 +46,13 @@ interface BridgeTransaction {
   confirmationsTo?: number;
   requiredConfirmations: number;
   errorMessage?: string;
+  refundTxHash?: string | null;
+  refundStatus?: 'queued' | 'processing' | 'submitted' | 'confirmed' | 'failed' | 'manual_review' | null;
+  refundAmount?: string | null;
+  refundConfirmations?: number;
+  refundError?: string | null;
+  refundQueuedAt?: string | null;
+  refundedAt?: string | null;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
@@ -92,6 +100,25 @@ const StatusDisplay = ({ status }: { status: string }) => {
   );
 };
 
+// Refund progress for bridges that failed after the source funds arrived
+const RefundStatusDisplay = ({ refundStatus }: { refundStatus: NonNullable<BridgeTransaction['refundStatus']> }) => {
+  const config = {
+    queued: { color: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200', label: 'Refund Queued' },
+    processing: { color: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200', label: 'Refund Sending' },
+    submitted: { color: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200', label: 'Refund Confirming' },
+    confirmed: { color: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200', label: 'Refunded' },
+    failed: { color: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200', label: 'Refund Delayed' },
+    manual_review: { color: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200', label: 'Refund Under Review' },
+  }[refundStatus];
+
+  return (
+    <Badge variant="secondary" className={config.color} data-testid={`refund-status-${refundStatus}`}>
+      <RotateCcw className="w-3 h-3 mr-1" />
+      {config.label}
+    </Badge>
+  );
+};
+
 // Transaction details dialog
 interface TransactionDetailsProps {
   transaction: BridgeTransaction;
@@ -306,6 +333,79 @@ const TransactionDetails = ({ transaction, open, onOpenChange }: TransactionDeta
             </Card>
           )}
 
+          {/* Refund */}
+          {transaction.refundStatus && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-sm flex items-center gap-2">
+                  Refund
+                  <RefundStatusDisplay refundStatus={transaction.refundStatus} />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span>Refund Amount:</span>
+                  <span>{transaction.refundAmount ?? transaction.amount} {transaction.fromToken}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Refund Address:</span>
+                  <span className="font-mono text-xs truncate max-w-[60%]">{transaction.fromAddress}</span>
+                </div>
+                {transaction.refundTxHash && (
+                  <div>
+                    <span className="text-xs text-muted-foreground">Refund Transaction:</span>
+                    <div className="flex items-center gap-2 mt-1">
+                      <code className="text-xs bg-muted p-1 rounded truncate flex-1">
+                        {transaction.refundTxHash}
+                      </code>
+                      <Button 
+                        size="sm" 
+                        variant="ghost" 
+                        onClick={() => copyToClipboard(transaction.refundTxHash!, 'Refund transaction hash')}
+                      >
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                      <Button 
+                        size="sm" 
+                        variant="ghost" 
+                        onClick={() => window.open(getExplorerUrl(transaction.refundTxHash!, transaction.fromNetwork), '_blank')}
+                      >
+                        <ExternalLink className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    {transaction.refundStatus === 'submitted' && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Confirmations: {transaction.refundConfirmations ?? 0}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {transaction.refundedAt && (
+                  <div className="flex justify-between">
+                    <span>Refunded:</span>
+                    <span>{format(new Date(transaction.refundedAt), 'MMM dd, HH:mm')}</span>
+                  </div>
+                )}
+                {transaction.refundStatus === 'manual_review' && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      Our team is reviewing this bridge before sending your refund. You don't need to do anything - we'll be in touch if we need more details.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {transaction.refundStatus === 'failed' && (
+                  <Alert>
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      We couldn't send your refund automatically. Please contact support and we'll complete it for you.
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Fees */}
           <Card>
             <CardHeader>
@@ -367,6 +467,14 @@ export default function BridgeHistory() {
   const [sortBy, setSortBy] = useState('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
+  // Bridge status changes are pushed on the user's realtime stream
+  const { connected: realtimeConnected } = useRealtime([], (event) => {
+    if (event.type !== 'bridge.status') return;
+    const updated = event.data.transaction as BridgeTransaction;
+    queryClient.invalidateQueries({ queryKey: ['/api/bridge/history'] });
+    setSelectedTransaction((current) => current?.id === updated.id ? updated : current);
+  }, !!user);
+
   // Fetch bridge transactions
   const { data: transactions = [], isLoading, error, refetch } = useQuery<BridgeTransaction[]>({
     queryKey: ['/api/bridge/history', filters, page, sortBy, sortOrder],
@@ -383,7 +491,7 @@ export default function BridgeHistory() {
       return response.json();
     },
     enabled: !!user,
-    refetchInterval: 30000, // Refetch every 30 seconds for real-time updates
+    refetchInterval: realtimeConnected ? false : 30000, // Poll only while the realtime stream is down
   });
 
   // Cancel transaction mutation
@@ -610,7 +718,12 @@ export default function BridgeHistory() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <StatusDisplay status={transaction.status} />
+                      <div className="flex flex-col items-start gap-1">
+                        <StatusDisplay status={transaction.status} />
+                        {transaction.refundStatus && transaction.refundStatus !== 'confirmed' && (
+                          <RefundStatusDisplay refundStatus={transaction.refundStatus} />
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       <div className="text-sm">
@@ -1,13 +1,16 @@
 import { useEffect, useState } from "react";
 import { Progress } from "@/components/ui/progress";
 
+const DEFAULT_LOAN_TERM_MS = 90 * 24 * 60 * 60 * 1000; // 90 days in milliseconds
+
 interface CountdownTimerProps {
   expiryDate: Date;
+  startDate?: Date;
   isExpiringSoon: boolean;
   pawnId: string;
 }
 
-export default function CountdownTimer({ expiryDate, isExpiringSoon, pawnId }: CountdownTimerProps) {
+export default function CountdownTimer({ expiryDate, startDate, isExpiringSoon, pawnId }: CountdownTimerProps) {
   const [timeLeft, setTimeLeft] = useState<{
     days: number;
     hours: number;
@@ -16,14 +19,17 @@ export default function CountdownTimer({ expiryDate, isExpiringSoon, pawnId }: C
     percentage: number;
   }>({ days: 0, hours: 0, minutes: 0, seconds: 0, percentage: 0 });
 
+  const expiry = expiryDate.getTime();
+  const start = startDate?.getTime();
+
   useEffect(() => {
     const calculateTimeLeft = () => {
       const now = new Date().getTime();
-      const expiry = expiryDate.getTime();
       const difference = expiry - now;
 
       if (difference > 0) {
-        const totalDuration = 90 * 24 * 60 * 60 * 1000; // 90 days in milliseconds
+        // Measure progress against the full term, which grows when the loan is extended
+        const totalDuration = start !== undefined && expiry > start ? expiry - start : DEFAULT_LOAN_TERM_MS;
         const elapsed = totalDuration - difference;
         const percentage = Math.min((elapsed / totalDuration) * 100, 100);
 
@@ -42,7 +48,7 @@ export default function CountdownTimer({ expiryDate, isExpiringSoon, pawnId }: C
     const timer = setInterval(calculateTimeLeft, 1000);
 
     return () => clearInterval(timer);
-  }, [expiryDate]);
+  }, [expiry, start]);
 
   const formatTime = (value: number) => value.toString().padStart(2, '0');
 
@@ -18,6 +18,7 @@ import {
   AlertCircle
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/useRealtime";
 import { apiRequest } from "@/lib/queryClient";
 
 interface DocumentAnalysisStatusProps {
@@ -80,6 +81,13 @@ export default function DocumentAnalysisStatus({
   const [isReanalyzing, setIsReanalyzing] = useState(false);
   const { toast } = useToast();
 
+  // Status changes are pushed on the document's realtime topic
+  const { connected: realtimeConnected } = useRealtime([`document:${documentId}`], (event) => {
+    if (event.type === 'document.analysis' && event.data.documentId === documentId) {
+      refetch();
+    }
+  }, !!documentId);
+
   // Fetch document analysis results
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['/api/documents', documentId, 'analysis'],
@@ -88,7 +96,8 @@ export default function DocumentAnalysisStatus({
       return await response.json();
     },
     refetchInterval: (data) => {
-      // Auto-refresh if still processing
+      // Fall back to polling while processing if the realtime stream is down
+      if (realtimeConnected) return false;
       const status = data?.document?.analysisStatus;
       return status === 'pending' || status === 'processing' ? 3000 : false;
     },
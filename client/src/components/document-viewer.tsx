@@ -14,7 +14,8 @@ import {
   FileText, 
   Image,
   ExternalLink,
-  Maximize2
+  Maximize2,
+  ShieldAlert
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 
@@ -52,6 +53,27 @@ interface AnalysisResult {
   keyValuePairs?: Record<string, any>;
 }
 
+interface ForensicIssue {
+  type: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  description: string;
+  confidence: number;
+  evidence: Record<string, any>;
+  check?: string;
+  regions?: Array<{
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    page?: number;
+    score?: number;
+  }>;
+}
+
+interface FraudDetectionResult {
+  detectedIssues?: ForensicIssue[];
+}
+
 export default function DocumentViewer({ 
   documentId, 
   showOcrOverlay = false, 
@@ -60,7 +82,8 @@ export default function DocumentViewer({
   const [zoom, setZoom] = useState(1);
   const [rotation, setRotation] = useState(0);
   const [showFullscreen, setShowFullscreen] = useState(false);
-  const [activeOverlay, setActiveOverlay] = useState<'none' | 'text' | 'elements'>('none');
+  const [activeOverlay, setActiveOverlay] = useState<'none' | 'text' | 'elements' | 'forensics'>('none');
+  const [selectedIssue, setSelectedIssue] = useState<number | null>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -75,6 +98,11 @@ export default function DocumentViewer({
 
   const documentData: Document = data?.document;
   const analysis: AnalysisResult = data?.analysis;
+  const fraudDetection: FraudDetectionResult | undefined = data?.fraudDetection;
+  const forensicIssues = (fraudDetection?.detectedIssues ?? []).filter(issue => issue.check);
+
+  const getSeverityVariant = (severity: ForensicIssue['severity']) =>
+    severity === 'critical' || severity === 'high' ? 'destructive' : severity === 'medium' ? 'secondary' : 'outline';
 
   // Handle zoom
   const handleZoom = (direction: 'in' | 'out' | 'reset') => {
@@ -122,6 +150,7 @@ export default function DocumentViewer({
 
   // Render OCR overlay
   const renderOcrOverlay = () => {
+    if (activeOverlay === 'forensics') return renderForensicsOverlay();
     if (!analysis?.detectedElements || activeOverlay === 'none') return null;
 
     return (
@@ -158,6 +187,32 @@ export default function DocumentViewer({
     );
   };
 
+  // Render regions flagged by document forensics - fractions of the image, unlike OCR boxes in percent
+  const renderForensicsOverlay = () => {
+    const regions = forensicIssues.flatMap((issue, index) =>
+      (selectedIssue === null || selectedIssue === index ? issue.regions ?? [] : []).map(region => ({ issue, region, index }))
+    );
+
+    return (
+      <div className="absolute inset-0 pointer-events-none">
+        {regions.map(({ issue, region, index }, regionIndex) => (
+          <div
+            key={`${index}-${regionIndex}`}
+            className={`absolute border-2 border-red-500 bg-red-100 ${selectedIssue === index ? 'opacity-60' : 'opacity-40'}`}
+            style={{
+              left: `${region.left * 100}%`,
+              top: `${region.top * 100}%`,
+              width: `${region.width * 100}%`,
+              height: `${region.height * 100}%`,
+            }}
+            title={`${issue.description}${region.score ? ` (score ${region.score})` : ''}`}
+            data-testid={`forensic-region-${index}-${regionIndex}`}
+          />
+        ))}
+      </div>
+    );
+  };
+
   // Loading state
   if (isLoading) {
     return (
@@ -261,6 +316,17 @@ export default function DocumentViewer({
             >
               Elements
             </Button>
+            {forensicIssues.length > 0 && (
+              <Button
+                variant={activeOverlay === 'forensics' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setActiveOverlay('forensics')}
+                data-testid="button-overlay-forensics"
+              >
+                <ShieldAlert className="w-4 h-4 mr-1" />
+                Forensics
+              </Button>
+            )}
           </div>
           
           <div className="flex items-center gap-1">
@@ -338,6 +404,9 @@ export default function DocumentViewer({
           <TabsList>
             <TabsTrigger value="text" data-testid="tab-extracted-text">Extracted Text</TabsTrigger>
             <TabsTrigger value="data" data-testid="tab-key-data">Key Data</TabsTrigger>
+            <TabsTrigger value="forensics" data-testid="tab-forensics">
+              Forensics{forensicIssues.length > 0 ? ` (${forensicIssues.length})` : ''}
+            </TabsTrigger>
           </TabsList>
           
           <TabsContent value="text" className="space-y-2">
@@ -371,6 +440,45 @@ export default function DocumentViewer({
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="forensics" className="space-y-2">
+            {forensicIssues.length > 0 ? (
+              <div className="space-y-2" data-testid="forensic-issues">
+                {forensicIssues.map((issue, index) => (
+                  <div
+                    key={index}
+                    className={`p-3 rounded cursor-pointer ${selectedIssue === index ? 'bg-red-50 border border-red-200' : 'bg-gray-50'}`}
+                    onClick={() => {
+                      setSelectedIssue(selectedIssue === index ? null : index);
+                      if (issue.regions?.length) setActiveOverlay('forensics');
+                    }}
+                    data-testid={`forensic-issue-${index}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">{issue.description}</span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Badge variant="outline">{issue.check?.replace(/_/g, ' ')}</Badge>
+                        <Badge variant={getSeverityVariant(issue.severity)}>{issue.severity}</Badge>
+                      </div>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      Confidence {Math.round(issue.confidence * 100)}%
+                      {issue.regions?.length ? ` · ${issue.regions.length} highlighted area(s)` : ''}
+                    </div>
+                    {selectedIssue === index && (
+                      <pre className="mt-2 text-xs bg-white p-2 rounded max-h-40 overflow-auto whitespace-pre-wrap">
+                        {JSON.stringify(issue.evidence, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                No tampering detected in the file
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       )}
     </div>
@@ -9,6 +9,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useICPWallet } from "@/hooks/useICPWallet";
+import NotificationBell from "@/components/notification-bell";
 
 export default function Navigation() {
   const [location] = useLocation();
@@ -106,6 +107,9 @@ export default function Navigation() {
 
           {/* Authentication and Wallet - Mobile Optimized */}
           <div className="flex items-center space-x-2 sm:space-x-4">
+            {/* Notifications */}
+            {isAuthenticated && <NotificationBell />}
+
             {/* Wallet Connection */}
             {isConnected && wallet ? (
               <div className="flex items-center space-x-1 sm:space-x-2">
@@ -0,0 +1,130 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import type { Notification } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { apiRequest } from "@/lib/queryClient";
+
+interface NotificationInbox {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+export default function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+
+  const { data: inbox } = useQuery<NotificationInbox>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60000,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (notificationId: string) => {
+      const response = await apiRequest('PATCH', `/api/notifications/${notificationId}/read`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/notifications/read-all');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+  });
+
+  const notifications = inbox?.notifications ?? [];
+  const unreadCount = inbox?.unreadCount ?? 0;
+
+  const handleOpenNotification = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (notification.link) {
+      setLocation(notification.link);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="relative h-8 w-8 sm:h-9 sm:w-9 border-purple-500/20 hover:border-purple-500/40 hover:bg-purple-500/5"
+          data-testid="button-notifications"
+        >
+          <Bell className="h-3 w-3 sm:h-4 sm:w-4" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-purple-500 text-white text-[10px] leading-[1.1rem] text-center"
+              data-testid="notifications-unread-count"
+            >
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <span className="font-semibold text-sm">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-purple-500"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <div className="px-4 py-8 text-center text-sm text-muted-foreground">
+            No notifications yet
+          </div>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpenNotification(notification)}
+                className={`w-full text-left px-4 py-3 border-b border-border last:border-0 hover:bg-muted/50 transition-colors ${
+                  notification.readAt ? "" : "bg-purple-500/5"
+                }`}
+                data-testid={`notification-${notification.id}`}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.readAt && (
+                    <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-purple-500" />
+                  )}
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{notification.message}</p>
+                    {notification.createdAt && (
+                      <p className="text-[11px] text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -6,12 +6,15 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { RefreshCw, TrendingUp, TrendingDown, AlertCircle, CheckCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { PricingQuery, PricingResponse } from "@shared/schema";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import type { PricingQuery, PricingResponse, PriceHistoryResponse } from "@shared/schema";
 
 interface PricingDisplayProps {
   query: PricingQuery;
   onPriceUpdate?: (pricing: PricingResponse) => void;
   showRefreshButton?: boolean;
+  showHistory?: boolean;
   compact?: boolean;
   className?: string;
 }
@@ -85,10 +88,165 @@ const PriceRange = ({ p25, median, p75, currency, compact = false }: PriceRangeP
   );
 };
 
+// Categories with recorded price history (tracked crypto and metals symbols)
+const HISTORY_CATEGORIES = ['crypto', 'precious_metals'];
+
+const HISTORY_RANGES = [
+  { label: "1D", days: 1 },
+  { label: "7D", days: 7 },
+  { label: "30D", days: 30 },
+  { label: "90D", days: 90 },
+];
+
+const historyChartConfig = {
+  close: {
+    label: "Close",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+interface PriceHistoryChartProps {
+  category: string;
+  symbol: string;
+  currency: string;
+}
+
+const PriceHistoryChart = ({ category, symbol, currency }: PriceHistoryChartProps) => {
+  const [days, setDays] = useState(7);
+
+  const { data: history, isLoading, isError } = useQuery<PriceHistoryResponse>({
+    queryKey: ['/api/pricing/history', category, symbol, days],
+    queryFn: async () => {
+      const params = new URLSearchParams({ category, symbol, days: String(days) });
+      const response = await fetch(`/api/pricing/history?${params.toString()}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch price history: ${response.statusText}`);
+      }
+
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000, // Snapshots are taken every 15 minutes
+  });
+
+  const formatTime = (time: string) => {
+    const date = new Date(time);
+    return history?.interval === 'hour'
+      ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  };
+
+  const formatPrice = (price: number) => new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumSignificantDigits: 6,
+  }).format(price);
+
+  const candles = history?.candles ?? [];
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const change = first && last && first.open > 0 ? ((last.close - first.open) / first.open) * 100 : null;
+
+  return (
+    <div className="space-y-2" data-testid="price-history-chart">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium flex items-center gap-1">
+          Price History
+          {change !== null && (
+            <span
+              className={`flex items-center text-xs ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}
+              data-testid="text-price-history-change"
+            >
+              {change >= 0 ? <TrendingUp className="h-3 w-3 mr-0.5" /> : <TrendingDown className="h-3 w-3 mr-0.5" />}
+              {change.toFixed(2)}%
+            </span>
+          )}
+        </div>
+        <div className="flex space-x-1">
+          {HISTORY_RANGES.map(range => (
+            <Button
+              key={range.days}
+              variant={days === range.days ? "default" : "outline"}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setDays(range.days)}
+              data-testid={`button-history-range-${range.label}`}
+            >
+              {range.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-40 w-full" data-testid="skeleton-price-history" />
+      ) : isError ? (
+        <div className="text-xs text-red-600 text-center" data-testid="text-price-history-error">
+          Failed to load price history
+        </div>
+      ) : candles.length === 0 ? (
+        <div className="text-xs text-muted-foreground text-center py-6" data-testid="text-price-history-empty">
+          No price history recorded for this period yet
+        </div>
+      ) : (
+        <ChartContainer config={historyChartConfig} className="h-40 w-full aspect-auto">
+          <AreaChart data={candles} margin={{ left: 4, right: 4, top: 4 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              tickLine={false}
+              axisLine={false}
+              minTickGap={24}
+              tickFormatter={formatTime}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tickLine={false}
+              axisLine={false}
+              width={64}
+              tickFormatter={(value: number) => formatPrice(value)}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const candle = payload?.[0]?.payload;
+                    return candle ? new Date(candle.time).toLocaleString() : '';
+                  }}
+                  formatter={(_, __, item) => {
+                    const candle = item.payload;
+                    return (
+                      <div className="grid gap-0.5">
+                        <span>O {formatPrice(candle.open)} · C {formatPrice(candle.close)}</span>
+                        <span className="text-muted-foreground">H {formatPrice(candle.high)} · L {formatPrice(candle.low)}</span>
+                      </div>
+                    );
+                  }}
+                />
+              }
+            />
+            <Area
+              dataKey="close"
+              type="monotone"
+              stroke="var(--color-close)"
+              fill="var(--color-close)"
+              fillOpacity={0.15}
+              strokeWidth={2}
+            />
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+};
+
 export const PricingDisplay = ({ 
   query, 
   onPriceUpdate, 
   showRefreshButton = true, 
+  showHistory = true,
   compact = false,
   className = "" 
 }: PricingDisplayProps) => {
@@ -244,6 +402,14 @@ export const PricingDisplay = ({
                 </div>
               )}
             </div>
+
+            {showHistory && query.symbol && HISTORY_CATEGORIES.includes(query.category) && (
+              <PriceHistoryChart
+                category={query.category}
+                symbol={query.symbol.toUpperCase()}
+                currency={pricing.currency}
+              />
+            )}
           </>
         )}
       </div>
@@ -178,7 +178,7 @@ export function useICPWallet(): UseICPWalletReturn {
       return await icpWallet.sendTransaction(
         to, 
         amount, 
-        type as 'fee_payment' | 'loan_disbursement' | 'redemption_payment' | 'bid_payment', 
+        type as 'fee_payment' | 'loan_disbursement' | 'redemption_payment' | 'bid_payment' | 'purchase_payment' | 'extension_fee' | 'loan_repayment', 
         memo
       );
     },
@@ -0,0 +1,76 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useICPWallet } from "@/hooks/useICPWallet";
+import type { LoanPayment, LoanPayoffQuote, PawnLoan } from "@shared/schema";
+
+interface RedemptionIntent {
+  transaction: { id: string };
+  quote: LoanPayoffQuote;
+  payment: { recipientAccountId: string; memo: string; amountICP: number };
+}
+
+// Redeem a pawned asset: pay a fresh payoff quote, then have the backend verify the transfer
+// on the ledger before the loan is marked redeemed and the collateral released
+export function useLoanRedemption() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { wallet, sendTransaction } = useICPWallet();
+
+  return useMutation({
+    mutationFn: async (loanId: string) => {
+      if (!wallet) {
+        throw new Error('Please connect your ICP wallet to redeem assets');
+      }
+
+      // Always pay against a fresh quote - interest accrues daily
+      const quoteResponse = await apiRequest('GET', `/api/pawn-loans/${loanId}/payoff-quote`);
+      const quote: LoanPayoffQuote = await quoteResponse.json();
+
+      const intentResponse = await apiRequest('POST', `/api/pawn-loans/${loanId}/redeem/intent`, {
+        quotedAt: quote.quotedAt
+      });
+      const intent: RedemptionIntent = await intentResponse.json();
+
+      if (wallet.balance < (intent.payment.amountICP + 0.0001)) {
+        throw new Error(`Insufficient balance. You need ${intent.payment.amountICP + 0.0001} ICP (including transaction fee) to redeem this asset.`);
+      }
+
+      const sent = await sendTransaction(
+        intent.payment.recipientAccountId,
+        intent.payment.amountICP,
+        'redemption_payment',
+        intent.payment.memo
+      );
+
+      if (!sent?.blockHeight) {
+        throw new Error('Payment was sent but no ledger block was returned - please contact support');
+      }
+
+      const response = await apiRequest('PATCH', `/api/pawn-loans/${loanId}/redeem`, {
+        transactionId: intent.transaction.id,
+        blockHeight: sent.blockHeight
+      });
+      return response.json() as Promise<{ loan: PawnLoan; payment: LoanPayment; redeemed: boolean }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.redeemed ? "Asset Redeemed" : "Payment Received",
+        description: result.redeemed
+          ? "Your asset has been successfully redeemed!"
+          : "Your payoff quote expired before the payment was confirmed, so it was applied as a repayment. Pay the remaining balance to redeem your asset.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/pawn-loans/user", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pawn-loans"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Redemption Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
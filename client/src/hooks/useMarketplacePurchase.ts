@@ -0,0 +1,75 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useICPWallet } from "@/hooks/useICPWallet";
+import type { MarketplaceAsset } from "@shared/schema";
+
+interface PurchaseIntent {
+  transaction: { id: string };
+  fee: { finalFee: number; isWaived: boolean };
+  payment: { recipientAccountId: string; memo: string; amountICP: number };
+}
+
+// Buy a fixed-price or buy-now listing: pay the quoted price plus marketplace fee, then
+// have the backend verify the transfer on the ledger before the asset is marked sold
+export function useMarketplacePurchase() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuth();
+  const { wallet, sendTransaction } = useICPWallet();
+
+  return useMutation({
+    mutationFn: async (asset: MarketplaceAsset) => {
+      if (!isAuthenticated || !user) {
+        throw new Error('Please log in to buy assets');
+      }
+
+      if (!wallet) {
+        throw new Error('Please connect your ICP wallet to buy assets');
+      }
+
+      if (asset.id.startsWith('demo-')) {
+        throw new Error('This is a demo asset for demonstration purposes only. Purchasing is not available on demo listings.');
+      }
+
+      const intentResponse = await apiRequest('POST', `/api/marketplace/assets/${asset.id}/purchase/intent`);
+      const intent: PurchaseIntent = await intentResponse.json();
+
+      if (wallet.balance < (intent.payment.amountICP + 0.0001)) {
+        throw new Error(`Insufficient balance. You need ${intent.payment.amountICP + 0.0001} ICP (including fees) to buy this asset.`);
+      }
+
+      const sent = await sendTransaction(
+        intent.payment.recipientAccountId,
+        intent.payment.amountICP,
+        'purchase_payment',
+        intent.payment.memo
+      );
+
+      if (!sent?.blockHeight) {
+        throw new Error('Payment was sent but no ledger block was returned - please contact support');
+      }
+
+      const response = await apiRequest('POST', `/api/marketplace/assets/${asset.id}/purchase`, {
+        transactionId: intent.transaction.id,
+        blockHeight: sent.blockHeight
+      });
+      return response.json() as Promise<{ asset: MarketplaceAsset }>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Purchase Complete",
+        description: `You bought ${result.asset.assetName} for ${parseFloat(result.asset.soldPrice ?? "0").toLocaleString()} ICP.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/marketplace/assets"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Purchase Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from "react";
+
+export interface RealtimeEvent<T = any> {
+  type: string;
+  topic: string;
+  data: T;
+  publishedAt: string;
+}
+
+// Subscribe to the server's realtime event stream for the given topics (e.g. `asset:<id>`).
+// Events for the signed-in user's own topic arrive on every stream. `connected` is false
+// while the stream is down, so callers can fall back to polling until it reconnects
+export function useRealtime(
+  topics: string[],
+  onEvent: (event: RealtimeEvent) => void,
+  enabled: boolean = true
+): { connected: boolean } {
+  const [connected, setConnected] = useState(false);
+
+  // Keep the latest handler without reopening the stream on every render
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  const topicKey = topics.join(",");
+
+  useEffect(() => {
+    if (!enabled || typeof EventSource === "undefined") {
+      setConnected(false);
+      return;
+    }
+
+    const query = topicKey ? `?topics=${encodeURIComponent(topicKey)}` : "";
+    const source = new EventSource(`/api/realtime/events${query}`, { withCredentials: true });
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+    source.onmessage = (message) => {
+      try {
+        const event = JSON.parse(message.data);
+        if (event.type === "ready") {
+          setConnected(true);
+          return;
+        }
+        onEventRef.current(event as RealtimeEvent);
+      } catch (error) {
+        console.error("Failed to parse realtime event:", error);
+      }
+    };
+
+    return () => {
+      source.close();
+      setConnected(false);
+    };
+  }, [topicKey, enabled]);
+
+  return { connected };
+}
@@ -329,7 +329,7 @@ export class ICPWalletService {
   async sendTransaction(
     to: string,
     amount: number,
-    type: 'fee_payment' | 'loan_disbursement' | 'redemption_payment' | 'bid_payment',
+    type: 'fee_payment' | 'loan_disbursement' | 'redemption_payment' | 'bid_payment' | 'purchase_payment' | 'extension_fee' | 'loan_repayment',
     memo?: string
   ): Promise<ICPTransaction> {
     if (!this.wallet) {
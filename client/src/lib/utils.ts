@@ -81,6 +81,17 @@ export function formatCountdown(expiryDate: Date): {
   };
 }
 
+// Compact time left on an auction, e.g. "2d 4h", "3h 12m" or "45s"
+export function formatAuctionTimeRemaining(endsAt: Date | string): string {
+  const { days, hours, minutes, seconds, isExpired } = formatCountdown(new Date(endsAt));
+
+  if (isExpired) return "Ended";
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
 export function validateICPAddress(address: string): boolean {
   // Basic ICP address validation pattern
   const icpPattern = /^[a-zA-Z0-9]{27,63}$/;
@@ -5,11 +5,13 @@ import AdminPanel from "@/components/admin-panel";
 import AdminDocumentQueue from "@/components/admin-document-queue";
 import AdminDashboard from "@/components/AdminDashboard";
 import FraudAlerts from "@/components/FraudAlerts";
+import FraudRules from "@/components/FraudRules";
 import AssetReview from "@/components/AssetReview";
 import UserManagement from "@/components/UserManagement";
 import BridgeMonitoring from "@/components/BridgeMonitoring";
 import KycManagement from "@/components/KycManagement";
 import FormSubmissionsManagement from "@/components/FormSubmissionsManagement";
+import LoanPolicies from "@/components/LoanPolicies";
 import Footer from "@/components/footer";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card } from "@/components/ui/card";
@@ -70,13 +72,16 @@ export default function Admin() {
         <Tabs defaultValue="dashboard" className="w-full">
           {/* Mobile-first responsive tabs */}
           <div className="overflow-x-auto mb-6 sm:mb-8">
-            <TabsList className="grid w-full grid-cols-9 lg:grid-cols-9 min-w-max">
+            <TabsList className="grid w-full grid-cols-11 lg:grid-cols-11 min-w-max">
               <TabsTrigger value="dashboard" data-testid="tab-dashboard" className="text-xs px-2 sm:px-3 sm:text-sm whitespace-nowrap">
                 Dashboard
               </TabsTrigger>
               <TabsTrigger value="fraud" data-testid="tab-fraud" className="text-xs px-2 sm:px-3 sm:text-sm whitespace-nowrap">
                 Fraud
               </TabsTrigger>
+              <TabsTrigger value="fraud-rules" data-testid="tab-fraud-rules-admin" className="text-xs px-2 sm:px-3 sm:text-sm whitespace-nowrap">
+                Fraud Rules
+              </TabsTrigger>
               <TabsTrigger value="assets" data-testid="tab-assets" className="text-xs px-2 sm:px-3 sm:text-sm whitespace-nowrap">
                 Assets
               </TabsTrigger>
@@ -98,6 +103,9 @@ export default function Admin() {
               <TabsTrigger value="forms" data-testid="tab-forms" className="text-xs px-2 sm:px-3 sm:text-sm whitespace-nowrap">
                 Forms
               </TabsTrigger>
+              <TabsTrigger value="policies" data-testid="tab-policies" className="text-xs px-2 sm:px-3 sm:text-sm whitespace-nowrap">
+                Policies
+              </TabsTrigger>
             </TabsList>
           </div>
           
@@ -109,6 +117,10 @@ export default function Admin() {
             <FraudAlerts />
           </TabsContent>
           
+          <TabsContent value="fraud-rules" className="space-y-4">
+            <FraudRules />
+          </TabsContent>
+          
           <TabsContent value="assets" className="space-y-4">
             <AssetReview />
           </TabsContent>
@@ -136,6 +148,10 @@ export default function Admin() {
           <TabsContent value="forms" className="space-y-4">
             <FormSubmissionsManagement />
           </TabsContent>
+          
+          <TabsContent value="policies" className="space-y-4">
+            <LoanPolicies />
+          </TabsContent>
         </Tabs>
       </div>
       <Footer />
@@ -1,31 +1,103 @@
+import { useState, useEffect, useRef } from "react";
 import { useParams, Link } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ArrowLeft, Eye, Calendar, MapPin, Wallet, TrendingUp, Shield, Award } from "lucide-react";
-import type { MarketplaceAsset } from "@shared/schema";
-import { demoMarketplaceAssets, getEnhancedDemoAsset, type ExtendedDemoAsset } from "@shared/demo-assets";
+import { ArrowLeft, Eye, EyeOff, Calendar, MapPin, Wallet, TrendingUp, Shield, Award, Clock } from "lucide-react";
+import { formatAuctionTimeRemaining } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useMarketplacePurchase } from "@/hooks/useMarketplacePurchase";
+import { useRealtime } from "@/hooks/useRealtime";
+import { getMinimumNextBid, getBuyNowRejection, type MarketplaceAsset, type WatchedMarketplaceAsset } from "@shared/schema";
+import { getEnhancedDemoAsset, type ExtendedDemoAsset } from "@shared/demo-assets";
 import SEO from "@/components/seo";
 
 export default function AssetDetail() {
   const { assetId } = useParams<{ assetId: string }>();
 
-  // Fetch marketplace assets from API
-  const { data: apiAssets = [], isLoading, error } = useQuery<MarketplaceAsset[]>({
-    queryKey: ['/api/marketplace/assets'],
-    staleTime: 5 * 60 * 1000, // 5 minutes
+  // Tick every second so the auction countdown stays current
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated } = useAuth();
+  const purchaseMutation = useMarketplacePurchase();
+
+  // Demo assets are bundled with the client; everything else is fetched by id
+  const isDemoAsset = !!assetId?.startsWith('demo-');
+
+  // New bids, extensions and settlement are pushed on the asset's realtime topic
+  const { connected: realtimeConnected } = useRealtime([`asset:${assetId}`], (event) => {
+    if (event.data?.asset?.id === assetId) {
+      queryClient.setQueryData(['/api/marketplace/assets', assetId], event.data.asset);
+    }
+  }, isAuthenticated && !!assetId && !isDemoAsset);
+
+  // Signed-out visitors (or a dropped stream) fall back to polling live listings
+  const { data: apiAsset, isLoading, error } = useQuery<MarketplaceAsset>({
+    queryKey: ['/api/marketplace/assets', assetId],
+    enabled: !!assetId && !isDemoAsset,
+    refetchInterval: (query) => !realtimeConnected && query.state.data?.status === "available" ? 5000 : false,
   });
 
-  // Combine API assets with demo assets
-  const allAssets = [...apiAssets, ...demoMarketplaceAssets];
-  
-  // Find the asset and enhance if it's a demo asset
-  const asset = allAssets.find(a => a.id === assetId);
-  const enhancedAsset: ExtendedDemoAsset | undefined = asset ? 
-    (asset.id.startsWith('demo-') ? getEnhancedDemoAsset(asset.id) : asset as ExtendedDemoAsset) : 
-    undefined;
+  const { data: watchedAssets } = useQuery<WatchedMarketplaceAsset[]>({
+    queryKey: ['/api/marketplace/watchlist'],
+    enabled: isAuthenticated && !isDemoAsset,
+  });
+  const isWatching = !!watchedAssets?.some((watched) => watched.asset.id === assetId);
+
+  const watchMutation = useMutation({
+    mutationFn: async (watch: boolean) => {
+      if (!isAuthenticated) {
+        throw new Error('Please log in to watch assets');
+      }
+      await apiRequest(watch ? 'POST' : 'DELETE', `/api/marketplace/assets/${assetId}/watch`);
+      return watch;
+    },
+    onSuccess: (watch) => {
+      toast({
+        title: watch ? "Added to Watchlist" : "Removed from Watchlist",
+        description: watch
+          ? "You'll be alerted when you're outbid or this auction is ending."
+          : "You'll no longer get alerts for this asset.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/marketplace/watchlist'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Watchlist Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Let the user know as soon as an update shows someone else took the highest bid
+  const previousHighestBidder = useRef<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (!apiAsset || !user) return;
+    const wasLeading = previousHighestBidder.current === user.id;
+    if (wasLeading && apiAsset.highestBidder !== user.id) {
+      toast({
+        title: "You've been outbid",
+        description: `The current bid on ${apiAsset.assetName} is now ${parseFloat(apiAsset.currentBid ?? apiAsset.startingPrice).toLocaleString()} ICP.`,
+        variant: "destructive",
+      });
+    }
+    previousHighestBidder.current = apiAsset.highestBidder;
+  }, [apiAsset, user, toast]);
+
+  const enhancedAsset: ExtendedDemoAsset | undefined = isDemoAsset
+    ? getEnhancedDemoAsset(assetId)
+    : apiAsset as ExtendedDemoAsset | undefined;
 
   if (isLoading) {
     return (
@@ -60,6 +132,22 @@ export default function AssetDetail() {
     }).format(parseFloat(amount));
   };
 
+  const auctionEnded = enhancedAsset.status !== "available" ||
+    (!!enhancedAsset.auctionEndsAt && new Date(enhancedAsset.auctionEndsAt).getTime() <= now);
+  const reserveMet = !enhancedAsset.reservePrice ||
+    (!!enhancedAsset.currentBid && parseFloat(enhancedAsset.currentBid) >= parseFloat(enhancedAsset.reservePrice));
+
+  const isAuction = enhancedAsset.listingType !== "fixed_price";
+  const buyNowRejection = enhancedAsset.listingType !== "auction" ? getBuyNowRejection(enhancedAsset, new Date(now)) : null;
+
+  const getBiddingStatus = () => {
+    if (enhancedAsset.status === "sold") return "Sold";
+    if (enhancedAsset.status === "unsold") return "Unsold";
+    if (auctionEnded) return "Ended";
+    if (!isAuction) return "For Sale";
+    return enhancedAsset.currentBid ? "Active" : "New";
+  };
+
   const getCategoryColor = (category: string) => {
     switch (category.toLowerCase()) {
       case "real estate":
@@ -141,12 +229,24 @@ export default function AssetDetail() {
                   {formatCurrency(enhancedAsset.originalValue)}
                 </span>
               </div>
-              <div className="flex justify-between items-center">
-                <span className="text-muted-foreground">Starting Price</span>
-                <span className="font-semibold text-lg" data-testid={`asset-detail-starting-price-${enhancedAsset.id}`}>
-                  {formatCurrency(enhancedAsset.startingPrice)}
-                </span>
-              </div>
+              {enhancedAsset.listingType !== "auction" && enhancedAsset.buyNowPrice && (
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">
+                    {enhancedAsset.listingType === "fixed_price" ? "Price" : "Buy Now Price"}
+                  </span>
+                  <span className="font-bold text-green-600 text-xl" data-testid={`asset-detail-buy-now-price-${enhancedAsset.id}`}>
+                    {formatCurrency(enhancedAsset.buyNowPrice)}
+                  </span>
+                </div>
+              )}
+              {isAuction && (
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Starting Price</span>
+                  <span className="font-semibold text-lg" data-testid={`asset-detail-starting-price-${enhancedAsset.id}`}>
+                    {formatCurrency(enhancedAsset.startingPrice)}
+                  </span>
+                </div>
+              )}
               {enhancedAsset.currentBid && (
                 <div className="flex justify-between items-center border-t pt-4">
                   <span className="text-green-600 font-medium flex items-center">
@@ -166,6 +266,32 @@ export default function AssetDetail() {
                   </span>
                 </div>
               )}
+              {enhancedAsset.soldPrice ? (
+                <div className="flex justify-between items-center border-t pt-4">
+                  <span className="text-muted-foreground">Sold For</span>
+                  <span className="font-bold text-xl" data-testid={`asset-detail-sold-price-${enhancedAsset.id}`}>
+                    {formatCurrency(enhancedAsset.soldPrice)}
+                  </span>
+                </div>
+              ) : isAuction && !auctionEnded && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-muted-foreground">Minimum Next Bid</span>
+                  <span className="font-medium" data-testid={`asset-detail-minimum-bid-${enhancedAsset.id}`}>
+                    {formatCurrency(getMinimumNextBid(enhancedAsset).toString())}
+                  </span>
+                </div>
+              )}
+              {enhancedAsset.reservePrice && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-muted-foreground">Reserve Price</span>
+                  <span className="font-medium" data-testid={`asset-detail-reserve-${enhancedAsset.id}`}>
+                    {formatCurrency(enhancedAsset.reservePrice)}
+                    <Badge variant={reserveMet ? "secondary" : "outline"} className="ml-2">
+                      {reserveMet ? "Met" : "Not met"}
+                    </Badge>
+                  </span>
+                </div>
+              )}
             </div>
           </Card>
 
@@ -196,16 +322,81 @@ export default function AssetDetail() {
             </div>
           </Card>
 
+          {/* Auction Timing */}
+          {enhancedAsset.auctionEndsAt && (
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4 flex items-center">
+                <Clock className="w-5 h-5 mr-2" />
+                {isAuction ? "Auction" : "Listing"}
+              </h3>
+              <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">{auctionEnded ? "Ended" : "Ends In"}</span>
+                  <span
+                    className={auctionEnded ? "font-semibold text-destructive" : "font-semibold text-lg"}
+                    data-testid={`asset-detail-time-remaining-${enhancedAsset.id}`}
+                  >
+                    {auctionEnded
+                      ? new Date(enhancedAsset.auctionEndsAt).toLocaleString()
+                      : formatAuctionTimeRemaining(enhancedAsset.auctionEndsAt)}
+                  </span>
+                </div>
+                {enhancedAsset.auctionExtensions > 0 && (
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-muted-foreground">Extended by late bids</span>
+                    <span data-testid={`asset-detail-extensions-${enhancedAsset.id}`}>
+                      {enhancedAsset.auctionExtensions} time{enhancedAsset.auctionExtensions === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                )}
+                {isAuction && (
+                  <p className="text-xs text-muted-foreground">
+                    Bids placed in the final minutes extend the auction so every bidder has a chance to respond.
+                  </p>
+                )}
+              </div>
+            </Card>
+          )}
+
           {/* Action Buttons */}
           <div className="space-y-3">
-            <Link href="/marketplace">
-              <Button size="lg" className="w-full bg-purple-600 hover:bg-purple-700 text-white" data-testid={`button-place-bid-detail-${enhancedAsset.id}`}>
-                Place Bid on Marketplace
+            {enhancedAsset.listingType !== "auction" && enhancedAsset.buyNowPrice && (
+              <Button
+                size="lg"
+                onClick={() => purchaseMutation.mutate(enhancedAsset)}
+                disabled={purchaseMutation.isPending || buyNowRejection !== null}
+                className="w-full bg-green-600 hover:bg-green-700 text-white"
+                data-testid={`button-buy-now-detail-${enhancedAsset.id}`}
+              >
+                {purchaseMutation.isPending
+                  ? "Buying..."
+                  : buyNowRejection
+                  ? buyNowRejection.error
+                  : `Buy Now for ${formatCurrency(enhancedAsset.buyNowPrice)}`}
               </Button>
-            </Link>
-            <Button variant="outline" size="lg" className="w-full" data-testid={`button-watch-asset-${enhancedAsset.id}`}>
-              <Eye className="w-4 h-4 mr-2" />
-              Add to Watchlist
+            )}
+            {isAuction && (
+              <Link href="/marketplace">
+                <Button
+                  size="lg"
+                  disabled={auctionEnded}
+                  className="w-full bg-purple-600 hover:bg-purple-700 text-white"
+                  data-testid={`button-place-bid-detail-${enhancedAsset.id}`}
+                >
+                  {auctionEnded ? "Auction Ended" : "Place Bid on Marketplace"}
+                </Button>
+              </Link>
+            )}
+            <Button
+              variant="outline"
+              size="lg"
+              className="w-full"
+              onClick={() => watchMutation.mutate(!isWatching)}
+              disabled={isDemoAsset || watchMutation.isPending}
+              data-testid={`button-watch-asset-${enhancedAsset.id}`}
+            >
+              {isWatching ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
+              {isWatching ? "Remove from Watchlist" : "Add to Watchlist"}
             </Button>
           </div>
         </div>
@@ -254,8 +445,8 @@ export default function AssetDetail() {
             <div className="text-sm text-muted-foreground">Days Since Expiry</div>
           </div>
           <div>
-            <div className="text-2xl font-bold text-purple-500 mb-2">
-              {enhancedAsset.currentBid ? "Active" : "New"}
+            <div className="text-2xl font-bold text-purple-500 mb-2" data-testid={`asset-detail-bidding-status-${enhancedAsset.id}`}>
+              {getBiddingStatus()}
             </div>
             <div className="text-sm text-muted-foreground">Bidding Status</div>
           </div>
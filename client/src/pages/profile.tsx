@@ -31,7 +31,8 @@ import {
   Copy,
   RefreshCw,
   ExternalLink,
-  Coins
+  Coins,
+  Gavel
 } from "lucide-react";
 
 import Navigation from "@/components/navigation";
@@ -50,8 +51,10 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useICPWallet } from "@/hooks/useICPWallet";
+import { useLoanRedemption } from "@/hooks/useLoanRedemption";
 import { apiRequest } from "@/lib/queryClient";
-import type { User } from "@shared/schema";
+import { formatAuctionTimeRemaining } from "@/lib/utils";
+import type { User, WatchedMarketplaceAsset } from "@shared/schema";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ObjectUploader } from '@/components/ObjectUploader';
 
@@ -298,6 +301,12 @@ export default function Profile() {
     enabled: !!user?.id
   });
 
+  // Fetch marketplace assets the user is watching
+  const { data: watchedAssets, isLoading: watchlistLoading } = useQuery<WatchedMarketplaceAsset[]>({
+    queryKey: ["/api/marketplace/watchlist"],
+    enabled: !!user
+  });
+
   // Fetch user's KYC information
   // Use user-scoped cache key to prevent cross-user data leakage
   const { data: kycInfo, isLoading: kycLoading, error: kycError } = useQuery<KYCInformation>({
@@ -568,23 +577,22 @@ export default function Profile() {
     }
   });
 
-  // Pawn loan redemption mutation
-  const redeemLoanMutation = useMutation({
-    mutationFn: async (loanId: string) => {
-      const response = await apiRequest("PATCH", `/api/pawn-loans/${loanId}/redeem`, {});
+  // Pawn loan redemption - pays the payoff quote from the connected wallet
+  const redeemLoanMutation = useLoanRedemption();
+
+  // Stop watching a marketplace asset
+  const unwatchAssetMutation = useMutation({
+    mutationFn: async (assetId: string) => {
+      const response = await apiRequest("DELETE", `/api/marketplace/assets/${assetId}/watch`);
       return response;
     },
     onSuccess: () => {
-      toast({
-        title: "Asset Redeemed",
-        description: "Your asset has been successfully redeemed.",
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/pawn-loans/user", user?.id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/marketplace/watchlist"] });
     },
     onError: (error: any) => {
       toast({
-        title: "Redemption Failed",
-        description: error.message || "Failed to redeem asset. Please try again.",
+        title: "Update Failed",
+        description: error.message || "Failed to remove asset from your watchlist. Please try again.",
         variant: "destructive",
       });
     }
@@ -1906,6 +1914,83 @@ export default function Profile() {
                   )}
                 </CardContent>
               </Card>
+
+              {/* Watched Marketplace Assets */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Watching</CardTitle>
+                  <CardDescription>
+                    Marketplace assets you follow - you'll be alerted when you're outbid or an auction is ending
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {watchlistLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                    </div>
+                  ) : !watchedAssets || watchedAssets.length === 0 ? (
+                    <div className="text-center py-8">
+                      <Eye className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                      <p className="text-muted-foreground mb-4">You're not watching any assets</p>
+                      <Link href="/marketplace">
+                        <Button variant="outline" data-testid="button-browse-marketplace">
+                          Browse Marketplace
+                        </Button>
+                      </Link>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {watchedAssets.map(({ asset }) => {
+                        const isLeading = asset.highestBidder === user?.id;
+
+                        return (
+                          <div key={asset.id} className="p-4 border rounded-lg" data-testid={`watched-asset-${asset.id}`}>
+                            <div className="flex justify-between items-start">
+                              <div className="space-y-2">
+                                <div className="flex items-center space-x-2">
+                                  <Link href={`/asset/${asset.id}`}>
+                                    <h4 className="font-semibold hover:underline cursor-pointer">{asset.assetName}</h4>
+                                  </Link>
+                                  {asset.status !== "available" ? (
+                                    <Badge variant="secondary">{asset.status === "sold" ? "Sold" : "Ended"}</Badge>
+                                  ) : asset.highestBidder && (
+                                    <Badge className={isLeading ? "bg-green-500 text-white" : "bg-orange-500 text-white"}>
+                                      {isLeading ? "Highest Bidder" : "Outbid"}
+                                    </Badge>
+                                  )}
+                                </div>
+                                <p className="text-sm text-muted-foreground">{asset.category}</p>
+                                <div className="flex items-center space-x-4 text-sm">
+                                  <span className="flex items-center">
+                                    <Gavel className="h-4 w-4 mr-1" />
+                                    {asset.currentBid ? "Current Bid" : "Starting Price"}: {parseFloat(asset.currentBid ?? asset.startingPrice).toLocaleString()} ICP
+                                  </span>
+                                  {asset.status === "available" && asset.auctionEndsAt && (
+                                    <span className="flex items-center">
+                                      <Clock className="h-4 w-4 mr-1" />
+                                      {formatAuctionTimeRemaining(asset.auctionEndsAt)}
+                                    </span>
+                                  )}
+                                </div>
+                              </div>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => unwatchAssetMutation.mutate(asset.id)}
+                                disabled={unwatchAssetMutation.isPending}
+                                data-testid={`button-unwatch-${asset.id}`}
+                              >
+                                <EyeOff className="h-4 w-4 mr-1" />
+                                Unwatch
+                              </Button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
             </TabsContent>
 
             {/* Activity Tab */}
@@ -5,6 +5,7 @@ import * as secp256k1 from "@noble/secp256k1";
 import { sha256 } from "@noble/hashes/sha2";
 import { Principal } from "@dfinity/principal";
 import { AuthClient } from "@dfinity/auth-client";
+import { AccountIdentifier } from "@dfinity/ledger-icp";
 import crypto from "crypto";
 
 export interface SignatureVerification {
@@ -134,6 +135,16 @@ export class CryptoVerificationService {
     }
   }
 
+  // Whether an AccountIdentifier is the default-subaccount account of a principal
+  static isICPAccountOfPrincipal(accountId: string, principalId: string): boolean {
+    try {
+      const derived = AccountIdentifier.fromPrincipal({ principal: Principal.fromText(principalId) }).toHex();
+      return derived.toLowerCase() === accountId.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
   // Enhanced principal validation for ICP
   static isValidICPPrincipal(principalId: string): boolean {
     try {
@@ -1,5 +1,6 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
+import { createRequire } from "module";
 import ws from "ws";
 import * as schema from "@shared/schema";
 
@@ -11,5 +12,30 @@ if (!process.env.DATABASE_URL) {
   );
 }
 
+// The tests set DATABASE_URL=memory:// to run on an in-process PGlite database instead. Its schema
+// is created the way drizzle-kit push would; wait for databaseReady before the first query.
+// PGlite and drizzle-kit are dev dependencies, so they are only loaded in this mode
+const MEMORY_DATABASE_URL = "memory://";
+
+function connectInMemory(): { db: NeonDatabase<typeof schema>; ready: Promise<void> } {
+  const require = createRequire(import.meta.url);
+  const { PGlite }: typeof import("@electric-sql/pglite") = require("@electric-sql/pglite");
+  const { drizzle: drizzlePglite }: typeof import("drizzle-orm/pglite") = require("drizzle-orm/pglite");
+  const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") = require("drizzle-kit/api");
+
+  const client = new PGlite();
+  const ready = (async () => {
+    for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+      await client.exec(statement);
+    }
+  })();
+
+  // Same query builder as Neon; only raw execute() results differ (affectedRows, not rowCount)
+  return { db: drizzlePglite({ client, schema }) as unknown as NeonDatabase<typeof schema>, ready };
+}
+
+const memory = process.env.DATABASE_URL === MEMORY_DATABASE_URL ? connectInMemory() : null;
+
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export const db = memory?.db ?? drizzle({ client: pool, schema });
+export const databaseReady: Promise<void> = memory?.ready ?? Promise.resolve();
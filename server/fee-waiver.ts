@@ -40,7 +40,7 @@ export function checkFeeWaiverForUser(user: UserForFeeWaiver | null | undefined)
 export function calculateFeeWithWaiverForUser(
   originalFee: number,
   user: UserForFeeWaiver | null | undefined,
-  feeType: 'listing' | 'marketplace' | 'interest' | 'bridge' | 'other' = 'other'
+  feeType: 'listing' | 'marketplace' | 'interest' | 'extension' | 'bridge' | 'other' = 'other'
 ): FeeWaiverResult {
   const isWaived = checkFeeWaiverForUser(user);
   
@@ -69,6 +69,7 @@ export const PLATFORM_FEES = {
   LISTING_FEE_USDC: 25,          // 25 USDC flat fee per listing
   MARKETPLACE_RATE: 0.03,         // 3% marketplace transaction fee
   LOAN_INTEREST_APR: 0.085,       // 8.5% APR on loans
+  LOAN_EXTENSION_RATE: 0.01,      // 1% of loan amount per 30-day extension
   BRIDGE_FEE_RATE: 0.005,         // 0.5% bridge transaction fee
 };
 
@@ -103,6 +104,17 @@ export function calculateLoanInterestForUser(
   return calculateFeeWithWaiverForUser(originalFee, user, 'interest');
 }
 
+/**
+ * Calculate loan extension fee with waiver
+ */
+export function calculateLoanExtensionFeeForUser(
+  principal: number,
+  user: UserForFeeWaiver | null | undefined
+): FeeWaiverResult {
+  const originalFee = principal * PLATFORM_FEES.LOAN_EXTENSION_RATE;
+  return calculateFeeWithWaiverForUser(originalFee, user, 'extension');
+}
+
 /**
  * Calculate bridge transaction fee with waiver
  */
@@ -134,6 +146,7 @@ export function getFeeWaiverStatusForUser(user: UserForFeeWaiver | null | undefi
         '100% waiver on listing fees ($25 USDC value)',
         '100% waiver on marketplace transaction fees (3%)',
         '100% waiver on loan interest (8.5% APR)',
+        '100% waiver on loan extension fees (1%)',
         '100% waiver on bridge transaction fees (0.5%)'
       ]
     };
@@ -316,6 +316,73 @@ export class ICPLedgerService {
     }
   }
 
+  // Verify the transfer recorded at a specific block, as reported by the payer's wallet
+  async verifyTransaction(
+    blockHeight: number,
+    expectedRecipient: string,
+    expectedAmount: number,
+    expectedMemo: string
+  ): Promise<TransactionVerification> {
+    try {
+      await this.initAgent();
+
+      const recipientAccountId = /^[0-9a-fA-F]{64}$/.test(expectedRecipient)
+        ? this.accountIdHexToBytes(expectedRecipient)
+        : this.principalToAccountId(Principal.fromText(expectedRecipient));
+      const expectedAmountE8s = BigInt(Math.floor(expectedAmount * 100000000));
+      const expectedMemoNum = BigInt(expectedMemo);
+
+      const result = await this.ledgerActor.query_blocks({
+        start: BigInt(blockHeight),
+        length: BigInt(1),
+      });
+
+      const block = result.blocks?.[0];
+      if (!block) {
+        return {
+          found: false,
+          verified: false,
+          error: `Block ${blockHeight} not found on the ledger (it may not exist yet or has been archived)`
+        };
+      }
+
+      if (!block.transaction?.operation || !('Transfer' in block.transaction.operation)) {
+        return { found: true, verified: false, error: `Block ${blockHeight} is not a transfer` };
+      }
+
+      const transfer = block.transaction.operation.Transfer;
+      const memo = block.transaction.memo;
+      const timestamp = new Date(Number(block.timestamp.timestamp_nanos) / 1000000);
+
+      if (!this.arrayEquals(transfer.to, recipientAccountId)) {
+        return { found: true, verified: false, error: 'Transfer recipient does not match' };
+      }
+      if (transfer.amount.e8s !== expectedAmountE8s) {
+        return { found: true, verified: false, error: `Transfer amount ${transfer.amount.e8s} e8s does not match expected ${expectedAmountE8s} e8s` };
+      }
+      if (memo !== expectedMemoNum) {
+        return { found: true, verified: false, error: 'Transfer memo does not match' };
+      }
+
+      return {
+        found: true,
+        verified: true,
+        blockHeight: BigInt(blockHeight),
+        timestamp,
+        actualAmount: transfer.amount.e8s,
+        actualMemo: memo,
+        actualRecipient: expectedRecipient,
+      };
+    } catch (error) {
+      console.error(`Error verifying transaction at block ${blockHeight}:`, error);
+      return {
+        found: false,
+        verified: false,
+        error: error instanceof Error ? error.message : 'Transaction verification failed'
+      };
+    }
+  }
+
   // Helper to compare Uint8Arrays
   private arrayEquals(a: Uint8Array, b: Uint8Array): boolean {
     if (a.length !== b.length) return false;
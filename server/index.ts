@@ -2,6 +2,17 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { bridgeMonitor } from "./services/bridge-monitor";
+import { bridgeRefundService } from "./services/bridge-refund";
+import { loanAccounting } from "./services/loan-accounting";
+import { loanExpiryService } from "./services/loan-expiry";
+import { notificationService } from "./services/notification-service";
+import { loanPolicyService } from "./services/loan-policy";
+import { fraudRuleService } from "./services/fraud-rules";
+import { auctionSettlementService } from "./services/auction-settlement";
+import { priceHistoryService } from "./services/price-history";
+import { collateralMonitor } from "./services/collateral-monitor";
+import { documentAnalysisWorker } from "./services/document-analysis-worker";
+import { realtimeService } from "./services/realtime";
 import { errorHandler, notFoundHandler } from "./middleware/validation";
 
 // Development authentication bypass (commented out after successful testing)
@@ -56,6 +67,52 @@ app.use((req, res, next) => {
     log("Failed to start bridge monitoring service:", error instanceof Error ? error.message : String(error));
   }
 
+  // Start refunds for bridges that failed after receiving source funds
+  bridgeRefundService.startRefundSchedule();
+
+  // Seed default loan policies for any asset category that has none yet
+  try {
+    await loanPolicyService.ensureDefaultPolicies();
+  } catch (error) {
+    log("Failed to seed default loan policies:", error instanceof Error ? error.message : String(error));
+  }
+
+  // Publish the built-in fraud rules as version 1 if no rule set exists yet
+  try {
+    await fraudRuleService.ensureDefaultRuleSet();
+  } catch (error) {
+    log("Failed to seed default fraud rules:", error instanceof Error ? error.message : String(error));
+  }
+
+  // Start daily interest accrual for active pawn loans
+  loanAccounting.startAccrualSchedule();
+
+  // Start scheduled expiry and forfeiture of unredeemed pawn loans
+  try {
+    await loanExpiryService.startScheduler();
+    log("Loan expiry service started successfully");
+  } catch (error) {
+    log("Failed to start loan expiry service:", error instanceof Error ? error.message : String(error));
+  }
+
+  // Start pre-expiry reminder notifications for borrowers
+  notificationService.startReminderSchedule();
+
+  // Start settlement of marketplace auctions that have ended
+  auctionSettlementService.startSettlementSchedule();
+
+  // Start scheduled snapshots of tracked crypto and metals prices
+  priceHistoryService.startCaptureSchedule();
+
+  // Start revaluation of crypto and precious metals collateral on active loans
+  collateralMonitor.startRevaluationSchedule();
+
+  // Start the workers that analyze queued documents
+  documentAnalysisWorker.startWorkers();
+
+  // Keep realtime event streams alive between events
+  realtimeService.startHeartbeat();
+
   // Use comprehensive error handling middleware
   app.use(errorHandler);
 
@@ -88,6 +145,15 @@ app.use((req, res, next) => {
   const gracefulShutdown = () => {
     log('Shutting down gracefully...');
     bridgeMonitor.stopMonitoring();
+    bridgeRefundService.stopRefundSchedule();
+    loanAccounting.stopAccrualSchedule();
+    loanExpiryService.stopScheduler();
+    notificationService.stopReminderSchedule();
+    auctionSettlementService.stopSettlementSchedule();
+    priceHistoryService.stopCaptureSchedule();
+    collateralMonitor.stopRevaluationSchedule();
+    documentAnalysisWorker.stopWorkers();
+    realtimeService.stopHeartbeat();
     process.exit(0);
   };
 
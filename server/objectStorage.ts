@@ -154,6 +154,26 @@ export class ObjectStorageService {
     });
   }
 
+  // Uploads a private object entity with its ACL policy and returns its normalized /objects/ path.
+  async uploadObjectEntity(entityId: string, buffer: Buffer, contentType: string, aclPolicy: ObjectAclPolicy): Promise<string> {
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
+    }
+    const { bucketName, objectName } = parseObjectPath(`${entityDir}${entityId}`);
+    const objectFile = objectStorageClient.bucket(bucketName).file(objectName);
+    await objectFile.save(buffer, { contentType, resumable: false });
+    await setObjectAclPolicy(objectFile, aclPolicy);
+    return `/objects/${entityId}`;
+  }
+
+  // Reads a private object entity into memory.
+  async readObjectEntity(objectPath: string): Promise<Buffer> {
+    const objectFile = await this.getObjectEntityFile(objectPath);
+    const [contents] = await objectFile.download();
+    return contents;
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
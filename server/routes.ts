@@ -15,7 +15,6 @@ import {
   insertRwaSubmissionSchema,
   insertPawnLoanSchema,
   insertMarketplaceAssetSchema,
-  insertBidSchema,
   insertTransactionSchema,
   insertBridgeTransactionSchema,
   insertUserSchema,
@@ -39,7 +38,15 @@ import {
   resetPasswordSchema,
   changePasswordSchema,
   contactFormSchema,
-  formSubmissions
+  formSubmissions,
+  insertLoanPolicySchema,
+  insertFraudRuleSchema,
+  fraudTemplateInputSchema,
+  insertFraudBlacklistEntrySchema,
+  retireFraudRuleSetEntrySchema,
+  getBidRejection,
+  getBuyNowRejection,
+  marketplaceSearchSchema
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import bcrypt from "bcryptjs";
@@ -146,10 +153,25 @@ const rwapawnPaymentConfirmSchema = z.object({
 import { CryptoVerificationService } from "./crypto-utils";
 import { ICPLedgerService } from "./icp-ledger-service";
 import { pricingService } from "./services/pricing-service";
+import { InvalidPricingQueryError } from "./services/pricing-providers";
+import { priceHistoryService } from "./services/price-history";
+import { collateralMonitor } from "./services/collateral-monitor";
 import { chainFusionBridge } from "./services/chain-fusion-bridge";
+import { bridgeRefundService } from "./services/bridge-refund";
+import { bridgeRouteRegistry } from "./services/bridge-routes";
+import { bridgeLimitsService, BridgeLimitExceededError } from "./services/bridge-limits";
 import documentAnalysisService from "./services/document-analysis";
+import { documentAnalysisWorker } from "./services/document-analysis-worker";
 import { adminService } from "./services/admin-service";
-import { pricingQuerySchema } from "@shared/schema";
+import { loanAccounting } from "./services/loan-accounting";
+import { loanExpiryService } from "./services/loan-expiry";
+import { loanPolicyService } from "./services/loan-policy";
+import { fraudRuleService, type FraudRuleActor } from "./services/fraud-rules";
+import type { FraudRuleSetPublication } from "./storage";
+import { loanValuationService } from "./services/loan-valuation";
+import { notificationService } from "./services/notification-service";
+import { realtimeService, parseRealtimeTopic, MAX_REALTIME_TOPICS } from "./services/realtime";
+import { pricingQuerySchema, priceHistoryQuerySchema, priceAtQuerySchema, COLLATERAL_LTV_THRESHOLDS } from "@shared/schema";
 import { db } from "./db";
 import { sql, eq, and } from "drizzle-orm";
 import { rwapawnPurchases } from "@shared/schema";
@@ -3231,7 +3253,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/rwa-submissions/:id/status", requireAdminAuth, async (req: any, res) => {
     try {
-      const { status, adminNotes, reviewedBy } = req.body;
+      const { status, adminNotes, reviewedBy, appraisedValue, overrideReason, collateralSymbol } = req.body;
       
       if (!["approved", "rejected"].includes(status)) {
         return res.status(400).json({ error: "Invalid status" });
@@ -3256,42 +3278,67 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // KYC check passed (or status is rejected) - proceed with status update
-      const submission = await storage.updateRwaSubmissionStatus(
-        req.params.id,
-        status,
-        adminNotes,
-        reviewedBy
-      );
-      
-      // If approved, create the loan (KYC already verified above)
+      // Loans are sized by the policy in effect for the asset category at approval time,
+      // against the reconciled valuation rather than the user's own claim
+      let loanPolicy;
+      let valuation;
+      let collateral;
       if (status === "approved") {
-        const loanAmount = (parseFloat(submission.estimatedValue) * 0.7).toFixed(2);
-        const expiryDate = new Date();
-        expiryDate.setDate(expiryDate.getDate() + 90);
+        if (existingSubmission.status === "approved") {
+          return res.status(409).json({ error: "Submission has already been approved", code: "ALREADY_APPROVED" });
+        }
         
-        const loan = await storage.createPawnLoan({
-          submissionId: submission.id,
-          userId: submission.userId,
-          loanAmount: parseFloat(loanAmount),
-          assetValue: parseFloat(submission.estimatedValue),
-          feeAmount: 2.00,
-          expiryDate,
-          status: "active"
-        });
+        loanPolicy = await loanPolicyService.getEffectivePolicy(existingSubmission.category);
+        if (!loanPolicy) {
+          return res.status(409).json({
+            error: "No loan policy in effect for this asset category",
+            code: "NO_LOAN_POLICY",
+            category: existingSubmission.category
+          });
+        }
         
-        // Create loan disbursement transaction
-        const disbursementTransaction = await storage.createTransaction({
-          userId: submission.userId,
-          type: "loan_disbursement",
-          amount: loanAmount,
-          currency: "ICP",
-          status: "pending",
-          metadata: { loanId: loan.id }
+        valuation = await loanValuationService.reconcile(existingSubmission, {
+          adminValue: appraisedValue !== undefined ? parseFloat(appraisedValue) : undefined,
+          overrideReason
         });
+        const valuationBlocker = loanValuationService.getMissingValuationBlocker(valuation);
+        if (valuationBlocker) {
+          return res.status(409).json({ error: valuationBlocker, code: "ADMIN_VALUATION_REQUIRED", valuation });
+        }
+        const overrideBlocker = loanValuationService.getOverrideBlocker(valuation);
+        if (overrideBlocker) {
+          return res.status(400).json({ error: overrideBlocker, code: "OVERRIDE_REASON_REQUIRED", valuation });
+        }
+        
+        // Market-priced collateral is revalued against the symbol the admin names here
+        const revaluedCategory = collateralMonitor.getRevaluedCategory(existingSubmission);
+        if (revaluedCategory) {
+          if (typeof collateralSymbol !== "string" || !collateralSymbol.trim()) {
+            return res.status(400).json({ error: "A market symbol is required for this collateral", code: "COLLATERAL_SYMBOL_REQUIRED" });
+          }
+          collateral = await collateralMonitor.priceCollateralAtOrigination(revaluedCategory, collateralSymbol);
+          if (!collateral) {
+            return res.status(409).json({ error: `No market price available for ${collateralSymbol}`, code: "NO_COLLATERAL_PRICE" });
+          }
+        }
+      }
+      
+      // If approved, move the submission out of pending and create the loan in one step
+      // (KYC already verified above)
+      if (status === "approved" && loanPolicy && valuation) {
+        const approval = await loanAccounting.originateLoan(existingSubmission, loanPolicy, valuation, { adminNotes, reviewedBy }, collateral);
+        if (!approval) {
+          return res.status(409).json({ error: "Submission is no longer pending", code: "SUBMISSION_NOT_PENDING" });
+        }
         
-        res.json({ submission, loan, transaction: disbursementTransaction });
+        res.json(approval);
       } else {
+        const submission = await storage.updateRwaSubmissionStatus(
+          req.params.id,
+          status,
+          adminNotes,
+          reviewedBy
+        );
         res.json({ submission });
       }
     } catch (error) {
@@ -3300,6 +3347,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Notification inbox routes
+  app.get("/api/notifications", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const unreadOnly = req.query.unread === "true";
+      
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotificationsByUser(userId, { unreadOnly, limit }),
+        storage.getUnreadNotificationCount(userId)
+      ]);
+      
+      res.json({ notifications, unreadCount });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  app.patch("/api/notifications/:id/read", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const notification = await storage.markNotificationRead(req.params.id, userId);
+      
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+      
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ error: "Failed to update notification" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const updated = await storage.markAllNotificationsRead(userId);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ error: "Failed to update notifications" });
+    }
+  });
+
+  // Realtime event stream (Server-Sent Events). Clients pass the resource topics they want,
+  // e.g. ?topics=asset:<id>,document:<id>, and always receive events for their own user topic
+  app.get("/api/realtime/events", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const requested = typeof req.query.topics === "string"
+        ? Array.from(new Set(req.query.topics.split(",").map((topic: string) => topic.trim()).filter(Boolean))) as string[]
+        : [];
+
+      if (requested.length > MAX_REALTIME_TOPICS) {
+        return res.status(400).json({ error: `At most ${MAX_REALTIME_TOPICS} topics can be subscribed to`, code: "TOO_MANY_TOPICS" });
+      }
+
+      const user = await storage.getUser(userId);
+      for (const topic of requested) {
+        const parsed = parseRealtimeTopic(topic);
+        if (!parsed) {
+          return res.status(400).json({ error: `Invalid topic: ${topic}`, code: "INVALID_TOPIC" });
+        }
+
+        // Marketplace listings are public; everything else must belong to the user
+        let canSubscribe = parsed.kind === "asset";
+        if (parsed.kind === "user") {
+          canSubscribe = parsed.id === userId;
+        } else if (parsed.kind === "bridge") {
+          const bridgeTransaction = await storage.getBridgeTransaction(parsed.id);
+          canSubscribe = bridgeTransaction?.userId === userId;
+        } else if (parsed.kind === "document") {
+          const document = await storage.getDocument(parsed.id);
+          canSubscribe = !!document && (document.userId === userId || !!user?.isAdmin);
+        }
+
+        if (!canSubscribe) {
+          return res.status(403).json({ error: `Access denied to topic: ${topic}`, code: "TOPIC_FORBIDDEN" });
+        }
+      }
+
+      realtimeService.subscribe(userId, requested, res);
+    } catch (error) {
+      console.error("Error opening realtime stream:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to open realtime stream" });
+      }
+    }
+  });
+
   // Pawn Loan routes
   app.get("/api/pawn-loans/user/:userId", isAuthenticated, checkOwnership, async (req, res) => {
     try {
@@ -3321,7 +3460,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/pawn-loans/:id/redeem", isAuthenticated, async (req: any, res) => {
+  // Current payoff amount for a loan: principal + accrued interest + fees, after waivers
+  app.get("/api/pawn-loans/:id/payoff-quote", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id as string;
       const loan = await storage.getPawnLoan(req.params.id);
@@ -3330,42 +3470,552 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Active loan not found" });
       }
       
-      // Check ownership - user can only redeem their own loans
       if (loan.userId !== userId) {
         return res.status(403).json({ error: "Access denied - not loan owner" });
       }
       
-      // Update loan status
-      const updatedLoan = await storage.updatePawnLoanStatus(req.params.id, "redeemed");
+      const user = await storage.getUser(userId);
+      const quote = await loanAccounting.getPayoffQuote(loan, user);
+      res.json(quote);
+    } catch (error) {
+      console.error("Error generating payoff quote:", error);
+      res.status(500).json({ error: "Failed to generate payoff quote" });
+    }
+  });
+
+  // Start a redemption - creates the pending redemption_payment for the payoff quote to pay on-chain
+  app.post("/api/pawn-loans/:id/redeem/intent", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const loan = await storage.getPawnLoan(req.params.id);
       
-      // Create redemption payment transaction
-      const redemptionTransaction = await storage.createTransaction({
+      if (!loan || loan.status !== "active") {
+        return res.status(404).json({ error: "Active loan not found" });
+      }
+      
+      // Check ownership - user can only redeem their own loans
+      if (loan.userId !== userId) {
+        return res.status(403).json({ error: "Access denied - not loan owner" });
+      }
+      
+      // Redemption pays exactly the payoff quote the borrower accepted, which is honored
+      // until it expires even if the next day's interest has accrued since
+      const user = await storage.getUser(userId);
+      const quotedAt = new Date(req.body?.quotedAt);
+      if (isNaN(quotedAt.getTime())) {
+        return res.status(400).json({
+          error: "quotedAt from the payoff quote is required",
+          code: "PAYOFF_QUOTE_REQUIRED"
+        });
+      }
+
+      const quote = await loanAccounting.getHonoredPayoffQuote(loan, user, quotedAt);
+      if (!quote) {
+        return res.status(409).json({
+          error: "Payoff quote has expired - request a new quote",
+          code: "PAYOFF_QUOTE_EXPIRED",
+          quote: await loanAccounting.getPayoffQuote(loan, user)
+        });
+      }
+
+      const memo = CryptoVerificationService.generatePaymentMemo("redemption_payment", userId, { loanId: loan.id });
+      const transaction = await storage.createTransaction({
         userId,
         type: "redemption_payment",
-        amount: loan.loanAmount,
-        currency: "ICP",
+        amount: quote.totalDue,
+        currency: quote.currency,
         status: "pending",
-        metadata: { loanId: loan.id }
+        memo,
+        metadata: {
+          loanId: loan.id,
+          quotedAt: quote.quotedAt,
+          principal: quote.principal,
+          accruedInterest: quote.accruedInterest,
+          interestDays: quote.interestDays,
+          fees: quote.fees,
+          waiver: quote.waiver
+        }
       });
       
-      res.json({ loan: updatedLoan, transaction: redemptionTransaction });
+      res.json({
+        transaction,
+        quote,
+        payment: {
+          recipientAccountId: SYSTEM_ICP_ACCOUNT_ID,
+          memo,
+          amountICP: parseFloat(quote.totalDue)
+        }
+      });
+    } catch (error) {
+      console.error("Error creating redemption payment:", error);
+      res.status(500).json({ error: "Failed to create redemption payment" });
+    }
+  });
+
+  // Redeem a loan once its redemption_payment is verified at the reported ledger block
+  app.patch("/api/pawn-loans/:id/redeem", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const { transactionId } = req.body ?? {};
+      const blockHeight = Number(req.body?.blockHeight);
+
+      if (!transactionId || typeof transactionId !== "string") {
+        return res.status(400).json({ error: "transactionId is required" });
+      }
+
+      if (!Number.isSafeInteger(blockHeight) || blockHeight < 0) {
+        return res.status(400).json({ error: "A valid blockHeight is required" });
+      }
+
+      const loan = await storage.getPawnLoan(req.params.id);
+      if (!loan) {
+        return res.status(404).json({ error: "Loan not found" });
+      }
+
+      // Check ownership - user can only redeem their own loans
+      if (loan.userId !== userId) {
+        return res.status(403).json({ error: "Access denied - not loan owner" });
+      }
+
+      const transaction = await storage.getTransaction(transactionId);
+      const metadata = transaction?.metadata as { loanId?: string; quotedAt?: string } | null | undefined;
+      const quotedAt = new Date(metadata?.quotedAt ?? NaN);
+      if (!transaction || transaction.userId !== userId || transaction.type !== "redemption_payment" || metadata?.loanId !== loan.id || isNaN(quotedAt.getTime())) {
+        return res.status(404).json({ error: "Redemption payment not found" });
+      }
+
+      if (transaction.status !== "pending") {
+        return res.status(409).json({ error: "Redemption payment has already been processed", code: "PAYMENT_ALREADY_APPLIED" });
+      }
+
+      if (!transaction.memo || !CryptoVerificationService.validatePaymentMemo(transaction.memo)) {
+        return res.status(400).json({ error: "Invalid payment memo format" });
+      }
+
+      // CRITICAL SECURITY: Only release the collateral once the payoff is on the ICP ledger.
+      // The payment's amount is the quote's totalDue, fixed when the payment was created
+      const ledgerService = ICPLedgerService.getInstance();
+      const verification = await ledgerService.verifyTransaction(
+        blockHeight,
+        SYSTEM_ICP_ACCOUNT_ID,
+        parseFloat(transaction.amount),
+        transaction.memo
+      );
+
+      if (!verification.verified) {
+        console.error(`Redemption payment verification failed for loan ${loan.id}:`, verification.error);
+        return res.status(402).json({
+          verified: false,
+          error: verification.error || "Redemption payment not found on ICP Ledger",
+          code: "PAYMENT_NOT_VERIFIED"
+        });
+      }
+
+      // Applied on the locked loan row, so a loan forfeited or redeemed since it was read is left alone
+      const user = await storage.getUser(userId);
+      const result = await loanAccounting.applyRedemption(loan, transaction, user, blockHeight, quotedAt);
+
+      if (!result) {
+        return res.status(409).json({
+          error: "Loan is no longer active or payment was already applied",
+          code: "PAYMENT_NOT_APPLIED"
+        });
+      }
+
+      res.json({ loan: result.loan, payment: result.payment, redeemed: result.loan.status === "redeemed" });
     } catch (error) {
       console.error("Error redeeming loan:", error);
       res.status(500).json({ error: "Failed to redeem loan" });
     }
   });
 
+  // Loan extension - creates the extension_fee payment, expiry only moves once it is verified
+  app.post("/api/pawn-loans/:id/extend", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const loan = await storage.getPawnLoan(req.params.id);
+
+      if (!loan) {
+        return res.status(404).json({ error: "Loan not found" });
+      }
+
+      if (loan.userId !== userId) {
+        return res.status(403).json({ error: "Access denied - not loan owner" });
+      }
+
+      const blocker = loanAccounting.getExtensionBlocker(loan);
+      if (blocker) {
+        return res.status(409).json({ error: blocker, code: "EXTENSION_NOT_ALLOWED" });
+      }
+
+      const user = await storage.getUser(userId);
+      const quote = loanAccounting.getExtensionQuote(loan, user);
+      const memo = CryptoVerificationService.generatePaymentMemo("extension_fee", userId, { loanId: loan.id });
+
+      const transaction = await storage.createTransaction({
+        userId,
+        type: "extension_fee",
+        amount: quote.fee,
+        currency: quote.currency,
+        status: "pending",
+        memo,
+        metadata: {
+          loanId: loan.id,
+          extensionDays: quote.extensionDays,
+          currentExpiryDate: quote.currentExpiryDate,
+          waiver: quote.waiver
+        }
+      });
+
+      await storage.createLoanEvent({
+        loanId: loan.id,
+        userId,
+        eventType: "extension_requested",
+        previousExpiryDate: loan.expiryDate,
+        amount: quote.fee,
+        transactionId: transaction.id,
+        metadata: { extensionDays: quote.extensionDays, waiver: quote.waiver }
+      });
+
+      // Fully waived fees have nothing to pay on-chain, so the extension applies immediately
+      if (parseFloat(quote.fee) === 0) {
+        const extendedLoan = await loanAccounting.applyExtension(loan, transaction);
+        if (!extendedLoan) {
+          return res.status(409).json({ error: "Loan can no longer be extended", code: "EXTENSION_NOT_ALLOWED" });
+        }
+        return res.json({ extended: true, loan: extendedLoan, transaction, quote });
+      }
+
+      res.json({
+        extended: false,
+        transaction,
+        quote,
+        payment: {
+          recipientAccountId: SYSTEM_ICP_ACCOUNT_ID,
+          memo,
+          amountICP: parseFloat(quote.fee)
+        }
+      });
+    } catch (error) {
+      console.error("Error requesting loan extension:", error);
+      res.status(500).json({ error: "Failed to request loan extension" });
+    }
+  });
+
+  // Confirm a loan extension after the extension_fee has been paid on the ICP ledger
+  app.post("/api/pawn-loans/:id/extend/confirm", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const { transactionId } = req.body ?? {};
+
+      if (!transactionId || typeof transactionId !== "string") {
+        return res.status(400).json({ error: "transactionId is required" });
+      }
+
+      const loan = await storage.getPawnLoan(req.params.id);
+      if (!loan) {
+        return res.status(404).json({ error: "Loan not found" });
+      }
+
+      if (loan.userId !== userId) {
+        return res.status(403).json({ error: "Access denied - not loan owner" });
+      }
+
+      const transaction = await storage.getTransaction(transactionId);
+      const metadata = transaction?.metadata as { loanId?: string } | null | undefined;
+      if (!transaction || transaction.userId !== userId || transaction.type !== "extension_fee" || metadata?.loanId !== loan.id) {
+        return res.status(404).json({ error: "Extension payment not found" });
+      }
+
+      if (transaction.status !== "pending") {
+        return res.status(409).json({ error: "Extension payment has already been processed", code: "EXTENSION_ALREADY_APPLIED" });
+      }
+
+      if (!transaction.memo || !CryptoVerificationService.validatePaymentMemo(transaction.memo)) {
+        return res.status(400).json({ error: "Invalid payment memo format" });
+      }
+
+      // CRITICAL SECURITY: Only move the expiry date once the fee is on the ICP ledger
+      const ledgerService = ICPLedgerService.getInstance();
+      const verification = await ledgerService.pollForPayment(
+        SYSTEM_ICP_ACCOUNT_ID,
+        parseFloat(transaction.amount),
+        transaction.memo,
+        2
+      );
+
+      if (!verification.verified) {
+        console.error(`Extension payment verification failed for loan ${loan.id}:`, verification.error);
+        return res.status(402).json({
+          verified: false,
+          error: verification.error || "Extension payment not found on ICP Ledger",
+          code: "PAYMENT_NOT_VERIFIED"
+        });
+      }
+
+      const extendedLoan = await loanAccounting.applyExtension(
+        loan,
+        transaction,
+        verification.blockHeight !== undefined ? Number(verification.blockHeight) : undefined
+      );
+
+      if (!extendedLoan) {
+        return res.status(409).json({
+          error: "Loan can no longer be extended or payment was already applied",
+          code: "EXTENSION_NOT_ALLOWED"
+        });
+      }
+
+      res.json({ extended: true, loan: extendedLoan });
+    } catch (error) {
+      console.error("Error confirming loan extension:", error);
+      res.status(500).json({ error: "Failed to confirm loan extension" });
+    }
+  });
+
+  // Repayment schedule and payment history for a loan
+  app.get("/api/pawn-loans/:id/payments", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const loan = await storage.getPawnLoan(req.params.id);
+
+      if (!loan) {
+        return res.status(404).json({ error: "Loan not found" });
+      }
+
+      if (loan.userId !== userId) {
+        return res.status(403).json({ error: "Access denied - not loan owner" });
+      }
+
+      const user = await storage.getUser(userId);
+      const payments = await storage.getLoanPayments(loan.id);
+      const schedule = loan.status === "active" ? loanAccounting.getRepaymentSchedule(loan, user) : null;
+
+      res.json({ schedule, payments });
+    } catch (error) {
+      console.error("Error fetching loan payments:", error);
+      res.status(500).json({ error: "Failed to fetch loan payments" });
+    }
+  });
+
+  // Start a partial (or full) repayment - creates the pending loan_repayment to pay on-chain
+  app.post("/api/pawn-loans/:id/payments/intent", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const loan = await storage.getPawnLoan(req.params.id);
+
+      if (!loan) {
+        return res.status(404).json({ error: "Loan not found" });
+      }
+
+      if (loan.userId !== userId) {
+        return res.status(403).json({ error: "Access denied - not loan owner" });
+      }
+
+      const user = await storage.getUser(userId);
+      const amount = Math.round(parseFloat(req.body?.amount) * 100) / 100;
+      const blocker = loanAccounting.getPaymentBlocker(loan, amount, user);
+      if (blocker) {
+        return res.status(400).json({ error: blocker, code: "PAYMENT_NOT_ALLOWED" });
+      }
+
+      const memo = CryptoVerificationService.generatePaymentMemo("loan_repayment", userId, { loanId: loan.id });
+      const transaction = await storage.createTransaction({
+        userId,
+        type: "loan_repayment",
+        amount: amount.toFixed(2),
+        currency: "ICP",
+        status: "pending",
+        memo,
+        metadata: { loanId: loan.id }
+      });
+
+      res.json({
+        transaction,
+        payment: {
+          recipientAccountId: SYSTEM_ICP_ACCOUNT_ID,
+          memo,
+          amountICP: amount
+        }
+      });
+    } catch (error) {
+      console.error("Error creating loan repayment:", error);
+      res.status(500).json({ error: "Failed to create loan repayment" });
+    }
+  });
+
+  // Record a repayment once its ICP transfer is verified at the reported ledger block
+  app.post("/api/pawn-loans/:id/payments", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const { transactionId } = req.body ?? {};
+      const blockHeight = Number(req.body?.blockHeight);
+
+      if (!transactionId || typeof transactionId !== "string") {
+        return res.status(400).json({ error: "transactionId is required" });
+      }
+
+      if (!Number.isSafeInteger(blockHeight) || blockHeight < 0) {
+        return res.status(400).json({ error: "A valid blockHeight is required" });
+      }
+
+      const loan = await storage.getPawnLoan(req.params.id);
+      if (!loan) {
+        return res.status(404).json({ error: "Loan not found" });
+      }
+
+      if (loan.userId !== userId) {
+        return res.status(403).json({ error: "Access denied - not loan owner" });
+      }
+
+      const transaction = await storage.getTransaction(transactionId);
+      const metadata = transaction?.metadata as { loanId?: string } | null | undefined;
+      if (!transaction || transaction.userId !== userId || transaction.type !== "loan_repayment" || metadata?.loanId !== loan.id) {
+        return res.status(404).json({ error: "Loan repayment not found" });
+      }
+
+      if (transaction.status !== "pending") {
+        return res.status(409).json({ error: "Loan repayment has already been processed", code: "PAYMENT_ALREADY_APPLIED" });
+      }
+
+      if (!transaction.memo || !CryptoVerificationService.validatePaymentMemo(transaction.memo)) {
+        return res.status(400).json({ error: "Invalid payment memo format" });
+      }
+
+      // CRITICAL SECURITY: Only reduce the balance once the transfer is on the ICP ledger
+      const ledgerService = ICPLedgerService.getInstance();
+      const verification = await ledgerService.verifyTransaction(
+        blockHeight,
+        SYSTEM_ICP_ACCOUNT_ID,
+        parseFloat(transaction.amount),
+        transaction.memo
+      );
+
+      if (!verification.verified) {
+        console.error(`Loan repayment verification failed for loan ${loan.id}:`, verification.error);
+        return res.status(402).json({
+          verified: false,
+          error: verification.error || "Loan repayment not found on ICP Ledger",
+          code: "PAYMENT_NOT_VERIFIED"
+        });
+      }
+
+      const user = await storage.getUser(userId);
+      const result = await loanAccounting.applyPayment(loan, transaction, user, blockHeight);
+
+      if (!result) {
+        return res.status(409).json({
+          error: "Loan is no longer active or payment was already applied",
+          code: "PAYMENT_NOT_APPLIED"
+        });
+      }
+
+      res.json({ loan: result.loan, payment: result.payment, redeemed: result.loan.status === "redeemed" });
+    } catch (error) {
+      console.error("Error recording loan repayment:", error);
+      res.status(500).json({ error: "Failed to record loan repayment" });
+    }
+  });
+
+  // Loan history: extensions and other recorded loan events
+  app.get("/api/pawn-loans/:id/events", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id as string;
+      const loan = await storage.getPawnLoan(req.params.id);
+
+      if (!loan) {
+        return res.status(404).json({ error: "Loan not found" });
+      }
+
+      if (loan.userId !== userId) {
+        return res.status(403).json({ error: "Access denied - not loan owner" });
+      }
+
+      const events = await storage.getLoanEvents(loan.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching loan events:", error);
+      res.status(500).json({ error: "Failed to fetch loan events" });
+    }
+  });
+
   // Marketplace routes
+  // Search marketplace assets - filters, sort order and cursor pagination come from the query string
   app.get("/api/marketplace/assets", async (req, res) => {
     try {
-      const assets = await storage.getMarketplaceAssets();
-      res.json(assets);
+      const parsed = marketplaceSearchSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({
+          error: "Invalid marketplace search",
+          details: parsed.error.errors,
+          code: "VALIDATION_ERROR"
+        });
+      }
+
+      const page = await storage.searchMarketplaceAssets(parsed.data);
+      if (!page) {
+        return res.status(400).json({ error: "Invalid or expired cursor", code: "INVALID_CURSOR" });
+      }
+
+      res.json(page);
     } catch (error) {
       console.error("Error fetching marketplace assets:", error);
       res.status(500).json({ error: "Failed to fetch marketplace assets" });
     }
   });
 
+  app.get("/api/marketplace/assets/:id", async (req, res) => {
+    try {
+      const asset = await storage.getMarketplaceAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+      res.json(asset);
+    } catch (error) {
+      console.error("Error fetching marketplace asset:", error);
+      res.status(500).json({ error: "Failed to fetch marketplace asset" });
+    }
+  });
+
+  // Watchlist routes - users follow assets to get outbid and ending-soon alerts
+  app.get("/api/marketplace/watchlist", isAuthenticated, async (req: any, res) => {
+    try {
+      const watched = await storage.getWatchedAssets(req.user.id);
+      res.json(watched);
+    } catch (error) {
+      console.error("Error fetching watchlist:", error);
+      res.status(500).json({ error: "Failed to fetch watchlist" });
+    }
+  });
+
+  app.post("/api/marketplace/assets/:id/watch", isAuthenticated, async (req: any, res) => {
+    try {
+      const asset = await storage.getMarketplaceAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      const watchlistItem = await storage.addToWatchlist(req.user.id, asset.id);
+      res.json(watchlistItem);
+    } catch (error) {
+      console.error("Error adding asset to watchlist:", error);
+      res.status(500).json({ error: "Failed to watch asset" });
+    }
+  });
+
+  app.delete("/api/marketplace/assets/:id/watch", isAuthenticated, async (req: any, res) => {
+    try {
+      const removed = await storage.removeFromWatchlist(req.user.id, req.params.id);
+      if (!removed) {
+        return res.status(404).json({ error: "Asset is not on your watchlist" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing asset from watchlist:", error);
+      res.status(500).json({ error: "Failed to unwatch asset" });
+    }
+  });
+
   app.post("/api/marketplace/assets", requireAdminAuth, async (req: any, res) => {
     try {
       const assetData = insertMarketplaceAssetSchema.parse(req.body);
@@ -3377,50 +4027,281 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/marketplace/assets/:id/bid", isAuthenticated, async (req: any, res) => {
+  // Create a pending bid escrow; the bid only counts once the escrow is verified on the ledger
+  app.post("/api/marketplace/assets/:id/bids/intent", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
     try {
       const bidderId = req.user.id as string; // Derive bidderId from authenticated user
-      const bidData = insertBidSchema.parse({
-        assetId: req.params.id,
-        bidderId, // Use authenticated user ID
-        ...req.body
+      const asset = await storage.getMarketplaceAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      const amount = Math.round(parseFloat(req.body?.amount) * 100) / 100;
+      const rejection = getBidRejection(asset, bidderId, amount);
+      if (rejection) {
+        return res.status(rejection.code === "BID_TOO_LOW" ? 400 : 409).json(rejection);
+      }
+
+      const memo = CryptoVerificationService.generatePaymentMemo("bid_payment", bidderId, { assetId: asset.id });
+      const transaction = await storage.createTransaction({
+        userId: bidderId,
+        type: "bid_payment",
+        amount: amount.toFixed(2),
+        currency: "ICP",
+        status: "pending",
+        memo,
+        metadata: { assetId: asset.id }
       });
-      
+
+      res.json({
+        transaction,
+        payment: {
+          recipientAccountId: SYSTEM_ICP_ACCOUNT_ID,
+          memo,
+          amountICP: amount
+        }
+      });
+    } catch (error) {
+      console.error("Error creating bid escrow:", error);
+      res.status(500).json({ error: "Failed to create bid escrow" });
+    }
+  });
+
+  // Place a bid once its escrow transfer is verified at the reported ledger block
+  app.post("/api/marketplace/assets/:id/bid", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const bidderId = req.user.id as string; // Derive bidderId from authenticated user
+      const { transactionId } = req.body ?? {};
+      const blockHeight = Number(req.body?.blockHeight);
+
+      if (!transactionId || typeof transactionId !== "string") {
+        return res.status(400).json({ error: "transactionId is required" });
+      }
+
+      if (!Number.isSafeInteger(blockHeight) || blockHeight < 0) {
+        return res.status(400).json({ error: "A valid blockHeight is required" });
+      }
+
       const asset = await storage.getMarketplaceAsset(req.params.id);
       if (!asset) {
         return res.status(404).json({ error: "Asset not found" });
       }
-      
-      // Check if bid is higher than current bid
-      const currentHighestBid = await storage.getHighestBid(req.params.id);
-      const currentBidAmount = currentHighestBid?.amount ? parseFloat(currentHighestBid.amount) : parseFloat(asset.startingPrice);
-      
-      if (parseFloat(bidData.amount) <= currentBidAmount) {
-        return res.status(400).json({ error: "Bid must be higher than current highest bid" });
+
+      const transaction = await storage.getTransaction(transactionId);
+      const metadata = transaction?.metadata as { assetId?: string } | null | undefined;
+      if (!transaction || transaction.userId !== bidderId || transaction.type !== "bid_payment" || metadata?.assetId !== asset.id) {
+        return res.status(404).json({ error: "Bid escrow not found" });
       }
-      
-      const bid = await storage.createBid(bidData);
-      
-      // Update asset with new highest bid
-      await storage.updateMarketplaceAsset(req.params.id, {
-        currentBid: bidData.amount,
-        highestBidder: bidData.bidderId
+
+      if (transaction.status !== "pending") {
+        return res.status(409).json({ error: "Bid escrow has already been processed", code: "ESCROW_ALREADY_APPLIED" });
+      }
+
+      if (!transaction.memo || !CryptoVerificationService.validatePaymentMemo(transaction.memo)) {
+        return res.status(400).json({ error: "Invalid payment memo format" });
+      }
+
+      // CRITICAL SECURITY: A bid only counts once its escrow is on the ICP ledger
+      const ledgerService = ICPLedgerService.getInstance();
+      const verification = await ledgerService.verifyTransaction(
+        blockHeight,
+        SYSTEM_ICP_ACCOUNT_ID,
+        parseFloat(transaction.amount),
+        transaction.memo
+      );
+
+      if (!verification.verified) {
+        console.error(`Bid escrow verification failed for asset ${asset.id}:`, verification.error);
+        return res.status(402).json({
+          verified: false,
+          error: verification.error || "Bid escrow not found on ICP Ledger",
+          code: "PAYMENT_NOT_VERIFIED"
+        });
+      }
+
+      const result = await storage.placeBid(asset.id, {
+        transactionId: transaction.id,
+        bidderId,
+        blockHeight: blockHeight.toString(),
+        asOf: new Date(),
       });
-      
-      // Create bid payment transaction
-      const bidTransaction = await storage.createTransaction({
-        userId: bidData.bidderId,
-        type: "bid_payment",
-        amount: bidData.amount,
+
+      if (!result) {
+        return res.status(409).json({
+          error: "Bid escrow was already applied",
+          code: "BID_NOT_APPLIED"
+        });
+      }
+
+      // The auction moved on while the escrow was in flight - the escrow is refunded
+      if (result.rejection) {
+        return res.status(409).json({
+          ...result.rejection,
+          error: `${result.rejection.error} - your escrow will be refunded`,
+          refund: result.refunds[0]
+        });
+      }
+
+      // Push the new highest bid to anyone viewing the asset, and tell displaced bidders directly
+      realtimeService.publish([`asset:${asset.id}`], "bid.placed", { asset: result.asset, bid: result.bid });
+      for (const outbidBid of result.outbid) {
+        realtimeService.publish([`user:${outbidBid.bidderId}`], "bid.outbid", { asset: result.asset, bid: outbidBid });
+      }
+
+      // Notification failures are logged but never undo a placed bid
+      if (result.bid) {
+        notificationService.notifyOutbid(result.asset, result.bid, result.outbid).catch((error) => {
+          console.error(`Error sending outbid notices for asset ${asset.id}:`, error);
+        });
+      }
+      notificationService.notifyAuctionEndingSoon(result.asset).catch((error) => {
+        console.error(`Error sending ending-soon alerts for asset ${asset.id}:`, error);
+      });
+
+      res.json({ bid: result.bid, asset: result.asset, transaction: result.escrow });
+    } catch (error) {
+      console.error("Error placing bid:", error);
+      res.status(500).json({ error: "Failed to place bid" });
+    }
+  });
+
+  // Quote a buy-now purchase and create its pending payment: the listing price plus the
+  // buyer's marketplace fee after any waiver
+  app.post("/api/marketplace/assets/:id/purchase/intent", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const buyerId = req.user.id as string;
+      const asset = await storage.getMarketplaceAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      const rejection = getBuyNowRejection(asset);
+      if (rejection || !asset.buyNowPrice) {
+        return res.status(409).json(rejection);
+      }
+
+      const user = await storage.getUser(buyerId);
+      const price = parseFloat(asset.buyNowPrice);
+      const fee = calculateMarketplaceFeeForUser(price, user ? {
+        email: user.email,
+        isAdmin: user.isAdmin ?? undefined,
+        role: user.role ?? undefined
+      } : null);
+      const amount = Math.round((price + fee.finalFee) * 100) / 100;
+
+      const memo = CryptoVerificationService.generatePaymentMemo("purchase_payment", buyerId, { assetId: asset.id });
+      const transaction = await storage.createTransaction({
+        userId: buyerId,
+        type: "purchase_payment",
+        amount: amount.toFixed(2),
         currency: "ICP",
         status: "pending",
-        metadata: { bidId: bid.id, assetId: req.params.id }
+        memo,
+        metadata: {
+          assetId: asset.id,
+          price: asset.buyNowPrice,
+          fee: fee.finalFee.toFixed(2),
+          originalFee: fee.originalFee.toFixed(2),
+          feeWaived: fee.isWaived
+        }
       });
-      
-      res.json({ bid, transaction: bidTransaction });
+
+      res.json({
+        transaction,
+        fee,
+        payment: {
+          recipientAccountId: SYSTEM_ICP_ACCOUNT_ID,
+          memo,
+          amountICP: amount
+        }
+      });
+    } catch (error) {
+      console.error("Error creating purchase payment:", error);
+      res.status(500).json({ error: "Failed to create purchase payment" });
+    }
+  });
+
+  // Complete a buy-now purchase once its payment is verified at the reported ledger block
+  app.post("/api/marketplace/assets/:id/purchase", rateLimitConfigs.financial, isAuthenticated, async (req: any, res) => {
+    try {
+      const buyerId = req.user.id as string;
+      const { transactionId } = req.body ?? {};
+      const blockHeight = Number(req.body?.blockHeight);
+
+      if (!transactionId || typeof transactionId !== "string") {
+        return res.status(400).json({ error: "transactionId is required" });
+      }
+
+      if (!Number.isSafeInteger(blockHeight) || blockHeight < 0) {
+        return res.status(400).json({ error: "A valid blockHeight is required" });
+      }
+
+      const asset = await storage.getMarketplaceAsset(req.params.id);
+      if (!asset) {
+        return res.status(404).json({ error: "Asset not found" });
+      }
+
+      const transaction = await storage.getTransaction(transactionId);
+      const metadata = transaction?.metadata as { assetId?: string } | null | undefined;
+      if (!transaction || transaction.userId !== buyerId || transaction.type !== "purchase_payment" || metadata?.assetId !== asset.id) {
+        return res.status(404).json({ error: "Purchase payment not found" });
+      }
+
+      if (transaction.status !== "pending") {
+        return res.status(409).json({ error: "Purchase payment has already been processed", code: "PAYMENT_ALREADY_APPLIED" });
+      }
+
+      if (!transaction.memo || !CryptoVerificationService.validatePaymentMemo(transaction.memo)) {
+        return res.status(400).json({ error: "Invalid payment memo format" });
+      }
+
+      // CRITICAL SECURITY: The asset only changes hands once the payment is on the ICP ledger
+      const ledgerService = ICPLedgerService.getInstance();
+      const verification = await ledgerService.verifyTransaction(
+        blockHeight,
+        SYSTEM_ICP_ACCOUNT_ID,
+        parseFloat(transaction.amount),
+        transaction.memo
+      );
+
+      if (!verification.verified) {
+        console.error(`Purchase payment verification failed for asset ${asset.id}:`, verification.error);
+        return res.status(402).json({
+          verified: false,
+          error: verification.error || "Purchase payment not found on ICP Ledger",
+          code: "PAYMENT_NOT_VERIFIED"
+        });
+      }
+
+      const result = await storage.purchaseMarketplaceAsset(asset.id, {
+        transactionId: transaction.id,
+        buyerId,
+        blockHeight: blockHeight.toString(),
+        asOf: new Date(),
+      });
+
+      if (!result) {
+        return res.status(409).json({
+          error: "Purchase payment was already applied",
+          code: "PAYMENT_NOT_APPLIED"
+        });
+      }
+
+      // Someone else bought it first, or the listing changed - the payment is refunded
+      if (result.rejection) {
+        return res.status(409).json({
+          ...result.rejection,
+          error: `${result.rejection.error} - your payment will be refunded`,
+          refund: result.refund
+        });
+      }
+
+      realtimeService.publish([`asset:${result.asset.id}`], "listing.sold", { asset: result.asset });
+
+      res.json({ asset: result.asset, transaction: result.payment });
     } catch (error) {
-      console.error("Error placing bid:", error);
-      res.status(400).json({ error: "Invalid bid data" });
+      console.error("Error completing purchase:", error);
+      res.status(500).json({ error: "Failed to complete purchase" });
     }
   });
 
@@ -3452,7 +4333,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const estimationData = bridgeEstimationSchema.parse(req.body);
       const estimation = await chainFusionBridge.estimateBridge(estimationData);
-      res.json(estimation);
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const { allowance, rejection } = await bridgeLimitsService.checkBridge(user, estimationData.fromToken, estimationData.amount);
+
+      res.json({ ...estimation, allowance, limitRejection: rejection });
     } catch (error) {
       console.error("Error estimating bridge:", error);
       res.status(400).json({ 
@@ -3468,12 +4356,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.id as string;
       const initiationData = bridgeInitiationSchema.parse(req.body);
       
-      // CRITICAL SECURITY: Validate addresses with proper checksums
-      const fromAddressValidation = CryptoVerificationService.validateBridgeAddress(
-        initiationData.fromAddress,
-        initiationData.fromNetwork,
-        initiationData.fromNetwork === 'ethereum' ? 'address' : 'accountId'
-      );
+      // CRITICAL SECURITY: Validate addresses with each network's format and checksum rules
+      const fromAddressValidation = chainFusionBridge.validateAddress(initiationData.fromNetwork, initiationData.fromAddress);
       
       if (!fromAddressValidation.valid) {
         return res.status(400).json({ 
@@ -3482,11 +4366,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const toAddressValidation = CryptoVerificationService.validateBridgeAddress(
-        initiationData.toAddress,
-        initiationData.toNetwork,
-        initiationData.toNetwork === 'ethereum' ? 'address' : 'accountId'
-      );
+      const toAddressValidation = chainFusionBridge.validateAddress(initiationData.toNetwork, initiationData.toAddress);
       
       if (!toAddressValidation.valid) {
         return res.status(400).json({ 
@@ -3495,10 +4375,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Per-user volume limits and the token's platform-wide circuit breaker, checked early here
+      // and again under lock when the bridge is created
+      const limitCheck = await bridgeLimitsService.checkBridge(user, initiationData.fromToken, initiationData.amount);
+      if (limitCheck.rejection) {
+        return res.status(limitCheck.rejection.code === 'CIRCUIT_BREAKER_OPEN' ? 503 : 403)
+          .json({ ...limitCheck.rejection, allowance: limitCheck.allowance });
+      }
+      
       console.log(`Bridge initiation with validated addresses - From: ${initiationData.fromAddress} (${initiationData.fromNetwork}), To: ${initiationData.toAddress} (${initiationData.toNetwork})`);
       
-      const bridge = await chainFusionBridge.initiateBridge(userId, initiationData);
-      res.json(bridge);
+      const limitGuard = await bridgeLimitsService.createGuard(user, initiationData.fromToken, initiationData.amount);
+      let bridge;
+      try {
+        bridge = await chainFusionBridge.initiateBridge(userId, initiationData, limitGuard);
+      } catch (error) {
+        if (error instanceof BridgeLimitExceededError) {
+          const allowance = await bridgeLimitsService.getAllowance(user, initiationData.fromToken);
+          return res.status(error.rejection.code === 'CIRCUIT_BREAKER_OPEN' ? 503 : 403)
+            .json({ ...error.rejection, allowance });
+        }
+        throw error;
+      }
+
+      // Velocity alerts are logged but never block a bridge that was already created
+      bridgeLimitsService.checkVelocity(user, bridge.id).catch(console.error);
+
+      const allowance = await bridgeLimitsService.getAllowance(user, initiationData.fromToken);
+      res.json({ ...bridge, allowance });
     } catch (error) {
       console.error("Error initiating bridge:", error);
       res.status(400).json({ 
@@ -3577,14 +4486,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Can only cancel pending bridge transactions" });
       }
       
-      // Update status to failed (effectively cancelling)
-      const cancelledBridge = await storage.updateBridgeTransactionStatus(
+      // Update status to failed (effectively cancelling), unless processing started meanwhile
+      const cancelledBridge = await storage.updateBridgeTransactionStatusIf(
         bridgeId, 
+        'pending',
         'failed', 
         { errorMessage: 'Cancelled by user' }
       );
+      if (!cancelledBridge) {
+        return res.status(409).json({ error: "Bridge transaction is no longer pending" });
+      }
       
-      res.json(cancelledBridge);
+      // Any source funds that already arrived are sent back to fromAddress
+      const refundingBridge = await bridgeRefundService.queueRefund(cancelledBridge);
+      
+      res.json(refundingBridge ?? cancelledBridge);
     } catch (error) {
       console.error("Error cancelling bridge:", error);
       res.status(500).json({ error: "Failed to cancel bridge transaction" });
@@ -3605,10 +4521,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get supported tokens for a network
   app.get("/api/bridge/supported-tokens/:network", async (req, res) => {
     try {
-      const network = req.params.network as 'ethereum' | 'icp';
+      const network = req.params.network;
       
-      if (!['ethereum', 'icp'].includes(network)) {
-        return res.status(400).json({ error: "Invalid network. Use 'ethereum' or 'icp'" });
+      if (!bridgeRouteRegistry.hasNetwork(network)) {
+        const networks = bridgeRouteRegistry.getSupportedNetworks().map(n => `'${n}'`).join(', ');
+        return res.status(400).json({ error: `Invalid network. Use one of ${networks}` });
       }
       
       const tokens = chainFusionBridge.getSupportedTokens(network);
@@ -3654,48 +4571,309 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Mock endpoint for expired loans to marketplace conversion
+  // Manually trigger the loan expiry sweep - normally run on a schedule by loanExpiryService
   app.post("/api/admin/process-expired-loans", requireAdminAuth, async (req: any, res) => {
     try {
-      // Get expired loans
-      const expiredLoans = await storage.getExpiringPawnLoans(-1); // Already expired
-      const newAssets = [];
-      
-      for (const loan of expiredLoans) {
-        if (loan.status === "active") {
-          // Mark loan as expired
-          await storage.updatePawnLoanStatus(loan.id, "expired");
-          
-          // Get submission details
-          const submission = await storage.getRwaSubmission(loan.submissionId);
-          if (submission) {
-            // Create marketplace asset
-            const startingPrice = (parseFloat(loan.assetValue) * 0.8).toFixed(2); // 80% of original value
-            const daysSinceExpiry = Math.floor((Date.now() - loan.expiryDate.getTime()) / (1000 * 60 * 60 * 24));
-            
-            const asset = await storage.createMarketplaceAsset({
-              loanId: loan.id,
-              assetName: submission.assetName,
-              category: submission.category,
-              originalValue: loan.assetValue,
-              startingPrice,
-              daysExpired: daysSinceExpiry,
-              description: submission.description || "",
-              status: "available"
-            });
-            
-            newAssets.push(asset);
-          }
-        }
+      const run = await loanExpiryService.runNow(req.adminUser?.username || "admin");
+      
+      if (!run) {
+        return res.status(409).json({ error: "A loan expiry sweep is already in progress", code: "SWEEP_IN_PROGRESS" });
       }
       
-      res.json({ message: `Processed ${newAssets.length} expired loans`, assets: newAssets });
+      res.json({ message: `Processed ${run.loansForfeited} expired loans`, run });
     } catch (error) {
       console.error("Error processing expired loans:", error);
       res.status(500).json({ error: "Failed to process expired loans" });
     }
   });
 
+  // Loan expiry sweep schedule and recent run history
+  app.get("/api/admin/loan-expiry/runs", requireAdminAuth, async (req: any, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const [schedule, runs] = await Promise.all([
+        loanExpiryService.getSchedule(),
+        storage.getLoanExpiryRuns(limit)
+      ]);
+      
+      res.json({ schedule, runs });
+    } catch (error) {
+      console.error("Error fetching loan expiry runs:", error);
+      res.status(500).json({ error: "Failed to fetch loan expiry runs" });
+    }
+  });
+
+  // Active loans whose crypto or precious metals collateral is at or past the warning LTV
+  app.get("/api/admin/loans/at-risk", requireAdminAuth, async (req: any, res) => {
+    try {
+      const loans = await collateralMonitor.getRiskLoans();
+      res.json({ thresholds: COLLATERAL_LTV_THRESHOLDS, loans });
+    } catch (error) {
+      console.error("Error fetching at-risk loans:", error);
+      res.status(500).json({ error: "Failed to fetch at-risk loans" });
+    }
+  });
+
+  // Revalue collateral on active loans now instead of waiting for the next sweep
+  app.post("/api/admin/loans/revalue-collateral", requireAdminAuth, async (req: any, res) => {
+    try {
+      const summary = await collateralMonitor.revalueActiveLoans();
+      if (!summary) {
+        return res.status(409).json({ error: "A collateral revaluation sweep is already in progress", code: "SWEEP_IN_PROGRESS" });
+      }
+
+      res.json({ message: `Revalued ${summary.revalued} of ${summary.loansScanned} loans`, summary });
+    } catch (error) {
+      console.error("Error revaluing loan collateral:", error);
+      res.status(500).json({ error: "Failed to revalue loan collateral" });
+    }
+  });
+
+  // Loan policies - every version per category, plus the version currently in effect
+  app.get("/api/admin/loan-policies", requireAdminAuth, async (req: any, res) => {
+    try {
+      const category = req.query.category as string | undefined;
+      const [policies, effective] = await Promise.all([
+        storage.getLoanPolicies(category),
+        loanPolicyService.getEffectivePolicies()
+      ]);
+      
+      res.json({ policies, effective });
+    } catch (error) {
+      console.error("Error fetching loan policies:", error);
+      res.status(500).json({ error: "Failed to fetch loan policies" });
+    }
+  });
+
+  // Publish a new policy version for a category - earlier versions are closed, never edited
+  app.post("/api/admin/loan-policies", requireAdminAuth, async (req: any, res) => {
+    try {
+      const validation = insertLoanPolicySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ 
+          error: "Invalid loan policy", 
+          details: validation.error.errors 
+        });
+      }
+      
+      const createdBy = req.adminUser?.username || "admin";
+      const policy = await storage.createLoanPolicyVersion(validation.data, createdBy);
+      
+      if (req.user?.id) {
+        await storage.createAdminAction({
+          adminId: req.user.id,
+          actionType: 'update_loan_policy',
+          targetType: 'loan_policy',
+          targetId: policy.id,
+          actionDetails: { category: policy.category, version: policy.version, ltvRatio: policy.ltvRatio, termDays: policy.termDays, feeAmount: policy.feeAmount, maxPrincipal: policy.maxPrincipal },
+          adminNotes: policy.notes,
+          severity: 'normal',
+          ipAddress: req.ip || '0.0.0.0',
+          userAgent: req.get('User-Agent') || 'Unknown',
+          sessionId: req.sessionID || 'unknown',
+        });
+      }
+      
+      res.status(201).json(policy);
+    } catch (error) {
+      console.error("Error creating loan policy:", error);
+      res.status(500).json({ error: "Failed to create loan policy" });
+    }
+  });
+
+  // Fraud rules, document templates and blacklists at a rule set version (default: current),
+  // with the recent version history
+  app.get("/api/admin/fraud-rules", requireAdminAuth, async (req: any, res) => {
+    try {
+      const version = req.query.version ? parseInt(req.query.version as string, 10) : undefined;
+      if (version !== undefined && (isNaN(version) || version < 1)) {
+        return res.status(400).json({ error: "Invalid rule set version" });
+      }
+
+      const [ruleSet, versions] = await Promise.all([
+        fraudRuleService.getRuleSet(version),
+        storage.getFraudRuleSetVersions()
+      ]);
+
+      res.json({ ...ruleSet, versions });
+    } catch (error) {
+      console.error("Error fetching fraud rules:", error);
+      res.status(500).json({ error: "Failed to fetch fraud rules" });
+    }
+  });
+
+  // Every fraud rule set change publishes a new version and is logged as an admin action
+  const fraudRuleActor = (req: any): FraudRuleActor => ({
+    username: req.adminUser?.username || "admin",
+    userId: req.user?.id ?? null,
+  });
+
+  const logFraudRuleSetChange = async (req: any, publication: FraudRuleSetPublication, targetType: string, targetId: string) => {
+    if (!req.user?.id) {
+      return;
+    }
+    await storage.createAdminAction({
+      adminId: req.user.id,
+      actionType: 'update_fraud_rules',
+      targetType,
+      targetId,
+      actionDetails: { version: publication.version.version, changeSummary: publication.version.changeSummary },
+      severity: 'normal',
+      ipAddress: req.ip || '0.0.0.0',
+      userAgent: req.get('User-Agent') || 'Unknown',
+      sessionId: req.sessionID || 'unknown',
+    });
+  };
+
+  app.post("/api/admin/fraud-rules/rules", requireAdminAuth, async (req: any, res) => {
+    try {
+      const validation = insertFraudRuleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid fraud rule", details: validation.error.errors });
+      }
+
+      const publication = await fraudRuleService.addRule(validation.data, fraudRuleActor(req));
+      await logFraudRuleSetChange(req, publication, 'fraud_rule', publication.rules[0].id);
+
+      res.status(201).json(publication);
+    } catch (error) {
+      console.error("Error creating fraud rule:", error);
+      res.status(500).json({ error: "Failed to create fraud rule" });
+    }
+  });
+
+  // Replace a rule - the current row is retired and its successor added in the same version
+  app.put("/api/admin/fraud-rules/rules/:id", requireAdminAuth, async (req: any, res) => {
+    try {
+      const validation = insertFraudRuleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid fraud rule", details: validation.error.errors });
+      }
+
+      const publication = await fraudRuleService.replaceRule(req.params.id, validation.data, fraudRuleActor(req));
+      if (!publication) {
+        return res.status(404).json({ error: "Fraud rule not found or no longer current" });
+      }
+      await logFraudRuleSetChange(req, publication, 'fraud_rule', req.params.id);
+
+      res.json(publication);
+    } catch (error) {
+      console.error("Error updating fraud rule:", error);
+      res.status(500).json({ error: "Failed to update fraud rule" });
+    }
+  });
+
+  app.delete("/api/admin/fraud-rules/rules/:id", requireAdminAuth, async (req: any, res) => {
+    try {
+      const { changeSummary } = retireFraudRuleSetEntrySchema.parse(req.body ?? {});
+      const publication = await fraudRuleService.retireRule(req.params.id, fraudRuleActor(req), changeSummary);
+      if (!publication) {
+        return res.status(404).json({ error: "Fraud rule not found or no longer current" });
+      }
+      await logFraudRuleSetChange(req, publication, 'fraud_rule', req.params.id);
+
+      res.json(publication);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      console.error("Error removing fraud rule:", error);
+      res.status(500).json({ error: "Failed to remove fraud rule" });
+    }
+  });
+
+  app.post("/api/admin/fraud-rules/templates", requireAdminAuth, async (req: any, res) => {
+    try {
+      const validation = fraudTemplateInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid document template", details: validation.error.errors });
+      }
+
+      const publication = await fraudRuleService.addTemplate(validation.data, fraudRuleActor(req));
+      await logFraudRuleSetChange(req, publication, 'document_template', publication.templates[0].id);
+
+      res.status(201).json(publication);
+    } catch (error) {
+      console.error("Error creating document template:", error);
+      res.status(500).json({ error: "Failed to create document template" });
+    }
+  });
+
+  app.put("/api/admin/fraud-rules/templates/:id", requireAdminAuth, async (req: any, res) => {
+    try {
+      const validation = fraudTemplateInputSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid document template", details: validation.error.errors });
+      }
+
+      const publication = await fraudRuleService.replaceTemplate(req.params.id, validation.data, fraudRuleActor(req));
+      if (!publication) {
+        return res.status(404).json({ error: "Document template not found or no longer current" });
+      }
+      await logFraudRuleSetChange(req, publication, 'document_template', req.params.id);
+
+      res.json(publication);
+    } catch (error) {
+      console.error("Error updating document template:", error);
+      res.status(500).json({ error: "Failed to update document template" });
+    }
+  });
+
+  app.delete("/api/admin/fraud-rules/templates/:id", requireAdminAuth, async (req: any, res) => {
+    try {
+      const { changeSummary } = retireFraudRuleSetEntrySchema.parse(req.body ?? {});
+      const publication = await fraudRuleService.retireTemplate(req.params.id, fraudRuleActor(req), changeSummary);
+      if (!publication) {
+        return res.status(404).json({ error: "Document template not found or no longer current" });
+      }
+      await logFraudRuleSetChange(req, publication, 'document_template', req.params.id);
+
+      res.json(publication);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      console.error("Error removing document template:", error);
+      res.status(500).json({ error: "Failed to remove document template" });
+    }
+  });
+
+  app.post("/api/admin/fraud-rules/blacklist", requireAdminAuth, async (req: any, res) => {
+    try {
+      const validation = insertFraudBlacklistEntrySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ error: "Invalid blacklist entry", details: validation.error.errors });
+      }
+
+      const publication = await fraudRuleService.addBlacklistEntry(validation.data, fraudRuleActor(req));
+      await logFraudRuleSetChange(req, publication, 'fraud_blacklist_entry', publication.blacklist[0].id);
+
+      res.status(201).json(publication);
+    } catch (error) {
+      console.error("Error creating blacklist entry:", error);
+      res.status(500).json({ error: "Failed to create blacklist entry" });
+    }
+  });
+
+  app.delete("/api/admin/fraud-rules/blacklist/:id", requireAdminAuth, async (req: any, res) => {
+    try {
+      const { changeSummary } = retireFraudRuleSetEntrySchema.parse(req.body ?? {});
+      const publication = await fraudRuleService.retireBlacklistEntry(req.params.id, fraudRuleActor(req), changeSummary);
+      if (!publication) {
+        return res.status(404).json({ error: "Blacklist entry not found or no longer current" });
+      }
+      await logFraudRuleSetChange(req, publication, 'fraud_blacklist_entry', req.params.id);
+
+      res.json(publication);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request", details: error.errors });
+      }
+      console.error("Error removing blacklist entry:", error);
+      res.status(500).json({ error: "Failed to remove blacklist entry" });
+    }
+  });
+
   // Rate limiting configuration for pricing endpoints
   const pricingRateLimit = rateLimit({
     windowMs: 60 * 1000, // 1 minute window
@@ -3716,52 +4894,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Apply rate limiting to all pricing endpoints
   app.use("/api/pricing", pricingRateLimit);
 
-  // Circuit breaker for external pricing APIs
-  const circuitBreaker = {
-    failures: new Map<string, { count: number; lastFailure: number; isOpen: boolean }>(),
-    
-    isCircuitOpen(service: string): boolean {
-      const circuit = this.failures.get(service);
-      if (!circuit) return false;
-      
-      const now = Date.now();
-      const timeSinceLastFailure = now - circuit.lastFailure;
-      
-      // Reset circuit after 5 minutes
-      if (timeSinceLastFailure > 5 * 60 * 1000) {
-        circuit.count = 0;
-        circuit.isOpen = false;
-        return false;
-      }
-      
-      // Open circuit after 5 failures in 5 minutes
-      if (circuit.count >= 5) {
-        circuit.isOpen = true;
-        return true;
-      }
-      
-      return circuit.isOpen;
-    },
-    
-    recordFailure(service: string): void {
-      const circuit = this.failures.get(service) || { count: 0, lastFailure: 0, isOpen: false };
-      circuit.count++;
-      circuit.lastFailure = Date.now();
-      circuit.isOpen = circuit.count >= 5;
-      this.failures.set(service, circuit);
-    },
-    
-    recordSuccess(service: string): void {
-      const circuit = this.failures.get(service);
-      if (circuit) {
-        circuit.count = Math.max(0, circuit.count - 1);
-        if (circuit.count === 0) {
-          circuit.isOpen = false;
-        }
-      }
-    }
-  };
-
   // Comprehensive Pricing API Endpoints
   app.get("/api/pricing/estimate", async (req, res) => {
     try {
@@ -3789,9 +4921,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Check circuit breaker before calling external APIs
-      const serviceKey = `pricing_${query.category}`;
-      if (circuitBreaker.isCircuitOpen(serviceKey)) {
+      // Every provider for this category has its circuit breaker open
+      if (!pricingService.isCategoryAvailable(query.category)) {
         return res.status(503).json({
           error: "Pricing service temporarily unavailable",
           reason: "Circuit breaker is open due to repeated failures",
@@ -3803,10 +4934,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let pricing;
       try {
         pricing = await pricingService.getAssetPricing(query);
-        circuitBreaker.recordSuccess(serviceKey);
       } catch (apiError) {
-        console.error(`Pricing API error for ${serviceKey}:`, apiError);
-        circuitBreaker.recordFailure(serviceKey);
+        console.error(`Pricing API error for ${query.category}:`, apiError);
+        if (apiError instanceof InvalidPricingQueryError) {
+          throw apiError;
+        }
         
         // Try to return cached data even if expired as fallback
         if (cachedPricing) {
@@ -3854,7 +4986,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error("Pricing estimate error:", error);
       
       const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes("required") || errorMessage.includes("Invalid")) {
+      if (error instanceof InvalidPricingQueryError || errorMessage.includes("required") || errorMessage.includes("Invalid")) {
         return res.status(400).json({ 
           error: "Invalid pricing query parameters",
           details: errorMessage 
@@ -3895,9 +5027,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Check circuit breaker before calling external APIs
-      const serviceKey = `pricing_${query.category}`;
-      if (circuitBreaker.isCircuitOpen(serviceKey)) {
+      // Every provider for this category has its circuit breaker open
+      if (!pricingService.isCategoryAvailable(query.category)) {
         return res.status(503).json({
           error: "Pricing service temporarily unavailable",
           reason: "Circuit breaker is open due to repeated failures",
@@ -3909,21 +5040,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let pricing;
       try {
         pricing = await pricingService.getAssetPricing(query);
-        circuitBreaker.recordSuccess(serviceKey);
         
         // Create pricing estimate audit trail
+        // Anyone can call this endpoint, so the estimate is never linked to a submission from here
         await storage.createPricingEstimate({
-          submissionId: req.body.submissionId || null, // Optional reference to RWA submission
+          submissionId: null,
           category: query.category,
           // specifications: query.specifications || null, // Removed - not in schema
           estimatedValue: pricing.median.toString(),
           confidenceScore: pricing.confidence.toString(),
           methodology: pricing.methodology,
           sources: pricing.sources,
+          metadata: {
+            symbol: query.symbol?.toUpperCase() ?? null,
+            itemType: query.itemType ?? null,
+            specifications: query.specifications ?? null,
+          },
         });
       } catch (apiError) {
-        console.error(`Pricing API error for ${serviceKey}:`, apiError);
-        circuitBreaker.recordFailure(serviceKey);
+        console.error(`Pricing API error for ${query.category}:`, apiError);
+        if (apiError instanceof InvalidPricingQueryError) {
+          throw apiError;
+        }
         
         // Try to return cached data even if expired as fallback
         if (cachedPricing) {
@@ -3971,7 +5109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error("Pricing estimate error (POST):", error);
       
       const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes("required") || errorMessage.includes("Invalid")) {
+      if (error instanceof InvalidPricingQueryError || errorMessage.includes("required") || errorMessage.includes("Invalid")) {
         return res.status(400).json({ 
           error: "Invalid pricing query in request body",
           details: errorMessage 
@@ -4094,28 +5232,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get pricing history for an asset (from database cache)
   app.get("/api/pricing/history", async (req, res) => {
     try {
-      const { category, symbol, itemType, days = 7 } = req.query;
-      
-      if (!category) {
-        return res.status(400).json({ error: "Category parameter required" });
-      }
-      
-      // This would require a more sophisticated query to get historical data
-      // For now, return a simple response indicating feature availability
-      res.json({ 
-        message: "Pricing history feature",
-        category,
-        symbol,
-        itemType,
-        days: parseInt(days as string),
-        note: "Historical pricing data collection in progress"
-      });
+      const query = priceHistoryQuerySchema.parse(req.query);
+      const history = await priceHistoryService.getHistory(query);
+      res.json(history);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid price history query",
+          details: error.errors,
+        });
+      }
       console.error("Pricing history error:", error);
       res.status(500).json({ error: "Failed to fetch pricing history" });
     }
   });
 
+  // What a tracked asset was worth at a moment (e.g. loan origination) versus its latest price
+  app.get("/api/pricing/history/at", async (req, res) => {
+    try {
+      const { category, symbol, at } = priceAtQuerySchema.parse(req.query);
+      const valuation = await priceHistoryService.getValuationAt(category, symbol, at);
+      if (!valuation) {
+        return res.status(404).json({ error: `No ${symbol} price recorded at or before ${at.toISOString()}` });
+      }
+      res.json(valuation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({
+          error: "Invalid point-in-time price query",
+          details: error.errors,
+        });
+      }
+      console.error("Point-in-time pricing error:", error);
+      res.status(500).json({ error: "Failed to fetch point-in-time price" });
+    }
+  });
+
   // Admin endpoint to clear expired pricing cache
   app.delete("/api/pricing/cache", requireAdminAuth, async (req: any, res) => {
     try {
@@ -4145,20 +5297,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       .from(assetPricingCache)
       .groupBy(assetPricingCache.category);
       
-      // Get circuit breaker status
-      const circuitBreakerStatus = Array.from(circuitBreaker.failures.entries()).map(([service, stats]) => ({
-        service,
-        failures: stats.count,
-        isOpen: stats.isOpen,
-        lastFailure: new Date(stats.lastFailure).toISOString()
-      }));
+      // Get per-provider health and circuit breaker status
+      const providers = pricingService.getProviderHealth();
       
       res.json({
         memory_cache: memoryCache,
         database_cache: dbCacheQuery,
-        circuit_breakers: circuitBreakerStatus,
+        providers,
         timestamp: new Date().toISOString(),
-        system_status: circuitBreakerStatus.some(cb => cb.isOpen) ? "degraded" : "operational"
+        system_status: providers.some(provider => provider.circuitOpen) ? "degraded" : "operational"
       });
     } catch (error) {
       console.error("Pricing stats error:", error);
@@ -4202,12 +5349,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { service } = req.body;
       
       if (service) {
-        // Reset specific service
-        circuitBreaker.failures.set(service, { count: 0, lastFailure: 0, isOpen: false });
+        // Reset a specific provider
+        if (!pricingService.resetCircuitBreakers(service)) {
+          return res.status(404).json({ error: `Unknown pricing provider: ${service}` });
+        }
         res.json({ message: `Circuit breaker reset for service: ${service}` });
       } else {
         // Reset all circuit breakers
-        circuitBreaker.failures.clear();
+        pricingService.resetCircuitBreakers();
         res.json({ message: "All circuit breakers reset" });
       }
     } catch (error) {
@@ -4248,7 +5397,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check circuit breaker status
-      const hasOpenCircuits = Array.from(circuitBreaker.failures.values()).some(cb => cb.isOpen);
+      const hasOpenCircuits = pricingService.getProviderHealth().some(provider => provider.circuitOpen);
       healthCheck.checks.external_apis = hasOpenCircuits ? "degraded" : "healthy";
       if (hasOpenCircuits && healthCheck.status === "healthy") {
         healthCheck.status = "degraded";
@@ -4305,6 +5454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Upload and analyze document
       const document = await documentAnalysisService.uploadAndAnalyze(uploadedFile, uploadData, userId);
+      documentAnalysisWorker.wake();
       
       res.json({
         document,
@@ -4329,8 +5479,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Handle file filter errors
-      if (error instanceof Error && error.message?.includes('Unsupported file type')) {
+      // Handle file filter and document validation errors
+      if (error instanceof Error && (error.message?.includes('Unsupported file type') || error.message?.startsWith('Document validation failed'))) {
         return res.status(400).json({ error: error.message });
       }
       
@@ -4443,16 +5593,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Admin endpoints
   
-  // Get pending documents analysis queue
+  // Get the document analysis queue with depth, throughput and this node's workers
   app.get("/api/admin/documents/queue", requireAdminAuth, async (req: any, res) => {
     try {
-      const queue = await documentAnalysisService.getAnalysisQueue();
+      const [queue, stats] = await Promise.all([
+        documentAnalysisService.getAnalysisQueue(),
+        storage.getAnalysisQueueStats(),
+      ]);
       
       res.json({
         queue,
-        totalPending: queue.filter(item => item.queueStatus === 'pending').length,
-        totalProcessing: queue.filter(item => item.queueStatus === 'processing').length,
-        totalFailed: queue.filter(item => item.queueStatus === 'failed').length
+        stats,
+        workers: documentAnalysisWorker.getStatus(),
+        totalPending: stats.queued + stats.retrying,
+        totalProcessing: stats.processing,
+        totalDeadLetter: stats.deadLetter
       });
     } catch (error) {
       console.error("Analysis queue retrieval error:", error);
@@ -4460,20 +5615,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Process queued document (admin trigger)
+  // Process a queued document now, skipping any retry backoff (admin trigger)
   app.post("/api/admin/documents/queue/:queueId/process", requireAdminAuth, async (req: any, res) => {
     try {
-      const queueId = req.params.queueId;
-      
-      await documentAnalysisService.processQueuedDocument(queueId);
+      const item = await documentAnalysisService.expediteQueuedDocument(req.params.queueId);
+      if (!item) {
+        return res.status(409).json({ error: "Queue item is not waiting to be processed" });
+      }
       
-      res.json({ message: "Document processing started successfully" });
+      documentAnalysisWorker.wake();
+      res.json({ message: "Document queued for immediate processing", item });
     } catch (error) {
       console.error("Queue processing error:", error);
       res.status(500).json({ error: "Failed to process queued document" });
     }
   });
   
+  // Replay a dead-lettered document with a fresh set of attempts
+  app.post("/api/admin/documents/queue/:queueId/replay", requireAdminAuth, async (req: any, res) => {
+    try {
+      const item = await documentAnalysisService.replayDeadLetteredDocument(req.params.queueId);
+      if (!item) {
+        return res.status(409).json({ error: "Queue item is not dead-lettered" });
+      }
+      
+      documentAnalysisWorker.wake();
+      res.json({ message: "Document replayed", item });
+    } catch (error) {
+      console.error("Queue replay error:", error);
+      res.status(500).json({ error: "Failed to replay queued document" });
+    }
+  });
+  
   // Batch analyze documents
   app.post("/api/admin/documents/batch-analyze", requireAdminAuth, async (req: any, res) => {
     try {
@@ -4723,11 +5896,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Preview the reconciled valuation and loan terms an approval would produce
+  app.get("/api/admin/assets/:submissionId/valuation", requireAdminAuth, async (req: any, res) => {
+    try {
+      const submission = await storage.getRwaSubmission(req.params.submissionId);
+      if (!submission) {
+        return res.status(404).json({ error: "Submission not found" });
+      }
+      
+      const adminValue = req.query.adminValue ? parseFloat(req.query.adminValue as string) : undefined;
+      const valuation = await loanValuationService.reconcile(submission, { adminValue });
+      const policy = await loanPolicyService.getEffectivePolicy(submission.category);
+      const terms = policy
+        ? loanPolicyService.calculateLoanTerms(policy, parseFloat(valuation.reconciledValue))
+        : null;
+      
+      res.json({
+        valuation,
+        policy: policy ?? null,
+        loanAmount: terms ? terms.loanAmount.toFixed(2) : null,
+        expiryDate: terms ? terms.expiryDate.toISOString() : null,
+        // Set when approval needs a market symbol for revaluation
+        revaluedCategory: collateralMonitor.getRevaluedCategory(submission) ?? null
+      });
+    } catch (error) {
+      console.error("Valuation preview error:", error);
+      res.status(500).json({ error: "Failed to reconcile valuation" });
+    }
+  });
+
   // Approve Asset Submission
   app.post("/api/admin/assets/:submissionId/approve", requireAdminAuth, async (req: any, res) => {
     try {
       const { submissionId } = req.params;
-      const { estimatedValue, reasoning, conditions } = req.body;
+      const { estimatedValue, reasoning, conditions, overrideReason, collateralSymbol } = req.body;
       const adminId = req.user.id;
       
       // Get submission to check user's KYC status
@@ -4736,6 +5938,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Submission not found" });
       }
       
+      if (submission.status === "approved") {
+        return res.status(409).json({ error: "Submission has already been approved", code: "ALREADY_APPROVED" });
+      }
+      
       // Check user's KYC status before approval
       const kycInfo = await storage.getKycInformation(submission.userId);
       
@@ -4747,8 +5953,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // KYC approved - proceed with submission approval
-      await storage.updateRwaSubmissionStatus(submissionId, "approved", reasoning, adminId);
+      const loanPolicy = await loanPolicyService.getEffectivePolicy(submission.category);
+      if (!loanPolicy) {
+        return res.status(409).json({
+          error: "No loan policy in effect for this asset category",
+          code: "NO_LOAN_POLICY",
+          category: submission.category
+        });
+      }
+      
+      // Size the loan from the admin appraisal, capped by the pricing estimate and the user's claim
+      const valuation = await loanValuationService.reconcile(submission, {
+        adminValue: estimatedValue !== undefined && estimatedValue !== '' ? parseFloat(estimatedValue) : undefined,
+        overrideReason
+      });
+      const valuationBlocker = loanValuationService.getMissingValuationBlocker(valuation);
+      if (valuationBlocker) {
+        return res.status(409).json({ error: valuationBlocker, code: "ADMIN_VALUATION_REQUIRED", valuation });
+      }
+      const overrideBlocker = loanValuationService.getOverrideBlocker(valuation);
+      if (overrideBlocker) {
+        return res.status(400).json({ error: overrideBlocker, code: "OVERRIDE_REASON_REQUIRED", valuation });
+      }
+      
+      // Market-priced collateral is revalued against the symbol the admin names here
+      const revaluedCategory = collateralMonitor.getRevaluedCategory(submission);
+      let collateral;
+      if (revaluedCategory) {
+        if (typeof collateralSymbol !== "string" || !collateralSymbol.trim()) {
+          return res.status(400).json({ error: "A market symbol is required for this collateral", code: "COLLATERAL_SYMBOL_REQUIRED" });
+        }
+        collateral = await collateralMonitor.priceCollateralAtOrigination(revaluedCategory, collateralSymbol);
+        if (!collateral) {
+          return res.status(409).json({ error: `No market price available for ${collateralSymbol}`, code: "NO_COLLATERAL_PRICE" });
+        }
+      }
+      
+      // KYC approved - approve the submission and create its loan, unless it left pending meanwhile
+      const approval = await loanAccounting.originateLoan(submission, loanPolicy, valuation, { adminNotes: reasoning, reviewedBy: adminId }, collateral);
+      if (!approval) {
+        return res.status(409).json({ error: "Submission is no longer pending", code: "SUBMISSION_NOT_PENDING" });
+      }
+      const { loan, transaction } = approval;
       
       // Log admin action
       await storage.createAdminAction({
@@ -4756,15 +6002,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         actionType: 'approve_submission',
         targetType: 'submission',
         targetId: submissionId,
-        actionDetails: { estimatedValue, conditions },
+        actionDetails: { estimatedValue, conditions, valuation, collateral, loanId: loan.id, loanAmount: loan.loanAmount },
         adminNotes: reasoning,
-        severity: 'normal',
+        severity: valuation.overrideRequired ? 'high' : 'normal',
         ipAddress: req.ip || '0.0.0.0',
         userAgent: req.get('User-Agent') || 'Unknown',
         sessionId: req.sessionID || 'unknown',
       });
       
-      res.json({ message: "Asset submission approved successfully" });
+      res.json({ message: "Asset submission approved successfully", loan, transaction, valuation });
     } catch (error) {
       console.error("Asset approval error:", error);
       res.status(500).json({ error: "Failed to approve asset submission" });
@@ -5378,6 +6624,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Requeue a bridge refund that ran out of attempts, was left in processing or has been reconciled
+  app.post("/api/admin/bridge/transactions/:txId/refund/retry", requireAdminAuth, async (req: any, res) => {
+    try {
+      const transaction = await storage.getBridgeTransaction(req.params.txId);
+      if (!transaction) {
+        return res.status(404).json({ error: "Bridge transaction not found" });
+      }
+
+      const requeued = await bridgeRefundService.retryRefund(transaction);
+      if (!requeued) {
+        return res.status(409).json({ error: "Only failed, stuck or reviewed refunds with nothing released on the destination can be retried", code: "REFUND_NOT_RETRYABLE" });
+      }
+
+      await storage.createAdminAction({
+        adminId: req.user.id,
+        actionType: 'retry_bridge_refund',
+        targetType: 'bridge_transaction',
+        targetId: transaction.id,
+        actionDetails: { previousRefundStatus: transaction.refundStatus, refundAttempts: transaction.refundAttempts, refundError: transaction.refundError },
+        adminNotes: req.body?.reason,
+        severity: 'high',
+        ipAddress: req.ip || '0.0.0.0',
+        userAgent: req.get('User-Agent') || 'Unknown',
+        sessionId: req.sessionID || 'unknown',
+      });
+
+      res.json(requeued);
+    } catch (error) {
+      console.error("Bridge refund retry error:", error);
+      res.status(500).json({ error: "Failed to retry bridge refund" });
+    }
+  });
+
   // ADMIN ACTIONS AND AUDIT TRAIL
 
   // Get Admin Actions (Audit Trail)
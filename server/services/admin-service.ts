@@ -172,8 +172,9 @@ export class AdminService {
    * FRAUD DETECTION AND ALERTS
    */
 
-  // Create fraud alert with intelligent risk assessment
-  async createFraudAlert(alertData: Omit<InsertFraudAlert, 'riskScore' | 'detectionMethod'>, adminId: string) {
+  // Create fraud alert with intelligent risk assessment. Without an adminId the alert was raised
+  // by an automated rule, so it is left unassigned for the review queue
+  async createFraudAlert(alertData: Omit<InsertFraudAlert, 'riskScore' | 'detectionMethod'>, adminId?: string) {
     try {
       // Calculate risk score based on alert type and evidence
       const riskScore = this.calculateFraudRiskScore(alertData.alertType, alertData.alertData);
@@ -181,25 +182,27 @@ export class AdminService {
       const fraudAlert: InsertFraudAlert = {
         ...alertData,
         riskScore: riskScore.toString(),
-        detectionMethod: 'manual_review', // Default for admin-created alerts
+        detectionMethod: adminId ? 'manual_review' : 'rule_based',
         falsePositiveRisk: this.calculateFalsePositiveRisk(alertData.alertType, riskScore).toString(),
       };
 
       const newAlert = await storage.createFraudAlert(fraudAlert);
 
-      // Log admin action
-      await this.logAdminAction({
-        adminId,
-        actionType: 'resolve_alert',
-        targetType: 'alert',
-        targetId: newAlert.id,
-        actionDetails: { alertType: alertData.alertType, severity: alertData.severity },
-        severity: alertData.severity === 'critical' ? 'high' : 'normal',
-      });
-
-      // Auto-assign to admin if high/critical severity
-      if (alertData.severity === 'high' || alertData.severity === 'critical') {
-        await storage.updateFraudAlert(newAlert.id, { assignedTo: adminId });
+      if (adminId) {
+        // Log admin action
+        await this.logAdminAction({
+          adminId,
+          actionType: 'resolve_alert',
+          targetType: 'alert',
+          targetId: newAlert.id,
+          actionDetails: { alertType: alertData.alertType, severity: alertData.severity },
+          severity: alertData.severity === 'critical' ? 'high' : 'normal',
+        });
+
+        // Auto-assign to admin if high/critical severity
+        if (alertData.severity === 'high' || alertData.severity === 'critical') {
+          await storage.updateFraudAlert(newAlert.id, { assignedTo: adminId });
+        }
       }
 
       return {
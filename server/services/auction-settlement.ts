@@ -0,0 +1,123 @@
+// Auction Settlement Service - Closes marketplace auctions once their end time has passed
+// Each auction is settled in its own DB transaction: the highest bid at or above the reserve
+// wins and pays the marketplace fee, and every losing bid is released or refunded.
+// The same sweep sends ending-soon alerts to watchers and bidders of auctions about to close.
+
+import { storage, type AuctionSettlementResult } from "../storage";
+import { calculateMarketplaceFeeForUser } from "../fee-waiver";
+import { notificationService } from "./notification-service";
+import { realtimeService } from "./realtime";
+
+// How often the settlement sweep looks for ended auctions
+const SETTLEMENT_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface AuctionSettlementSummary {
+  auctionsScanned: number;
+  sold: number;
+  unsold: number;
+  refunds: number;
+  errors: Array<{ assetId: string; error: string }>;
+}
+
+export class AuctionSettlementService {
+  private static instance: AuctionSettlementService;
+  private settlementTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): AuctionSettlementService {
+    if (!AuctionSettlementService.instance) {
+      AuctionSettlementService.instance = new AuctionSettlementService();
+    }
+    return AuctionSettlementService.instance;
+  }
+
+  // Start the periodic settlement sweep
+  startSettlementSchedule(): void {
+    if (this.settlementTimer) {
+      return;
+    }
+
+    const runSweep = async () => {
+      try {
+        const summary = await this.settleEndedAuctions();
+        if (summary.auctionsScanned > 0) {
+          console.log(`Auction settlement sweep completed: ${summary.sold} sold, ${summary.unsold} unsold, ${summary.refunds} refunds, ${summary.errors.length} errors`);
+        }
+      } catch (error) {
+        console.error("Error during auction settlement sweep:", error);
+      }
+
+      try {
+        const alerts = await notificationService.sendAuctionEndingSoonAlerts();
+        if (alerts > 0) {
+          console.log(`Auction ending-soon alerts sent: ${alerts}`);
+        }
+      } catch (error) {
+        console.error("Error sending auction ending-soon alerts:", error);
+      }
+    };
+
+    runSweep();
+    this.settlementTimer = setInterval(runSweep, SETTLEMENT_SWEEP_INTERVAL_MS);
+  }
+
+  stopSettlementSchedule(): void {
+    if (this.settlementTimer) {
+      clearInterval(this.settlementTimer);
+      this.settlementTimer = null;
+    }
+  }
+
+  // Settle a single auction, returning undefined if it is not (or no longer) due
+  async settleAuction(assetId: string, asOf: Date = new Date()): Promise<AuctionSettlementResult | undefined> {
+    return await storage.settleAuction(assetId, {
+      asOf,
+      calculateFee: (buyer, salePrice) => calculateMarketplaceFeeForUser(salePrice, {
+        email: buyer.email,
+        isAdmin: buyer.isAdmin ?? undefined,
+        role: buyer.role ?? undefined,
+      }),
+    });
+  }
+
+  // Settle every auction that ended before asOf
+  async settleEndedAuctions(asOf: Date = new Date()): Promise<AuctionSettlementSummary> {
+    const endedAuctions = await storage.getAuctionsEndedBefore(asOf);
+    const summary: AuctionSettlementSummary = {
+      auctionsScanned: endedAuctions.length,
+      sold: 0,
+      unsold: 0,
+      refunds: 0,
+      errors: [],
+    };
+
+    for (const asset of endedAuctions) {
+      try {
+        const result = await this.settleAuction(asset.id, asOf);
+        if (!result) {
+          continue;
+        }
+
+        if (result.winningBid) {
+          summary.sold++;
+        } else {
+          summary.unsold++;
+        }
+        summary.refunds += result.refundTransactions.length;
+
+        realtimeService.publish([`asset:${asset.id}`], "auction.settled", { asset: result.asset, winningBid: result.winningBid });
+
+        // Notification failures are logged but never undo a committed settlement
+        notificationService.notifyAuctionResult(result).catch((error) => {
+          console.error(`Error sending auction result notices for asset ${asset.id}:`, error);
+        });
+      } catch (error) {
+        console.error(`Error settling auction for asset ${asset.id}:`, error);
+        summary.errors.push({ assetId: asset.id, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return summary;
+  }
+}
+
+export const auctionSettlementService = AuctionSettlementService.getInstance();
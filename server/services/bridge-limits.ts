@@ -0,0 +1,307 @@
+// Bridge Limits Service - Caps how much value can leave through the bridge
+// Users get rolling daily and weekly USD limits by tier, each source token has a platform-wide
+// 24h circuit breaker, and bursts of bridging raise a fraud alert for admin review.
+// Limits are re-checked when the bridge row is written, under per-user and per-token locks,
+// so simultaneous requests cannot both spend the same remaining allowance.
+// Tiers and token caps can be overridden with BRIDGE_LIMIT_TIERS and BRIDGE_TOKEN_DAILY_CAPS.
+
+import { z } from "zod";
+import { storage, type BridgeLimitGuard, type BridgeLimitVolumes, type BridgeTokenVolume } from "../storage";
+import { priceOracleService, type TokenPrices } from "./price-oracle";
+import { adminService } from "./admin-service";
+import { bridgeRouteRegistry } from "./bridge-routes";
+import {
+  BRIDGE_LIMIT_TIERS,
+  USER_ROLES,
+  type BridgeAllowance,
+  type BridgeLimitRejection,
+  type BridgeLimitTier,
+  type SupportedToken,
+  type User,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Most of each source token the whole platform may bridge in 24 hours. Uncapped if missing
+const DEFAULT_TOKEN_DAILY_CAPS: Partial<Record<SupportedToken, number>> = {
+  ETH: 1000,
+  USDC: 5000000,
+  BTC: 50,
+  ckETH: 1000,
+  ckUSDC: 5000000,
+  ckBTC: 50,
+};
+
+// Velocity rules: more bridges than this in an hour, or more than this share of the daily
+// limit moved in an hour, looks like an account being drained
+const VELOCITY_MAX_BRIDGES_PER_HOUR = 5;
+const VELOCITY_MAX_DAILY_SHARE_PER_HOUR = 0.75;
+
+type TierLimits = Record<BridgeLimitTier, { dailyUsd: number; weeklyUsd: number }>;
+
+const usdLimit = z.number().nonnegative();
+
+// e.g. BRIDGE_LIMIT_TIERS={"basic":{"dailyUsd":500,"weeklyUsd":1500}} - tiers left out keep their defaults
+const tierOverridesSchema = z.object({
+  basic: z.object({ dailyUsd: usdLimit, weeklyUsd: usdLimit }),
+  verified: z.object({ dailyUsd: usdLimit, weeklyUsd: usdLimit }),
+  staff: z.object({ dailyUsd: usdLimit, weeklyUsd: usdLimit }),
+}).partial().strict();
+
+// e.g. BRIDGE_TOKEN_DAILY_CAPS={"ETH":500,"BTC":null} - null removes a token's cap
+const tokenCapOverridesSchema = z.record(z.number().nonnegative().nullable());
+
+// Parse a JSON override from the environment, failing startup rather than running on limits nobody set
+function readJsonEnv<T>(name: string, schema: z.ZodType<T>): T | undefined {
+  const raw = process.env[name];
+  if (!raw?.trim()) {
+    return undefined;
+  }
+  try {
+    return schema.parse(JSON.parse(raw));
+  } catch (error) {
+    throw new Error(`Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function loadTierLimits(): TierLimits {
+  return { ...BRIDGE_LIMIT_TIERS, ...readJsonEnv("BRIDGE_LIMIT_TIERS", tierOverridesSchema) };
+}
+
+function loadTokenDailyCaps(): Partial<Record<SupportedToken, number>> {
+  const caps: Partial<Record<string, number>> = { ...DEFAULT_TOKEN_DAILY_CAPS };
+  for (const [token, cap] of Object.entries(readJsonEnv("BRIDGE_TOKEN_DAILY_CAPS", tokenCapOverridesSchema) ?? {})) {
+    if (cap === null) {
+      delete caps[token];
+    } else {
+      caps[token] = cap;
+    }
+  }
+  return caps;
+}
+
+// Thrown when a bridge no longer fits the limits once the locks are held
+export class BridgeLimitExceededError extends Error {
+  constructor(public readonly rejection: BridgeLimitRejection) {
+    super(rejection.error);
+    this.name = 'BridgeLimitExceededError';
+    Object.setPrototypeOf(this, BridgeLimitExceededError.prototype);
+  }
+}
+
+export class BridgeLimitsService {
+  private static instance: BridgeLimitsService;
+  private tierLimits = loadTierLimits();
+  private tokenDailyCaps = loadTokenDailyCaps();
+
+  static getInstance(): BridgeLimitsService {
+    if (!BridgeLimitsService.instance) {
+      BridgeLimitsService.instance = new BridgeLimitsService();
+    }
+    return BridgeLimitsService.instance;
+  }
+
+  getTier(user: User): BridgeLimitTier {
+    if (user.role === USER_ROLES.ADMINISTRATOR || user.role === USER_ROLES.MANAGER) {
+      return 'staff';
+    }
+    if (user.role === USER_ROLES.REGISTERED_KYC || user.kycStatus === 'completed') {
+      return 'verified';
+    }
+    return 'basic';
+  }
+
+  // What the user has left to bridge, and the platform capacity left for a token if given
+  async getAllowance(user: User, fromToken?: SupportedToken): Promise<BridgeAllowance> {
+    const prices = await priceOracleService.getTokenPrices();
+    const volumes = await this.readVolumes(user, fromToken, this.getWindows());
+    return this.buildAllowance(user, prices, volumes, fromToken);
+  }
+
+  // Check a bridge against the user's limits and the token's circuit breaker
+  async checkBridge(user: User, fromToken: SupportedToken, amount: string): Promise<{ allowance: BridgeAllowance; rejection: BridgeLimitRejection | null }> {
+    const prices = await priceOracleService.getTokenPrices();
+    const volumes = await this.readVolumes(user, fromToken, this.getWindows());
+    const allowance = this.buildAllowance(user, prices, volumes, fromToken);
+    return { allowance, rejection: this.findRejection(allowance, fromToken, amount, prices) };
+  }
+
+  /**
+   * The same check for storage to run against volumes read under its locks, as the bridge is
+   * created. checkBridge answers early; only this one stops two requests racing past a limit
+   */
+  async createGuard(user: User, fromToken: SupportedToken, amount: string): Promise<BridgeLimitGuard> {
+    const prices = await priceOracleService.getTokenPrices();
+    return {
+      ...this.getWindows(),
+      check: (volumes) => {
+        const allowance = this.buildAllowance(user, prices, volumes, fromToken);
+        return this.findRejection(allowance, fromToken, amount, prices);
+      },
+    };
+  }
+
+  private findRejection(allowance: BridgeAllowance, fromToken: SupportedToken, amount: string, prices: TokenPrices): BridgeLimitRejection | null {
+    const amountValue = parseFloat(amount);
+    const amountUsd = amountValue * this.getUsdPrice(fromToken, prices);
+
+    const platformRemaining = allowance.token?.platformRemaining;
+    if (allowance.token?.circuitBreakerOpen) {
+      return {
+        code: "CIRCUIT_BREAKER_OPEN",
+        error: `Bridging ${fromToken} is paused: the platform's 24 hour limit for this token has been reached`,
+      };
+    }
+    if (platformRemaining != null && amountValue > parseFloat(platformRemaining)) {
+      return {
+        code: "CIRCUIT_BREAKER_OPEN",
+        error: `Only ${platformRemaining} ${fromToken} can be bridged across the platform in the next 24 hours`,
+      };
+    }
+
+    if (amountUsd > allowance.daily.remainingUsd) {
+      return {
+        code: "DAILY_LIMIT_EXCEEDED",
+        error: `This bridge ($${amountUsd.toFixed(2)}) exceeds your remaining daily limit of $${allowance.daily.remainingUsd.toFixed(2)}`,
+      };
+    }
+
+    if (amountUsd > allowance.weekly.remainingUsd) {
+      return {
+        code: "WEEKLY_LIMIT_EXCEEDED",
+        error: `This bridge ($${amountUsd.toFixed(2)}) exceeds your remaining weekly limit of $${allowance.weekly.remainingUsd.toFixed(2)}`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Look at the user's last hour of bridging and raise a fraud alert if it breaks a velocity
+   * rule. Nothing is blocked; an open velocity alert from the last hour suppresses a repeat
+   */
+  async checkVelocity(user: User, bridgeId: string): Promise<void> {
+    const since = new Date(Date.now() - HOUR_MS);
+    const prices = await priceOracleService.getTokenPrices();
+
+    const bridgeCount = await storage.countBridgeTransactionsSince(user.id, since);
+    const hourlyVolumeUsd = this.sumUsd(await storage.getBridgeVolumeSince(since, { userId: user.id }), prices);
+    const dailyLimitUsd = this.tierLimits[this.getTier(user)].dailyUsd;
+
+    const rules: string[] = [];
+    if (bridgeCount > VELOCITY_MAX_BRIDGES_PER_HOUR) {
+      rules.push('bridge_count');
+    }
+    if (hourlyVolumeUsd > dailyLimitUsd * VELOCITY_MAX_DAILY_SHARE_PER_HOUR) {
+      rules.push('bridge_volume');
+    }
+    if (rules.length === 0) {
+      return;
+    }
+
+    const openAlerts = await storage.getFraudAlertsByUser(user.id);
+    const alreadyFlagged = openAlerts.some(alert =>
+      (alert.status === 'open' || alert.status === 'investigating') &&
+      this.isVelocityAlertData(alert.alertData) &&
+      alert.createdAt && new Date(alert.createdAt) >= since
+    );
+    if (alreadyFlagged) {
+      return;
+    }
+
+    const result = await adminService.createFraudAlert({
+      alertType: 'transaction_anomaly',
+      severity: rules.length > 1 ? 'high' : 'medium',
+      targetType: 'transaction',
+      targetId: bridgeId,
+      userId: user.id,
+      alertData: {
+        rule: 'bridge_velocity',
+        triggered: rules,
+        bridgesLastHour: bridgeCount,
+        volumeLastHourUsd: hourlyVolumeUsd.toFixed(2),
+        dailyLimitUsd,
+      },
+      evidence: {
+        maxBridgesPerHour: VELOCITY_MAX_BRIDGES_PER_HOUR,
+        maxDailySharePerHour: VELOCITY_MAX_DAILY_SHARE_PER_HOUR,
+      },
+    });
+    if (result.success) {
+      console.warn(`Bridge velocity alert raised for user ${user.id}: ${rules.join(', ')}`);
+    }
+  }
+
+  private isVelocityAlertData(data: unknown): boolean {
+    return typeof data === 'object' && data !== null && 'rule' in data && data.rule === 'bridge_velocity';
+  }
+
+  private getWindows(): { dailySince: Date; weeklySince: Date } {
+    const now = Date.now();
+    return { dailySince: new Date(now - DAY_MS), weeklySince: new Date(now - WEEK_MS) };
+  }
+
+  private async readVolumes(user: User, fromToken: SupportedToken | undefined, windows: { dailySince: Date; weeklySince: Date }): Promise<BridgeLimitVolumes> {
+    return {
+      userDaily: await storage.getBridgeVolumeSince(windows.dailySince, { userId: user.id }),
+      userWeekly: await storage.getBridgeVolumeSince(windows.weeklySince, { userId: user.id }),
+      tokenDaily: fromToken ? await storage.getBridgeVolumeSince(windows.dailySince, { fromToken }) : [],
+    };
+  }
+
+  private buildAllowance(user: User, prices: TokenPrices, volumes: BridgeLimitVolumes, fromToken?: SupportedToken): BridgeAllowance {
+    const tier = this.getTier(user);
+    const limits = this.tierLimits[tier];
+
+    const dailyUsedUsd = this.sumUsd(volumes.userDaily, prices);
+    const weeklyUsedUsd = this.sumUsd(volumes.userWeekly, prices);
+
+    const daily = this.buildWindow(limits.dailyUsd, dailyUsedUsd);
+    const weekly = this.buildWindow(limits.weeklyUsd, weeklyUsedUsd);
+
+    const allowance: BridgeAllowance = {
+      tier,
+      daily,
+      weekly,
+      remainingUsd: Math.min(daily.remainingUsd, weekly.remainingUsd),
+    };
+
+    if (fromToken) {
+      const cap = this.tokenDailyCaps[fromToken];
+      if (cap === undefined) {
+        allowance.token = { symbol: fromToken, circuitBreakerOpen: false, platformRemaining: null };
+      } else {
+        const volume = volumes.tokenDaily.find(entry => entry.token === fromToken);
+        const remaining = Math.max(0, cap - parseFloat(volume?.amount ?? '0'));
+        allowance.token = {
+          symbol: fromToken,
+          circuitBreakerOpen: remaining <= 0,
+          platformRemaining: remaining.toString(),
+        };
+      }
+    }
+
+    return allowance;
+  }
+
+  private buildWindow(limitUsd: number, usedUsd: number) {
+    const used = Math.round(usedUsd * 100) / 100;
+    return { limitUsd, usedUsd: used, remainingUsd: Math.max(0, Math.round((limitUsd - used) * 100) / 100) };
+  }
+
+  private sumUsd(volumes: BridgeTokenVolume[], prices: TokenPrices): number {
+    return volumes.reduce((total, volume) => total + parseFloat(volume.amount) * this.getUsdPrice(volume.token, prices), 0);
+  }
+
+  // Wrapped tokens are valued at their underlying asset's price
+  private getUsdPrice(token: string, prices: TokenPrices): number {
+    if (bridgeRouteRegistry.hasToken(token)) {
+      return prices[bridgeRouteRegistry.getToken(token).priceAsset];
+    }
+    return prices[token as keyof TokenPrices] ?? 0;
+  }
+}
+
+export const bridgeLimitsService = BridgeLimitsService.getInstance();
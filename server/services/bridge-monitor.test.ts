@@ -0,0 +1,216 @@
+// BridgeMonitorService status transitions, timeouts and retries against the in-memory database.
+// Jobs are made due and run by hand rather than waiting on the scheduler. Run with npm test
+
+import { test, describe, before, beforeEach, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { eq, sql } from "drizzle-orm";
+import { bridgeTransactions, users, type BridgeTransaction, type InsertBridgeTransaction } from "@shared/schema";
+import { db, databaseReady } from "../db";
+import { storage } from "../storage";
+import { bridgeMonitor } from "./bridge-monitor";
+
+const MINUTE_MS = 60 * 1000;
+
+interface MonitoringJobRow {
+  status: string;
+  interval_ms: number;
+  retry_count: number;
+  last_error: string | null;
+  is_active: boolean;
+  locked_by: string | null;
+  next_check_at: Date;
+}
+
+let userId: string;
+
+// A bridge row as the bridge service leaves it, created the given number of minutes ago
+async function createBridge(ageMinutes: number, updates: Partial<InsertBridgeTransaction> = {}): Promise<BridgeTransaction> {
+  const bridge = await storage.createBridgeTransaction({
+    userId,
+    fromNetwork: "icp",
+    toNetwork: "ethereum",
+    fromToken: "ckETH",
+    toToken: "ETH",
+    amount: "0.5",
+    fromAddress: "source-account",
+    toAddress: "0x742d35cc6634c0532925a3b844bc454e4438f44e",
+    bridgeFee: "0.0025",
+    estimatedTime: 40,
+    status: "pending",
+    ...updates,
+  });
+  const [aged] = await db
+    .update(bridgeTransactions)
+    .set({ createdAt: new Date(Date.now() - ageMinutes * MINUTE_MS) })
+    .where(eq(bridgeTransactions.id, bridge.id))
+    .returning();
+  return aged;
+}
+
+async function getJob(id: string): Promise<MonitoringJobRow> {
+  const result = await db.execute(sql`
+    SELECT status, interval_ms, retry_count, last_error, is_active, locked_by, next_check_at
+    FROM monitoring_jobs WHERE id = ${id}
+  `);
+  return result.rows[0] as unknown as MonitoringJobRow;
+}
+
+// Bring a job's next check forward to now and run one scheduler pass
+async function runJobNow(id: string): Promise<void> {
+  await db.execute(sql`UPDATE monitoring_jobs SET next_check_at = ${new Date(Date.now() - 1000)} WHERE id = ${id}`);
+  await bridgeMonitor.processReadyMonitoringJobs();
+}
+
+function assertNextCheckIn(job: MonitoringJobRow, delayMs: number): void {
+  const expected = Date.now() + delayMs;
+  const actual = new Date(job.next_check_at).getTime();
+  assert.ok(Math.abs(actual - expected) < 5000, `next check ${new Date(actual).toISOString()} is not ~${delayMs}ms away`);
+}
+
+describe("bridge monitor", () => {
+  before(async () => {
+    await databaseReady;
+    // Creates the monitoring_jobs table; jobs are then run by hand, not on the scheduler's timer
+    await bridgeMonitor.startMonitoring();
+    bridgeMonitor.stopMonitoring();
+  });
+
+  beforeEach(async () => {
+    await db.execute(sql`TRUNCATE bridge_transactions, monitoring_jobs`);
+    const [user] = await db.insert(users).values({ id: randomUUID() }).returning();
+    userId = user.id;
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(() => {
+    bridgeMonitor.stopMonitoring();
+  });
+
+  test("schedules a pending bridge at the pending interval", async () => {
+    const bridge = await createBridge(1);
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+
+    const job = await getJob(bridge.id);
+    assert.equal(job.status, "pending");
+    assert.equal(job.interval_ms, 30000);
+    assert.equal(job.is_active, true);
+    assertNextCheckIn(job, 30000);
+  });
+
+  test("moves a pending bridge whose deposit arrived to processing", async () => {
+    const bridge = await createBridge(1, { txHashFrom: "42" });
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+    await runJobNow(bridge.id);
+
+    const updated = await storage.getBridgeTransaction(bridge.id);
+    assert.equal(updated?.status, "processing");
+
+    const job = await getJob(bridge.id);
+    assert.equal(job.status, "processing");
+    assert.equal(job.interval_ms, 15000);
+    assert.equal(job.is_active, true);
+    assert.equal(job.locked_by, null);
+    assertNextCheckIn(job, 15000);
+  });
+
+  test("leaves a pending bridge alone until it times out", async () => {
+    const bridge = await createBridge(59);
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+    await runJobNow(bridge.id);
+
+    assert.equal((await storage.getBridgeTransaction(bridge.id))?.status, "pending");
+    assert.equal((await getJob(bridge.id)).is_active, true);
+  });
+
+  test("fails a pending bridge with no deposit after 60 minutes, with nothing to refund", async () => {
+    const bridge = await createBridge(61);
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+    await runJobNow(bridge.id);
+
+    const updated = await storage.getBridgeTransaction(bridge.id);
+    assert.equal(updated?.status, "failed");
+    assert.equal(updated?.errorMessage, "Transaction timed out after 60 minutes");
+    assert.equal(updated?.refundStatus, null);
+    assert.equal((await getJob(bridge.id)).is_active, false);
+  });
+
+  test("fails a processing bridge after 2 hours and queues a refund of the deposit", async () => {
+    const bridge = await createBridge(121, { status: "processing", txHashFrom: "42" });
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+    await runJobNow(bridge.id);
+
+    const updated = await storage.getBridgeTransaction(bridge.id);
+    assert.equal(updated?.status, "failed");
+    assert.equal(updated?.errorMessage, "Processing timed out after 120 minutes");
+    assert.equal(updated?.refundStatus, "queued");
+    assert.equal(parseFloat(updated?.refundAmount ?? "0"), 0.5);
+    assert.equal((await getJob(bridge.id)).is_active, false);
+  });
+
+  test("sends a timed out bridge that already released funds to manual review", async () => {
+    const bridge = await createBridge(121, { status: "processing", txHashFrom: "42", txHashTo: "0xabc" });
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+    await runJobNow(bridge.id);
+
+    const updated = await storage.getBridgeTransaction(bridge.id);
+    assert.equal(updated?.status, "failed");
+    assert.equal(updated?.refundStatus, "manual_review");
+  });
+
+  test("stops monitoring a bridge once it completes", async () => {
+    const bridge = await createBridge(5, { status: "processing", txHashFrom: "42" });
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+    await storage.updateBridgeTransactionStatus(bridge.id, "completed", { txHashTo: "0xabc" });
+    await runJobNow(bridge.id);
+
+    const job = await getJob(bridge.id);
+    assert.equal(job.is_active, false);
+    assert.equal(job.locked_by, null);
+  });
+
+  test("retries a failing check with backoff and gives up after the max retries", async () => {
+    const bridge = await createBridge(121, { status: "processing", txHashFrom: "42" });
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+    mock.method(storage, "updateBridgeTransactionStatusIf", async () => {
+      throw new Error("database unavailable");
+    });
+
+    await runJobNow(bridge.id);
+    let job = await getJob(bridge.id);
+    assert.equal(job.retry_count, 1);
+    assert.equal(job.last_error, "database unavailable");
+    assert.equal(job.is_active, true);
+    assert.equal(job.locked_by, null);
+    assertNextCheckIn(job, 30000); // 15s processing interval, doubled
+
+    await runJobNow(bridge.id);
+    job = await getJob(bridge.id);
+    assert.equal(job.retry_count, 2);
+    assertNextCheckIn(job, 60000);
+
+    await runJobNow(bridge.id);
+    job = await getJob(bridge.id);
+    assert.equal(job.is_active, false);
+    assert.equal((await storage.getBridgeTransaction(bridge.id))?.status, "processing");
+  });
+
+  test("clears the retry count once a check succeeds again", async () => {
+    const bridge = await createBridge(121, { status: "processing", txHashFrom: "42" });
+    await bridgeMonitor.startMonitoringTransaction(bridge.id);
+    const failing = mock.method(storage, "updateBridgeTransactionStatusIf", async () => {
+      throw new Error("database unavailable");
+    });
+
+    await runJobNow(bridge.id);
+    assert.equal((await getJob(bridge.id)).retry_count, 1);
+
+    failing.mock.restore();
+    await runJobNow(bridge.id);
+    assert.equal((await storage.getBridgeTransaction(bridge.id))?.status, "failed");
+    assert.equal((await getJob(bridge.id)).is_active, false);
+  });
+});
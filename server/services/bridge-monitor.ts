@@ -4,6 +4,8 @@
 
 import { chainFusionBridge } from "./chain-fusion-bridge";
 import { storage } from "../storage";
+import { realtimeService } from "./realtime";
+import { bridgeRefundService } from "./bridge-refund";
 import { BridgeTransaction, BridgeStatus } from "@shared/schema";
 import { db } from "../db";
 import { sql, eq, and, lt } from "drizzle-orm";
@@ -217,16 +219,18 @@ export class BridgeMonitorService {
         console.error("Error processing monitoring jobs:", error);
       }
 
-      // Schedule next check in 5 seconds
-      this.globalTimer = setTimeout(scheduleNextCheck, 5000);
+      // Schedule next check in 5 seconds, unless monitoring was stopped during this pass
+      if (this.isRunning) {
+        this.globalTimer = setTimeout(scheduleNextCheck, 5000);
+      }
     };
 
     scheduleNextCheck();
     console.log("Global job scheduler started with 5-second polling interval");
   }
 
-  // PRODUCTION-READY: Process monitoring jobs that are ready to run
-  private async processReadyMonitoringJobs(): Promise<void> {
+  // PRODUCTION-READY: Process monitoring jobs that are ready to run (one pass of the global scheduler)
+  async processReadyMonitoringJobs(): Promise<void> {
     try {
       const now = new Date();
       
@@ -517,12 +521,24 @@ export class BridgeMonitorService {
 
       // Update transaction status if changed
       if (newStatus !== transaction.status) {
-        await storage.updateBridgeTransactionStatus(transactionId, newStatus, statusUpdate);
+        // The bridge service moves the bridge on too, so only write over the status that was checked
+        const updated = await storage.updateBridgeTransactionStatusIf(transactionId, transaction.status, newStatus, statusUpdate);
+        if (!updated) {
+          console.log(`Transaction ${transactionId} changed status during the check, checking again`);
+          await this.startMonitoringTransaction(transactionId);
+          return;
+        }
         console.log(`Updated transaction ${transactionId} status: ${transaction.status} → ${newStatus}`);
+        this.publishStatus(updated);
+
+        // A timed-out bridge that already took the source funds owes a refund
+        if (newStatus === 'failed') {
+          await bridgeRefundService.queueRefund(updated);
+        }
 
         // Update monitoring based on new status
         if (['completed', 'failed', 'refunded'].includes(newStatus)) {
-          this.stopMonitoringTransaction(transactionId);
+          await this.stopMonitoringTransaction(transactionId);
         } else {
           // Restart monitoring with new interval
           await this.startMonitoringTransaction(transactionId);
@@ -531,7 +547,8 @@ export class BridgeMonitorService {
         await this.updateStats();
       } else if (Object.keys(statusUpdate).length > 0) {
         // Update transaction with new data (confirmations, etc.)
-        await storage.updateBridgeTransaction(transactionId, statusUpdate);
+        const updated = await storage.updateBridgeTransaction(transactionId, statusUpdate);
+        this.publishStatus(updated);
         
         // Continue monitoring
         await this.startMonitoringTransaction(transactionId);
@@ -541,14 +558,17 @@ export class BridgeMonitorService {
       }
     } catch (error) {
       console.error(`Error checking status for transaction ${transactionId}:`, error);
-      
-      // Continue monitoring despite error
-      setTimeout(async () => {
-        await this.startMonitoringTransaction(transactionId);
-      }, 30000); // Retry after 30 seconds
+
+      // processMonitoringJob retries with backoff and gives up after the job's max retries
+      throw error;
     }
   }
 
+  // Push a bridge transaction's latest status to its owner and anyone watching it
+  private publishStatus(transaction: BridgeTransaction): void {
+    realtimeService.publish([`bridge:${transaction.id}`, `user:${transaction.userId}`], "bridge.status", { transaction });
+  }
+
   // Calculate actual completion time in minutes
   private calculateActualTime(createdAt: Date | string): number {
     const created = new Date(createdAt);
@@ -683,13 +703,19 @@ export class BridgeMonitorService {
 
           // Mark transactions older than 6 hours as failed
           if (hoursDiff > 6) {
-            await storage.updateBridgeTransactionStatus(
+            const updated = await storage.updateBridgeTransactionStatusIf(
               transaction.id,
+              'processing',
               'failed',
               {
                 errorMessage: `Automatically marked as failed after ${Math.round(hoursDiff)} hours`
               }
             );
+            if (!updated) {
+              continue;
+            }
+            this.publishStatus(updated);
+            await bridgeRefundService.queueRefund(updated);
             
             await this.stopMonitoringTransaction(transaction.id);
             results.cleaned++;
@@ -0,0 +1,306 @@
+// Bridge Refund Service - Returns source funds when a bridge fails after they were received
+// Each sweep queues refunds for newly failed bridges, executes queued refunds back to fromAddress
+// and tracks submitted refunds until they are confirmed, when the bridge moves to refunded.
+// Bridges that may already have paid out on the destination, or whose source network cannot
+// send a refund, are left in manual_review for an admin instead.
+
+import { storage } from "../storage";
+import { chainFusionBridge } from "./chain-fusion-bridge";
+import { BridgeTransferRejectedError } from "./bridge-routes";
+import { realtimeService } from "./realtime";
+import { BRIDGE_REFUND_MAX_ATTEMPTS, type BridgeTransaction } from "@shared/schema";
+
+// How often the refund sweep runs
+const REFUND_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface BridgeRefundSummary {
+  queued: number;
+  manualReview: number;
+  submitted: number;
+  confirmed: number;
+  failed: number;
+  errors: Array<{ bridgeId: string; error: string }>;
+}
+
+export class BridgeRefundService {
+  private static instance: BridgeRefundService;
+  private refundTimer: NodeJS.Timeout | null = null;
+  private sweepInProgress = false;
+
+  static getInstance(): BridgeRefundService {
+    if (!BridgeRefundService.instance) {
+      BridgeRefundService.instance = new BridgeRefundService();
+    }
+    return BridgeRefundService.instance;
+  }
+
+  // Start the periodic refund sweep
+  startRefundSchedule(): void {
+    if (this.refundTimer) {
+      return;
+    }
+
+    const runSweep = async () => {
+      try {
+        const summary = await this.processRefunds();
+        if (summary && (summary.queued || summary.manualReview || summary.submitted || summary.confirmed || summary.failed)) {
+          console.log(`Bridge refund sweep completed: ${summary.queued} queued, ${summary.manualReview} manual review, ${summary.submitted} submitted, ${summary.confirmed} confirmed, ${summary.failed} failed`);
+        }
+      } catch (error) {
+        console.error("Error during bridge refund sweep:", error);
+      }
+    };
+
+    runSweep();
+    this.refundTimer = setInterval(runSweep, REFUND_SWEEP_INTERVAL_MS);
+  }
+
+  stopRefundSchedule(): void {
+    if (this.refundTimer) {
+      clearInterval(this.refundTimer);
+      this.refundTimer = null;
+    }
+  }
+
+  // A refund is owed once the bridge has failed after its source funds were received, as long as
+  // nothing may have been released on the destination network - otherwise the user could be paid twice
+  needsRefund(bridge: BridgeTransaction): boolean {
+    return this.isUnsettledFailure(bridge) && !this.mayHaveReleased(bridge) && chainFusionBridge.canRefund(bridge);
+  }
+
+  // Why a failed bridge that received funds cannot be refunded automatically, if it can't
+  getManualReviewReason(bridge: BridgeTransaction): string | null {
+    if (!this.isUnsettledFailure(bridge)) {
+      return null;
+    }
+    if (bridge.txHashTo) {
+      return `Funds were already released on ${bridge.toNetwork} (${bridge.txHashTo}) - check the destination before refunding`;
+    }
+    if (this.mayHaveReleased(bridge)) {
+      return bridge.releaseOutcome === 'pending'
+        ? `Bridge failed while its release on ${bridge.toNetwork} was in flight - check the destination before refunding`
+        : `Release on ${bridge.toNetwork} ended with an unknown outcome - check the destination before refunding`;
+    }
+    if (!chainFusionBridge.canRefund(bridge)) {
+      return `Automatic refunds are not available on ${bridge.fromNetwork}`;
+    }
+    return null;
+  }
+
+  /**
+   * Queue a refund for a failed bridge, or send it to manual review when a refund could pay the
+   * user twice or cannot be sent. Returns undefined if nothing is owed or it was already handled
+   */
+  async queueRefund(bridge: BridgeTransaction): Promise<BridgeTransaction | undefined> {
+    const manualReviewReason = this.getManualReviewReason(bridge);
+    if (manualReviewReason) {
+      const held = await storage.updateBridgeRefund(bridge.id, null, {
+        refundStatus: 'manual_review',
+        refundAmount: bridge.amount,
+        refundError: manualReviewReason,
+      });
+      if (held) {
+        console.warn(`Bridge ${bridge.id} needs a manual refund review: ${manualReviewReason}`);
+        this.publish(held);
+      }
+      return held;
+    }
+
+    if (!this.needsRefund(bridge)) {
+      return undefined;
+    }
+
+    // The bridge fee is only earned on completed bridges, so the full amount goes back
+    const queued = await storage.updateBridgeRefund(bridge.id, null, {
+      refundStatus: 'queued',
+      refundAmount: bridge.amount,
+      refundQueuedAt: new Date(),
+    });
+    if (queued) {
+      this.publish(queued);
+    }
+    return queued;
+  }
+
+  // Run one full pass of the pipeline. Returns null if a pass is already running
+  async processRefunds(): Promise<BridgeRefundSummary | null> {
+    if (this.sweepInProgress) {
+      return null;
+    }
+    this.sweepInProgress = true;
+
+    const summary: BridgeRefundSummary = { queued: 0, manualReview: 0, submitted: 0, confirmed: 0, failed: 0, errors: [] };
+
+    try {
+      for (const bridge of await storage.getBridgeTransactionsNeedingRefund()) {
+        const result = await this.queueRefund(bridge);
+        if (result?.refundStatus === 'queued') {
+          summary.queued++;
+        } else if (result?.refundStatus === 'manual_review') {
+          summary.manualReview++;
+        }
+      }
+
+      for (const bridge of await storage.getBridgeTransactionsByRefundStatus('queued')) {
+        try {
+          const result = await this.executeRefund(bridge);
+          if (result?.refundStatus === 'submitted') {
+            summary.submitted++;
+          } else if (result?.refundStatus === 'failed') {
+            summary.failed++;
+          } else if (result?.refundStatus === 'manual_review') {
+            summary.manualReview++;
+          }
+        } catch (error) {
+          summary.errors.push({ bridgeId: bridge.id, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      for (const bridge of await storage.getBridgeTransactionsByRefundStatus('submitted')) {
+        try {
+          const result = await this.trackRefund(bridge);
+          if (result?.refundStatus === 'confirmed') {
+            summary.confirmed++;
+          }
+        } catch (error) {
+          summary.errors.push({ bridgeId: bridge.id, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+    } finally {
+      this.sweepInProgress = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Send a queued refund. The refund is claimed before the transfer goes out, so a crash
+   * mid-transfer leaves it in processing for an admin rather than risking a second payout.
+   * A bridge that released funds after its refund was queued is held for review instead
+   */
+  async executeRefund(bridge: BridgeTransaction): Promise<BridgeTransaction | undefined> {
+    const claimed = await storage.claimBridgeRefund(bridge.id, bridge.refundAttempts + 1);
+    if (!claimed) {
+      return await this.holdUnclaimableRefund(bridge.id);
+    }
+    this.publish(claimed);
+
+    let updated: BridgeTransaction | undefined;
+    try {
+      const refundTxHash = await chainFusionBridge.executeRefund(claimed);
+      updated = await storage.updateBridgeRefund(bridge.id, 'processing', {
+        refundStatus: 'submitted',
+        refundTxHash,
+        refundSubmittedAt: new Date(),
+        refundError: null,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Refund transfer failed';
+      console.error(`Bridge refund attempt ${claimed.refundAttempts} failed for ${bridge.id}:`, error);
+
+      if (error instanceof BridgeTransferRejectedError) {
+        // The network refused the transfer, so nothing moved and it is safe to try again
+        updated = await storage.updateBridgeRefund(bridge.id, 'processing', {
+          refundStatus: claimed.refundAttempts >= BRIDGE_REFUND_MAX_ATTEMPTS ? 'failed' : 'queued',
+          refundError: message,
+        });
+      } else {
+        // A timeout or dropped connection may still have sent the refund, so a person has to
+        // reconcile it against the ledger before anything is sent again
+        updated = await storage.updateBridgeRefund(bridge.id, 'processing', {
+          refundStatus: 'manual_review',
+          refundError: `Refund outcome unknown: ${message}`,
+        });
+      }
+    }
+
+    if (updated) {
+      this.publish(updated);
+    }
+    return updated;
+  }
+
+  // Record confirmations for a submitted refund and settle the bridge once it is final
+  async trackRefund(bridge: BridgeTransaction): Promise<BridgeTransaction | undefined> {
+    const confirmations = await chainFusionBridge.getRefundConfirmations(bridge);
+    const required = chainFusionBridge.getRefundRequiredConfirmations(bridge);
+
+    if (confirmations >= required) {
+      const refunded = await storage.updateBridgeRefund(bridge.id, 'submitted', {
+        status: 'refunded',
+        refundStatus: 'confirmed',
+        refundConfirmations: confirmations,
+        refundedAt: new Date(),
+      });
+      if (refunded) {
+        this.publish(refunded);
+      }
+      return refunded;
+    }
+
+    if (confirmations === bridge.refundConfirmations) {
+      return bridge;
+    }
+
+    const updated = await storage.updateBridgeRefund(bridge.id, 'submitted', { refundConfirmations: confirmations });
+    if (updated) {
+      this.publish(updated);
+    }
+    return updated;
+  }
+
+  // Put a refund that ran out of attempts, got stuck in processing or was reconciled after an
+  // unknown outcome back in the queue. A resend reuses the original memo and created_at_time
+  async retryRefund(bridge: BridgeTransaction): Promise<BridgeTransaction | undefined> {
+    if (!['failed', 'processing', 'manual_review'].includes(bridge.refundStatus ?? '')) {
+      return undefined;
+    }
+    if (bridge.txHashTo || !chainFusionBridge.canRefund(bridge)) {
+      return undefined;
+    }
+
+    const requeued = await storage.updateBridgeRefund(bridge.id, bridge.refundStatus, {
+      refundStatus: 'queued',
+      refundAttempts: 0,
+      refundError: null,
+    });
+    if (requeued) {
+      this.publish(requeued);
+    }
+    return requeued;
+  }
+
+  // A queued refund the claim refused because the bridge is no longer failed or has released funds
+  private async holdUnclaimableRefund(bridgeId: string): Promise<BridgeTransaction | undefined> {
+    const current = await storage.getBridgeTransaction(bridgeId);
+    if (current?.refundStatus !== 'queued') {
+      return undefined;
+    }
+
+    const reason = current.txHashTo
+      ? `Funds were released on ${current.toNetwork} (${current.txHashTo}) after the refund was queued - check the destination before refunding`
+      : `Bridge is ${current.status} again after the refund was queued - check it before refunding`;
+    const held = await storage.updateBridgeRefund(bridgeId, 'queued', { refundStatus: 'manual_review', refundError: reason });
+    if (held) {
+      console.warn(`Bridge ${bridgeId} needs a manual refund review: ${reason}`);
+      this.publish(held);
+    }
+    return held;
+  }
+
+  // Failed after the source funds arrived, with no refund decided yet
+  private isUnsettledFailure(bridge: BridgeTransaction): boolean {
+    return bridge.status === 'failed' && !!bridge.txHashFrom && !bridge.refundStatus;
+  }
+
+  // Released, or a release still in flight or that failed without the network refusing it
+  private mayHaveReleased(bridge: BridgeTransaction): boolean {
+    return !!bridge.txHashTo || (!!bridge.releaseOutcome && bridge.releaseOutcome !== 'rejected');
+  }
+
+  private publish(bridge: BridgeTransaction): void {
+    realtimeService.publish([`bridge:${bridge.id}`, `user:${bridge.userId}`], "bridge.status", { transaction: bridge });
+  }
+}
+
+export const bridgeRefundService = BridgeRefundService.getInstance();
@@ -0,0 +1,108 @@
+// Bitcoin network module - BTC deposits to the ckBTC minter are minted 1:1 as ckBTC on ICP,
+// and ckBTC burns are paid out as BTC withdrawals. The minter integration is not wired up yet,
+// so the route is only registered with BRIDGE_BITCOIN_ENABLED=true (or under the simulator)
+
+import { priceOracleService } from "../price-oracle";
+import type { BridgeModule, BridgeNetworkAdapter, BridgeStepContext, NetworkFeeQuote } from "./types";
+
+// ckBTC minter deposit address for the bridge (example - replace with the minter-derived address)
+const BITCOIN_SYSTEM_WALLET = "bc1q8anpr3ds9g6ytglyuqmsspx8mdrupdjzxp4nqe";
+
+const BLOCK_CONFIRMATIONS = 6; // Bitcoin typically requires 6 confirmations
+const BLOCK_TIME_MS = 10 * 60 * 1000; // ~10 minutes per block
+
+// Typical deposit or withdrawal transaction: ~250 vbytes at 20 sat/vB
+const ESTIMATED_TX_FEE_BTC = 0.00005;
+
+const CK_BTC_CANISTER = "mxzaz-hqaaa-aaaar-qaada-cai";
+
+// Protocol fee for Bitcoin pairs (in basis points, 1% = 100)
+const PROTOCOL_FEE_BPS = 50;
+
+export function isBitcoinBridgeEnabled(): boolean {
+  return process.env.BRIDGE_BITCOIN_ENABLED === 'true';
+}
+
+function randomTxid(): string {
+  return Array.from({length: 64}, () => Math.floor(Math.random() * 16).toString(16)).join('');
+}
+
+class BitcoinNetworkAdapter implements BridgeNetworkAdapter {
+  readonly network = 'bitcoin' as const;
+  readonly requiredConfirmations = BLOCK_CONFIRMATIONS;
+  readonly sourceMinutes = 60; // six blocks
+  readonly destinationMinutes = 30; // minter batches withdrawals before broadcasting
+  readonly systemWallet = BITCOIN_SYSTEM_WALLET;
+
+  validateAddress(address: string): { valid: boolean; error?: string } {
+    // P2PKH (starting with 1), P2SH (starting with 3), or Bech32 (starting with bc1)
+    if (!/^(1|3|bc1)[a-zA-HJ-NP-Z0-9]{25,62}$/.test(address)) {
+      return { valid: false, error: 'Invalid Bitcoin address format (must be a valid P2PKH, P2SH, or Bech32 address)' };
+    }
+    return { valid: true };
+  }
+
+  // Both legs pay one Bitcoin transaction fee: the user's deposit, or the minter's withdrawal
+  async estimateFee(): Promise<NetworkFeeQuote | null> {
+    const prices = await priceOracleService.getTokenPrices();
+    const usd = ESTIMATED_TX_FEE_BTC * prices.BTC;
+    return { asset: 'BTC', amount: ESTIMATED_TX_FEE_BTC, usd };
+  }
+
+  // Monitor the minter deposit address for the user's BTC
+  async awaitDeposit(_context: BridgeStepContext): Promise<string> {
+    // Implementation would call update_balance on the ckBTC minter for the user's deposit address
+    return new Promise((resolve) => {
+      setTimeout(() => resolve(randomTxid()), 5000);
+    });
+  }
+
+  async waitForConfirmations(_txHash: string, required: number): Promise<void> {
+    // Implementation would query the Bitcoin canister for the transaction's depth
+    return new Promise((resolve) => {
+      setTimeout(resolve, required * BLOCK_TIME_MS);
+    });
+  }
+
+  async getConfirmations(_txHash: string, submittedAt: Date): Promise<number> {
+    // Estimated from the time since submission until the Bitcoin canister is queried
+    return Math.max(0, Math.floor((Date.now() - submittedAt.getTime()) / BLOCK_TIME_MS));
+  }
+
+  // Withdraw BTC to the destination address
+  async release(_context: BridgeStepContext): Promise<string> {
+    // Implementation would call retrieve_btc_with_approval on the ckBTC minter
+    return new Promise((resolve) => {
+      setTimeout(() => resolve(randomTxid()), 10000);
+    });
+  }
+}
+
+export const bitcoinModule: BridgeModule = {
+  name: 'bitcoin',
+  networks: [new BitcoinNetworkAdapter()],
+  tokens: [
+    {
+      symbol: 'BTC',
+      network: 'bitcoin',
+      decimals: 8,
+      minAmount: "0.0001", // 0.0001 BTC minimum (~$10 at $100k/BTC)
+      maxAmount: "10", // 10 BTC maximum
+      priceAsset: 'BTC',
+      contractAddress: "native", // Native Bitcoin
+    },
+    {
+      symbol: 'ckBTC',
+      network: 'icp',
+      decimals: 8,
+      minAmount: "0.0001",
+      maxAmount: "10",
+      priceAsset: 'BTC',
+      canisterId: CK_BTC_CANISTER,
+    },
+  ],
+  pairs: [
+    { fromNetwork: 'bitcoin', toNetwork: 'icp', fromToken: 'BTC', toToken: 'ckBTC', protocolFeeBps: PROTOCOL_FEE_BPS },
+    { fromNetwork: 'icp', toNetwork: 'bitcoin', fromToken: 'ckBTC', toToken: 'BTC', protocolFeeBps: PROTOCOL_FEE_BPS },
+  ],
+};
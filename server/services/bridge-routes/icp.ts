@@ -0,0 +1,175 @@
+// ICP network module - chain-key tokens are ICRC-1 ledgers, so minting, burning and refunds
+// are ledger transfers that are final as soon as they land in a block
+
+import { createHash } from "crypto";
+import { Actor, HttpAgent } from "@dfinity/agent";
+import { Principal } from "@dfinity/principal";
+import { priceOracleService } from "../price-oracle";
+import { CryptoVerificationService } from "../../crypto-utils";
+import { BridgeTransferRejectedError, type BridgeModule, type BridgeNetworkAdapter, type BridgeStepContext, type NetworkFeeQuote } from "./types";
+
+const ICP_HOST = "https://ic0.app";
+
+// Bridge treasury account on ICP
+const ICP_SYSTEM_WALLET = "1ef008c2d7e445954e12ec2033b202888723046fde489be3a250cacf01d65963";
+
+const icrc1IdlFactory = ({ IDL }: { IDL: any }) => {
+  const Account = IDL.Record({ owner: IDL.Principal, subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)) });
+  const TransferError = IDL.Variant({
+    BadFee: IDL.Record({ expected_fee: IDL.Nat }),
+    BadBurn: IDL.Record({ min_burn_amount: IDL.Nat }),
+    InsufficientFunds: IDL.Record({ balance: IDL.Nat }),
+    TooOld: IDL.Null,
+    CreatedInFuture: IDL.Record({ ledger_time: IDL.Nat64 }),
+    TemporarilyUnavailable: IDL.Null,
+    Duplicate: IDL.Record({ duplicate_of: IDL.Nat }),
+    GenericError: IDL.Record({ error_code: IDL.Nat, message: IDL.Text }),
+  });
+  return IDL.Service({
+    icrc1_balance_of: IDL.Func([Account], [IDL.Nat], ['query']),
+    icrc1_transfer: IDL.Func([IDL.Record({
+      to: Account,
+      amount: IDL.Nat,
+      memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
+      from_subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)),
+      created_at_time: IDL.Opt(IDL.Nat64),
+      fee: IDL.Opt(IDL.Nat),
+    })], [IDL.Variant({ Ok: IDL.Nat, Err: TransferError })], []),
+  });
+};
+
+class ICPNetworkAdapter implements BridgeNetworkAdapter {
+  readonly network = 'icp' as const;
+  readonly requiredConfirmations = 1;
+  readonly sourceMinutes = 0;
+  readonly destinationMinutes = 0;
+  readonly systemWallet = ICP_SYSTEM_WALLET;
+
+  private agent?: HttpAgent;
+  private ledgers = new Map<string, any>();
+
+  validateAddress(address: string): { valid: boolean; error?: string } {
+    return CryptoVerificationService.validateBridgeAddress(address, 'icp', 'accountId');
+  }
+
+  // Burning ck tokens costs a flat ICP transaction fee; receiving them costs nothing
+  async estimateFee(leg: 'source' | 'destination'): Promise<NetworkFeeQuote | null> {
+    if (leg === 'destination') {
+      return null;
+    }
+
+    const icpCost = await priceOracleService.estimateICPNetworkCost();
+    console.log(`ICP network cost: $${icpCost.costUSD.toFixed(4)}`);
+    return { asset: 'ICP', amount: icpCost.costICP, usd: icpCost.costUSD };
+  }
+
+  // Monitor for the ck token burn to the bridge canister
+  async awaitDeposit(_context: BridgeStepContext): Promise<string> {
+    // Implementation would watch the ledger for the user's burn to the minter
+    return new Promise((resolve) => {
+      setTimeout(() => {
+        resolve(`${Math.floor(Math.random() * 1000000)}`);
+      }, 3000);
+    });
+  }
+
+  async waitForConfirmations(): Promise<void> {
+    // ICP ledger transfers are final once recorded
+  }
+
+  async getConfirmations(): Promise<number> {
+    return this.requiredConfirmations;
+  }
+
+  // Mint ck tokens to the destination principal
+  async release({ bridge, token }: BridgeStepContext): Promise<string> {
+    try {
+      return await this.transfer(token.canisterId, bridge.toAddress, bridge.amount, token.decimals, { memo: `bridge-${bridge.id}` });
+    } catch (error) {
+      throw this.wrapError(error, 'ck token minting failed');
+    }
+  }
+
+  // Return ck tokens to the principal that sent them. Every attempt carries the same memo and
+  // created_at_time, so the ledger deduplicates a retry of a transfer that actually landed
+  async refund({ bridge, token }: BridgeStepContext, amount: string): Promise<string> {
+    if (!bridge.refundPrincipal) {
+      throw new Error(`Bridge ${bridge.id} has no refund principal for ${bridge.fromAddress}`);
+    }
+    if (!bridge.refundQueuedAt) {
+      throw new Error(`Bridge ${bridge.id} has no refund queued`);
+    }
+
+    try {
+      return await this.transfer(token.canisterId, bridge.refundPrincipal, amount, token.decimals, {
+        memo: `refund-${bridge.id}`,
+        createdAt: bridge.refundQueuedAt,
+      });
+    } catch (error) {
+      throw this.wrapError(error, 'ck token refund failed');
+    }
+  }
+
+  private async transfer(
+    canisterId: string | undefined,
+    owner: string,
+    amount: string,
+    decimals: number,
+    { memo, createdAt }: { memo: string; createdAt?: Date },
+  ): Promise<string> {
+    if (!canisterId) {
+      throw new BridgeTransferRejectedError("Token has no ledger canister configured");
+    }
+
+    const ledger = this.getLedger(canisterId);
+    const result = await ledger.icrc1_transfer({
+      to: { owner: Principal.fromText(owner), subaccount: [] },
+      amount: BigInt(Math.floor(parseFloat(amount) * Math.pow(10, decimals))),
+      // ICRC-1 memos are capped at 32 bytes, so the id is hashed down to fit
+      memo: [new Uint8Array(createHash('sha256').update(memo).digest())],
+      from_subaccount: [],
+      created_at_time: createdAt ? [BigInt(createdAt.getTime()) * BigInt(1_000_000)] : [],
+      fee: [],
+    });
+
+    if ('Ok' in result) {
+      return result.Ok.toString();
+    }
+
+    const [reason, details] = Object.entries(result.Err)[0] as [string, any];
+    // The ledger already holds this exact transfer - it went through on an earlier attempt
+    if (reason === 'Duplicate') {
+      return details.duplicate_of.toString();
+    }
+    // Past the ledger's deduplication window a resend could pay twice, so the outcome is unknown
+    if (reason === 'TooOld') {
+      throw new Error("Token transfer is outside the ledger's deduplication window");
+    }
+    const message = reason === 'GenericError' ? details.message : reason;
+    throw new BridgeTransferRejectedError(`Token transfer failed: ${message}`);
+  }
+
+  // Keep the rejected/unknown distinction when adding context to a transfer error
+  private wrapError(error: unknown, context: string): Error {
+    const message = `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    return error instanceof BridgeTransferRejectedError ? new BridgeTransferRejectedError(message) : new Error(message);
+  }
+
+  private getLedger(canisterId: string): any {
+    if (!this.agent) {
+      this.agent = new HttpAgent({ host: ICP_HOST });
+    }
+
+    let ledger = this.ledgers.get(canisterId);
+    if (!ledger) {
+      ledger = Actor.createActor(icrc1IdlFactory, { agent: this.agent, canisterId });
+      this.ledgers.set(canisterId, ledger);
+    }
+    return ledger;
+  }
+}
+
+export const icpModule: BridgeModule = {
+  name: 'icp',
+  networks: [new ICPNetworkAdapter()],
+};
@@ -0,0 +1,193 @@
+// Bridge Route Registry - the networks, tokens and pairs the bridge can route between
+// Network modules register themselves below; ChainFusionBridgeService and the bridge routes
+// only ever look chains up here, so adding a chain or token does not touch the core service.
+
+import type { SupportedNetwork, SupportedToken } from "@shared/schema";
+import type {
+  BridgeModule,
+  BridgeNetworkAdapter,
+  BridgePair,
+  BridgeRoute,
+  BridgeToken,
+  SupportedBridgePair,
+} from "./types";
+import { ethereumModule } from "./ethereum";
+import { icpModule } from "./icp";
+import { bitcoinModule, isBitcoinBridgeEnabled } from "./bitcoin";
+import { bridgeSimulator, isBridgeSimulatorEnabled } from "./simulator";
+
+export type {
+  BridgeModule,
+  BridgeNetworkAdapter,
+  BridgePair,
+  BridgeRoute,
+  BridgeToken,
+  BridgeStepContext,
+  NetworkFeeQuote,
+  SupportedBridgePair,
+} from "./types";
+export { BridgeTransferRejectedError } from "./types";
+export { bridgeSimulator, type SimulatedOutcome, type SimulatedStep, type SimulatorEvent } from "./simulator";
+
+// Base processing time every bridge takes, before network-specific time is added
+const BASE_BRIDGE_MINUTES = 15;
+
+export class BridgeRouteRegistry {
+  private static instance: BridgeRouteRegistry;
+  private networks = new Map<SupportedNetwork, BridgeNetworkAdapter>();
+  private tokens = new Map<SupportedToken, BridgeToken>();
+  private pairs: BridgePair[] = [];
+
+  static getInstance(): BridgeRouteRegistry {
+    if (!BridgeRouteRegistry.instance) {
+      BridgeRouteRegistry.instance = new BridgeRouteRegistry();
+      BridgeRouteRegistry.instance.registerModule(ethereumModule);
+      BridgeRouteRegistry.instance.registerModule(icpModule);
+      const simulated = isBridgeSimulatorEnabled();
+      // The Bitcoin adapter still returns placeholder transactions, so it stays off unless enabled
+      if (isBitcoinBridgeEnabled() || simulated) {
+        BridgeRouteRegistry.instance.registerModule(bitcoinModule);
+      }
+
+      // Swap every network for its simulated twin so bridges run offline
+      if (simulated) {
+        console.log("Bridge simulator enabled - bridge networks are simulated");
+        const registry = BridgeRouteRegistry.instance;
+        registry.registerModule(bridgeSimulator.createModule(registry.getNetworks()));
+      }
+    }
+    return BridgeRouteRegistry.instance;
+  }
+
+  /**
+   * Add a module's networks, tokens and pairs. A network or token registered again replaces
+   * the earlier one, so a module can override a built-in chain (e.g. with a simulator)
+   */
+  registerModule(module: BridgeModule): void {
+    for (const adapter of module.networks ?? []) {
+      this.networks.set(adapter.network, adapter);
+    }
+    for (const token of module.tokens ?? []) {
+      this.tokens.set(token.symbol, token);
+    }
+    for (const pair of module.pairs ?? []) {
+      this.pairs = this.pairs.filter(existing => !this.isSamePair(existing, pair));
+      this.pairs.push(pair);
+    }
+  }
+
+  getNetwork(network: SupportedNetwork): BridgeNetworkAdapter {
+    const adapter = this.networks.get(network);
+    if (!adapter) {
+      throw new Error(`Unsupported network: ${network}`);
+    }
+    return adapter;
+  }
+
+  getNetworks(): BridgeNetworkAdapter[] {
+    return Array.from(this.networks.values());
+  }
+
+  hasNetwork(network: string): network is SupportedNetwork {
+    return this.networks.has(network as SupportedNetwork);
+  }
+
+  hasToken(symbol: string): symbol is SupportedToken {
+    return this.tokens.has(symbol as SupportedToken);
+  }
+
+  getToken(symbol: SupportedToken): BridgeToken {
+    const token = this.tokens.get(symbol);
+    if (!token) {
+      throw new Error(`Unsupported token: ${symbol}`);
+    }
+    return token;
+  }
+
+  // Resolve a pair to its adapters and tokens. Only registered 1:1 wrapped token pairs are routable
+  getRoute(
+    fromNetwork: SupportedNetwork,
+    toNetwork: SupportedNetwork,
+    fromToken: SupportedToken,
+    toToken: SupportedToken
+  ): BridgeRoute {
+    const pair = this.pairs.find(candidate =>
+      this.isSamePair(candidate, { fromNetwork, toNetwork, fromToken, toToken })
+    );
+
+    if (!pair || !this.isRoutable(pair)) {
+      const supported = this.pairs
+        .filter(candidate => candidate.fromNetwork < candidate.toNetwork && this.isRoutable(candidate))
+        .map(candidate => `${candidate.fromToken}↔${candidate.toToken}`)
+        .join(', ');
+      throw new Error(
+        `Invalid bridge pair: ${fromToken} (${fromNetwork}) → ${toToken} (${toNetwork}). ` +
+        `Only 1:1 wrapped token pairs are supported: ${supported}`
+      );
+    }
+
+    return {
+      pair,
+      source: this.getNetwork(pair.fromNetwork),
+      destination: this.getNetwork(pair.toNetwork),
+      fromToken: this.getToken(pair.fromToken),
+      toToken: this.getToken(pair.toToken),
+    };
+  }
+
+  // Estimated minutes for a route: base processing plus each network's share
+  getEstimatedMinutes(route: BridgeRoute): number {
+    return BASE_BRIDGE_MINUTES + route.source.sourceMinutes + route.destination.destinationMinutes;
+  }
+
+  getSupportedPairs(): SupportedBridgePair[] {
+    return this.pairs
+      .filter(pair => this.isRoutable(pair))
+      .map(pair => {
+        const route = this.getRoute(pair.fromNetwork, pair.toNetwork, pair.fromToken, pair.toToken);
+        return {
+          from: pair.fromNetwork,
+          to: pair.toNetwork,
+          fromToken: pair.fromToken,
+          toToken: pair.toToken,
+          minAmount: route.fromToken.minAmount,
+          maxAmount: route.fromToken.maxAmount,
+          estimatedTime: this.getEstimatedMinutes(route),
+          protocolFeeBps: pair.protocolFeeBps,
+        };
+      });
+  }
+
+  getSupportedNetworks(): SupportedNetwork[] {
+    return Array.from(this.networks.keys());
+  }
+
+  // Tokens on a network that appear in at least one routable pair
+  getSupportedTokens(network: SupportedNetwork): SupportedToken[] {
+    const tokens = new Set<SupportedToken>();
+    for (const pair of this.pairs.filter(candidate => this.isRoutable(candidate))) {
+      if (pair.fromNetwork === network) tokens.add(pair.fromToken);
+      if (pair.toNetwork === network) tokens.add(pair.toToken);
+    }
+    return Array.from(tokens);
+  }
+
+  // A pair is only routable once both networks and both tokens are registered
+  private isRoutable(pair: BridgePair): boolean {
+    const fromToken = this.tokens.get(pair.fromToken);
+    const toToken = this.tokens.get(pair.toToken);
+    return this.networks.has(pair.fromNetwork) &&
+      this.networks.has(pair.toNetwork) &&
+      fromToken?.network === pair.fromNetwork &&
+      toToken?.network === pair.toNetwork;
+  }
+
+  private isSamePair(a: Omit<BridgePair, 'protocolFeeBps'>, b: Omit<BridgePair, 'protocolFeeBps'>): boolean {
+    return a.fromNetwork === b.fromNetwork &&
+      a.toNetwork === b.toNetwork &&
+      a.fromToken === b.fromToken &&
+      a.toToken === b.toToken;
+  }
+}
+
+export const bridgeRouteRegistry = BridgeRouteRegistry.getInstance();
@@ -0,0 +1,223 @@
+// Bridge Simulator - deterministic in-process stand-in for every bridge network
+// Enabled with BRIDGE_SIMULATOR=true (ignored in production). Networks keep their real tokens,
+// pairs, confirmations and address rules, but deposits, confirmations, releases and refunds are
+// scripted here, so the full bridge lifecycle runs offline with predictable transaction hashes.
+
+import { createHash } from "crypto";
+import type { SupportedNetwork } from "@shared/schema";
+import {
+  BridgeTransferRejectedError,
+  type BridgeLeg,
+  type BridgeModule,
+  type BridgeNetworkAdapter,
+  type BridgeRoute,
+  type BridgeStepContext,
+  type NetworkFeeQuote,
+} from "./types";
+
+export type SimulatedStep = 'deposit' | 'confirmations' | 'release' | 'refund';
+
+// How one simulated step behaves. With no script a step succeeds immediately
+export interface SimulatedOutcome {
+  delayMs?: number; // wait before the step completes
+  fail?: string; // reject the step with this error message, leaving its outcome unknown
+  reject?: string; // reject the step as refused by the network, so nothing moved
+  hold?: boolean; // block until resume() is called for the network and step
+  txHash?: string; // return this hash instead of a generated one
+}
+
+export interface SimulatorEvent {
+  network: SupportedNetwork;
+  step: SimulatedStep;
+  bridgeId?: string;
+  txHash?: string;
+  error?: string;
+  at: Date;
+}
+
+export function isBridgeSimulatorEnabled(): boolean {
+  if (process.env.BRIDGE_SIMULATOR !== 'true') {
+    return false;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    console.warn("BRIDGE_SIMULATOR is ignored in production");
+    return false;
+  }
+  return true;
+}
+
+// Wraps a real adapter, keeping its configuration but routing every chain call to the simulator
+class SimulatedNetworkAdapter implements BridgeNetworkAdapter {
+  readonly network: SupportedNetwork;
+  readonly requiredConfirmations: number;
+  readonly sourceMinutes: number;
+  readonly destinationMinutes: number;
+  readonly systemWallet: string;
+  readonly refund?: (context: BridgeStepContext, amount: string) => Promise<string>;
+
+  constructor(private base: BridgeNetworkAdapter, private simulator: BridgeSimulator) {
+    this.network = base.network;
+    this.requiredConfirmations = base.requiredConfirmations;
+    this.sourceMinutes = base.sourceMinutes;
+    this.destinationMinutes = base.destinationMinutes;
+    this.systemWallet = base.systemWallet;
+
+    // Only networks that can really send refunds get a simulated one
+    if (base.refund) {
+      this.refund = async ({ bridge }) => await this.simulator.run(this.network, 'refund', bridge.id);
+    }
+  }
+
+  validateAddress(address: string): { valid: boolean; error?: string } {
+    return this.base.validateAddress(address);
+  }
+
+  async estimateFee(leg: BridgeLeg, _route: BridgeRoute): Promise<NetworkFeeQuote | null> {
+    return this.simulator.getFee(this.network, leg);
+  }
+
+  async awaitDeposit({ bridge }: BridgeStepContext): Promise<string> {
+    return await this.simulator.run(this.network, 'deposit', bridge.id);
+  }
+
+  async waitForConfirmations(txHash: string, required: number): Promise<void> {
+    await this.simulator.run(this.network, 'confirmations', undefined, txHash);
+    this.simulator.setConfirmations(txHash, required);
+  }
+
+  // Transactions the simulator has not been told about are treated as final
+  async getConfirmations(txHash: string): Promise<number> {
+    return this.simulator.getConfirmations(txHash) ?? this.requiredConfirmations;
+  }
+
+  async release({ bridge }: BridgeStepContext): Promise<string> {
+    return await this.simulator.run(this.network, 'release', bridge.id);
+  }
+}
+
+export class BridgeSimulator {
+  private static instance: BridgeSimulator;
+  private scripts = new Map<string, SimulatedOutcome[]>();
+  private defaults = new Map<string, SimulatedOutcome>();
+  private held: Array<{ key: string; resume: () => void }> = [];
+  private confirmations = new Map<string, number>();
+  private fees = new Map<string, NetworkFeeQuote | null>();
+  private events: SimulatorEvent[] = [];
+  private txCounter = 0;
+
+  static getInstance(): BridgeSimulator {
+    if (!BridgeSimulator.instance) {
+      BridgeSimulator.instance = new BridgeSimulator();
+    }
+    return BridgeSimulator.instance;
+  }
+
+  // Build a module that replaces the given networks with simulated ones
+  createModule(networks: BridgeNetworkAdapter[]): BridgeModule {
+    return {
+      name: 'simulator',
+      networks: networks.map(adapter => new SimulatedNetworkAdapter(adapter, this)),
+    };
+  }
+
+  // Queue outcomes for the next calls of a step on a network, used once each in order
+  script(network: SupportedNetwork, step: SimulatedStep, ...outcomes: SimulatedOutcome[]): void {
+    const key = this.key(network, step);
+    this.scripts.set(key, [...(this.scripts.get(key) ?? []), ...outcomes]);
+  }
+
+  // Outcome for every call of a step once its script queue is empty
+  setDefault(network: SupportedNetwork, step: SimulatedStep, outcome: SimulatedOutcome): void {
+    this.defaults.set(this.key(network, step), outcome);
+  }
+
+  // Let held steps on a network continue. Returns how many were released
+  resume(network: SupportedNetwork, step: SimulatedStep): number {
+    const key = this.key(network, step);
+    const released = this.held.filter(entry => entry.key === key);
+    this.held = this.held.filter(entry => entry.key !== key);
+    released.forEach(entry => entry.resume());
+    return released.length;
+  }
+
+  setConfirmations(txHash: string, confirmations: number): void {
+    this.confirmations.set(txHash, confirmations);
+  }
+
+  getConfirmations(txHash: string): number | undefined {
+    return this.confirmations.get(txHash);
+  }
+
+  // Network fee a leg reports in estimates. Simulated networks charge nothing unless set
+  setFee(network: SupportedNetwork, leg: BridgeLeg, quote: NetworkFeeQuote | null): void {
+    this.fees.set(`${network}:${leg}`, quote);
+  }
+
+  getFee(network: SupportedNetwork, leg: BridgeLeg): NetworkFeeQuote | null {
+    return this.fees.get(`${network}:${leg}`) ?? null;
+  }
+
+  // Every step the simulator has run, oldest first
+  getEvents(): SimulatorEvent[] {
+    return [...this.events];
+  }
+
+  // Clear scripts, state and the hash counter. Held steps are released so nothing is left waiting
+  reset(): void {
+    const held = this.held;
+    this.held = [];
+    held.forEach(entry => entry.resume());
+
+    this.scripts.clear();
+    this.defaults.clear();
+    this.confirmations.clear();
+    this.fees.clear();
+    this.events = [];
+    this.txCounter = 0;
+  }
+
+  // Run one step: take its next scripted outcome, apply the delay or hold, then fail or
+  // return a transaction hash (the one being confirmed, for confirmation steps)
+  async run(network: SupportedNetwork, step: SimulatedStep, bridgeId?: string, txHash?: string): Promise<string> {
+    const key = this.key(network, step);
+    const queue = this.scripts.get(key);
+    const outcome = queue?.shift() ?? this.defaults.get(key) ?? {};
+
+    if (outcome.hold) {
+      await new Promise<void>(resolve => this.held.push({ key, resume: resolve }));
+    }
+    if (outcome.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, outcome.delayMs));
+    }
+
+    if (outcome.reject) {
+      this.events.push({ network, step, bridgeId, txHash, error: outcome.reject, at: new Date() });
+      throw new BridgeTransferRejectedError(outcome.reject);
+    }
+    if (outcome.fail) {
+      this.events.push({ network, step, bridgeId, txHash, error: outcome.fail, at: new Date() });
+      throw new Error(outcome.fail);
+    }
+
+    const resultHash = outcome.txHash ?? txHash ?? this.nextTxHash(network);
+    this.events.push({ network, step, bridgeId, txHash: resultHash, at: new Date() });
+    return resultHash;
+  }
+
+  // Hashes follow each network's format and depend only on how many have been issued
+  private nextTxHash(network: SupportedNetwork): string {
+    this.txCounter++;
+    if (network === 'icp') {
+      return String(this.txCounter); // ledger block index
+    }
+
+    const hash = createHash('sha256').update(`bridge-simulator:${network}:${this.txCounter}`).digest('hex');
+    return network === 'ethereum' ? `0x${hash}` : hash;
+  }
+
+  private key(network: SupportedNetwork, step: SimulatedStep): string {
+    return `${network}:${step}`;
+  }
+}
+
+export const bridgeSimulator = BridgeSimulator.getInstance();
@@ -0,0 +1,105 @@
+// Bridge route registry types - each network module declares its tokens, the pairs it can
+// bridge, and an adapter with the fees, confirmations, address format and steps for that chain
+
+import type { BridgeTransaction, SupportedNetwork, SupportedToken } from "@shared/schema";
+
+// Asset a fee or token is priced in; wrapped tokens track their underlying
+export type PriceAsset = 'ETH' | 'USDC' | 'BTC' | 'ICP';
+
+export interface BridgeToken {
+  symbol: SupportedToken;
+  network: SupportedNetwork;
+  decimals: number;
+  minAmount: string;
+  maxAmount: string;
+  priceAsset: PriceAsset;
+  contractAddress?: string; // ERC-20 contract, or "native" for the chain's own asset
+  canisterId?: string; // ICRC-1 ledger canister for chain-key tokens
+}
+
+// A bridgeable token pair. Only 1:1 wrapped pairs are supported
+export interface BridgePair {
+  fromNetwork: SupportedNetwork;
+  toNetwork: SupportedNetwork;
+  fromToken: SupportedToken;
+  toToken: SupportedToken;
+  protocolFeeBps: number; // basis points, 1% = 100
+}
+
+// Which side of a bridge a network is acting on
+export type BridgeLeg = 'source' | 'destination';
+
+// Cost of one leg on a network, in its native asset and in USD
+export interface NetworkFeeQuote {
+  asset: PriceAsset;
+  amount: number;
+  usd: number;
+}
+
+// The token a step moves on the adapter's own network, with the bridge it belongs to
+export interface BridgeStepContext {
+  bridge: BridgeTransaction;
+  token: BridgeToken;
+}
+
+export interface BridgeNetworkAdapter {
+  network: SupportedNetwork;
+  requiredConfirmations: number;
+  sourceMinutes: number; // time this network adds to an estimate as the source leg
+  destinationMinutes: number; // time this network adds to an estimate as the destination leg
+  systemWallet: string;
+
+  // Check an address format (and checksum, where the network has one)
+  validateAddress(address: string): { valid: boolean; error?: string };
+
+  // Network cost of acting as the given leg of a route, or null if there is none
+  estimateFee(leg: BridgeLeg, route: BridgeRoute): Promise<NetworkFeeQuote | null>;
+
+  // Monitor steps: wait for the user's funds to arrive, then for them to be final
+  awaitDeposit(context: BridgeStepContext): Promise<string>;
+  waitForConfirmations(txHash: string, required: number): Promise<void>;
+  getConfirmations(txHash: string, submittedAt: Date): Promise<number>;
+
+  // Execute steps: deliver the bridged funds, or return them to the sender. Only networks that
+  // can actually send a refund implement refund; failed bridges on the others go to manual review
+  release(context: BridgeStepContext): Promise<string>;
+  refund?(context: BridgeStepContext, amount: string): Promise<string>;
+}
+
+// A network module plugs a chain, its tokens and its pairs into the registry
+export interface BridgeModule {
+  name: string;
+  networks?: BridgeNetworkAdapter[];
+  tokens?: BridgeToken[];
+  pairs?: BridgePair[];
+}
+
+// A registered pair resolved to the adapters and tokens on each side
+export interface BridgeRoute {
+  pair: BridgePair;
+  source: BridgeNetworkAdapter;
+  destination: BridgeNetworkAdapter;
+  fromToken: BridgeToken;
+  toToken: BridgeToken;
+}
+
+// The network definitely refused a transfer (bad fee, insufficient funds...), so nothing moved and
+// it is safe to send again. Any other error from a transfer step leaves the outcome unknown
+export class BridgeTransferRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BridgeTransferRejectedError';
+    Object.setPrototypeOf(this, BridgeTransferRejectedError.prototype);
+  }
+}
+
+export interface SupportedBridgePair {
+  from: SupportedNetwork;
+  to: SupportedNetwork;
+  fromToken: SupportedToken;
+  toToken: SupportedToken;
+  minAmount: string;
+  maxAmount: string;
+  estimatedTime: number;
+  protocolFeeBps: number;
+}
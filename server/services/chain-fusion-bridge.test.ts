@@ -0,0 +1,257 @@
+// Bridge lifecycle on the simulated networks: deposits, releases, refunds and limits, end to end
+// through ChainFusionBridgeService and the in-memory database. Run with npm test
+
+import { test, describe, before, beforeEach, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "crypto";
+import { sql } from "drizzle-orm";
+import { AccountIdentifier } from "@dfinity/ledger-icp";
+import { Principal } from "@dfinity/principal";
+import { users, type BridgeInitiation, type BridgeTransaction, type User } from "@shared/schema";
+import { db, databaseReady } from "../db";
+import { storage } from "../storage";
+import { chainFusionBridge } from "./chain-fusion-bridge";
+import { bridgeSimulator } from "./bridge-routes";
+import { bridgeLimitsService, BridgeLimitExceededError } from "./bridge-limits";
+import { bridgeRefundService } from "./bridge-refund";
+import { priceOracleService, type TokenPrices } from "./price-oracle";
+
+const PRICES: TokenPrices = { ETH: 2000, ICP: 10, USDC: 1, BTC: 60000, ckETH: 2000, ckUSDC: 1, ckBTC: 60000 };
+
+const ETH_ADDRESS = "0x742d35cc6634c0532925a3b844bc454e4438f44e";
+const ICP_PRINCIPAL = "2vxsx-fae";
+const ICP_ACCOUNT = AccountIdentifier.fromPrincipal({ principal: Principal.fromText(ICP_PRINCIPAL) }).toHex();
+
+const ETH_TO_CKETH: BridgeInitiation = {
+  fromNetwork: "ethereum",
+  toNetwork: "icp",
+  fromToken: "ETH",
+  toToken: "ckETH",
+  amount: "0.01",
+  fromAddress: ETH_ADDRESS,
+  toAddress: ICP_ACCOUNT,
+};
+
+const CKETH_TO_ETH: BridgeInitiation = {
+  fromNetwork: "icp",
+  toNetwork: "ethereum",
+  fromToken: "ckETH",
+  toToken: "ETH",
+  amount: "0.01",
+  fromAddress: ICP_ACCOUNT,
+  toAddress: ETH_ADDRESS,
+  refundPrincipal: ICP_PRINCIPAL,
+};
+
+async function createUser(): Promise<User> {
+  const [user] = await db.insert(users).values({ id: randomUUID() }).returning();
+  return user;
+}
+
+async function initiate(user: User, request: BridgeInitiation): Promise<BridgeTransaction> {
+  const guard = await bridgeLimitsService.createGuard(user, request.fromToken, request.amount);
+  return await chainFusionBridge.initiateBridge(user.id, request, guard);
+}
+
+// Bridges run in the background once created, so poll until one reaches the expected state
+async function waitForBridge(id: string, done: (bridge: BridgeTransaction) => boolean, timeoutMs = 5000): Promise<BridgeTransaction> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const bridge = await storage.getBridgeTransaction(id);
+    if (bridge && done(bridge)) {
+      return bridge;
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  assert.fail(`Bridge ${id} did not reach the expected state in ${timeoutMs}ms`);
+}
+
+const isSettled = (bridge: BridgeTransaction) => bridge.status === "completed" || bridge.status === "failed";
+
+describe("bridge lifecycle on simulated networks", () => {
+  before(async () => {
+    await databaseReady;
+    mock.method(priceOracleService, "getTokenPrices", async () => PRICES);
+  });
+
+  beforeEach(async () => {
+    bridgeSimulator.reset();
+    await db.execute(sql`TRUNCATE bridge_transactions`);
+  });
+
+  after(() => {
+    mock.restoreAll();
+  });
+
+  test("completes an Ethereum to ICP bridge", async () => {
+    const user = await createUser();
+    const created = await initiate(user, ETH_TO_CKETH);
+
+    const bridge = await waitForBridge(created.id, isSettled);
+    assert.equal(bridge.status, "completed");
+    assert.match(bridge.txHashFrom ?? "", /^0x[0-9a-f]{64}$/);
+    assert.equal(bridge.txHashTo, "2"); // second simulated transaction, an ICP block index
+    assert.equal(bridge.confirmationsTo, 1);
+    assert.deepEqual(
+      bridgeSimulator.getEvents().map(event => `${event.network}:${event.step}`),
+      ["ethereum:deposit", "ethereum:confirmations", "icp:release", "icp:confirmations"],
+    );
+  });
+
+  test("waits for the deposit before releasing anything", async () => {
+    bridgeSimulator.script("ethereum", "deposit", { hold: true });
+    const user = await createUser();
+    const created = await initiate(user, ETH_TO_CKETH);
+
+    const waiting = await waitForBridge(created.id, bridge => bridge.status === "processing");
+    assert.equal(waiting.txHashFrom, null);
+    assert.equal(bridgeSimulator.getEvents().length, 0);
+
+    assert.equal(bridgeSimulator.resume("ethereum", "deposit"), 1);
+    const bridge = await waitForBridge(created.id, isSettled);
+    assert.equal(bridge.status, "completed");
+  });
+
+  test("fails a bridge whose release is refused and refunds the deposit", async () => {
+    bridgeSimulator.script("ethereum", "release", { reject: "insufficient liquidity" });
+    const user = await createUser();
+    const created = await initiate(user, CKETH_TO_ETH);
+
+    const failed = await waitForBridge(created.id, isSettled);
+    assert.equal(failed.status, "failed");
+    assert.equal(failed.errorMessage, "insufficient liquidity");
+    assert.equal(failed.txHashTo, null);
+    assert.equal(failed.releaseOutcome, "rejected");
+
+    const summary = await bridgeRefundService.processRefunds();
+    assert.deepEqual(summary, { queued: 1, manualReview: 0, submitted: 1, confirmed: 1, failed: 0, errors: [] });
+
+    const refunded = await storage.getBridgeTransaction(created.id);
+    assert.equal(refunded?.status, "refunded");
+    assert.equal(refunded?.refundStatus, "confirmed");
+    assert.equal(refunded?.refundAttempts, 1);
+    assert.equal(parseFloat(refunded?.refundAmount ?? "0"), 0.01);
+  });
+
+  test("sends a bridge whose release outcome is unknown to manual review instead of refunding it", async () => {
+    bridgeSimulator.script("ethereum", "release", { fail: "connection reset" });
+    const user = await createUser();
+    const created = await initiate(user, CKETH_TO_ETH);
+
+    const failed = await waitForBridge(created.id, isSettled);
+    assert.equal(failed.status, "failed");
+    assert.equal(failed.releaseOutcome, "unknown");
+
+    const summary = await bridgeRefundService.processRefunds();
+    assert.equal(summary?.manualReview, 1);
+    assert.equal(summary?.submitted, 0);
+    const held = await storage.getBridgeTransaction(created.id);
+    assert.equal(held?.refundStatus, "manual_review");
+    assert.equal(held?.refundError, "Release on ethereum ended with an unknown outcome - check the destination before refunding");
+    assert.equal(bridgeSimulator.getEvents().filter(event => event.step === "refund").length, 0);
+  });
+
+  test("holds a bridge that timed out mid-release for review and never completes it", async () => {
+    bridgeSimulator.script("ethereum", "release", { hold: true });
+    const user = await createUser();
+    const created = await initiate(user, CKETH_TO_ETH);
+    await waitForBridge(created.id, bridge => bridge.releaseOutcome === "pending");
+
+    // The monitor times the bridge out while the release is still in flight
+    const timedOut = await storage.updateBridgeTransactionStatusIf(created.id, "processing", "failed", { errorMessage: "Processing timed out" });
+    const held = await bridgeRefundService.queueRefund(timedOut!);
+    assert.equal(held?.refundStatus, "manual_review");
+
+    assert.equal(bridgeSimulator.resume("ethereum", "release"), 1);
+    const released = await waitForBridge(created.id, bridge => bridge.releaseOutcome === "released");
+    assert.equal(released.status, "failed");
+    assert.ok(released.txHashTo);
+    assert.equal(released.refundStatus, "manual_review");
+  });
+
+  test("does not send a queued refund for a bridge that released funds after it was queued", async () => {
+    bridgeSimulator.script("ethereum", "release", { reject: "insufficient liquidity" });
+    const user = await createUser();
+    const created = await initiate(user, CKETH_TO_ETH);
+    const failed = await waitForBridge(created.id, isSettled);
+
+    assert.equal((await bridgeRefundService.queueRefund(failed))?.refundStatus, "queued");
+    await storage.updateBridgeTransaction(created.id, { txHashTo: "0xabc" });
+
+    const summary = await bridgeRefundService.processRefunds();
+    assert.equal(summary?.submitted, 0);
+    assert.equal(summary?.manualReview, 1);
+    assert.equal((await storage.getBridgeTransaction(created.id))?.refundStatus, "manual_review");
+    assert.equal(bridgeSimulator.getEvents().filter(event => event.step === "refund").length, 0);
+  });
+
+  test("requeues a refund the ledger rejected", async () => {
+    bridgeSimulator.script("ethereum", "release", { reject: "insufficient liquidity" });
+    bridgeSimulator.script("icp", "refund", { reject: "ledger busy" });
+    const user = await createUser();
+    const created = await initiate(user, CKETH_TO_ETH);
+    await waitForBridge(created.id, isSettled);
+
+    await bridgeRefundService.processRefunds();
+    const requeued = await storage.getBridgeTransaction(created.id);
+    assert.equal(requeued?.refundStatus, "queued");
+    assert.equal(requeued?.refundError, "ledger busy");
+
+    await bridgeRefundService.processRefunds();
+    const refunded = await storage.getBridgeTransaction(created.id);
+    assert.equal(refunded?.refundStatus, "confirmed");
+    assert.equal(refunded?.refundAttempts, 2);
+  });
+
+  test("sends a refund with an unknown outcome to manual review", async () => {
+    bridgeSimulator.script("ethereum", "release", { reject: "insufficient liquidity" });
+    bridgeSimulator.script("icp", "refund", { fail: "connection reset" });
+    const user = await createUser();
+    const created = await initiate(user, CKETH_TO_ETH);
+    await waitForBridge(created.id, isSettled);
+
+    await bridgeRefundService.processRefunds();
+    const held = await storage.getBridgeTransaction(created.id);
+    assert.equal(held?.status, "failed");
+    assert.equal(held?.refundStatus, "manual_review");
+    assert.equal(held?.refundError, "Refund outcome unknown: connection reset");
+
+    // Nothing is sent again until an admin retries it
+    await bridgeRefundService.processRefunds();
+    assert.equal(bridgeSimulator.getEvents().filter(event => event.step === "refund").length, 1);
+  });
+
+  test("sends a failed bridge from Ethereum to manual review, since Ethereum cannot refund", async () => {
+    bridgeSimulator.script("icp", "release", { reject: "minter paused" });
+    const user = await createUser();
+    const created = await initiate(user, ETH_TO_CKETH);
+    await waitForBridge(created.id, isSettled);
+
+    const summary = await bridgeRefundService.processRefunds();
+    assert.equal(summary?.manualReview, 1);
+    const held = await storage.getBridgeTransaction(created.id);
+    assert.equal(held?.refundStatus, "manual_review");
+    assert.equal(held?.refundError, "Automatic refunds are not available on ethereum");
+  });
+
+  test("lets only one of two simultaneous bridges spend the same daily allowance", async () => {
+    const user = await createUser();
+    const request = { ...ETH_TO_CKETH, amount: "0.3" }; // $600 of a basic user's $1000 daily limit
+
+    // Both guards are built before either bridge exists, as with two requests in flight
+    const guards = await Promise.all([
+      bridgeLimitsService.createGuard(user, "ETH", request.amount),
+      bridgeLimitsService.createGuard(user, "ETH", request.amount),
+    ]);
+    const results = await Promise.allSettled(guards.map(guard => chainFusionBridge.initiateBridge(user.id, request, guard)));
+
+    const created = results.filter(result => result.status === "fulfilled");
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === "rejected");
+    assert.equal(created.length, 1);
+    assert.equal(rejected.length, 1);
+    assert.ok(rejected[0].reason instanceof BridgeLimitExceededError);
+    assert.equal(rejected[0].reason.rejection.code, "DAILY_LIMIT_EXCEEDED");
+
+    await waitForBridge((created[0] as PromiseFulfilledResult<BridgeTransaction>).value.id, isSettled);
+  });
+});
@@ -1,9 +1,6 @@
 // Comprehensive Chain Fusion Bridge Service for RWA Pawn Platform
-// Enables seamless asset transfers between Ethereum and ICP networks
+// Enables seamless asset transfers between ICP and the networks in the bridge route registry
 
-import { Actor, HttpAgent } from "@dfinity/agent";
-import { Principal } from "@dfinity/principal";
-import { Ed25519KeyIdentity } from "@dfinity/identity";
 import { 
   BridgeTransaction, 
   InsertBridgeTransaction, 
@@ -14,121 +11,16 @@ import {
   SupportedToken,
   BridgeStatus
 } from "@shared/schema";
-import { storage } from "../storage";
+import { storage, type BridgeLimitGuard } from "../storage";
 import { priceOracleService } from "./price-oracle";
+import { bridgeRouteRegistry, BridgeTransferRejectedError, type BridgeRoute, type BridgeToken, type NetworkFeeQuote, type SupportedBridgePair } from "./bridge-routes";
 import { parseToBigInt, formatBigIntToDecimal, calculatePercentage } from "../utils/decimal-parser";
-
-// Chain Fusion canister IDs (ICP mainnet)
-const CHAIN_FUSION_CANISTERS = {
-  ckETH: "ss2fx-dyaaa-aaaar-qacoq-cai",
-  ckUSDC: "xkbqi-6qaaa-aaaah-qbpqq-cai",
-  ckBTC: "mxzaz-hqaaa-aaaar-qaada-cai",
-  evmRPC: "7hfb6-caaaa-aaaar-qadga-cai",
-  bridge: "rdmx6-jaaaa-aaaah-qcdwa-cai" // Chain Fusion bridge canister
-} as const;
-
-// System wallet addresses for bridge operations
-const SYSTEM_WALLETS = {
-  icp: "1ef008c2d7e445954e12ec2033b202888723046fde489be3a250cacf01d65963",
-  ethereum: "0x00f3C42833C3170159af4E92dbb451Fb3F708917"
-} as const;
-
-// Token configurations with decimals and limits
-const TOKEN_CONFIG = {
-  ETH: {
-    decimals: 18,
-    minAmount: "0.001", // 0.001 ETH minimum
-    maxAmount: "100", // 100 ETH maximum
-    address: "0x0000000000000000000000000000000000000000" // Native ETH
-  },
-  USDC: {
-    decimals: 6,
-    minAmount: "1", // $1 minimum
-    maxAmount: "1000000", // $1M maximum
-    address: "0xA0b86a33E6441c5C60000000000000000000000000" // USDC contract
-  },
-  BTC: {
-    decimals: 8,
-    minAmount: "0.0001", // 0.0001 BTC minimum (~$10 at $100k/BTC)
-    maxAmount: "10", // 10 BTC maximum
-    address: "native" // Native Bitcoin
-  },
-  ckETH: {
-    decimals: 18,
-    minAmount: "0.001",
-    maxAmount: "100",
-    canisterId: CHAIN_FUSION_CANISTERS.ckETH
-  },
-  ckUSDC: {
-    decimals: 6,
-    minAmount: "1",
-    maxAmount: "1000000", 
-    canisterId: CHAIN_FUSION_CANISTERS.ckUSDC
-  },
-  ckBTC: {
-    decimals: 8,
-    minAmount: "0.0001",
-    maxAmount: "10",
-    canisterId: CHAIN_FUSION_CANISTERS.ckBTC
-  }
-} as const;
-
-// Network configurations
-const NETWORK_CONFIG = {
-  ethereum: {
-    chainId: 1,
-    rpcUrl: "https://eth-mainnet.g.alchemy.com/v2/demo", // Demo RPC - replace with real
-    blockConfirmations: 12,
-    bridgeContract: "0x7f268357A8c2552623316e2562D90e642bB538E5" // Example - replace with real
-  },
-  bitcoin: {
-    network: "mainnet",
-    rpcUrl: "https://blockstream.info/api", // Public Bitcoin API
-    blockConfirmations: 6, // Bitcoin typically requires 6 confirmations
-  },
-  icp: {
-    network: "mainnet",
-    host: "https://ic0.app"
-  }
-} as const;
-
-// Bridge fee structure (in basis points, 1% = 100)
-// Production-ready fee structure with oracle integration
-const BRIDGE_FEES = {
-  protocolFee: 50, // 0.5% protocol fee for all bridges
-  // Network fees are calculated dynamically using oracle services
-} as const;
-
-// EVM RPC Canister Interface
-interface EVMRPCInterface {
-  eth_getTransactionReceipt: (args: { txHash: string }) => Promise<any>;
-  eth_getBlockByNumber: (args: { blockNumber: string }) => Promise<any>;
-  eth_getLogs: (args: { fromBlock: string; toBlock: string; address?: string }) => Promise<any>;
-  eth_call: (args: { to: string; data: string }) => Promise<string>;
-}
-
-// ckETH Canister Interface
-interface CkETHInterface {
-  icrc1_balance_of: (args: { owner: Principal; subaccount?: Uint8Array }) => Promise<bigint>;
-  icrc1_transfer: (args: {
-    to: { owner: Principal; subaccount?: Uint8Array };
-    amount: bigint;
-    memo?: Uint8Array;
-    from_subaccount?: Uint8Array;
-    created_at_time?: bigint;
-    fee?: bigint;
-  }) => Promise<{ Ok: bigint } | { Err: any }>;
-  retrieve_eth_status: (args: { block_index: bigint }) => Promise<any>;
-  get_minter_info: () => Promise<{ minter_address: string; eth_helper_contract_address: string }>;
-}
+import { CryptoVerificationService } from "../crypto-utils";
+import { BridgeLimitExceededError } from "./bridge-limits";
 
 // Chain Fusion Bridge Service
 export class ChainFusionBridgeService {
   private static instance: ChainFusionBridgeService;
-  private agent?: HttpAgent;
-  private evmRPCActor?: any;
-  private ckETHActor?: any;
-  private ckUSDCActor?: any;
 
   static getInstance(): ChainFusionBridgeService {
     if (!ChainFusionBridgeService.instance) {
@@ -137,74 +29,6 @@ export class ChainFusionBridgeService {
     return ChainFusionBridgeService.instance;
   }
 
-  // Initialize ICP agent and actors
-  private async initializeAgent(): Promise<void> {
-    if (this.agent) return;
-
-    this.agent = new HttpAgent({ host: NETWORK_CONFIG.icp.host });
-
-    // Create EVM RPC actor for Ethereum monitoring
-    this.evmRPCActor = Actor.createActor(
-      ({ IDL }: { IDL: any }) => {
-        return IDL.Service({
-          eth_getTransactionReceipt: IDL.Func([IDL.Record({ txHash: IDL.Text })], [IDL.Opt(IDL.Record({ status: IDL.Text }))], ['query']),
-          eth_getBlockByNumber: IDL.Func([IDL.Record({ blockNumber: IDL.Text })], [IDL.Opt(IDL.Record({ number: IDL.Text, timestamp: IDL.Text }))], ['query']),
-          eth_getLogs: IDL.Func([IDL.Record({ fromBlock: IDL.Text, toBlock: IDL.Text, address: IDL.Opt(IDL.Text) })], [IDL.Vec(IDL.Record({ transactionHash: IDL.Text }))], ['query']),
-        });
-      },
-      {
-        agent: this.agent,
-        canisterId: CHAIN_FUSION_CANISTERS.evmRPC,
-      }
-    );
-
-    // Create ckETH actor
-    this.ckETHActor = Actor.createActor(
-      ({ IDL }: { IDL: any }) => {
-        const Account = IDL.Record({ owner: IDL.Principal, subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)) });
-        return IDL.Service({
-          icrc1_balance_of: IDL.Func([Account], [IDL.Nat], ['query']),
-          icrc1_transfer: IDL.Func([IDL.Record({
-            to: Account,
-            amount: IDL.Nat,
-            memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
-            from_subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)),
-            created_at_time: IDL.Opt(IDL.Nat64),
-            fee: IDL.Opt(IDL.Nat),
-          })], [IDL.Variant({ Ok: IDL.Nat, Err: IDL.Text })], []),
-          retrieve_eth_status: IDL.Func([IDL.Record({ block_index: IDL.Nat })], [IDL.Opt(IDL.Record({ status: IDL.Text }))], ['query']),
-          get_minter_info: IDL.Func([], [IDL.Record({ minter_address: IDL.Text, eth_helper_contract_address: IDL.Text })], ['query']),
-        });
-      },
-      {
-        agent: this.agent,
-        canisterId: CHAIN_FUSION_CANISTERS.ckETH,
-      }
-    );
-
-    // Create ckUSDC actor with similar interface
-    this.ckUSDCActor = Actor.createActor(
-      ({ IDL }: { IDL: any }) => {
-        const Account = IDL.Record({ owner: IDL.Principal, subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)) });
-        return IDL.Service({
-          icrc1_balance_of: IDL.Func([Account], [IDL.Nat], ['query']),
-          icrc1_transfer: IDL.Func([IDL.Record({
-            to: Account,
-            amount: IDL.Nat,
-            memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
-            from_subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)),
-            created_at_time: IDL.Opt(IDL.Nat64),
-            fee: IDL.Opt(IDL.Nat),
-          })], [IDL.Variant({ Ok: IDL.Nat, Err: IDL.Text })], []),
-        });
-      },
-      {
-        agent: this.agent,
-        canisterId: CHAIN_FUSION_CANISTERS.ckUSDC,
-      }
-    );
-  }
-
   // Estimate bridge transaction costs and timing with oracle integration
   async estimateBridge(request: BridgeEstimation): Promise<BridgeEstimationResponse> {
     try {
@@ -213,83 +37,32 @@ export class ChainFusionBridgeService {
       
       const { fromNetwork, toNetwork, fromToken, toToken, amount } = request;
       
-      // Validate wrapped token pairs (only allow 1:1 bridges)
-      this.validateBridgePair(fromNetwork, toNetwork, fromToken, toToken);
-      
-      const fromTokenKey = fromToken as keyof typeof TOKEN_CONFIG;
-      const toTokenKey = toToken as keyof typeof TOKEN_CONFIG;
+      // Resolve the route (only registered 1:1 wrapped token pairs are routable)
+      const route = bridgeRouteRegistry.getRoute(fromNetwork, toNetwork, fromToken, toToken);
       
-      const fromDecimals = TOKEN_CONFIG[fromTokenKey].decimals;
-      const toDecimals = TOKEN_CONFIG[toTokenKey].decimals;
+      const fromDecimals = route.fromToken.decimals;
+      const toDecimals = route.toToken.decimals;
       
       // Use precise decimal parser to avoid float precision loss
       const amountBigInt = parseToBigInt(amount, fromDecimals);
 
-      // Calculate protocol fee (0.5% of amount)
-      const protocolFeeBigInt = calculatePercentage(amountBigInt, BRIDGE_FEES.protocolFee);
+      // Calculate protocol fee for the pair
+      const protocolFeeBigInt = calculatePercentage(amountBigInt, route.pair.protocolFeeBps);
       
       // Calculate network fee using oracle service
-      // NOTE: Network fees are incurred based on which blockchain you're interacting with
-      // - If bridging FROM Ethereum → need to pay Ethereum gas
-      // - If bridging FROM ICP → only pay minimal ICP cost
-      let networkFeeBigInt: bigint;
-      
-      if (fromNetwork === 'ethereum') {
-        // Ethereum source: User pays Ethereum gas to deposit/lock tokens
-        const gasEstimate = await priceOracleService.estimateEthereumGasCost();
-        console.log(`Ethereum gas estimate: $${gasEstimate.totalGasCostUSD.toFixed(2)} (${gasEstimate.totalGasCostETH.toFixed(6)} ETH)`);
-        
-        // Convert gas cost to fromToken units
-        if (fromToken === 'ETH') {
-          // Gas cost is already in ETH, convert to wei
-          networkFeeBigInt = parseToBigInt(gasEstimate.totalGasCostETH.toString(), fromDecimals);
-        } else if (fromToken === 'USDC') {
-          // Convert USD gas cost to USDC (1:1)
-          networkFeeBigInt = parseToBigInt(gasEstimate.totalGasCostUSD.toFixed(2), fromDecimals);
-        } else {
-          // Use price oracle to convert
-          const prices = await priceOracleService.getTokenPrices();
-          const gasCostInToken = gasEstimate.totalGasCostUSD / prices[fromToken as keyof typeof prices];
-          networkFeeBigInt = parseToBigInt(gasCostInToken.toFixed(fromDecimals), fromDecimals);
-        }
-      } else if (fromNetwork === 'icp') {
-        // ICP source: User pays minimal ICP cost to burn ck tokens
-        const icpCost = await priceOracleService.estimateICPNetworkCost();
-        console.log(`ICP network cost: $${icpCost.costUSD.toFixed(4)}`);
-        
-        // If going TO Ethereum, user will also pay gas on destination (handled separately in actual withdrawal)
-        // For estimation, we show the ICP burn cost which is what they pay upfront
-        // The actual Ethereum gas will be deducted from ckETH balance during withdrawal process
-        
-        // Convert ICP cost to fromToken units
-        if (fromToken === 'ckETH') {
-          const prices = await priceOracleService.getTokenPrices();
-          const costInETH = icpCost.costUSD / prices.ETH;
-          networkFeeBigInt = parseToBigInt(costInETH.toFixed(18), fromDecimals);
-        } else if (fromToken === 'ckUSDC') {
-          networkFeeBigInt = parseToBigInt(icpCost.costUSD.toFixed(6), fromDecimals);
-        } else {
-          const prices = await priceOracleService.getTokenPrices();
-          const costInToken = icpCost.costUSD / prices[fromToken as keyof typeof prices];
-          networkFeeBigInt = parseToBigInt(costInToken.toFixed(fromDecimals), fromDecimals);
+      // NOTE: Network fees are incurred on each blockchain the bridge interacts with
+      // - The source network charges for the user's deposit or burn
+      // - The destination network may charge for the withdrawal (e.g. Ethereum gas,
+      //   burned from the user's ck balance per the ckETH minter design)
+      const quotes = [
+        await route.source.estimateFee('source', route),
+        await route.destination.estimateFee('destination', route),
+      ];
+      let networkFeeBigInt = BigInt(0);
+      for (const quote of quotes) {
+        if (quote) {
+          networkFeeBigInt += await this.convertFeeToToken(quote, route.fromToken);
         }
-        
-        // For ICP → Ethereum bridges, add Ethereum gas cost estimate
-        // (This is burned from user's ckETH balance during withdrawal per ckETH minter design)
-        if (toNetwork === 'ethereum') {
-          const ethGasEstimate = await priceOracleService.estimateEthereumGasCost();
-          console.log(`+ Ethereum withdrawal gas: $${ethGasEstimate.totalGasCostUSD.toFixed(2)}`);
-          
-          if (fromToken === 'ckETH') {
-            const ethGasBigInt = parseToBigInt(ethGasEstimate.totalGasCostETH.toString(), fromDecimals);
-            networkFeeBigInt = networkFeeBigInt + ethGasBigInt;
-          } else if (fromToken === 'ckUSDC') {
-            const usdcGasBigInt = parseToBigInt(ethGasEstimate.totalGasCostUSD.toFixed(2), fromDecimals);
-            networkFeeBigInt = networkFeeBigInt + usdcGasBigInt;
-          }
-        }
-      } else {
-        throw new Error(`Unsupported fromNetwork: ${fromNetwork}`);
       }
       
       // Calculate total fee
@@ -312,13 +85,7 @@ export class ChainFusionBridgeService {
         : amountAfterFees / BigInt(Math.pow(10, -decimalDiff));
 
       // Estimate completion time
-      let estimatedTime = 15; // Base 15 minutes
-      if (fromNetwork === 'ethereum') {
-        estimatedTime += 20; // Ethereum confirmation time
-      }
-      if (toNetwork === 'ethereum') {
-        estimatedTime += 10; // Ethereum finality time
-      }
+      const estimatedTime = bridgeRouteRegistry.getEstimatedMinutes(route);
 
       // Exchange rate for wrapped tokens is always 1:1
       const exchangeRate = "1.0000";
@@ -327,8 +94,8 @@ export class ChainFusionBridgeService {
       return {
         estimatedFee: formatBigIntToDecimal(totalFeeBigInt, fromDecimals, 8),
         estimatedTime,
-        minimumAmount: TOKEN_CONFIG[fromTokenKey].minAmount,
-        maximumAmount: TOKEN_CONFIG[fromTokenKey].maxAmount,
+        minimumAmount: route.fromToken.minAmount,
+        maximumAmount: route.fromToken.maxAmount,
         exchangeRate,
         networkFee: formatBigIntToDecimal(networkFeeBigInt, fromDecimals, 8),
         bridgeFee: formatBigIntToDecimal(protocolFeeBigInt, fromDecimals, 8),
@@ -341,46 +108,34 @@ export class ChainFusionBridgeService {
     }
   }
 
-  // Validate that bridge only supports 1:1 wrapped token pairs
-  private validateBridgePair(
-    fromNetwork: SupportedNetwork,
-    toNetwork: SupportedNetwork,
-    fromToken: SupportedToken,
-    toToken: SupportedToken
-  ): void {
-    const validPairs = [
-      { from: 'ethereum', to: 'icp', fromToken: 'ETH', toToken: 'ckETH' },
-      { from: 'icp', to: 'ethereum', fromToken: 'ckETH', toToken: 'ETH' },
-      { from: 'ethereum', to: 'icp', fromToken: 'USDC', toToken: 'ckUSDC' },
-      { from: 'icp', to: 'ethereum', fromToken: 'ckUSDC', toToken: 'USDC' },
-      { from: 'bitcoin', to: 'icp', fromToken: 'BTC', toToken: 'ckBTC' },
-      { from: 'icp', to: 'bitcoin', fromToken: 'ckBTC', toToken: 'BTC' },
-    ];
-
-    const isValid = validPairs.some(pair => 
-      pair.from === fromNetwork &&
-      pair.to === toNetwork &&
-      pair.fromToken === fromToken &&
-      pair.toToken === toToken
-    );
-
-    if (!isValid) {
-      throw new Error(
-        `Invalid bridge pair: ${fromToken} (${fromNetwork}) → ${toToken} (${toNetwork}). ` +
-        `Only 1:1 wrapped token pairs are supported: ETH↔ckETH, USDC↔ckUSDC, BTC↔ckBTC`
-      );
+  // Convert a network fee quote into units of the token being bridged. Fees in the token's own
+  // asset are used as-is, stablecoins take the USD cost, anything else goes through the oracle
+  private async convertFeeToToken(quote: NetworkFeeQuote, token: BridgeToken): Promise<bigint> {
+    let feeInToken: number;
+    if (quote.asset === token.priceAsset) {
+      feeInToken = quote.amount;
+    } else if (token.priceAsset === 'USDC') {
+      feeInToken = quote.usd;
+    } else {
+      const prices = await priceOracleService.getTokenPrices();
+      feeInToken = quote.usd / prices[token.priceAsset];
     }
+    return parseToBigInt(feeInToken.toFixed(token.decimals), token.decimals);
   }
 
-  // Initiate a bridge transaction
-  async initiateBridge(userId: string, request: BridgeInitiation): Promise<BridgeTransaction> {
+  // Initiate a bridge transaction. The row is only written if the limits guard passes under lock
+  async initiateBridge(userId: string, request: BridgeInitiation, limits: BridgeLimitGuard): Promise<BridgeTransaction> {
     try {
-      await this.initializeAgent();
+      const { fromNetwork, toNetwork, fromToken, toToken, amount, fromAddress, toAddress, refundPrincipal } = request;
+      const route = bridgeRouteRegistry.getRoute(fromNetwork, toNetwork, fromToken, toToken);
 
-      const { fromNetwork, toNetwork, fromToken, toToken, amount, fromAddress, toAddress } = request;
+      // ck token refunds go to the principal, so it has to be the one that owns the source account
+      if (fromNetwork === 'icp' && (!refundPrincipal || !CryptoVerificationService.isICPAccountOfPrincipal(fromAddress, refundPrincipal))) {
+        throw new Error("Refund principal does not own the ICP source account");
+      }
 
       // Validate amounts
-      const tokenConfig = TOKEN_CONFIG[fromToken];
+      const tokenConfig = route.fromToken;
       const amountNum = parseFloat(amount);
       
       if (amountNum < parseFloat(tokenConfig.minAmount)) {
@@ -403,27 +158,37 @@ export class ChainFusionBridgeService {
         amount,
         fromAddress,
         toAddress,
+        refundPrincipal: fromNetwork === 'icp' ? refundPrincipal : null,
         bridgeFee: estimation.bridgeFee,
         estimatedTime: estimation.estimatedTime,
-        requiredConfirmations: NETWORK_CONFIG.ethereum.blockConfirmations,
+        requiredConfirmations: Math.max(route.source.requiredConfirmations, route.destination.requiredConfirmations),
         status: 'pending',
         bridgeData: {
           estimation,
-          systemWallets: SYSTEM_WALLETS,
+          systemWallets: {
+            [fromNetwork]: route.source.systemWallet,
+            [toNetwork]: route.destination.systemWallet,
+          },
           timestamp: Date.now()
         }
       };
 
-      const bridge = await storage.createBridgeTransaction(bridgeData);
+      const { bridge, rejection } = await storage.createBridgeTransactionWithinLimits(bridgeData, limits);
+      if (!bridge) {
+        throw new BridgeLimitExceededError(rejection!);
+      }
 
       // Start bridge processing in background
       this.processBridgeTransaction(bridge.id).catch(error => {
         console.error(`Bridge processing failed for ${bridge.id}:`, error);
-        this.updateBridgeStatus(bridge.id, 'failed', { errorMessage: error.message });
+        this.updateProcessingBridge(bridge.id, 'failed', { errorMessage: error.message });
       });
 
       return bridge;
     } catch (error) {
+      if (error instanceof BridgeLimitExceededError) {
+        throw error;
+      }
       console.error("Bridge initiation failed:", error);
       throw new Error(`Bridge initiation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -437,127 +202,120 @@ export class ChainFusionBridgeService {
     }
 
     try {
-      // Update status to processing
-      await this.updateBridgeStatus(bridgeId, 'processing');
-
-      if (bridge.fromNetwork === 'ethereum' && bridge.toNetwork === 'icp') {
-        await this.processEthereumToICP(bridge);
-      } else if (bridge.fromNetwork === 'icp' && bridge.toNetwork === 'ethereum') {
-        await this.processICPToEthereum(bridge);
-      } else {
-        throw new Error("Unsupported bridge direction");
+      // A bridge cancelled before processing started is left as it is
+      const started = await storage.updateBridgeTransactionStatusIf(bridgeId, 'pending', 'processing');
+      if (!started) {
+        return;
       }
+
+      const route = this.getRouteForBridge(started);
+      await this.processRoute(started, route);
     } catch (error) {
       console.error(`Bridge processing error for ${bridgeId}:`, error);
-      await this.updateBridgeStatus(bridgeId, 'failed', { 
+      await this.updateProcessingBridge(bridgeId, 'failed', { 
         errorMessage: error instanceof Error ? error.message : 'Processing failed' 
       });
     }
   }
 
-  // Process Ethereum to ICP bridge
-  private async processEthereumToICP(bridge: BridgeTransaction): Promise<void> {
-    // Step 1: Monitor for Ethereum deposit
-    const ethTxHash = await this.monitorEthereumDeposit(bridge);
-    await this.updateBridgeStatus(bridge.id, 'processing', { txHashFrom: ethTxHash });
+  // Move funds along a route: deposit and confirm on the source network, then release
+  // and confirm on the destination network. The monitor or the user can fail the bridge at any
+  // point, which queues a refund, so each step stops once the bridge is no longer processing
+  private async processRoute(bridge: BridgeTransaction, route: BridgeRoute): Promise<void> {
+    // Step 1: Monitor for the deposit (or ck token burn) on the source network
+    const sourceTxHash = await route.source.awaitDeposit({ bridge, token: route.fromToken });
+    if (!await this.updateProcessingBridge(bridge.id, 'processing', { txHashFrom: sourceTxHash })) {
+      // Still record the deposit, so the refund sweep sends it back
+      await storage.updateBridgeTransaction(bridge.id, { txHashFrom: sourceTxHash });
+      return;
+    }
 
-    // Step 2: Wait for confirmations
-    await this.waitForEthereumConfirmations(ethTxHash, bridge.requiredConfirmations);
+    // Step 2: Wait for the deposit to be final
+    await route.source.waitForConfirmations(sourceTxHash, route.source.requiredConfirmations);
 
-    // Step 3: Mint ck tokens on ICP
-    const icpTxHash = await this.mintCkTokens(bridge);
-    await this.updateBridgeStatus(bridge.id, 'completed', { txHashTo: icpTxHash });
-  }
+    // Step 3: Mint or withdraw on the destination network. The release is marked pending first,
+    // so a bridge that times out while it is in flight goes to manual review, not to a refund
+    const releasing = await this.updateProcessingBridge(bridge.id, 'processing', {
+      releaseOutcome: 'pending',
+      confirmationsFrom: route.source.requiredConfirmations,
+    });
+    if (!releasing) {
+      return;
+    }
 
-  // Process ICP to Ethereum bridge
-  private async processICPToEthereum(bridge: BridgeTransaction): Promise<void> {
-    // Step 1: Monitor for ck token burn on ICP
-    const icpTxHash = await this.monitorCkTokenBurn(bridge);
-    await this.updateBridgeStatus(bridge.id, 'processing', { txHashFrom: icpTxHash });
+    // Only a refusal proves nothing was released - any other failure may still have landed,
+    // so the refund sweep holds it for review
+    let destinationTxHash: string;
+    try {
+      destinationTxHash = await route.destination.release({ bridge, token: route.toToken });
+    } catch (error) {
+      console.error(`Bridge release failed for ${bridge.id}:`, error);
+      const releaseOutcome = error instanceof BridgeTransferRejectedError ? 'rejected' : 'unknown';
+      const failed = await this.updateProcessingBridge(bridge.id, 'failed', {
+        errorMessage: error instanceof Error ? error.message : 'Release failed',
+        releaseOutcome,
+      });
+      if (!failed) {
+        await storage.updateBridgeTransaction(bridge.id, { releaseOutcome });
+      }
+      return;
+    }
 
-    // Step 2: Initiate Ethereum withdrawal
-    const ethTxHash = await this.initiateEthereumWithdrawal(bridge);
-    await this.updateBridgeStatus(bridge.id, 'processing', { txHashTo: ethTxHash });
+    // Funds moved, so the release is recorded even if the bridge timed out meanwhile
+    const released = await storage.updateBridgeTransaction(bridge.id, { txHashTo: destinationTxHash, releaseOutcome: 'released' });
+    if (released.status !== 'processing') {
+      return;
+    }
 
-    // Step 3: Wait for Ethereum confirmation
-    await this.waitForEthereumConfirmations(ethTxHash, bridge.requiredConfirmations);
-    await this.updateBridgeStatus(bridge.id, 'completed');
+    // Step 4: Wait for the release to be final
+    await route.destination.waitForConfirmations(destinationTxHash, route.destination.requiredConfirmations);
+    await this.updateProcessingBridge(bridge.id, 'completed', { confirmationsTo: route.destination.requiredConfirmations });
   }
 
-  // Monitor Ethereum deposit using EVM RPC canister
-  private async monitorEthereumDeposit(bridge: BridgeTransaction): Promise<string> {
-    // Implementation would monitor the bridge contract for deposits
-    // This is a simplified version - full implementation would:
-    // 1. Generate unique deposit address or use memo
-    // 2. Monitor for transaction to bridge contract
-    // 3. Verify amount and sender
-    
-    return new Promise((resolve) => {
-      // Simulate monitoring delay
-      setTimeout(() => {
-        resolve(`0x${Array.from({length: 64}, () => Math.floor(Math.random() * 16).toString(16)).join('')}`);
-      }, 5000);
-    });
+  private getRouteForBridge(bridge: BridgeTransaction): BridgeRoute {
+    return bridgeRouteRegistry.getRoute(
+      bridge.fromNetwork as SupportedNetwork,
+      bridge.toNetwork as SupportedNetwork,
+      bridge.fromToken as SupportedToken,
+      bridge.toToken as SupportedToken
+    );
   }
 
-  // Wait for Ethereum confirmations
-  private async waitForEthereumConfirmations(txHash: string, required: number): Promise<void> {
-    // Implementation would use EVM RPC canister to check confirmations
-    return new Promise((resolve) => {
-      setTimeout(resolve, required * 15000); // ~15 seconds per block
-    });
+  // Whether the source network can send a refund at all
+  canRefund(bridge: BridgeTransaction): boolean {
+    return !!bridgeRouteRegistry.getNetwork(bridge.fromNetwork as SupportedNetwork).refund;
   }
 
-  // Mint ck tokens on ICP
-  private async mintCkTokens(bridge: BridgeTransaction): Promise<string> {
-    if (!this.ckETHActor && !this.ckUSDCActor) {
-      await this.initializeAgent();
-    }
-
-    const actor = bridge.toToken === 'ckETH' ? this.ckETHActor : this.ckUSDCActor;
-    const toToken = bridge.toToken as keyof typeof TOKEN_CONFIG;
-    const amount = BigInt(Math.floor(parseFloat(bridge.amount) * Math.pow(10, TOKEN_CONFIG[toToken].decimals)));
-
-    try {
-      const result = await actor.icrc1_transfer({
-        to: { owner: Principal.fromText(bridge.toAddress) },
-        amount,
-        memo: new Uint8Array(Buffer.from(`bridge-${bridge.id}`, 'utf8'))
-      });
-
-      if ('Ok' in result) {
-        return result.Ok.toString();
-      } else {
-        throw new Error(`Token transfer failed: ${result.Err}`);
-      }
-    } catch (error) {
-      throw new Error(`ck token minting failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  // Send a failed bridge's source funds back to fromAddress on the source network,
+  // returning the refund transaction hash
+  async executeRefund(bridge: BridgeTransaction): Promise<string> {
+    const amount = bridge.refundAmount ?? bridge.amount;
+    const route = this.getRouteForBridge(bridge);
+    if (!route.source.refund) {
+      throw new Error(`Refunds are not supported on ${route.source.network}`);
     }
+    return await route.source.refund({ bridge, token: route.fromToken }, amount);
   }
 
-  // Monitor ck token burn on ICP
-  private async monitorCkTokenBurn(bridge: BridgeTransaction): Promise<string> {
-    // Implementation would monitor for ck token burn to bridge canister
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(`${Math.floor(Math.random() * 1000000)}`);
-      }, 3000);
-    });
+  // Confirmations a refund needs on the source network before it counts as settled
+  getRefundRequiredConfirmations(bridge: BridgeTransaction): number {
+    return bridgeRouteRegistry.getNetwork(bridge.fromNetwork as SupportedNetwork).requiredConfirmations;
   }
 
-  // Initiate Ethereum withdrawal
-  private async initiateEthereumWithdrawal(bridge: BridgeTransaction): Promise<string> {
-    // Implementation would trigger withdrawal from bridge contract
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(`0x${Array.from({length: 64}, () => Math.floor(Math.random() * 16).toString(16)).join('')}`);
-      }, 10000);
-    });
+  // Current confirmation count for a submitted refund
+  async getRefundConfirmations(bridge: BridgeTransaction): Promise<number> {
+    if (!bridge.refundTxHash) {
+      return 0;
+    }
+
+    const submittedAt = bridge.refundSubmittedAt ? new Date(bridge.refundSubmittedAt) : new Date();
+    return await bridgeRouteRegistry.getNetwork(bridge.fromNetwork as SupportedNetwork)
+      .getConfirmations(bridge.refundTxHash, submittedAt);
   }
 
-  // Update bridge transaction status
-  private async updateBridgeStatus(bridgeId: string, status: BridgeStatus, updates?: Partial<BridgeTransaction>): Promise<void> {
-    await storage.updateBridgeTransactionStatus(bridgeId, status, updates);
+  // Update a bridge that is still processing. Returns false once it has been failed elsewhere
+  private async updateProcessingBridge(bridgeId: string, status: BridgeStatus, updates?: Partial<BridgeTransaction>): Promise<boolean> {
+    return !!await storage.updateBridgeTransactionStatusIf(bridgeId, 'processing', status, updates);
   }
 
   // Get bridge transaction status
@@ -568,23 +326,17 @@ export class ChainFusionBridgeService {
 
   // Get supported tokens for a network
   getSupportedTokens(network: SupportedNetwork): SupportedToken[] {
-    if (network === 'ethereum') {
-      return ['ETH', 'USDC'];
-    } else if (network === 'icp') {
-      return ['ckETH', 'ckUSDC'];
-    }
-    return [];
+    return bridgeRouteRegistry.getSupportedTokens(network);
   }
 
-
   // Get supported bridge pairs
-  getSupportedBridgePairs(): Array<{ from: SupportedNetwork; to: SupportedNetwork; fromToken: SupportedToken; toToken: SupportedToken }> {
-    return [
-      { from: 'ethereum', to: 'icp', fromToken: 'ETH', toToken: 'ckETH' },
-      { from: 'ethereum', to: 'icp', fromToken: 'USDC', toToken: 'ckUSDC' },
-      { from: 'icp', to: 'ethereum', fromToken: 'ckETH', toToken: 'ETH' },
-      { from: 'icp', to: 'ethereum', fromToken: 'ckUSDC', toToken: 'USDC' },
-    ];
+  getSupportedBridgePairs(): SupportedBridgePair[] {
+    return bridgeRouteRegistry.getSupportedPairs();
+  }
+
+  // Check an address against the format rules of its network
+  validateAddress(network: SupportedNetwork, address: string): { valid: boolean; error?: string } {
+    return bridgeRouteRegistry.getNetwork(network).validateAddress(address);
   }
 
   // Get bridge transaction history with filters
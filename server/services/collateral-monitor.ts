@@ -0,0 +1,308 @@
+// Collateral Monitor Service - Re-prices crypto and precious metals collateral on active loans
+// The symbol and its reference price are fixed when the loan is originated from the admin's
+// approval. A loan's assetValue is moved with that symbol's market price since, and the loan's
+// current LTV (outstanding principal plus unpaid interest over that value) is checked against the
+// warning and liquidation thresholds. Borrowers get a margin call when a loan crosses one; loans
+// flagged for liquidation are left for an admin to act on.
+
+import { storage } from "../storage";
+import { pricingService } from "./pricing-service";
+import { pricingProviderRegistry } from "./pricing-providers";
+import { loanAccounting } from "./loan-accounting";
+import { loanPolicyService } from "./loan-policy";
+import { notificationService } from "./notification-service";
+import {
+  COLLATERAL_LTV_THRESHOLDS,
+  REVALUED_COLLATERAL_CATEGORIES,
+  type CollateralHealth,
+  type CollateralRiskLoan,
+  type PawnLoan,
+  type RwaSubmission,
+} from "@shared/schema";
+
+// How often active loans are revalued - matches the price history capture
+const REVALUATION_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+// A price snapshot this close to origination is used as the reference price
+const REFERENCE_SNAPSHOT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+type RevaluedCategory = typeof REVALUED_COLLATERAL_CATEGORIES[number];
+
+const HEALTH_SEVERITY: Record<CollateralHealth, number> = {
+  healthy: 0,
+  warning: 1,
+  liquidation: 2,
+};
+
+// Market collateral recorded on a loan at origination
+export interface OriginationCollateral {
+  symbol: string;
+  referencePrice: number;
+}
+
+export interface CollateralRevaluationSummary {
+  loansScanned: number;
+  revalued: number;
+  skipped: number;
+  stalePrices: number; // skipped because only an expired cached price was available
+  warnings: number;
+  liquidations: number;
+  marginCalls: number;
+  errors: Array<{ loanId: string; error: string }>;
+}
+
+export class CollateralMonitorService {
+  private static instance: CollateralMonitorService;
+  private revaluationTimer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  static getInstance(): CollateralMonitorService {
+    if (!CollateralMonitorService.instance) {
+      CollateralMonitorService.instance = new CollateralMonitorService();
+    }
+    return CollateralMonitorService.instance;
+  }
+
+  // Start the periodic collateral revaluation sweep
+  startRevaluationSchedule(): void {
+    if (this.revaluationTimer) {
+      return;
+    }
+
+    const runSweep = async () => {
+      try {
+        const summary = await this.revalueActiveLoans();
+        if (summary && (summary.revalued > 0 || summary.stalePrices > 0)) {
+          console.log(`Collateral revaluation sweep completed: ${summary.revalued} revalued, ${summary.stalePrices} skipped on stale prices, ${summary.warnings} warning, ${summary.liquidations} liquidation, ${summary.marginCalls} margin calls, ${summary.errors.length} errors`);
+        }
+      } catch (error) {
+        console.error("Error during collateral revaluation sweep:", error);
+      }
+    };
+
+    runSweep();
+    this.revaluationTimer = setInterval(runSweep, REVALUATION_SWEEP_INTERVAL_MS);
+  }
+
+  stopRevaluationSchedule(): void {
+    if (this.revaluationTimer) {
+      clearInterval(this.revaluationTimer);
+      this.revaluationTimer = null;
+    }
+  }
+
+  getHealth(ltv: number): CollateralHealth {
+    if (ltv >= COLLATERAL_LTV_THRESHOLDS.liquidation) {
+      return 'liquidation';
+    }
+    if (ltv >= COLLATERAL_LTV_THRESHOLDS.warning) {
+      return 'warning';
+    }
+    return 'healthy';
+  }
+
+  /**
+   * Revalue every active loan backed by crypto or precious metals. Returns undefined if a
+   * sweep is already running
+   */
+  async revalueActiveLoans(asOf: Date = new Date()): Promise<CollateralRevaluationSummary | undefined> {
+    if (this.isRunning) {
+      return undefined;
+    }
+    this.isRunning = true;
+
+    const summary: CollateralRevaluationSummary = {
+      loansScanned: 0,
+      revalued: 0,
+      skipped: 0,
+      stalePrices: 0,
+      warnings: 0,
+      liquidations: 0,
+      marginCalls: 0,
+      errors: [],
+    };
+
+    try {
+      const activeLoans = await storage.getActivePawnLoans();
+
+      for (const loan of activeLoans) {
+        try {
+          const submission = await storage.getRwaSubmission(loan.submissionId);
+          const category = submission && this.getRevaluedCategory(submission);
+          if (!submission || !category) {
+            continue;
+          }
+
+          summary.loansScanned++;
+          const revalued = await this.revalueLoan(loan, submission, category, asOf);
+          if (!revalued || revalued === 'stale_price') {
+            summary.skipped++;
+            if (revalued === 'stale_price') summary.stalePrices++;
+            continue;
+          }
+
+          summary.revalued++;
+          if (revalued.loan.collateralHealth === 'warning') summary.warnings++;
+          if (revalued.loan.collateralHealth === 'liquidation') summary.liquidations++;
+          if (revalued.marginCall) summary.marginCalls++;
+        } catch (error) {
+          console.error(`Error revaluing collateral for loan ${loan.id}:`, error);
+          summary.errors.push({ loanId: loan.id, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    return summary;
+  }
+
+  // Active loans at or past the warning threshold, riskiest first
+  async getRiskLoans(): Promise<CollateralRiskLoan[]> {
+    const rows = await storage.getCollateralRiskLoans();
+    return rows.map(({ loan, submission }) => ({
+      loanId: loan.id,
+      userId: loan.userId,
+      assetName: submission.assetName,
+      category: submission.category,
+      symbol: loan.collateralSymbol ?? '',
+      loanAmount: loan.loanAmount,
+      collateralValue: loan.collateralValue ?? loan.assetValue,
+      assetValue: loan.assetValue,
+      currentLtv: parseFloat(loan.currentLtv ?? '0'),
+      collateralHealth: loan.collateralHealth as CollateralHealth,
+      healthChangedAt: loan.collateralHealthChangedAt ? new Date(loan.collateralHealthChangedAt).toISOString() : null,
+      revaluedAt: loan.revaluedAt ? new Date(loan.revaluedAt).toISOString() : null,
+      expiryDate: new Date(loan.expiryDate).toISOString(),
+    }));
+  }
+
+  // Loan policy category of the submission, if its collateral is market-priced
+  getRevaluedCategory(submission: RwaSubmission): RevaluedCategory | undefined {
+    const category = loanPolicyService.resolveCategory(submission.category);
+    return (REVALUED_COLLATERAL_CATEGORIES as readonly string[]).includes(category ?? '')
+      ? category as RevaluedCategory
+      : undefined;
+  }
+
+  /**
+   * Price the symbol an admin named for a loan's collateral at origination. Undefined when the
+   * symbol isn't priced in this category or only fallback prices are available
+   */
+  async priceCollateralAtOrigination(category: RevaluedCategory, symbol: string): Promise<OriginationCollateral | undefined> {
+    const normalized = symbol.trim().toUpperCase();
+    try {
+      const pricing = await pricingService.getAssetPricing({ category, symbol: normalized, forceRefresh: false });
+      if (pricing.stale || pricingProviderRegistry.isFallbackOnly(category, pricing.sources) || !(pricing.median > 0)) {
+        return undefined;
+      }
+      return { symbol: normalized, referencePrice: pricing.median };
+    } catch (error) {
+      console.error(`Could not price ${category} collateral ${normalized} at origination:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Re-price one loan's collateral and record its current LTV. Undefined when the loan has no
+   * symbol, only fallback prices are available, or the loan closed meanwhile; 'stale_price' when
+   * every provider failed and only an expired cached price came back
+   */
+  private async revalueLoan(
+    loan: PawnLoan,
+    submission: RwaSubmission,
+    category: RevaluedCategory,
+    asOf: Date
+  ): Promise<{ loan: PawnLoan; marginCall: boolean } | 'stale_price' | undefined> {
+    const symbol = loan.collateralSymbol;
+    if (!symbol) {
+      return undefined;
+    }
+
+    const pricing = await pricingService.getAssetPricing({ category, symbol, forceRefresh: false });
+
+    // An expired price can't drive margin calls or health changes - the loan keeps its last valuation
+    if (pricing.stale) {
+      console.warn(`Skipped collateral revaluation for loan ${loan.id}: only a stale ${symbol} price is available`);
+      return 'stale_price';
+    }
+
+    // A fixed fallback price says nothing about the market and must not trigger a margin call
+    if (pricingProviderRegistry.isFallbackOnly(category, pricing.sources)) {
+      return undefined;
+    }
+
+    const referencePrice = loan.collateralReferencePrice
+      ? parseFloat(loan.collateralReferencePrice)
+      : await this.findReferencePrice(loan, category, symbol, pricing.median);
+
+    const collateralValue = parseFloat(loan.assetValue) * (pricing.median / referencePrice);
+    const unpaidInterest = Math.max(0, loanAccounting.calculateAccruedInterest(loan, asOf) - parseFloat(loan.interestPaid));
+    const debt = loanAccounting.getOutstandingPrincipal(loan) + unpaidInterest;
+    const currentLtv = collateralValue > 0 ? debt / collateralValue : Infinity;
+
+    const previousHealth = (loan.collateralHealth ?? 'healthy') as CollateralHealth;
+    const health = this.getHealth(currentLtv);
+    const healthChanged = health !== previousHealth;
+
+    const updated = await storage.updatePawnLoanCollateral(loan.id, {
+      collateralSymbol: symbol,
+      collateralReferencePrice: referencePrice.toString(),
+      collateralValue: collateralValue.toFixed(2),
+      currentLtv: Math.min(currentLtv, 999).toFixed(4),
+      collateralHealth: health,
+      collateralHealthChangedAt: healthChanged ? asOf : loan.collateralHealthChangedAt,
+      revaluedAt: asOf,
+    });
+    if (!updated) {
+      return undefined;
+    }
+
+    if (!healthChanged) {
+      return { loan: updated, marginCall: false };
+    }
+
+    await storage.createLoanEvent({
+      loanId: loan.id,
+      eventType: "collateral_health_changed",
+      metadata: {
+        previousHealth,
+        health,
+        currentLtv: currentLtv.toFixed(4),
+        collateralValue: collateralValue.toFixed(2),
+        symbol,
+        price: pricing.median,
+        referencePrice,
+      },
+    });
+
+    // Margin calls only go out when the loan gets riskier
+    if (HEALTH_SEVERITY[health] <= HEALTH_SEVERITY[previousHealth]) {
+      return { loan: updated, marginCall: false };
+    }
+
+    const notification = await notificationService.notifyMarginCall(updated, submission, health);
+    return { loan: updated, marginCall: !!notification };
+  }
+
+  /**
+   * The unit price assetValue corresponds to, for loans originated without one: the price
+   * snapshot at origination, else today's price (so the loan is tracked from now on)
+   */
+  private async findReferencePrice(
+    loan: PawnLoan,
+    category: RevaluedCategory,
+    symbol: string,
+    currentPrice: number
+  ): Promise<number> {
+    const originatedAt = new Date(loan.startDate ?? loan.createdAt ?? Date.now());
+    const snapshot = await storage.getPriceAt(category, symbol, originatedAt);
+    if (snapshot && originatedAt.getTime() - new Date(snapshot.capturedAt).getTime() <= REFERENCE_SNAPSHOT_MAX_AGE_MS) {
+      return parseFloat(snapshot.price);
+    }
+
+    return currentPrice;
+  }
+}
+
+export const collateralMonitor = CollateralMonitorService.getInstance();
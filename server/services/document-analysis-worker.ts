@@ -0,0 +1,174 @@
+// Document Analysis Worker - Pool of workers that drains the document analysis queue
+// Items are claimed under a lease (SELECT ... FOR UPDATE SKIP LOCKED, so several nodes can share the
+// queue) which a heartbeat renews while the analysis runs. If a node dies mid-analysis its items are
+// reclaimed once their leases run out. Retries, backoff and dead-lettering are up to the analysis service.
+
+import documentAnalysisService from "./document-analysis";
+import { storage } from "../storage";
+import type { DocumentAnalysisQueue } from "@shared/schema";
+
+// Documents analyzed at once on this node
+const CONCURRENCY = parseInt(process.env.DOCUMENT_WORKER_CONCURRENCY || "2", 10);
+
+// How often idle workers look for new or due items (uploads also wake the pool directly)
+const POLL_INTERVAL_MS = parseInt(process.env.DOCUMENT_WORKER_POLL_INTERVAL_MS || String(5 * 1000), 10);
+
+// Another worker may reclaim an item once its lease runs out without a heartbeat
+const LEASE_MS = 2 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+interface ActiveItem {
+  item: DocumentAnalysisQueue;
+  startedAt: Date;
+  heartbeat: NodeJS.Timeout;
+  controller: AbortController; // aborted when the lease is lost, so the analysis stops writing
+}
+
+export interface DocumentWorkerPoolStatus {
+  workerId: string;
+  running: boolean;
+  concurrency: number;
+  active: Array<{ queueId: string; documentId: string; attempt: number; startedAt: Date }>;
+  // Since this node started
+  completed: number;
+  failed: number;
+  leasesLost: number;
+}
+
+export class DocumentAnalysisWorkerPool {
+  private static instance: DocumentAnalysisWorkerPool;
+  private readonly workerId: string;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  private pollAgain = false;
+  private active = new Map<string, ActiveItem>();
+  private counters = { completed: 0, failed: 0, leasesLost: 0 };
+
+  private constructor() {
+    // Recorded as processingNode, so leases can only be renewed or released by the worker holding them
+    this.workerId = `${process.env.HOSTNAME || 'document-worker'}-${process.pid}-${Math.random().toString(36).substr(2, 6)}`;
+  }
+
+  static getInstance(): DocumentAnalysisWorkerPool {
+    if (!DocumentAnalysisWorkerPool.instance) {
+      DocumentAnalysisWorkerPool.instance = new DocumentAnalysisWorkerPool();
+    }
+    return DocumentAnalysisWorkerPool.instance;
+  }
+
+  startWorkers(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => this.wake(), POLL_INTERVAL_MS);
+    this.wake();
+    console.log(`Document analysis workers started (${this.workerId}, concurrency ${CONCURRENCY})`);
+  }
+
+  // Analyses already running are not interrupted - their leases lapse and other nodes pick them up
+  stopWorkers(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Claim work now instead of at the next poll, e.g. after an upload or a replay
+   */
+  wake(): void {
+    if (!this.pollTimer) {
+      return;
+    }
+    if (this.isPolling) {
+      this.pollAgain = true;
+      return;
+    }
+
+    this.poll().catch(error => {
+      console.error("Document analysis queue poll failed:", error);
+    });
+  }
+
+  getStatus(): DocumentWorkerPoolStatus {
+    return {
+      workerId: this.workerId,
+      running: this.pollTimer !== null,
+      concurrency: CONCURRENCY,
+      active: Array.from(this.active.values()).map(({ item, startedAt }) => ({
+        queueId: item.id,
+        documentId: item.documentId,
+        attempt: item.attempts,
+        startedAt,
+      })),
+      ...this.counters,
+    };
+  }
+
+  private async poll(): Promise<void> {
+    this.isPolling = true;
+    try {
+      do {
+        this.pollAgain = false;
+
+        const abandoned = await documentAnalysisService.deadLetterAbandonedQueueItems();
+        if (abandoned.length > 0) {
+          console.warn(`Dead-lettered ${abandoned.length} document analysis item(s) abandoned on their final attempt`);
+        }
+
+        const free = CONCURRENCY - this.active.size;
+        if (free <= 0) {
+          break;
+        }
+
+        const items = await storage.claimAnalysisQueueItems(this.workerId, free, LEASE_MS);
+        items.forEach(item => this.run(item));
+      } while (this.pollAgain);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private run(item: DocumentAnalysisQueue): void {
+    const heartbeat = setInterval(() => this.renewLease(item), HEARTBEAT_INTERVAL_MS);
+    const controller = new AbortController();
+    this.active.set(item.id, { item, startedAt: new Date(), heartbeat, controller });
+
+    documentAnalysisService.processQueuedDocument(item, this.workerId, controller.signal)
+      .then(result => {
+        if (!result) {
+          this.counters.leasesLost++;
+          console.warn(`Lease on queue item ${item.id} was lost before its outcome could be recorded`);
+        } else if (result.queueStatus === 'completed') {
+          this.counters.completed++;
+        } else {
+          this.counters.failed++;
+        }
+      })
+      .catch(error => {
+        // The outcome could not be stored - the lease lapses and the item is picked up again
+        this.counters.failed++;
+        console.error(`Document analysis worker failed on queue item ${item.id}:`, error);
+      })
+      .finally(() => {
+        clearInterval(heartbeat);
+        this.active.delete(item.id);
+        this.wake();
+      });
+  }
+
+  private async renewLease(item: DocumentAnalysisQueue): Promise<void> {
+    try {
+      const renewed = await storage.renewAnalysisQueueLease(item.id, this.workerId, LEASE_MS);
+      if (!renewed) {
+        console.warn(`Queue item ${item.id} is no longer leased by ${this.workerId}`);
+        this.active.get(item.id)?.controller.abort(new Error(`Lease on queue item ${item.id} was lost`));
+      }
+    } catch (error) {
+      console.error(`Heartbeat failed for queue item ${item.id}:`, error);
+    }
+  }
+}
+
+export const documentAnalysisWorker = DocumentAnalysisWorkerPool.getInstance();
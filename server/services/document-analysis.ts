@@ -1,6 +1,10 @@
-import textractService, { TextractService, TextractResult, AnalysisOptions } from './textract-service';
+import type { TextractResult, AnalysisOptions } from './textract-service';
+import { ocrProviderRegistry, type OcrProvider } from './ocr-providers';
 import fraudDetectionService, { FraudDetectionService, FraudDetectionResult } from './fraud-detection';
-import { storage } from '../storage';
+import { duplicateDetectionService } from './duplicate-detection';
+import { storage, type DocumentAnalysisQueueEntry } from '../storage';
+import { realtimeService } from './realtime';
+import { ObjectStorageService } from '../objectStorage';
 import { randomUUID } from 'crypto';
 import { createHash } from 'crypto';
 import { createReadStream } from 'fs';
@@ -38,8 +42,8 @@ interface DocumentAnalysisService {
   getFraudDetectionResult(documentId: string): Promise<DBFraudDetectionResult | null>;
   reanalyzeDocument(documentId: string, options?: Partial<AnalysisOptions>): Promise<DocumentAnalysisResult>;
   batchAnalyze(documentIds: string[], options?: Partial<AnalysisOptions>): Promise<BatchAnalysisResult>;
-  getAnalysisQueue(): Promise<DocumentAnalysisQueue[]>;
-  processQueuedDocument(queueId: string): Promise<void>;
+  getAnalysisQueue(): Promise<DocumentAnalysisQueueEntry[]>;
+  processQueuedDocument(queueItem: DocumentAnalysisQueue, workerId: string, signal?: AbortSignal): Promise<DocumentAnalysisQueue | undefined>;
   generateThumbnail(documentBuffer: Buffer, mimeType: string): Promise<Buffer | null>;
   validateDocument(file: UploadedFile): Promise<DocumentValidationResult>;
 }
@@ -68,7 +72,6 @@ interface DocumentProcessingResult {
 }
 
 class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
-  private textractService: TextractService;
   private fraudDetectionService: FraudDetectionService;
   
   // Configuration
@@ -82,8 +85,11 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
   private readonly THUMBNAIL_SIZE = { width: 300, height: 400 };
   private readonly PROCESSING_TIMEOUT = 5 * 60 * 1000; // 5 minutes
 
+  // Uploads are written to object storage before they are queued, so any node's workers can
+  // fetch them - nothing is held in memory between upload and analysis
+  private objectStorage = new ObjectStorageService();
+
   constructor() {
-    this.textractService = textractService;
     this.fraudDetectionService = fraudDetectionService;
   }
 
@@ -112,12 +118,12 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
         const thumbnailBuffer = await this.generateThumbnail(documentBuffer, mimeType);
         if (thumbnailBuffer) {
           // Save thumbnail to object storage
-          thumbnailUrl = await this.saveThumbnailToStorage(thumbnailBuffer, file.originalname);
+          thumbnailUrl = await this.saveThumbnailToStorage(thumbnailBuffer, file.originalname, userId);
         }
       }
 
       // Save document to object storage
-      const storageUrl = await this.saveDocumentToStorage(documentBuffer, file.originalname, mimeType);
+      const storageUrl = await this.saveDocumentToStorage(documentBuffer, file.originalname, mimeType, userId);
 
       // Create document record
       const documentData: InsertDocument = {
@@ -139,17 +145,9 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
       // Save to database
       const document = await storage.createDocument(documentData);
 
-      // Queue for analysis
+      // Queue for analysis by the worker pool
       await this.queueDocumentForAnalysis(document.id, uploadData.priority || 1);
 
-      // Start async analysis (don't wait for completion)
-      this.processDocumentAsync(document.id, documentBuffer, mimeType)
-        .catch(error => {
-          console.error(`Async document analysis failed for ${document.id}:`, error);
-          // Update document status to failed
-          storage.updateDocumentAnalysisStatus(document.id, 'failed');
-        });
-
       return document;
     } catch (error) {
       console.error('Document upload and analysis failed:', error);
@@ -169,7 +167,7 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
       }
 
       // Update status to processing
-      await storage.updateDocumentAnalysisStatus(documentId, 'processing');
+      await this.setAnalysisStatus(documentId, 'processing');
 
       // Download document from storage
       const documentBuffer = await this.downloadDocumentFromStorage(document.storageUrl);
@@ -178,14 +176,14 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
       const result = await this.processDocument(document, documentBuffer, options);
 
       // Update status to completed
-      await storage.updateDocumentAnalysisStatus(documentId, 'completed');
+      await this.setAnalysisStatus(documentId, 'completed');
 
       return result;
     } catch (error) {
       console.error(`Document analysis failed for ${documentId}:`, error);
       
       // Update status to failed
-      await storage.updateDocumentAnalysisStatus(documentId, 'failed');
+      await this.setAnalysisStatus(documentId, 'failed');
       
       throw error;
     }
@@ -248,44 +246,92 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
   /**
    * Get analysis queue
    */
-  async getAnalysisQueue(): Promise<DocumentAnalysisQueue[]> {
+  async getAnalysisQueue(): Promise<DocumentAnalysisQueueEntry[]> {
     return await storage.getAnalysisQueue();
   }
 
   /**
-   * Process a queued document
+   * Analyze a queue item claimed by a worker and record the outcome. A failed attempt is retried
+   * with exponential backoff until maxAttempts, then dead-lettered until an admin replays it.
+   * The worker aborts the signal if it loses the lease. Returns undefined if the lease was lost
    */
-  async processQueuedDocument(queueId: string): Promise<void> {
-    const queueItem = await storage.getAnalysisQueueItem(queueId);
-    if (!queueItem) {
-      throw new Error('Queue item not found');
-    }
+  async processQueuedDocument(queueItem: DocumentAnalysisQueue, workerId: string, signal?: AbortSignal): Promise<DocumentAnalysisQueue | undefined> {
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const abortOnLeaseLoss = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', abortOnLeaseLoss, { once: true });
+    const timer = setTimeout(
+      () => controller.abort(new Error(`Analysis timed out after ${this.PROCESSING_TIMEOUT / 1000}s`)),
+      this.PROCESSING_TIMEOUT
+    );
 
     try {
-      // Update queue status
-      await storage.updateAnalysisQueueStatus(queueId, 'processing', {
-        startedAt: new Date(),
-        processingNode: process.env.HOSTNAME || 'unknown',
-      });
+      const document = await storage.getDocument(queueItem.documentId);
+      if (!document) {
+        throw new Error('Document not found');
+      }
+
+      await this.setAnalysisStatus(document.id, 'processing');
+      const documentBuffer = await this.downloadDocumentFromStorage(document.storageUrl);
 
-      // Analyze document
-      await this.analyzeDocument(queueItem.documentId);
+      // Awaited even once aborted, so the item is never retried while this run can still write results
+      await this.processDocument(document, documentBuffer, {}, controller.signal);
 
-      // Mark queue item as completed
-      await storage.updateAnalysisQueueStatus(queueId, 'completed', {
+      const completed = await storage.releaseAnalysisQueueItem(queueItem.id, workerId, 'completed', {
         completedAt: new Date(),
+        actualProcessingTime: Math.round((Date.now() - startTime) / 1000),
       });
+      await this.setAnalysisStatus(document.id, 'completed');
+      return completed;
     } catch (error) {
-      console.error(`Queue processing failed for ${queueId}:`, error);
-      
-      // Update queue with error
-      await storage.updateAnalysisQueueStatus(queueId, 'failed', {
-        lastError: error instanceof Error ? error.message : 'Unknown error',
-        nextRetryAt: this.calculateNextRetryTime(queueItem.attempts + 1),
-      });
-      
-      throw error;
+      const lastError = error instanceof Error ? error.message : 'Unknown error';
+      const exhausted = queueItem.attempts >= queueItem.maxAttempts;
+      console.error(`Queue processing failed for ${queueItem.id} (attempt ${queueItem.attempts}/${queueItem.maxAttempts}):`, error);
+
+      const released = exhausted
+        ? await storage.releaseAnalysisQueueItem(queueItem.id, workerId, 'dead_letter', { lastError, deadLetteredAt: new Date() })
+        : await storage.releaseAnalysisQueueItem(queueItem.id, workerId, 'retrying', {
+            lastError,
+            nextRetryAt: this.calculateNextRetryTime(queueItem.attempts),
+          });
+
+      if (released) {
+        await this.setAnalysisStatus(queueItem.documentId, exhausted ? 'failed' : 'pending');
+      }
+      return released;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortOnLeaseLoss);
+    }
+  }
+
+  /**
+   * Dead-letter items whose worker stopped heartbeating during their final attempt
+   */
+  async deadLetterAbandonedQueueItems(): Promise<DocumentAnalysisQueue[]> {
+    const items = await storage.deadLetterAbandonedQueueItems();
+    for (const item of items) {
+      await this.setAnalysisStatus(item.documentId, 'failed');
     }
+    return items;
+  }
+
+  /**
+   * Make a queued or retrying item claimable now, skipping any remaining backoff
+   */
+  async expediteQueuedDocument(queueId: string): Promise<DocumentAnalysisQueue | undefined> {
+    return await storage.expediteAnalysisQueueItem(queueId);
+  }
+
+  /**
+   * Put a dead-lettered item back on the queue with a fresh set of attempts
+   */
+  async replayDeadLetteredDocument(queueId: string): Promise<DocumentAnalysisQueue | undefined> {
+    const item = await storage.replayDeadLetteredQueueItem(queueId);
+    if (item) {
+      await this.setAnalysisStatus(item.documentId, 'pending');
+    }
+    return item;
   }
 
   /**
@@ -334,6 +380,10 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
 
     if (!this.SUPPORTED_FORMATS.includes(detectedType)) {
       errors.push(`Unsupported file format: ${detectedType}`);
+    } else if (!ocrProviderRegistry.canAnalyze(detectedType)) {
+      // e.g. PDFs when only Tesseract is available, which reads images alone
+      const readable = this.SUPPORTED_FORMATS.filter(format => ocrProviderRegistry.canAnalyze(format));
+      errors.push(`${detectedType} documents can't be analyzed without AWS Textract configured. Please upload one of: ${readable.join(', ')}`);
     }
 
     // Generate checksum
@@ -353,37 +403,48 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
   /**
    * Private helper methods
    */
-  private async processDocumentAsync(documentId: string, documentBuffer: Buffer, mimeType: string): Promise<void> {
-    try {
-      const document = await storage.getDocument(documentId);
-      if (!document) return;
-
-      await this.processDocument(document, documentBuffer);
-    } catch (error) {
-      console.error(`Async processing failed for ${documentId}:`, error);
+  /**
+   * Update a document's analysis status and push it to the owner's realtime stream
+   */
+  private async setAnalysisStatus(documentId: string, status: Document['analysisStatus']): Promise<Document> {
+    const document = await storage.updateDocumentAnalysisStatus(documentId, status);
+    if (document) {
+      realtimeService.publish([`document:${document.id}`, `user:${document.userId}`], 'document.analysis', {
+        documentId: document.id,
+        analysisStatus: document.analysisStatus,
+      });
     }
+    return document;
   }
 
+  /**
+   * Run OCR, fraud and duplicate checks and store the results. Once the signal is aborted (timeout
+   * or lost lease) nothing more is written and the reason is thrown at the next step
+   */
   private async processDocument(
     document: Document, 
     documentBuffer: Buffer, 
-    options: Partial<AnalysisOptions> = {}
+    options: Partial<AnalysisOptions> = {},
+    signal?: AbortSignal
   ): Promise<DocumentAnalysisResult> {
     const startTime = Date.now();
+    let ocrProvider: OcrProvider | undefined;
 
     try {
       // Run OCR analysis
-      console.log(`Starting OCR analysis for document ${document.id}`);
-      const textractResult: TextractResult = await this.textractService.analyzeDocument(
+      ocrProvider = ocrProviderRegistry.getProviderFor(document.mimeType);
+      console.log(`Starting OCR analysis for document ${document.id} with ${ocrProvider.name}`);
+      const textractResult: TextractResult = await ocrProvider.analyzeDocument(
         documentBuffer,
         document.mimeType,
         options
       );
 
       // Save OCR results to database
+      signal?.throwIfAborted();
       const ocrResultData: InsertDocumentAnalysisResult = {
         documentId: document.id,
-        analysisProvider: 'textract',
+        analysisProvider: ocrProvider.name,
         ocrText: textractResult.ocrText,
         extractedData: textractResult.extractedData,
         boundingBoxes: textractResult.boundingBoxes,
@@ -407,6 +468,7 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
         );
 
         // Save fraud detection results
+        signal?.throwIfAborted();
         const fraudResultData: InsertFraudDetectionResult = {
           documentId: document.id,
           overallFraudScore: fraudResult.overallFraudScore.toString(),
@@ -417,7 +479,7 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
           metadataAnalysis: fraudResult.metadataAnalysis,
           patternMatches: fraudResult.patternMatches,
           crossReferenceChecks: fraudResult.crossReferenceChecks,
-          mlModelVersion: 'v1.0.0',
+          mlModelVersion: fraudResult.ruleSetVersion,
           confidence: fraudResult.confidence.toString(),
           requiresManualReview: fraudResult.requiresManualReview,
           reviewNotes: fraudResult.reviewNotes.join('\n'),
@@ -426,6 +488,17 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
         await storage.createFraudDetectionResult(fraudResultData);
       }
 
+      // Cross-submission duplicate check - a failure here shouldn't fail the analysis itself
+      signal?.throwIfAborted();
+      try {
+        const duplicateCheck = await duplicateDetectionService.checkDocument(document, documentBuffer, textractResult);
+        if (duplicateCheck.matches.length > 0) {
+          console.log(`Document ${document.id} matches ${duplicateCheck.matches.length} other submission(s)`);
+        }
+      } catch (error) {
+        console.error(`Duplicate detection failed for document ${document.id}:`, error);
+      }
+
       const processingTime = Date.now() - startTime;
       console.log(`Document analysis completed for ${document.id} in ${processingTime}ms`);
 
@@ -433,11 +506,14 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
     } catch (error) {
       const processingTime = Date.now() - startTime;
       console.error(`Document processing failed for ${document.id} after ${processingTime}ms:`, error);
+      if (signal?.aborted) {
+        throw error;
+      }
 
       // Save error result
       const errorResult: InsertDocumentAnalysisResult = {
         documentId: document.id,
-        analysisProvider: 'textract',
+        analysisProvider: ocrProvider?.name ?? 'none',
         errorMessage: error instanceof Error ? error.message : 'Unknown error',
         processingTime,
       };
@@ -458,35 +534,30 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
     await storage.addToAnalysisQueue(queueData);
   }
 
-  private async saveDocumentToStorage(buffer: Buffer, filename: string, mimeType: string): Promise<string> {
-    // This would integrate with the existing object storage
-    // For now, return a placeholder URL
+  private async saveDocumentToStorage(buffer: Buffer, filename: string, mimeType: string, userId: string): Promise<string> {
     const fileId = randomUUID();
     const extension = this.getFileExtension(filename);
-    const storageKey = `documents/${fileId}${extension}`;
-    
-    // TODO: Implement actual object storage upload
-    // const uploadResult = await objectStorage.upload(storageKey, buffer, mimeType);
-    // return uploadResult.url;
-    
-    return `https://storage.example.com/${storageKey}`;
+    return await this.objectStorage.uploadObjectEntity(`documents/${fileId}${extension}`, buffer, mimeType, {
+      owner: userId,
+      visibility: 'private',
+    });
   }
 
-  private async saveThumbnailToStorage(buffer: Buffer, originalFilename: string): Promise<string> {
+  private async saveThumbnailToStorage(buffer: Buffer, originalFilename: string, userId: string): Promise<string> {
     const fileId = randomUUID();
-    const storageKey = `thumbnails/${fileId}.jpg`;
-    
-    // TODO: Implement actual object storage upload for thumbnail
-    // const uploadResult = await objectStorage.upload(storageKey, buffer, 'image/jpeg');
-    // return uploadResult.url;
-    
-    return `https://storage.example.com/${storageKey}`;
+    return await this.objectStorage.uploadObjectEntity(`thumbnails/${fileId}.jpg`, buffer, 'image/jpeg', {
+      owner: userId,
+      visibility: 'private',
+    });
   }
 
+  // An empty or missing file fails the attempt rather than being analyzed as a clean document
   private async downloadDocumentFromStorage(storageUrl: string): Promise<Buffer> {
-    // TODO: Implement actual object storage download
-    // For now, return empty buffer
-    return Buffer.alloc(0);
+    const buffer = await this.objectStorage.readObjectEntity(storageUrl);
+    if (buffer.length === 0) {
+      throw new Error(`Document file at ${storageUrl} is empty`);
+    }
+    return buffer;
   }
 
   private calculateNextRetryTime(attemptNumber: number): Date {
@@ -544,7 +615,7 @@ class DocumentAnalysisServiceImpl implements DocumentAnalysisService {
     }
 
     // Reset status and re-queue
-    await storage.updateDocumentAnalysisStatus(documentId, 'pending');
+    await this.setAnalysisStatus(documentId, 'pending');
     await this.queueDocumentForAnalysis(documentId, 2); // High priority for retries
   }
 
@@ -0,0 +1,285 @@
+// Image forensics - EXIF and XMP metadata (editing software, edit history, capture and save times)
+// for every image, plus error level analysis for JPEGs: the photo is recompressed at a known
+// quality and areas whose error stands out from the rest of the picture are reported as regions.
+
+import sharp from "sharp";
+import exifr from "exifr";
+import { editingSoftwareFinding, modifiedAfterCreation, parseDate, timestampFindings } from "./metadata";
+import type { ForensicFinding, ForensicRegion, ForensicReport } from "./types";
+
+// Recompression quality for error level analysis
+const ELA_QUALITY = 90;
+// Side of the square cells error levels are compared over, in pixels - two JPEG blocks
+const ELA_CELL_SIZE = 16;
+// Larger images are skipped rather than decoded twice at full size
+const ELA_MAX_PIXELS = 40_000_000;
+// A cell stands out when its error is this many times that of cells with similar texture
+const ELA_MIN_SCORE_RATIO = 2.5;
+// Regions averaging this ratio or more are reported as high severity
+const ELA_STRONG_SCORE_RATIO = 4;
+// Floor for a texture band's median error, so flat areas with almost no error don't inflate scores
+const ELA_MIN_BAND_ERROR = 0.5;
+// Error levels (0-255) below this are compression noise, whatever the statistics say
+const ELA_MIN_ERROR = 1.5;
+// Cells are compared with others of similar detail, grouped into this many texture bands
+const ELA_TEXTURE_BANDS = 8;
+// Regions smaller than this many cells are treated as noise
+const ELA_MIN_REGION_CELLS = 4;
+// When more of the image than this stands out, it's texture rather than a pasted area
+const ELA_MAX_SUSPICIOUS_SHARE = 0.25;
+const ELA_MAX_REGIONS = 10;
+
+interface ImageMetadata {
+  Software?: string;
+  ProcessingSoftware?: string;
+  CreatorTool?: string;
+  History?: unknown;
+  DateTimeOriginal?: unknown;
+  CreateDate?: unknown;
+  ModifyDate?: unknown;
+  MetadataDate?: unknown;
+  Orientation?: unknown;
+}
+
+export async function analyzeImage(buffer: Buffer, mimeType: string): Promise<ForensicReport> {
+  const report: ForensicReport = {
+    format: mimeType === 'image/jpeg' ? 'jpeg' : 'image',
+    metadata: { software: [] },
+    findings: [],
+  };
+
+  let metadata: ImageMetadata = {};
+  try {
+    metadata = (await exifr.parse(buffer, {
+      tiff: true,
+      exif: true,
+      xmp: true,
+      ifd1: false,
+      gps: false,
+      icc: false,
+      iptc: false,
+      mergeOutput: true,
+      translateValues: false, // Keep Orientation numeric
+    })) ?? {};
+  } catch (error) {
+    console.warn('Image metadata could not be read:', error instanceof Error ? error.message : error);
+  }
+
+  const history = Array.isArray(metadata.History) ? metadata.History : metadata.History ? [metadata.History] : [];
+  const historySoftware = history
+    .map(event => (event && typeof event === 'object' ? (event as Record<string, unknown>).softwareAgent : undefined))
+    .filter((agent): agent is string => typeof agent === 'string');
+
+  report.metadata = {
+    software: Array.from(new Set([metadata.Software, metadata.ProcessingSoftware, metadata.CreatorTool, ...historySoftware]
+      .filter((value): value is string => typeof value === 'string' && value.trim().length > 0))),
+    creator: typeof metadata.CreatorTool === 'string' ? metadata.CreatorTool : undefined,
+    createdAt: parseDate(metadata.DateTimeOriginal) ?? parseDate(metadata.CreateDate),
+    modifiedAt: parseDate(metadata.ModifyDate) ?? parseDate(metadata.MetadataDate),
+  };
+
+  const editing = editingSoftwareFinding(report.metadata.software, 'Image');
+  if (editing) report.findings.push(editing);
+
+  report.findings.push(...timestampFindings(report.metadata.createdAt, report.metadata.modifiedAt));
+  if (modifiedAfterCreation(report.metadata.createdAt, report.metadata.modifiedAt)) {
+    report.findings.push({
+      check: 'timestamp_inconsistency',
+      severity: 'low',
+      description: 'Image was saved again after it was captured',
+      confidence: 0.4,
+      evidence: { capturedAt: report.metadata.createdAt, modifiedAt: report.metadata.modifiedAt, history },
+    });
+  }
+
+  if (report.format === 'jpeg') {
+    const orientation = typeof metadata.Orientation === 'number' ? metadata.Orientation : 1;
+    const finding = await errorLevelAnalysis(buffer, orientation, report);
+    if (finding) report.findings.push(finding);
+  }
+
+  return report;
+}
+
+/**
+ * Recompress the JPEG and compare each cell's luminance error with cells of similar texture.
+ * Error grows with detail, so text is compared with text and paper with paper, while an area
+ * pasted in from a differently compressed source stands out from both. Chroma is left out, as
+ * subsampling makes every sharp colour edge look like an outlier
+ */
+async function errorLevelAnalysis(buffer: Buffer, orientation: number, report: ForensicReport): Promise<ForensicFinding | null> {
+  let original: { data: Buffer; info: sharp.OutputInfo };
+  let recompressed: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    // Stored orientation, so the 8x8 block grid lines up with the file's own
+    const resaved = await sharp(buffer, { limitInputPixels: ELA_MAX_PIXELS }).jpeg({ quality: ELA_QUALITY }).toBuffer();
+    original = await sharp(buffer, { limitInputPixels: ELA_MAX_PIXELS }).grayscale().raw().toBuffer({ resolveWithObject: true });
+    recompressed = await sharp(resaved).grayscale().raw().toBuffer({ resolveWithObject: true });
+  } catch (error) {
+    console.warn('Error level analysis skipped:', error instanceof Error ? error.message : error);
+    return null;
+  }
+
+  const { width, height, channels } = original.info;
+  if (recompressed.info.channels !== channels || recompressed.info.width !== width || recompressed.info.height !== height) {
+    return null;
+  }
+
+  const columns = Math.ceil(width / ELA_CELL_SIZE);
+  const rows = Math.ceil(height / ELA_CELL_SIZE);
+  const errors = new Float64Array(columns * rows);
+  const textures = new Float64Array(columns * rows);
+  const scores = new Float64Array(columns * rows);
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let error = 0;
+      let texture = 0;
+      let samples = 0;
+      const xEnd = Math.min(width, (column + 1) * ELA_CELL_SIZE);
+      const yEnd = Math.min(height, (row + 1) * ELA_CELL_SIZE);
+      for (let y = row * ELA_CELL_SIZE; y < yEnd; y++) {
+        for (let x = column * ELA_CELL_SIZE; x < xEnd; x++) {
+          const index = (y * width + x) * channels;
+          error += Math.abs(original.data[index] - recompressed.data[index]);
+          if (x + 1 < xEnd) texture += Math.abs(original.data[index] - original.data[index + channels]);
+          if (y + 1 < yEnd) texture += Math.abs(original.data[index] - original.data[index + width * channels]);
+          samples++;
+        }
+      }
+      const cell = row * columns + column;
+      errors[cell] = error / samples;
+      textures[cell] = texture / samples;
+    }
+  }
+
+  // Score each cell against the median error of cells with similar texture
+  const byTexture = Array.from(textures.keys()).sort((a, b) => textures[a] - textures[b]);
+  const bandSize = Math.ceil(byTexture.length / ELA_TEXTURE_BANDS);
+  for (let start = 0; start < byTexture.length; start += bandSize) {
+    const band = byTexture.slice(start, start + bandSize);
+    const bandMedian = Math.max(median(band.map(cell => errors[cell])), ELA_MIN_BAND_ERROR);
+    band.forEach(cell => { scores[cell] = errors[cell] / bandMedian; });
+  }
+
+  const suspicious = new Uint8Array(columns * rows);
+  let suspiciousCells = 0;
+  for (let cell = 0; cell < scores.length; cell++) {
+    if (scores[cell] >= ELA_MIN_SCORE_RATIO && errors[cell] >= ELA_MIN_ERROR) {
+      suspicious[cell] = 1;
+      suspiciousCells++;
+    }
+  }
+
+  const sortedErrors = Array.from(errors).sort((a, b) => a - b);
+  report.errorLevel = {
+    quality: ELA_QUALITY,
+    medianError: Number(median(sortedErrors).toFixed(2)),
+    maxError: Number(sortedErrors[sortedErrors.length - 1].toFixed(2)),
+    suspiciousCells,
+    cells: scores.length,
+  };
+
+  if (suspiciousCells === 0 || suspiciousCells / scores.length > ELA_MAX_SUSPICIOUS_SHARE) {
+    return null;
+  }
+
+  const regions = findRegions(suspicious, scores, columns, rows)
+    .map(region => ({
+      left: (region.left * ELA_CELL_SIZE) / width,
+      top: (region.top * ELA_CELL_SIZE) / height,
+      width: Math.min(region.width * ELA_CELL_SIZE, width - region.left * ELA_CELL_SIZE) / width,
+      height: Math.min(region.height * ELA_CELL_SIZE, height - region.top * ELA_CELL_SIZE) / height,
+      score: region.score,
+    }))
+    .map(region => orientRegion(region, orientation))
+    .slice(0, ELA_MAX_REGIONS);
+
+  if (regions.length === 0) {
+    return null;
+  }
+
+  const strongest = regions[0].score ?? 0;
+  return {
+    check: 'error_level_analysis',
+    severity: strongest >= ELA_STRONG_SCORE_RATIO ? 'high' : 'medium',
+    description: `${regions.length} area(s) of the photo recompress differently from similar detail elsewhere in the image`,
+    confidence: strongest >= ELA_STRONG_SCORE_RATIO ? 0.65 : 0.45,
+    evidence: { ...report.errorLevel, scoreThreshold: ELA_MIN_SCORE_RATIO },
+    regions,
+  };
+}
+
+/**
+ * Connected groups of suspicious cells, in cell units, largest score first
+ */
+function findRegions(suspicious: Uint8Array, scores: Float64Array, columns: number, rows: number) {
+  const visited = new Uint8Array(suspicious.length);
+  const regions: Array<{ left: number; top: number; width: number; height: number; score: number }> = [];
+
+  for (let start = 0; start < suspicious.length; start++) {
+    if (!suspicious[start] || visited[start]) continue;
+
+    const stack = [start];
+    visited[start] = 1;
+    let minColumn = columns, minRow = rows, maxColumn = 0, maxRow = 0, cells = 0, total = 0;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+      cells++;
+      total += scores[cell];
+
+      const neighbours = [
+        column > 0 ? cell - 1 : -1,
+        column < columns - 1 ? cell + 1 : -1,
+        row > 0 ? cell - columns : -1,
+        row < rows - 1 ? cell + columns : -1,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour >= 0 && suspicious[neighbour] && !visited[neighbour]) {
+          visited[neighbour] = 1;
+          stack.push(neighbour);
+        }
+      }
+    }
+
+    if (cells >= ELA_MIN_REGION_CELLS) {
+      regions.push({
+        left: minColumn,
+        top: minRow,
+        width: maxColumn - minColumn + 1,
+        height: maxRow - minRow + 1,
+        score: Number((total / cells).toFixed(2)),
+      });
+    }
+  }
+
+  return regions.sort((a, b) => b.score - a.score);
+}
+
+// Map a region from stored pixel orientation to how viewers display the photo (EXIF orientation 3, 6 or 8)
+function orientRegion(region: ForensicRegion, orientation: number): ForensicRegion {
+  const { left, top, width, height } = region;
+  switch (orientation) {
+    case 3:
+      return { ...region, left: 1 - left - width, top: 1 - top - height };
+    case 6:
+      return { ...region, left: 1 - top - height, top: left, width: height, height: width };
+    case 8:
+      return { ...region, left: top, top: 1 - left - width, width: height, height: width };
+    default:
+      return region;
+  }
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
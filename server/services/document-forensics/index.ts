@@ -0,0 +1,24 @@
+// Document Forensics - Tampering checks on the uploaded file itself, independent of its text.
+// PDFs are checked for incremental updates, metadata and font inconsistencies; images for
+// editing software and timestamps in EXIF/XMP, and JPEGs additionally by error level analysis.
+
+import { analyzePdf } from "./pdf";
+import { analyzeImage } from "./image";
+import type { ForensicReport } from "./types";
+
+export * from "./types";
+
+export async function analyzeDocumentForensics(documentBuffer: Buffer, mimeType: string): Promise<ForensicReport> {
+  // Re-analysis without the original file has nothing to inspect
+  if (documentBuffer.length === 0) {
+    return { format: 'unsupported', metadata: { software: [] }, findings: [] };
+  }
+
+  if (mimeType === 'application/pdf') {
+    return analyzePdf(documentBuffer);
+  }
+  if (mimeType.startsWith('image/')) {
+    return analyzeImage(documentBuffer, mimeType);
+  }
+  return { format: 'unsupported', metadata: { software: [] }, findings: [] };
+}
@@ -0,0 +1,137 @@
+// Metadata checks common to PDFs and images - editing software named in the metadata and
+// creation/modification timestamps that contradict each other
+
+import type { ForensicFinding } from "./types";
+
+// Tools that edit an existing page or photo, rather than produce one from a source document
+const EDITING_SOFTWARE: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Adobe Photoshop', pattern: /photoshop/i },
+  { name: 'Adobe Illustrator', pattern: /illustrator/i },
+  { name: 'GIMP', pattern: /\bgimp\b/i },
+  { name: 'Paint.NET', pattern: /paint\.net/i },
+  { name: 'Microsoft Paint', pattern: /microsoft paint|\bmspaint\b/i },
+  { name: 'PaintShop Pro', pattern: /paintshop/i },
+  { name: 'Affinity Photo', pattern: /affinity photo/i },
+  { name: 'Pixelmator', pattern: /pixelmator/i },
+  { name: 'Photopea', pattern: /photopea/i },
+  { name: 'Canva', pattern: /\bcanva\b/i },
+  { name: 'Inkscape', pattern: /inkscape/i },
+  { name: 'Sejda', pattern: /sejda/i },
+  { name: 'PDFescape', pattern: /pdfescape/i },
+  { name: 'iLovePDF', pattern: /ilovepdf/i },
+  { name: 'Smallpdf', pattern: /smallpdf/i },
+  { name: 'PDF-XChange Editor', pattern: /pdf-xchange editor/i },
+  { name: 'Foxit PDF Editor', pattern: /foxit (phantompdf|pdf editor)/i },
+  { name: 'pdfFiller', pattern: /pdffiller/i },
+  { name: 'DocHub', pattern: /dochub/i },
+];
+
+// Image editors that can repaint content, as opposed to PDF tools that mostly annotate
+const IMAGE_EDITORS = new Set([
+  'Adobe Photoshop', 'GIMP', 'Paint.NET', 'Microsoft Paint', 'PaintShop Pro', 'Affinity Photo', 'Pixelmator', 'Photopea',
+]);
+
+// Allowed gap between capture/creation and modification before a later edit is assumed
+const MODIFICATION_TOLERANCE_MS = 60 * 1000;
+
+// Clock skew allowed before a timestamp counts as being in the future
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Names of known editing tools found in the given software fields
+ */
+export function findEditingSoftware(software: string[]): string[] {
+  const found = new Set<string>();
+  for (const value of software) {
+    for (const editor of EDITING_SOFTWARE) {
+      if (editor.pattern.test(value)) found.add(editor.name);
+    }
+  }
+  return Array.from(found);
+}
+
+export function editingSoftwareFinding(software: string[], source: string): ForensicFinding | null {
+  const editors = findEditingSoftware(software);
+  if (editors.length === 0) return null;
+
+  const imageEditor = editors.some(editor => IMAGE_EDITORS.has(editor));
+  return {
+    check: 'editing_software',
+    severity: imageEditor ? 'high' : 'medium',
+    description: `${source} was last saved with editing software: ${editors.join(', ')}`,
+    confidence: imageEditor ? 0.8 : 0.6,
+    evidence: { editors, software },
+  };
+}
+
+/**
+ * Contradictory or implausible creation and modification times
+ */
+export function timestampFindings(createdAt: Date | undefined, modifiedAt: Date | undefined, now = new Date()): ForensicFinding[] {
+  const findings: ForensicFinding[] = [];
+  const future = now.getTime() + FUTURE_TOLERANCE_MS;
+
+  const futureDates = [createdAt, modifiedAt].filter((date): date is Date => !!date && date.getTime() > future);
+  if (futureDates.length > 0) {
+    findings.push({
+      check: 'timestamp_inconsistency',
+      severity: 'high',
+      description: 'Metadata timestamps are in the future',
+      confidence: 0.8,
+      evidence: { createdAt, modifiedAt, futureDates },
+    });
+  }
+
+  if (createdAt && modifiedAt && modifiedAt.getTime() < createdAt.getTime() - MODIFICATION_TOLERANCE_MS) {
+    findings.push({
+      check: 'timestamp_inconsistency',
+      severity: 'high',
+      description: 'Modification date is earlier than the creation date',
+      confidence: 0.75,
+      evidence: { createdAt, modifiedAt },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * True when the file was saved again well after it was created or captured
+ */
+export function modifiedAfterCreation(createdAt: Date | undefined, modifiedAt: Date | undefined): boolean {
+  return !!createdAt && !!modifiedAt && modifiedAt.getTime() - createdAt.getTime() > MODIFICATION_TOLERANCE_MS;
+}
+
+/**
+ * Values of an XMP property, whether written as an element, an attribute or an rdf:Seq/Bag/Alt
+ */
+export function readXmpValues(xmp: string, property: string): string[] {
+  const name = property.replace('.', '\\.');
+  const values: string[] = [];
+
+  for (const match of Array.from(xmp.matchAll(new RegExp(`${name}="([^"]*)"`, 'g')))) {
+    values.push(match[1]);
+  }
+  for (const match of Array.from(xmp.matchAll(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`, 'g')))) {
+    const items = Array.from(match[1].matchAll(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/g)).map(item => item[1]);
+    values.push(...(items.length > 0 ? items : [match[1]]));
+  }
+
+  return values.map(value => decodeXmlEntities(value.trim())).filter(value => value.length > 0);
+}
+
+export function parseDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return isNaN(value.getTime()) ? undefined : value;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
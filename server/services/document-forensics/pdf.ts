@@ -0,0 +1,434 @@
+// PDF forensics - reads the file's raw structure rather than its rendered text. Every incremental
+// update (a save appended after the original %%EOF) is split out as a revision and checked for new
+// page content, fonts, annotations and signatures. The Info dictionary is compared against the XMP
+// metadata, and embedded fonts are checked for subsets added in separate editing sessions.
+
+import { inflateSync } from "zlib";
+import { editingSoftwareFinding, parseDate, readXmpValues, timestampFindings } from "./metadata";
+import type { ForensicFinding, ForensicReport, PdfRevision } from "./types";
+
+// Fonts viewers supply themselves, so leaving them unembedded is normal
+const STANDARD_FONTS = /^(Helvetica|Times|Courier|Symbol|ZapfDingbats|Arial|TimesNewRoman)/i;
+
+// Info and XMP creation dates further apart than this were written by different saves
+const DATE_MISMATCH_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+// Bytes after the final %%EOF beyond this are more than trailing padding
+const MAX_TRAILING_BYTES = 32;
+
+interface PdfObject {
+  number: number;
+  body: string; // Dictionary and stream text, latin1
+  offset: number; // Absolute offset of the "N G obj" header
+  streamStart?: number;
+  streamEnd?: number;
+}
+
+interface PdfRevisionObjects {
+  endOffset: number;
+  objects: PdfObject[];
+}
+
+export function analyzePdf(buffer: Buffer): ForensicReport {
+  const report: ForensicReport = { format: 'pdf', metadata: { software: [] }, findings: [] };
+
+  const header = buffer.subarray(0, 1024).toString('latin1');
+  if (!header.includes('%PDF-')) {
+    report.findings.push({
+      check: 'file_structure',
+      severity: 'high',
+      description: 'File is labelled as a PDF but has no PDF header',
+      confidence: 0.9,
+      evidence: { header: header.slice(0, 16) },
+    });
+    return report;
+  }
+
+  const content = buffer.toString('latin1');
+  const eofOffsets = Array.from(content.matchAll(/%%EOF[ \t]*(\r\n|\r|\n)?/g)).map(match => match.index! + match[0].length);
+  if (eofOffsets.length === 0) {
+    report.findings.push({
+      check: 'file_structure',
+      severity: 'medium',
+      description: 'PDF has no end-of-file marker, so it is truncated or was assembled by hand',
+      confidence: 0.6,
+      evidence: { fileSize: buffer.length },
+    });
+    return report;
+  }
+
+  const trailing = content.slice(eofOffsets[eofOffsets.length - 1]);
+  if (trailing.trim().length > MAX_TRAILING_BYTES) {
+    report.findings.push({
+      check: 'file_structure',
+      severity: 'medium',
+      description: 'Data is appended after the final end-of-file marker, where viewers ignore it',
+      confidence: 0.6,
+      evidence: { trailingBytes: trailing.length, sample: trailing.trim().slice(0, 64) },
+    });
+  }
+
+  const objects = readObjects(buffer, content);
+  const revisionObjects = splitRevisions(objects, eofOffsets);
+  const revisions = describeRevisions(revisionObjects);
+  report.revisions = revisions;
+  report.findings.push(...revisionFindings(revisions));
+
+  // Later definitions replace earlier ones, as a viewer would read the file
+  const current = new Map<number, PdfObject>();
+  revisionObjects.forEach(revision => revision.objects.forEach(object => current.set(object.number, object)));
+
+  const metadataFindings = analyzeMetadata(buffer, content, current, revisionObjects, report);
+  report.findings.push(...metadataFindings);
+
+  const fonts = readFonts(Array.from(current.values()));
+  report.fonts = fonts.list;
+  report.findings.push(...fonts.findings);
+
+  return report;
+}
+
+/**
+ * Every "N G obj ... endobj" in the file, plus the objects packed into compressed object streams
+ */
+function readObjects(buffer: Buffer, content: string): PdfObject[] {
+  const objects: PdfObject[] = [];
+  const objectPattern = /(\d+)\s+\d+\s+obj\b([\s\S]*?)\bendobj\b/g;
+
+  for (const match of Array.from(content.matchAll(objectPattern))) {
+    const offset = match.index!;
+    const body = match[2];
+    const object: PdfObject = { number: parseInt(match[1], 10), body, offset };
+
+    const streamKeyword = body.match(/\bstream(\r\n|\n|\r)/);
+    if (streamKeyword) {
+      const bodyOffset = offset + match[0].indexOf(body);
+      object.streamStart = bodyOffset + streamKeyword.index! + streamKeyword[0].length;
+      const streamEnd = body.lastIndexOf('endstream');
+      object.streamEnd = streamEnd > 0 ? bodyOffset + streamEnd : object.streamStart;
+    }
+    objects.push(object);
+
+    if (/\/Type\s*\/ObjStm\b/.test(body)) {
+      objects.push(...unpackObjectStream(buffer, object));
+    }
+  }
+
+  return objects;
+}
+
+function unpackObjectStream(buffer: Buffer, stream: PdfObject): PdfObject[] {
+  const data = readStream(buffer, stream);
+  const first = parseInt(stream.body.match(/\/First\s+(\d+)/)?.[1] ?? '', 10);
+  const count = parseInt(stream.body.match(/\/N\s+(\d+)/)?.[1] ?? '', 10);
+  if (!data || isNaN(first) || isNaN(count)) return [];
+
+  const index = data.slice(0, first).trim().split(/\s+/).map(Number);
+  const packed: PdfObject[] = [];
+  for (let i = 0; i < count && i * 2 + 1 < index.length; i++) {
+    const start = first + index[i * 2 + 1];
+    const end = i + 1 < count ? first + index[(i + 1) * 2 + 1] : data.length;
+    packed.push({ number: index[i * 2], body: data.slice(start, end), offset: stream.offset });
+  }
+  return packed;
+}
+
+// Stream contents as latin1 text, inflated when Flate-compressed
+function readStream(buffer: Buffer, object: PdfObject): string | null {
+  if (object.streamStart === undefined || object.streamEnd === undefined) return null;
+  const raw = buffer.subarray(object.streamStart, object.streamEnd);
+  if (!/\/FlateDecode\b/.test(object.body)) {
+    return raw.toString('latin1');
+  }
+  try {
+    return inflateSync(raw).toString('latin1');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Group objects by the save that wrote them. A linearized file's first %%EOF closes its first-page
+ * cross-reference section rather than a separate save, so it is folded into the original
+ */
+function splitRevisions(objects: PdfObject[], eofOffsets: number[]): PdfRevisionObjects[] {
+  const revisions: PdfRevisionObjects[] = eofOffsets.map(endOffset => ({ endOffset, objects: [] }));
+  for (const object of objects) {
+    const revision = revisions.find(candidate => object.offset < candidate.endOffset) ?? revisions[revisions.length - 1];
+    revision.objects.push(object);
+  }
+
+  if (revisions.length > 1 && revisions[0].objects.some(object => /\/Linearized\b/.test(object.body))) {
+    const [firstPage, original, ...updates] = revisions;
+    return [{ endOffset: original.endOffset, objects: [...firstPage.objects, ...original.objects] }, ...updates];
+  }
+  return revisions.filter((revision, index) => index === 0 || revision.objects.length > 0);
+}
+
+function describeRevisions(revisions: PdfRevisionObjects[]): PdfRevision[] {
+  const contentStreams = readContentReferences(revisions.flatMap(revision => revision.objects));
+  const defined = new Set<number>();
+  const knownFonts = new Set<string>();
+
+  return revisions.map((revision, index) => {
+    const redefined = new Set<number>();
+    const fonts = new Set<string>();
+    let changesPageContent = false;
+    let addsAnnotations = false;
+    let signed = false;
+
+    for (const object of revision.objects) {
+      if (defined.has(object.number)) redefined.add(object.number);
+
+      for (const font of readBaseFonts(object.body)) {
+        if (!knownFonts.has(font)) fonts.add(font);
+      }
+      if (contentStreams.has(object.number)) changesPageContent = true;
+      if (/\/Type\s*\/Annot\b|\/Subtype\s*\/(Widget|FreeText|Stamp|Ink)\b/.test(object.body)) addsAnnotations = true;
+      if (/\/Type\s*\/Sig\b|\/ByteRange\s*\[/.test(object.body)) signed = true;
+    }
+
+    revision.objects.forEach(object => defined.add(object.number));
+    fonts.forEach(font => knownFonts.add(font));
+
+    return {
+      revision: index + 1,
+      endOffset: revision.endOffset,
+      objectCount: revision.objects.length,
+      redefinedObjects: Array.from(redefined).sort((a, b) => a - b),
+      changesPageContent: index > 0 && changesPageContent,
+      addsFonts: index > 0 ? Array.from(fonts) : [],
+      addsAnnotations,
+      signed,
+    };
+  });
+}
+
+// Object numbers of page content streams, from every page's /Contents entry in any revision
+function readContentReferences(objects: PdfObject[]): Set<number> {
+  const references = new Set<number>();
+  for (const object of objects) {
+    if (!/\/Type\s*\/Page\b/.test(object.body)) continue;
+    const contents = object.body.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/)?.[1] ?? '';
+    for (const reference of Array.from(contents.matchAll(/(\d+)\s+\d+\s+R/g))) {
+      references.add(parseInt(reference[1], 10));
+    }
+  }
+  return references;
+}
+
+function revisionFindings(revisions: PdfRevision[]): ForensicFinding[] {
+  const findings: ForensicFinding[] = [];
+  const updates = revisions.slice(1);
+  if (updates.length === 0) return findings;
+
+  let signedBefore = revisions[0].signed;
+  const otherUpdates: PdfRevision[] = [];
+
+  for (const update of updates) {
+    const editsContent = update.changesPageContent || update.addsFonts.length > 0;
+    if (editsContent) {
+      findings.push({
+        check: 'incremental_update',
+        severity: signedBefore ? 'critical' : 'high',
+        description: signedBefore
+          ? `Page content was changed in revision ${update.revision}, after the document was signed`
+          : `Page content was changed in revision ${update.revision}, appended after the original document`,
+        confidence: 0.8,
+        evidence: { revision: update, totalRevisions: revisions.length },
+      });
+    } else if (!update.signed) {
+      otherUpdates.push(update);
+    }
+    signedBefore = signedBefore || update.signed;
+  }
+
+  if (otherUpdates.length > 0) {
+    const annotated = otherUpdates.some(update => update.addsAnnotations);
+    findings.push({
+      check: 'incremental_update',
+      severity: 'low',
+      description: annotated
+        ? `Annotations or form fields were added in ${otherUpdates.length} later revision(s)`
+        : `Document was re-saved ${otherUpdates.length} time(s) after it was created`,
+      confidence: 0.5,
+      evidence: { revisions: otherUpdates, totalRevisions: revisions.length },
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Producer, creator and dates from the Info dictionary and the XMP packet, checked against each other
+ */
+function analyzeMetadata(
+  buffer: Buffer,
+  content: string,
+  current: Map<number, PdfObject>,
+  revisions: PdfRevisionObjects[],
+  report: ForensicReport
+): ForensicFinding[] {
+  const findings: ForensicFinding[] = [];
+
+  const infoRefs = Array.from(content.matchAll(/\/Info\s+(\d+)\s+\d+\s+R/g));
+  const infoNumber = infoRefs.length > 0 ? parseInt(infoRefs[infoRefs.length - 1][1], 10) : undefined;
+  const info = infoNumber !== undefined ? current.get(infoNumber)?.body ?? '' : '';
+
+  const metadataObject = Array.from(current.values()).reverse().find(object => /\/Type\s*\/Metadata\b/.test(object.body) && /\/Subtype\s*\/XML\b/.test(object.body));
+  const xmp = metadataObject ? readStream(buffer, metadataObject) ?? '' : '';
+
+  const infoProducer = readPdfString(info, 'Producer');
+  const infoCreator = readPdfString(info, 'Creator');
+  const xmpProducer = readXmpValues(xmp, 'pdf:Producer')[0];
+  const xmpCreator = readXmpValues(xmp, 'xmp:CreatorTool')[0];
+  const history = readXmpValues(xmp, 'stEvt:softwareAgent');
+
+  const infoCreated = parsePdfDate(readPdfString(info, 'CreationDate'));
+  const infoModified = parsePdfDate(readPdfString(info, 'ModDate'));
+  const xmpCreated = parseDate(readXmpValues(xmp, 'xmp:CreateDate')[0]);
+  const xmpModified = parseDate(readXmpValues(xmp, 'xmp:ModifyDate')[0]);
+
+  report.metadata = {
+    producer: infoProducer ?? xmpProducer,
+    creator: infoCreator ?? xmpCreator,
+    software: Array.from(new Set([infoProducer, infoCreator, xmpProducer, xmpCreator, ...history].filter((value): value is string => !!value))),
+    createdAt: infoCreated ?? xmpCreated,
+    modifiedAt: infoModified ?? xmpModified,
+  };
+
+  const mismatches: Record<string, { info: string; xmp: string }> = {};
+  if (infoProducer && xmpProducer && !sameTool(infoProducer, xmpProducer)) mismatches.producer = { info: infoProducer, xmp: xmpProducer };
+  if (infoCreator && xmpCreator && !sameTool(infoCreator, xmpCreator)) mismatches.creator = { info: infoCreator, xmp: xmpCreator };
+
+  // Producers in the order each revision's Info dictionary recorded them - an update may write a new Info object
+  const producerHistory = revisions
+    .map(revision => revision.objects.filter(object => /\/Producer\b/.test(object.body) && !/\/Type\s*\//.test(object.body)).pop())
+    .map(object => object ? readPdfString(object.body, 'Producer') : undefined)
+    .filter((producer): producer is string => !!producer);
+  const changedProducers = Array.from(new Set(producerHistory));
+
+  if (Object.keys(mismatches).length > 0 || changedProducers.length > 1) {
+    findings.push({
+      check: 'producer_mismatch',
+      severity: 'medium',
+      description: changedProducers.length > 1
+        ? `Producer changed between revisions: ${changedProducers.join(' → ')}`
+        : 'Info dictionary and XMP metadata name different producing software',
+      confidence: 0.65,
+      evidence: { mismatches, producerHistory: changedProducers },
+    });
+  }
+
+  const editing = editingSoftwareFinding(report.metadata.software, 'PDF');
+  if (editing) findings.push(editing);
+
+  findings.push(...timestampFindings(report.metadata.createdAt, report.metadata.modifiedAt));
+  if (infoCreated && xmpCreated && Math.abs(infoCreated.getTime() - xmpCreated.getTime()) > DATE_MISMATCH_TOLERANCE_MS) {
+    findings.push({
+      check: 'timestamp_inconsistency',
+      severity: 'medium',
+      description: 'Info dictionary and XMP metadata disagree on when the document was created',
+      confidence: 0.6,
+      evidence: { infoCreated, xmpCreated },
+    });
+  }
+
+  return findings;
+}
+
+function readFonts(objects: PdfObject[]): { list: { name: string; embedded: boolean }[]; findings: ForensicFinding[] } {
+  const findings: ForensicFinding[] = [];
+
+  const embedded = new Set<string>();
+  for (const object of objects) {
+    if (/\/FontFile[23]?\b/.test(object.body)) {
+      const name = object.body.match(/\/FontName\s*\/([^\s/<>\[\]()]+)/)?.[1];
+      if (name) embedded.add(name);
+    }
+  }
+
+  const names = new Set<string>();
+  objects.forEach(object => readBaseFonts(object.body).forEach(font => names.add(font)));
+  const list = Array.from(names).map(name => ({ name, embedded: embedded.has(name) }));
+
+  // "ABCDEF+Garamond" - a subset prefix per embedding. Two prefixes for one font means text was set twice
+  const subsets = new Map<string, string[]>();
+  for (const { name } of list) {
+    const subset = name.match(/^([A-Z]{6})\+(.+)$/);
+    if (subset) subsets.set(subset[2], [...(subsets.get(subset[2]) ?? []), subset[1]]);
+  }
+  const resubset = Array.from(subsets.entries()).filter(([, prefixes]) => prefixes.length > 1);
+  if (resubset.length > 0) {
+    findings.push({
+      check: 'font_inconsistency',
+      severity: 'medium',
+      description: `Fonts embedded more than once as separate subsets: ${resubset.map(([font]) => font).join(', ')}`,
+      confidence: 0.55,
+      evidence: { fonts: Object.fromEntries(resubset) },
+    });
+  }
+
+  // A document that embeds its fonts, except for a few added in a font the editor didn't embed
+  const unembedded = list.filter(font => !font.embedded && !STANDARD_FONTS.test(font.name.replace(/^[A-Z]{6}\+/, '')));
+  const embeddedCount = list.length - list.filter(font => !font.embedded).length;
+  if (unembedded.length > 0 && embeddedCount > 0) {
+    findings.push({
+      check: 'font_inconsistency',
+      severity: 'low',
+      description: `Some fonts are embedded and others are not: ${unembedded.map(font => font.name).join(', ')}`,
+      confidence: 0.4,
+      evidence: { unembedded: unembedded.map(font => font.name), embeddedCount },
+    });
+  }
+
+  return { list, findings };
+}
+
+function readBaseFonts(body: string): string[] {
+  return Array.from(body.matchAll(/\/BaseFont\s*\/([^\s/<>\[\]()]+)/g)).map(match => match[1]);
+}
+
+function sameTool(a: string, b: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+  return normalize(a) === normalize(b) || normalize(a).includes(normalize(b)) || normalize(b).includes(normalize(a));
+}
+
+/**
+ * A string value from a PDF dictionary, e.g. /Producer (Acrobat Distiller) or /Producer <FEFF...>
+ */
+function readPdfString(dictionary: string, key: string): string | undefined {
+  const match = dictionary.match(new RegExp(`/${key}\\s*(\\((?:\\\\[\\s\\S]|[^\\\\)])*\\)|<[0-9A-Fa-f\\s]*>)`));
+  if (!match) return undefined;
+
+  const token = match[1];
+  let bytes: string;
+  if (token.startsWith('<')) {
+    const hex = token.slice(1, -1).replace(/\s+/g, '');
+    bytes = Buffer.from(hex.length % 2 ? `${hex}0` : hex, 'hex').toString('latin1');
+  } else {
+    bytes = token.slice(1, -1).replace(/\\(\d{1,3}|[\s\S])/g, (_, escape: string) => {
+      if (/^\d+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+      const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '\n': '', '\r': '' };
+      return escapes[escape] ?? escape;
+    });
+  }
+
+  // UTF-16BE with a byte order mark, otherwise PDFDocEncoding (close enough to latin1 for metadata)
+  if (bytes.startsWith('þÿ')) {
+    const utf16 = Buffer.from(bytes.slice(2, bytes.length - (bytes.length % 2)), 'latin1');
+    utf16.swap16();
+    return utf16.toString('utf16le').trim() || undefined;
+  }
+  return bytes.trim() || undefined;
+}
+
+// D:YYYYMMDDHHmmSSOHH'mm'
+function parsePdfDate(value: string | undefined): Date | undefined {
+  const match = value?.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+\-])?(\d{2})?'?(\d{2})?/);
+  if (!match) return undefined;
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+  const zone = !sign || sign.toUpperCase() === 'Z' ? 'Z' : `${sign}${offsetHours}:${offsetMinutes}`;
+  return parseDate(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+}
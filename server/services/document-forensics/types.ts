@@ -0,0 +1,66 @@
+// Forensic findings shared by the PDF and image analyzers
+
+export const FORENSIC_CHECKS = [
+  'file_structure',
+  'incremental_update',
+  'producer_mismatch',
+  'font_inconsistency',
+  'editing_software',
+  'timestamp_inconsistency',
+  'error_level_analysis',
+] as const;
+
+export type ForensicCheck = typeof FORENSIC_CHECKS[number];
+
+export type ForensicSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * An area of the document to highlight, as fractions of the page like OCR bounding boxes.
+ * Image regions are in display orientation, after EXIF rotation
+ */
+export interface ForensicRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  page?: number; // PDFs only, 1-based
+  score?: number; // How far the region stands out, for error level analysis
+}
+
+export interface ForensicFinding {
+  check: ForensicCheck;
+  severity: ForensicSeverity;
+  description: string;
+  confidence: number; // 0-1
+  evidence: Record<string, unknown>;
+  regions?: ForensicRegion[];
+}
+
+// One save of a PDF - the original file, then one entry per incremental update appended to it
+export interface PdfRevision {
+  revision: number; // 1 = original
+  endOffset: number; // Byte offset just past this revision's %%EOF
+  objectCount: number;
+  redefinedObjects: number[]; // Object numbers replaced from an earlier revision
+  changesPageContent: boolean; // Adds content streams, i.e. page text or graphics
+  addsFonts: string[];
+  addsAnnotations: boolean;
+  signed: boolean;
+}
+
+export interface ForensicMetadata {
+  producer?: string;
+  creator?: string;
+  software: string[]; // Every tool named in the metadata, including XMP history
+  createdAt?: Date;
+  modifiedAt?: Date;
+}
+
+export interface ForensicReport {
+  format: 'pdf' | 'jpeg' | 'image' | 'unsupported';
+  metadata: ForensicMetadata;
+  findings: ForensicFinding[];
+  revisions?: PdfRevision[];
+  fonts?: { name: string; embedded: boolean }[];
+  errorLevel?: { quality: number; medianError: number; maxError: number; suspiciousCells: number; cells: number };
+}
@@ -0,0 +1,227 @@
+// Duplicate Detection Service - Finds the same asset submitted by different users. Photos are
+// indexed by a perceptual hash that survives resizing, recompression and small edits, and
+// extracted serial numbers are indexed in a normalized form. A match against another user's
+// document raises one duplicate_submission fraud alert linking both submissions.
+
+import sharp from "sharp";
+import { storage, type DocumentFingerprintMatch } from "../storage";
+import { adminService } from "./admin-service";
+import type { TextractResult } from "./textract-service";
+import type { Document, DocumentFingerprint } from "@shared/schema";
+
+// Images are shrunk to this square before the DCT, as in the standard pHash
+const HASH_IMAGE_SIZE = 32;
+// Low-frequency DCT coefficients kept per axis - 8x8 gives a 64-bit hash
+const HASH_DCT_SIZE = 8;
+
+// Hashes at most this many bits apart (out of 64) are treated as the same photo
+export const MAX_HASH_DISTANCE = 10;
+
+// Near-blank images (plain backgrounds, empty scans) all hash alike, so they aren't indexed
+const MIN_PIXEL_STDEV = 4;
+
+// Shorter serials, or ones without a digit, are too generic to identify an asset
+const MIN_SERIAL_LENGTH = 4;
+
+// cos((2x + 1) * u * pi / 2N) for the coefficients kept
+const DCT_COSINES = Array.from({ length: HASH_DCT_SIZE }, (_, u) =>
+  Array.from({ length: HASH_IMAGE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * HASH_IMAGE_SIZE)))
+);
+
+export interface DuplicateMatch {
+  submissionId: string;
+  documentId: string;
+  userId: string;
+  matchTypes: Array<'perceptual_hash' | 'serial_number'>;
+  hashDistance: number | null;
+}
+
+export interface DuplicateCheckResult {
+  fingerprint: DocumentFingerprint | null;
+  matches: DuplicateMatch[];
+  alertsRaised: number;
+}
+
+export class DuplicateDetectionService {
+  private static instance: DuplicateDetectionService;
+
+  static getInstance(): DuplicateDetectionService {
+    if (!DuplicateDetectionService.instance) {
+      DuplicateDetectionService.instance = new DuplicateDetectionService();
+    }
+    return DuplicateDetectionService.instance;
+  }
+
+  /**
+   * Fingerprint an analyzed document, look for other users' documents with the same photo or
+   * serial number and raise an alert for each submission matched for the first time
+   */
+  async checkDocument(document: Document, documentBuffer: Buffer, textractResult: TextractResult): Promise<DuplicateCheckResult> {
+    const perceptualHash = document.mimeType.startsWith('image/') && documentBuffer.length > 0
+      ? await this.computePerceptualHash(documentBuffer)
+      : null;
+    const serialNumber = textractResult.extractedData.documentType === 'nft_certificate'
+      ? null // Token IDs repeat across collections, so they don't identify an asset on their own
+      : normalizeSerialNumber(textractResult.extractedData.serialNumber);
+
+    if (!perceptualHash && !serialNumber) {
+      return { fingerprint: null, matches: [], alertsRaised: 0 };
+    }
+
+    const fingerprint = await storage.upsertDocumentFingerprint({
+      documentId: document.id,
+      submissionId: document.submissionId,
+      userId: document.userId,
+      perceptualHash,
+      serialNumber,
+    });
+
+    const matches = groupBySubmission(await storage.findDocumentFingerprintMatches(fingerprint, MAX_HASH_DISTANCE));
+    let alertsRaised = 0;
+    for (const match of matches) {
+      if (await this.raiseDuplicateAlert(document, fingerprint, match)) {
+        alertsRaised++;
+      }
+    }
+
+    return { fingerprint, matches, alertsRaised };
+  }
+
+  /**
+   * 64-bit DCT perceptual hash as 16 hex characters, or null for images that can't be decoded or
+   * have too little detail to tell apart
+   */
+  async computePerceptualHash(imageBuffer: Buffer): Promise<string | null> {
+    let pixels: Buffer;
+    try {
+      pixels = await sharp(imageBuffer)
+        .rotate()
+        .grayscale()
+        .resize(HASH_IMAGE_SIZE, HASH_IMAGE_SIZE, { fit: 'fill' })
+        .raw()
+        .toBuffer();
+    } catch (error) {
+      console.error('Perceptual hash failed:', error);
+      return null;
+    }
+
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+    const variance = pixels.reduce((sum, value) => sum + (value - mean) ** 2, 0) / pixels.length;
+    if (Math.sqrt(variance) < MIN_PIXEL_STDEV) {
+      return null;
+    }
+
+    const coefficients: number[] = [];
+    for (let u = 0; u < HASH_DCT_SIZE; u++) {
+      for (let v = 0; v < HASH_DCT_SIZE; v++) {
+        let sum = 0;
+        for (let y = 0; y < HASH_IMAGE_SIZE; y++) {
+          const rowCosine = DCT_COSINES[u][y];
+          for (let x = 0; x < HASH_IMAGE_SIZE; x++) {
+            sum += pixels[y * HASH_IMAGE_SIZE + x] * rowCosine * DCT_COSINES[v][x];
+          }
+        }
+        coefficients.push(sum);
+      }
+    }
+
+    const median = [...coefficients].sort((a, b) => a - b)[coefficients.length / 2];
+    let hash = BigInt(0);
+    for (const coefficient of coefficients) {
+      hash = (hash << BigInt(1)) | (coefficient > median ? BigInt(1) : BigInt(0));
+    }
+    return hash.toString(16).padStart(16, '0');
+  }
+
+  private async raiseDuplicateAlert(document: Document, fingerprint: DocumentFingerprint, match: DuplicateMatch): Promise<boolean> {
+    // One alert per pair of submissions, whichever of them was analyzed first and however it was resolved
+    const existingAlerts = await storage.getFraudAlertsForTarget(document.submissionId);
+    const alreadyFlagged = existingAlerts.some(alert =>
+      alert.alertType === 'duplicate_submission' &&
+      (alert.targetId === match.submissionId || alert.relatedTargetId === match.submissionId)
+    );
+    if (alreadyFlagged) {
+      return false;
+    }
+
+    const imageMatch = match.matchTypes.includes('perceptual_hash');
+    const serialMatch = match.matchTypes.includes('serial_number');
+
+    const result = await adminService.createFraudAlert({
+      alertType: 'duplicate_submission',
+      severity: imageMatch && serialMatch ? 'critical' : 'high',
+      targetType: 'submission',
+      targetId: document.submissionId,
+      relatedTargetId: match.submissionId,
+      userId: document.userId,
+      alertData: {
+        rule: 'duplicate_submission',
+        matchTypes: match.matchTypes,
+        submissionId: document.submissionId,
+        documentId: document.id,
+        matchedSubmissionId: match.submissionId,
+        matchedDocumentId: match.documentId,
+        matchedUserId: match.userId,
+        hashDistance: match.hashDistance,
+        serialNumber: serialMatch ? fingerprint.serialNumber : undefined,
+        // A near-identical photo is weaker evidence than the same serial number
+        evidenceStrength: serialMatch ? 1.0 : 1 - (match.hashDistance ?? 0) / 64,
+      },
+      evidence: {
+        perceptualHash: fingerprint.perceptualHash,
+        maxHashDistance: MAX_HASH_DISTANCE,
+      },
+    });
+
+    if (!result.success) {
+      return false;
+    }
+    console.warn(`Duplicate submission alert raised: ${document.submissionId} matches ${match.submissionId} (${match.matchTypes.join(', ')})`);
+    return true;
+  }
+}
+
+/**
+ * Uppercase letters and digits only, so "sn 12-345/a" and "SN12345A" index the same. Returns
+ * null for serials too generic to match on
+ */
+export function normalizeSerialNumber(serialNumber: string | undefined | null): string | null {
+  if (!serialNumber) return null;
+  const normalized = serialNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (normalized.length < MIN_SERIAL_LENGTH || !/\d/.test(normalized)) {
+    return null;
+  }
+  return normalized;
+}
+
+// Collapse document-level matches into one per submission, keeping the closest image match
+function groupBySubmission(matches: DocumentFingerprintMatch[]): DuplicateMatch[] {
+  const bySubmission = new Map<string, DuplicateMatch>();
+
+  for (const { fingerprint, hashDistance, serialMatch } of matches) {
+    const existing = bySubmission.get(fingerprint.submissionId) ?? {
+      submissionId: fingerprint.submissionId,
+      documentId: fingerprint.documentId,
+      userId: fingerprint.userId,
+      matchTypes: [],
+      hashDistance: null,
+    };
+
+    if (hashDistance !== null && !existing.matchTypes.includes('perceptual_hash')) {
+      existing.matchTypes.push('perceptual_hash');
+    }
+    if (serialMatch && !existing.matchTypes.includes('serial_number')) {
+      existing.matchTypes.push('serial_number');
+    }
+    if (hashDistance !== null && (existing.hashDistance === null || hashDistance < existing.hashDistance)) {
+      existing.hashDistance = hashDistance;
+      existing.documentId = fingerprint.documentId;
+    }
+
+    bySubmission.set(fingerprint.submissionId, existing);
+  }
+
+  return Array.from(bySubmission.values());
+}
+
+export const duplicateDetectionService = DuplicateDetectionService.getInstance();
@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
 
 interface ContactFormData {
   name: string;
@@ -9,21 +10,49 @@ interface ContactFormData {
   priority: string;
 }
 
+interface NotificationEmail {
+  to: string;
+  subject: string;
+  message: string;
+  link?: string | null;
+  // Why the recipient gets this email, completing "You are receiving this email because ..."
+  reason?: string;
+}
+
+const SITE_URL = process.env.SITE_URL || 'https://rwapawn.io';
+
+// Escape a value for HTML text or a quoted attribute, so user-supplied text can't inject markup
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export class EmailService {
   private transporter: nodemailer.Transporter;
 
-  constructor() {
+  constructor(transportOptions: SMTPTransport.Options = EmailService.transportOptionsFromEnv()) {
     // Configure the email transporter
-    // Using a generic SMTP configuration that can be configured via environment variables
-    this.transporter = nodemailer.createTransport({
+    // Pass explicit options (e.g. a local mail catcher on localhost:1025) to override the environment
+    this.transporter = nodemailer.createTransport(transportOptions);
+  }
+
+  // Generic SMTP configuration read from environment variables
+  static transportOptionsFromEnv(): SMTPTransport.Options {
+    return {
       host: process.env.SMTP_HOST || 'smtp.gmail.com',
       port: parseInt(process.env.SMTP_PORT || '587'),
       secure: process.env.SMTP_SECURE === 'true', // true for 465, false for other ports
-      auth: {
+      ignoreTLS: process.env.SMTP_IGNORE_TLS === 'true', // plain SMTP for local mail catchers
+      // Local mail catchers accept unauthenticated mail, so only send credentials when configured
+      auth: process.env.SMTP_USER ? {
         user: process.env.SMTP_USER,
         pass: process.env.SMTP_PASS,
-      },
-    });
+      } : undefined,
+    };
   }
 
   async sendContactFormSubmission(formData: ContactFormData): Promise<boolean> {
@@ -33,14 +62,14 @@ export class EmailService {
       // Create email content
       const htmlContent = `
         <h2>New Contact Form Submission - RWAPAWN</h2>
-        <p><strong>From:</strong> ${name} (${email})</p>
-        <p><strong>Subject:</strong> ${subject}</p>
-        <p><strong>Category:</strong> ${category}</p>
-        <p><strong>Priority:</strong> ${priority}</p>
+        <p><strong>From:</strong> ${escapeHtml(name)} (${escapeHtml(email)})</p>
+        <p><strong>Subject:</strong> ${escapeHtml(subject)}</p>
+        <p><strong>Category:</strong> ${escapeHtml(category)}</p>
+        <p><strong>Priority:</strong> ${escapeHtml(priority)}</p>
         <p><strong>Website:</strong> https://rwapawn.io</p>
         <hr>
         <h3>Message:</h3>
-        <p>${message.replace(/\n/g, '<br>')}</p>
+        <p>${escapeHtml(message).replace(/\n/g, '<br>')}</p>
         <hr>
         <p><em>This message was sent from the RWAPAWN contact form at https://rwapawn.io/contact-us</em></p>
       `;
@@ -81,6 +110,46 @@ This message was sent from the RWAPAWN contact form at https://rwapawn.io/contac
     }
   }
 
+  async sendNotificationEmail(notification: NotificationEmail): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { to, subject, message, link, reason = 'you have an account' } = notification;
+      const url = link ? `${SITE_URL}${link}` : SITE_URL;
+
+      const htmlContent = `
+        <h2>${escapeHtml(subject)}</h2>
+        <p>${escapeHtml(message).replace(/\n/g, '<br>')}</p>
+        <p><a href="${escapeHtml(url)}">View in RWAPAWN</a></p>
+        <hr>
+        <p><em>You are receiving this email because ${escapeHtml(reason)} at ${escapeHtml(SITE_URL)}</em></p>
+      `;
+
+      const textContent = `
+${subject}
+
+${message}
+
+View in RWAPAWN: ${url}
+
+---
+You are receiving this email because ${reason} at ${SITE_URL}
+      `;
+
+      const result = await this.transporter.sendMail({
+        from: process.env.SMTP_FROM || 'noreply@rwapawn.io',
+        to,
+        subject: `[RWAPAWN] ${subject}`,
+        text: textContent,
+        html: htmlContent,
+      });
+      console.log('Notification email sent successfully:', result.messageId);
+      return { success: true };
+
+    } catch (error) {
+      console.error('Failed to send notification email:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   async verifyConnection(): Promise<boolean> {
     try {
       await this.transporter.verify();
@@ -1,5 +1,7 @@
 import { createHash } from 'crypto';
 import { TextractResult } from './textract-service';
+import { fraudRuleService, type ActiveFraudRuleSet, type FraudTemplate } from './fraud-rules';
+import { analyzeDocumentForensics, type ForensicCheck, type ForensicFinding, type ForensicRegion, type ForensicReport } from './document-forensics';
 
 interface FraudDetectionConfig {
   enableImageAnalysis: boolean;
@@ -22,14 +24,17 @@ interface FraudDetectionResult {
   confidence: number; // 0-1, confidence in the fraud assessment
   requiresManualReview: boolean;
   reviewNotes: string[];
+  ruleSetVersion: string; // Fraud rule set the document was scored under, e.g. rules-v3
 }
 
 interface FraudIssue {
-  type: 'text_inconsistency' | 'layout_anomaly' | 'metadata_tampering' | 'known_fraud_pattern' | 'suspicious_content';
+  type: 'text_inconsistency' | 'layout_anomaly' | 'metadata_tampering' | 'image_manipulation' | 'known_fraud_pattern' | 'suspicious_content';
   severity: 'low' | 'medium' | 'high' | 'critical';
   description: string;
   evidence: any;
   confidence: number;
+  check?: ForensicCheck; // Forensic check that raised the issue
+  regions?: ForensicRegion[]; // Areas of the document for viewers to highlight
 }
 
 interface MetadataAnalysisResult {
@@ -39,12 +44,14 @@ interface MetadataAnalysisResult {
   softwareUsed?: string[];
   suspiciousMetadata: boolean;
   metadataConsistency: number; // 0-1
+  forensics?: Omit<ForensicReport, 'findings'>; // Revisions, fonts and error levels behind the issues
 }
 
 interface PatternMatch {
   patternType: 'known_fraud' | 'template_mismatch' | 'suspicious_format';
   matchConfidence: number;
   description: string;
+  severity?: FraudIssue['severity']; // Severity of the rule that matched, for known fraud patterns
   evidence: any;
 }
 
@@ -55,23 +62,8 @@ interface CrossReferenceResult {
   details: string;
 }
 
-interface DocumentTemplate {
-  id: string;
-  templateName: string;
-  documentType: string;
-  issuerName: string;
-  expectedFields: string[];
-  validationRules: Record<string, any>;
-  layoutSignature: string;
-  securityFeatures: string[];
-  confidence: number;
-}
-
 class FraudDetectionService {
   private config: FraudDetectionConfig;
-  private knownFraudPatterns: Map<string, number> = new Map();
-  private documentTemplates: Map<string, DocumentTemplate> = new Map();
-  private blacklistedSerials: Set<string> = new Set();
 
   constructor(config: Partial<FraudDetectionConfig> = {}) {
     this.config = {
@@ -83,79 +75,6 @@ class FraudDetectionService {
       mlModelVersion: '1.0.0',
       ...config,
     };
-
-    this.initializeFraudPatterns();
-    this.initializeDocumentTemplates();
-    this.initializeBlacklists();
-  }
-
-  /**
-   * Initialize known fraud patterns
-   */
-  private initializeFraudPatterns(): void {
-    // Add common fraud patterns
-    this.knownFraudPatterns.set('fake.*certificate', 0.9);
-    this.knownFraudPatterns.set('counterfeit.*authentic', 0.95);
-    this.knownFraudPatterns.set('replica.*original', 0.8);
-    this.knownFraudPatterns.set('copy.*document', 0.7);
-    this.knownFraudPatterns.set('sample.*template', 0.85);
-    this.knownFraudPatterns.set('not.*valid', 0.9);
-    this.knownFraudPatterns.set('temporary.*certificate', 0.8);
-    this.knownFraudPatterns.set('draft.*final', 0.7);
-  }
-
-  /**
-   * Initialize document templates
-   */
-  private initializeDocumentTemplates(): void {
-    // Add sample document templates
-    this.documentTemplates.set('coa', {
-      id: 'coa-standard',
-      templateName: 'Standard Certificate of Authenticity',
-      documentType: 'coa',
-      issuerName: 'Certified Authority',
-      expectedFields: ['certificate', 'authentic', 'issued', 'date', 'signature'],
-      validationRules: {},
-      layoutSignature: 'coa-layout-v1',
-      securityFeatures: ['watermark', 'seal', 'signature'],
-      confidence: 0.9,
-    });
-
-    this.documentTemplates.set('nft_certificate', {
-      id: 'nft-standard',
-      templateName: 'NFT Authenticity Certificate',
-      documentType: 'nft_certificate',
-      issuerName: 'NFT Platform',
-      expectedFields: ['nft', 'token', 'blockchain', 'contract', 'owner'],
-      validationRules: {},
-      layoutSignature: 'nft-layout-v1',
-      securityFeatures: ['qr_code', 'blockchain_hash', 'digital_signature'],
-      confidence: 0.85,
-    });
-
-    this.documentTemplates.set('appraisal', {
-      id: 'appraisal-standard',
-      templateName: 'Professional Appraisal Document',
-      documentType: 'appraisal',
-      issuerName: 'Certified Appraiser',
-      expectedFields: ['appraisal', 'value', 'appraiser', 'date', 'signature'],
-      validationRules: {},
-      layoutSignature: 'appraisal-layout-v1',
-      securityFeatures: ['professional_seal', 'certification_number', 'signature'],
-      confidence: 0.9,
-    });
-  }
-
-  /**
-   * Initialize blacklisted serials
-   */
-  private initializeBlacklists(): void {
-    // Add known fraudulent serial numbers
-    this.blacklistedSerials.add('fake-123456');
-    this.blacklistedSerials.add('counterfeit-789');
-    this.blacklistedSerials.add('fraud-xyz999');
-    this.blacklistedSerials.add('test-sample-001');
-    this.blacklistedSerials.add('invalid-serial');
   }
 
   /**
@@ -171,9 +90,12 @@ class FraudDetectionService {
     let authenticityScore = 1.0;
     let tamperingDetected = false;
 
+    // Rules, templates and blacklists as of the latest published version
+    const ruleSet = await fraudRuleService.getActiveRuleSet();
+
     // Text analysis
     if (this.config.enableTextAnalysis) {
-      const textIssues = await this.analyzeTextForFraud(textractResult, documentType);
+      const textIssues = await this.analyzeTextForFraud(ruleSet, textractResult, documentType);
       issues.push(...textIssues);
     }
 
@@ -185,26 +107,19 @@ class FraudDetectionService {
     };
 
     if (this.config.enableMetadataAnalysis) {
-      metadataAnalysis = await this.analyzeMetadata(documentBuffer, mimeType);
-      if (metadataAnalysis.suspiciousMetadata) {
-        issues.push({
-          type: 'metadata_tampering',
-          severity: 'high',
-          description: 'Document metadata indicates possible tampering',
-          evidence: metadataAnalysis,
-          confidence: 0.8,
-        });
-        tamperingDetected = true;
-      }
+      const forensicFindings = await this.analyzeMetadata(documentBuffer, mimeType);
+      metadataAnalysis = forensicFindings.metadataAnalysis;
+      issues.push(...forensicFindings.findings.map(finding => this.toFraudIssue(finding)));
+      tamperingDetected = metadataAnalysis.suspiciousMetadata;
     }
 
     // Pattern matching
-    const patternMatches = await this.checkFraudPatterns(textractResult, documentType);
+    const patternMatches = await this.checkFraudPatterns(ruleSet, textractResult, documentType);
     patternMatches.forEach(match => {
       if (match.matchConfidence > 0.7) {
         issues.push({
           type: 'known_fraud_pattern',
-          severity: 'critical',
+          severity: match.severity ?? 'critical',
           description: `Matches known fraud pattern: ${match.description}`,
           evidence: match.evidence,
           confidence: match.matchConfidence,
@@ -213,7 +128,7 @@ class FraudDetectionService {
     });
 
     // Cross-reference checks
-    const crossReferenceChecks = await this.performCrossReferenceChecks(textractResult, documentType);
+    const crossReferenceChecks = await this.performCrossReferenceChecks(ruleSet, textractResult, documentType);
     crossReferenceChecks.forEach(check => {
       if (check.result === 'fail') {
         issues.push({
@@ -227,7 +142,7 @@ class FraudDetectionService {
     });
 
     // Template validation
-    const templateValidation = await this.validateAgainstTemplate(textractResult, documentType);
+    const templateValidation = await this.validateAgainstTemplate(ruleSet, textractResult, documentType);
     if (templateValidation.score < 0.6) {
       issues.push({
         type: 'layout_anomaly',
@@ -267,32 +182,29 @@ class FraudDetectionService {
       confidence,
       requiresManualReview,
       reviewNotes,
+      ruleSetVersion: ruleSet.label,
     };
   }
 
   /**
    * Analyze text content for fraud indicators
    */
-  private async analyzeTextForFraud(textractResult: TextractResult, documentType: string): Promise<FraudIssue[]> {
+  private async analyzeTextForFraud(ruleSet: ActiveFraudRuleSet, textractResult: TextractResult, documentType: string): Promise<FraudIssue[]> {
     const issues: FraudIssue[] = [];
     const text = textractResult.ocrText.toLowerCase();
 
     // Check for suspicious text patterns
-    const suspiciousPatterns = [
-      { pattern: /fake|fraud|counterfeit|replica/g, severity: 'critical' as const, description: 'Contains suspicious keywords' },
-      { pattern: /copy|duplicate|sample/g, severity: 'medium' as const, description: 'Contains copy-related keywords' },
-      { pattern: /temporary|draft|not valid/g, severity: 'high' as const, description: 'Contains temporary or invalid indicators' },
-    ];
-
-    for (const { pattern, severity, description } of suspiciousPatterns) {
-      const matches = text.match(pattern);
+    for (const { rule, regex, weight } of ruleSet.textRules) {
+      if (!this.ruleApplies(rule.documentType, documentType)) continue;
+
+      const matches = text.match(regex!);
       if (matches && matches.length > 0) {
         issues.push({
           type: 'suspicious_content',
-          severity,
-          description,
-          evidence: { matches: matches.slice(0, 10) }, // Limit to first 10 matches
-          confidence: 0.8,
+          severity: rule.severity as FraudIssue['severity'],
+          description: rule.name,
+          evidence: { ruleId: rule.id, matches: matches.slice(0, 10) }, // Limit to first 10 matches
+          confidence: weight,
         });
       }
     }
@@ -313,101 +225,100 @@ class FraudDetectionService {
     issues.push(...formInconsistencies);
 
     // Document type specific checks
-    if (documentType === 'coa') {
-      issues.push(...this.analyzeCOAText(textractResult));
-    } else if (documentType === 'nft_certificate') {
-      issues.push(...this.analyzeNFTText(textractResult));
-    } else if (documentType === 'appraisal') {
-      issues.push(...this.analyzeAppraisalText(textractResult));
-    }
+    issues.push(...this.checkRequiredTerms(ruleSet, text, documentType));
 
     return issues;
   }
 
   /**
-   * Analyze document metadata for tampering
+   * Forensic analysis of the file itself - PDF revisions, fonts and metadata, image EXIF/XMP and
+   * JPEG error levels
    */
-  private async analyzeMetadata(documentBuffer: Buffer, mimeType: string): Promise<MetadataAnalysisResult> {
-    const result: MetadataAnalysisResult = {
-      hasBeenEdited: false,
-      suspiciousMetadata: false,
-      metadataConsistency: 1.0,
-    };
-
+  private async analyzeMetadata(documentBuffer: Buffer, mimeType: string): Promise<{
+    metadataAnalysis: MetadataAnalysisResult;
+    findings: ForensicFinding[];
+  }> {
+    let report: ForensicReport;
     try {
-      if (mimeType === 'application/pdf') {
-        // Basic PDF metadata analysis
-        const pdfMagicNumber = documentBuffer.slice(0, 5).toString();
-        if (!pdfMagicNumber.startsWith('%PDF-')) {
-          result.suspiciousMetadata = true;
-          result.metadataConsistency = 0.0;
-        }
-
-        // Check for common PDF editing software signatures
-        const pdfContent = documentBuffer.toString('binary');
-        const editingSoftware = [
-          'Photoshop',
-          'GIMP',
-          'Canva',
-          'Adobe Illustrator',
-          'Microsoft Paint',
-          'PaintShop',
-        ];
-
-        const detectedSoftware = editingSoftware.filter(software => 
-          pdfContent.includes(software)
-        );
-
-        if (detectedSoftware.length > 0) {
-          result.softwareUsed = detectedSoftware;
-          result.hasBeenEdited = true;
-          result.metadataConsistency *= 0.7;
-        }
-      } else if (mimeType.startsWith('image/')) {
-        // Basic image metadata analysis
-        result.hasBeenEdited = this.detectImageEditing(documentBuffer);
-        if (result.hasBeenEdited) {
-          result.metadataConsistency *= 0.8;
-        }
-      }
-
-      // Overall suspicious metadata determination
-      result.suspiciousMetadata = result.metadataConsistency < 0.6 || 
-                                  (result.hasBeenEdited && (result.softwareUsed?.some(sw => 
-                                    ['Photoshop', 'GIMP', 'Microsoft Paint'].includes(sw)
-                                  ) ?? false));
-
+      report = await analyzeDocumentForensics(documentBuffer, mimeType);
     } catch (error) {
-      console.error('Metadata analysis failed:', error);
-      result.suspiciousMetadata = true;
-      result.metadataConsistency = 0.5;
+      console.error('Forensic analysis failed:', error);
+      return {
+        metadataAnalysis: { hasBeenEdited: false, suspiciousMetadata: false, metadataConsistency: 0.5 },
+        findings: [],
+      };
     }
 
-    return result;
+    const { findings, ...forensics } = report;
+    const penalties = { low: 0.1, medium: 0.25, high: 0.5, critical: 0.8 };
+    const metadataConsistency = findings.reduce(
+      (consistency, finding) => consistency * (1 - penalties[finding.severity] * finding.confidence),
+      1.0
+    );
+
+    return {
+      metadataAnalysis: {
+        fileCreationDate: report.metadata.createdAt,
+        lastModified: report.metadata.modifiedAt,
+        hasBeenEdited: findings.some(finding =>
+          ['editing_software', 'incremental_update', 'error_level_analysis'].includes(finding.check) && finding.severity !== 'low'
+        ),
+        softwareUsed: report.metadata.software.length > 0 ? report.metadata.software : undefined,
+        suspiciousMetadata: findings.some(finding => finding.severity === 'high' || finding.severity === 'critical'),
+        metadataConsistency: Number(metadataConsistency.toFixed(3)),
+        forensics,
+      },
+      findings,
+    };
+  }
+
+  private toFraudIssue(finding: ForensicFinding): FraudIssue {
+    const types: Record<ForensicCheck, FraudIssue['type']> = {
+      file_structure: 'metadata_tampering',
+      incremental_update: 'metadata_tampering',
+      producer_mismatch: 'metadata_tampering',
+      editing_software: 'metadata_tampering',
+      timestamp_inconsistency: 'metadata_tampering',
+      font_inconsistency: 'layout_anomaly',
+      error_level_analysis: 'image_manipulation',
+    };
+
+    return {
+      type: types[finding.check],
+      severity: finding.severity,
+      description: finding.description,
+      evidence: finding.evidence,
+      confidence: finding.confidence,
+      check: finding.check,
+      regions: finding.regions,
+    };
   }
 
   /**
    * Check for known fraud patterns
    */
-  private async checkFraudPatterns(textractResult: TextractResult, documentType: string): Promise<PatternMatch[]> {
+  private async checkFraudPatterns(ruleSet: ActiveFraudRuleSet, textractResult: TextractResult, documentType: string): Promise<PatternMatch[]> {
     const matches: PatternMatch[] = [];
     const text = textractResult.ocrText;
 
     // Check against known fraud patterns
-    for (const [pattern, confidence] of Array.from(this.knownFraudPatterns.entries())) {
-      const regex = new RegExp(pattern, 'i');
-      if (regex.test(text)) {
+    for (const { rule, regex, weight } of ruleSet.fraudPatterns) {
+      if (!this.ruleApplies(rule.documentType, documentType)) continue;
+
+      const match = text.match(regex!);
+      if (match) {
         matches.push({
           patternType: 'known_fraud',
-          matchConfidence: confidence,
-          description: `Matches known fraud pattern: ${pattern}`,
-          evidence: { pattern, matchedText: text.match(regex)?.[0] },
+          matchConfidence: weight,
+          description: rule.name,
+          severity: rule.severity as FraudIssue['severity'],
+          evidence: { ruleId: rule.id, pattern: rule.pattern, matchedText: match[0] },
         });
       }
     }
 
     // Check template format matching
-    const templateMatch = await this.checkTemplateFormat(textractResult, documentType);
+    const templateMatch = await this.checkTemplateFormat(ruleSet, textractResult, documentType);
     if (templateMatch.matchConfidence < 0.6) {
       matches.push({
         patternType: 'template_mismatch',
@@ -423,13 +334,13 @@ class FraudDetectionService {
   /**
    * Perform cross-reference checks
    */
-  private async performCrossReferenceChecks(textractResult: TextractResult, documentType: string): Promise<CrossReferenceResult[]> {
+  private async performCrossReferenceChecks(ruleSet: ActiveFraudRuleSet, textractResult: TextractResult, documentType: string): Promise<CrossReferenceResult[]> {
     const results: CrossReferenceResult[] = [];
 
     // Serial number blacklist check
     const serialNumber = textractResult.extractedData.serialNumber;
     if (serialNumber) {
-      const isBlacklisted = this.blacklistedSerials.has(serialNumber.toLowerCase());
+      const isBlacklisted = ruleSet.blacklistedSerials.has(serialNumber.toLowerCase());
       results.push({
         checkType: 'blacklist',
         result: isBlacklisted ? 'fail' : 'pass',
@@ -438,9 +349,19 @@ class FraudDetectionService {
       });
     }
 
-    // Issuer verification
+    // Issuer blacklist check and verification
     const issuer = textractResult.extractedData.issuer;
     if (issuer) {
+      const blacklistedIssuer = ruleSet.blacklistedIssuers.find(entry => issuer.toLowerCase().includes(entry));
+      if (blacklistedIssuer) {
+        results.push({
+          checkType: 'blacklist',
+          result: 'fail',
+          confidence: 0.95,
+          details: `Issuer found in blacklist: ${blacklistedIssuer}`,
+        });
+      }
+
       const isValidIssuer = await this.verifyIssuer(issuer, documentType);
       results.push({
         checkType: 'issuer_verification',
@@ -451,7 +372,7 @@ class FraudDetectionService {
     }
 
     // Template validation
-    const templateValidation = await this.validateDocumentTemplate(textractResult, documentType);
+    const templateValidation = await this.validateDocumentTemplate(ruleSet, textractResult, documentType);
     results.push({
       checkType: 'template_validation',
       result: templateValidation.isValid ? 'pass' : 'fail',
@@ -533,69 +454,48 @@ class FraudDetectionService {
   }
 
   /**
-   * Helper methods for specific document type analysis
+   * Required terms rules for the document type - fires when fewer of the rule's terms appear
+   * than it requires
    */
-  private analyzeCOAText(textractResult: TextractResult): FraudIssue[] {
+  private checkRequiredTerms(ruleSet: ActiveFraudRuleSet, text: string, documentType: string): FraudIssue[] {
     const issues: FraudIssue[] = [];
-    const text = textractResult.ocrText.toLowerCase();
 
-    // Check for required COA elements
-    const requiredElements = ['certificate', 'authentic', 'issued', 'date'];
-    const missingElements = requiredElements.filter(element => !text.includes(element));
+    for (const { rule, weight } of ruleSet.requiredTerms) {
+      if (!this.ruleApplies(rule.documentType, documentType)) continue;
 
-    if (missingElements.length > 0) {
-      issues.push({
-        type: 'text_inconsistency',
-        severity: 'medium',
-        description: `Missing required COA elements: ${missingElements.join(', ')}`,
-        evidence: { missingElements },
-        confidence: 0.7,
-      });
+      const terms = rule.terms ?? [];
+      const missingTerms = terms.filter(term => !text.includes(term));
+      if (terms.length - missingTerms.length < (rule.minTermsPresent ?? terms.length)) {
+        issues.push({
+          type: 'text_inconsistency',
+          severity: rule.severity as FraudIssue['severity'],
+          description: `${rule.name}: ${missingTerms.join(', ')}`,
+          evidence: { ruleId: rule.id, missingElements: missingTerms, expectedTerms: terms },
+          confidence: weight,
+        });
+      }
     }
 
     return issues;
   }
 
-  private analyzeNFTText(textractResult: TextractResult): FraudIssue[] {
-    const issues: FraudIssue[] = [];
-    const text = textractResult.ocrText.toLowerCase();
-
-    // Check for blockchain-related terms
-    const blockchainTerms = ['blockchain', 'token', 'nft', 'contract', 'ethereum', 'polygon'];
-    const foundTerms = blockchainTerms.filter(term => text.includes(term));
-
-    if (foundTerms.length === 0) {
-      issues.push({
-        type: 'suspicious_content',
-        severity: 'high',
-        description: 'NFT certificate missing blockchain-related terminology',
-        evidence: { expectedTerms: blockchainTerms },
-        confidence: 0.8,
-      });
-    }
-
-    return issues;
+  // Rules without a document type apply to every document
+  private ruleApplies(ruleDocumentType: string | null, documentType: string): boolean {
+    return !ruleDocumentType || ruleDocumentType === documentType;
   }
 
-  private analyzeAppraisalText(textractResult: TextractResult): FraudIssue[] {
-    const issues: FraudIssue[] = [];
-    const text = textractResult.ocrText.toLowerCase();
-
-    // Check for required appraisal elements
-    const requiredElements = ['appraisal', 'value', 'appraiser', 'date'];
-    const missingElements = requiredElements.filter(element => !text.includes(element));
-
-    if (missingElements.length > 1) {
-      issues.push({
-        type: 'text_inconsistency',
-        severity: 'high',
-        description: `Missing critical appraisal elements: ${missingElements.join(', ')}`,
-        evidence: { missingElements },
-        confidence: 0.8,
-      });
-    }
-
-    return issues;
+  /**
+   * The document type's template whose expected fields best match the extracted fields
+   */
+  private findTemplate(ruleSet: ActiveFraudRuleSet, textractResult: TextractResult, documentType: string): FraudTemplate | undefined {
+    const extractedKeys = Object.keys(textractResult.extractedData.keyValuePairs).map(key => key.toLowerCase());
+    const countMatches = (template: FraudTemplate) =>
+      template.expectedFields.filter(field => extractedKeys.some(key => key.includes(field.toLowerCase()))).length;
+
+    return ruleSet.templates
+      .filter(template => template.documentType === documentType)
+      .reduce<FraudTemplate | undefined>((best, template) =>
+        !best || countMatches(template) > countMatches(best) ? template : best, undefined);
   }
 
   /**
@@ -621,27 +521,11 @@ class FraudDetectionService {
     return issues;
   }
 
-  private detectImageEditing(buffer: Buffer): boolean {
-    // Basic image editing detection (placeholder implementation)
-    // In production, this would use more sophisticated image forensics
-    
-    // Check for common editing software signatures in EXIF data
-    const content = buffer.toString('binary');
-    const editingSoftwareSignatures = [
-      'Adobe Photoshop',
-      'GIMP',
-      'Paint.NET',
-      'Canva',
-    ];
-
-    return editingSoftwareSignatures.some(signature => content.includes(signature));
-  }
-
-  private async checkTemplateFormat(textractResult: TextractResult, documentType: string): Promise<{ matchConfidence: number }> {
+  private async checkTemplateFormat(ruleSet: ActiveFraudRuleSet, textractResult: TextractResult, documentType: string): Promise<{ matchConfidence: number }> {
     // Placeholder template format checking
     // In production, this would compare against known document templates
     
-    const template = this.documentTemplates.get(documentType);
+    const template = this.findTemplate(ruleSet, textractResult, documentType);
     if (!template) {
       return { matchConfidence: 0.5 }; // Unknown template
     }
@@ -657,9 +541,9 @@ class FraudDetectionService {
     return { matchConfidence };
   }
 
-  private async validateAgainstTemplate(textractResult: TextractResult, documentType: string): Promise<{ score: number }> {
+  private async validateAgainstTemplate(ruleSet: ActiveFraudRuleSet, textractResult: TextractResult, documentType: string): Promise<{ score: number }> {
     // Template validation logic
-    const template = this.documentTemplates.get(documentType);
+    const template = this.findTemplate(ruleSet, textractResult, documentType);
     if (!template) {
       return { score: 0.5 };
     }
@@ -693,12 +577,12 @@ class FraudDetectionService {
     );
   }
 
-  private async validateDocumentTemplate(textractResult: TextractResult, documentType: string): Promise<{ 
+  private async validateDocumentTemplate(ruleSet: ActiveFraudRuleSet, textractResult: TextractResult, documentType: string): Promise<{ 
     isValid: boolean; 
     confidence: number; 
     details: string; 
   }> {
-    const template = this.documentTemplates.get(documentType);
+    const template = this.findTemplate(ruleSet, textractResult, documentType);
     if (!template) {
       return {
         isValid: false,
@@ -762,35 +646,23 @@ class FraudDetectionService {
   }
 
 
-  /**
-   * Update fraud patterns and blacklists (for admin use)
-   */
-  async addFraudPattern(pattern: string, confidence: number): Promise<void> {
-    this.knownFraudPatterns.set(pattern, confidence);
-  }
-
-  async addBlacklistedSerial(serial: string): Promise<void> {
-    this.blacklistedSerials.add(serial.toLowerCase());
-  }
-
-  async removeBlacklistedSerial(serial: string): Promise<void> {
-    this.blacklistedSerials.delete(serial.toLowerCase());
-  }
-
   /**
    * Get fraud detection statistics
    */
-  getStatistics(): {
+  async getStatistics(): Promise<{
     fraudPatternsCount: number;
     blacklistedSerialsCount: number;
     templatesCount: number;
     modelVersion: string;
-  } {
+    ruleSetVersion: string;
+  }> {
+    const ruleSet = await fraudRuleService.getActiveRuleSet();
     return {
-      fraudPatternsCount: this.knownFraudPatterns.size,
-      blacklistedSerialsCount: this.blacklistedSerials.size,
-      templatesCount: this.documentTemplates.size,
+      fraudPatternsCount: ruleSet.fraudPatterns.length,
+      blacklistedSerialsCount: ruleSet.blacklistedSerials.size,
+      templatesCount: ruleSet.templates.length,
       modelVersion: this.config.mlModelVersion,
+      ruleSetVersion: ruleSet.label,
     };
   }
 }
@@ -0,0 +1,306 @@
+// Fraud Rule Service - Versioned fraud rules, document templates and blacklists kept in the database
+// Every admin change publishes a new rule set version. Fraud detection checks the current version
+// before each analysis and recompiles when it moved, so changes apply without a restart and every
+// result records the version it was scored under.
+
+import { storage, type FraudRuleSet, type FraudRuleSetChange, type FraudRuleSetPublication } from "../storage";
+import type {
+  DocumentTemplate,
+  FraudBlacklistEntry,
+  FraudRule,
+  FraudTemplateInput,
+  InsertFraudBlacklistEntry,
+  InsertFraudRule,
+} from "@shared/schema";
+
+type NewFraudRule = NonNullable<NonNullable<FraudRuleSetChange['add']>['rules']>[number];
+type NewDocumentTemplate = NonNullable<NonNullable<FraudRuleSetChange['add']>['templates']>[number];
+type NewBlacklistEntry = NonNullable<NonNullable<FraudRuleSetChange['add']>['blacklist']>[number];
+
+// Rules the platform shipped with before they were configurable - seeded as version 1
+const DEFAULT_FRAUD_RULES: NewFraudRule[] = [
+  { ruleType: 'known_fraud_pattern', name: 'Fake certificate wording', pattern: 'fake.*certificate', severity: 'critical', weight: '0.900' },
+  { ruleType: 'known_fraud_pattern', name: 'Counterfeit wording', pattern: 'counterfeit.*authentic', severity: 'critical', weight: '0.950' },
+  { ruleType: 'known_fraud_pattern', name: 'Replica wording', pattern: 'replica.*original', severity: 'critical', weight: '0.800' },
+  { ruleType: 'known_fraud_pattern', name: 'Copy of a document', pattern: 'copy.*document', severity: 'critical', weight: '0.700' },
+  { ruleType: 'known_fraud_pattern', name: 'Sample template', pattern: 'sample.*template', severity: 'critical', weight: '0.850' },
+  { ruleType: 'known_fraud_pattern', name: 'Marked not valid', pattern: 'not.*valid', severity: 'critical', weight: '0.900' },
+  { ruleType: 'known_fraud_pattern', name: 'Temporary certificate', pattern: 'temporary.*certificate', severity: 'critical', weight: '0.800' },
+  { ruleType: 'known_fraud_pattern', name: 'Draft marked final', pattern: 'draft.*final', severity: 'critical', weight: '0.700' },
+  { ruleType: 'suspicious_text', name: 'Contains suspicious keywords', pattern: 'fake|fraud|counterfeit|replica', severity: 'critical', weight: '0.800' },
+  { ruleType: 'suspicious_text', name: 'Contains copy-related keywords', pattern: 'copy|duplicate|sample', severity: 'medium', weight: '0.800' },
+  { ruleType: 'suspicious_text', name: 'Contains temporary or invalid indicators', pattern: 'temporary|draft|not valid', severity: 'high', weight: '0.800' },
+  { ruleType: 'required_terms', name: 'Missing required COA elements', documentType: 'coa', terms: ['certificate', 'authentic', 'issued', 'date'], minTermsPresent: 4, severity: 'medium', weight: '0.700' },
+  { ruleType: 'required_terms', name: 'NFT certificate missing blockchain-related terminology', documentType: 'nft_certificate', terms: ['blockchain', 'token', 'nft', 'contract', 'ethereum', 'polygon'], minTermsPresent: 1, severity: 'high', weight: '0.800' },
+  { ruleType: 'required_terms', name: 'Missing critical appraisal elements', documentType: 'appraisal', terms: ['appraisal', 'value', 'appraiser', 'date'], minTermsPresent: 3, severity: 'high', weight: '0.800' },
+];
+
+const DEFAULT_DOCUMENT_TEMPLATES: NewDocumentTemplate[] = [
+  {
+    templateName: 'Standard Certificate of Authenticity',
+    documentType: 'coa',
+    issuerName: 'Certified Authority',
+    templateVersion: '1',
+    expectedFields: ['certificate', 'authentic', 'issued', 'date', 'signature'],
+    validationRules: {},
+    layoutSignature: 'coa-layout-v1',
+    securityFeatures: ['watermark', 'seal', 'signature'],
+    confidence: '0.900',
+  },
+  {
+    templateName: 'NFT Authenticity Certificate',
+    documentType: 'nft_certificate',
+    issuerName: 'NFT Platform',
+    templateVersion: '1',
+    expectedFields: ['nft', 'token', 'blockchain', 'contract', 'owner'],
+    validationRules: {},
+    layoutSignature: 'nft-layout-v1',
+    securityFeatures: ['qr_code', 'blockchain_hash', 'digital_signature'],
+    confidence: '0.850',
+  },
+  {
+    templateName: 'Professional Appraisal Document',
+    documentType: 'appraisal',
+    issuerName: 'Certified Appraiser',
+    templateVersion: '1',
+    expectedFields: ['appraisal', 'value', 'appraiser', 'date', 'signature'],
+    validationRules: {},
+    layoutSignature: 'appraisal-layout-v1',
+    securityFeatures: ['professional_seal', 'certification_number', 'signature'],
+    confidence: '0.900',
+  },
+];
+
+const DEFAULT_BLACKLIST: NewBlacklistEntry[] = [
+  'fake-123456',
+  'counterfeit-789',
+  'fraud-xyz999',
+  'test-sample-001',
+  'invalid-serial',
+].map(value => ({ listType: 'serial', value, reason: 'Known fraudulent serial number' }));
+
+export interface FraudRuleActor {
+  username: string;
+  userId?: string | null;
+}
+
+export interface FraudTemplate {
+  id: string;
+  templateName: string;
+  documentType: string;
+  issuerName: string;
+  expectedFields: string[];
+  validationRules: Record<string, any>;
+  layoutSignature: string;
+  securityFeatures: string[];
+  confidence: number;
+}
+
+export interface CompiledFraudRule {
+  rule: FraudRule;
+  regex?: RegExp;
+  weight: number;
+}
+
+// A rule set version ready to score documents against
+export interface ActiveFraudRuleSet {
+  version: number;
+  label: string; // Recorded as the fraud result's model version, e.g. rules-v3
+  fraudPatterns: CompiledFraudRule[];
+  textRules: CompiledFraudRule[];
+  requiredTerms: CompiledFraudRule[];
+  templates: FraudTemplate[];
+  blacklistedSerials: Set<string>;
+  blacklistedIssuers: string[];
+}
+
+export class FraudRuleService {
+  private static instance: FraudRuleService;
+  private active: ActiveFraudRuleSet | null = null;
+
+  static getInstance(): FraudRuleService {
+    if (!FraudRuleService.instance) {
+      FraudRuleService.instance = new FraudRuleService();
+    }
+    return FraudRuleService.instance;
+  }
+
+  // Publish the built-in rules as version 1 if no rule set has been published yet
+  async ensureDefaultRuleSet(): Promise<void> {
+    if (await storage.getCurrentFraudRuleSetVersion() > 0) {
+      return;
+    }
+
+    // Templates added before rule sets were versioned already count as version 1
+    const existingTemplates = await storage.getDocumentTemplates();
+
+    await storage.publishFraudRuleSetChange({
+      changeSummary: 'Default fraud rules',
+      createdBy: 'system',
+      add: {
+        rules: DEFAULT_FRAUD_RULES,
+        templates: existingTemplates.length > 0 ? [] : DEFAULT_DOCUMENT_TEMPLATES,
+        blacklist: DEFAULT_BLACKLIST,
+      },
+    });
+    console.log('Seeded default fraud rule set');
+  }
+
+  /**
+   * The current rule set, recompiled whenever a newer version has been published. Falls back to
+   * the last loaded version if the database can't be reached
+   */
+  async getActiveRuleSet(): Promise<ActiveFraudRuleSet> {
+    try {
+      const version = await storage.getCurrentFraudRuleSetVersion();
+      if (!this.active || this.active.version !== version) {
+        this.active = this.compile(await storage.getFraudRuleSet(version));
+        console.log(`Loaded fraud rule set ${this.active.label}`);
+      }
+    } catch (error) {
+      if (!this.active) {
+        throw error;
+      }
+      console.error(`Failed to check for fraud rule set updates, using ${this.active.label}:`, error);
+    }
+    return this.active;
+  }
+
+  async getRuleSet(version?: number): Promise<FraudRuleSet> {
+    return await storage.getFraudRuleSet(version);
+  }
+
+  async addRule(input: InsertFraudRule, actor: FraudRuleActor): Promise<FraudRuleSetPublication> {
+    const { changeSummary, ...rule } = input;
+    const publication = await this.publish({
+      changeSummary: changeSummary || `Added ${rule.ruleType.replace(/_/g, ' ')} rule "${rule.name}"`,
+      add: { rules: [rule] },
+    }, actor);
+    return publication!;
+  }
+
+  // Undefined if the rule doesn't exist or was already replaced or retired
+  async replaceRule(id: string, input: InsertFraudRule, actor: FraudRuleActor): Promise<FraudRuleSetPublication | undefined> {
+    const { changeSummary, ...rule } = input;
+    return await this.publish({
+      changeSummary: changeSummary || `Updated rule "${rule.name}"`,
+      retire: { rules: [id] },
+      add: { rules: [rule] },
+    }, actor);
+  }
+
+  async retireRule(id: string, actor: FraudRuleActor, changeSummary?: string): Promise<FraudRuleSetPublication | undefined> {
+    return await this.publish({
+      changeSummary: changeSummary || `Removed rule ${id}`,
+      retire: { rules: [id] },
+    }, actor);
+  }
+
+  async addTemplate(input: FraudTemplateInput, actor: FraudRuleActor): Promise<FraudRuleSetPublication> {
+    const { changeSummary, ...template } = input;
+    const publication = await this.publish({
+      changeSummary: changeSummary || `Added template "${template.templateName}"`,
+      add: { templates: [template] },
+    }, actor);
+    return publication!;
+  }
+
+  async replaceTemplate(id: string, input: FraudTemplateInput, actor: FraudRuleActor): Promise<FraudRuleSetPublication | undefined> {
+    const { changeSummary, ...template } = input;
+    return await this.publish({
+      changeSummary: changeSummary || `Updated template "${template.templateName}"`,
+      retire: { templates: [id] },
+      add: { templates: [template] },
+    }, actor);
+  }
+
+  async retireTemplate(id: string, actor: FraudRuleActor, changeSummary?: string): Promise<FraudRuleSetPublication | undefined> {
+    return await this.publish({
+      changeSummary: changeSummary || `Removed template ${id}`,
+      retire: { templates: [id] },
+    }, actor);
+  }
+
+  async addBlacklistEntry(input: InsertFraudBlacklistEntry, actor: FraudRuleActor): Promise<FraudRuleSetPublication> {
+    const { changeSummary, ...entry } = input;
+    const publication = await this.publish({
+      changeSummary: changeSummary || `Blacklisted ${entry.listType} "${entry.value}"`,
+      add: { blacklist: [entry] },
+    }, actor);
+    return publication!;
+  }
+
+  async retireBlacklistEntry(id: string, actor: FraudRuleActor, changeSummary?: string): Promise<FraudRuleSetPublication | undefined> {
+    return await this.publish({
+      changeSummary: changeSummary || `Removed blacklist entry ${id}`,
+      retire: { blacklist: [id] },
+    }, actor);
+  }
+
+  private async publish(
+    change: Omit<FraudRuleSetChange, 'createdBy' | 'templateCreatedBy'>,
+    actor: FraudRuleActor
+  ): Promise<FraudRuleSetPublication | undefined> {
+    const publication = await storage.publishFraudRuleSetChange({
+      ...change,
+      createdBy: actor.username,
+      templateCreatedBy: actor.userId ?? null,
+    });
+    if (publication) {
+      // This instance picks the new version up straight away; others on their next check
+      this.active = null;
+    }
+    return publication;
+  }
+
+  private compile(ruleSet: FraudRuleSet): ActiveFraudRuleSet {
+    const compileRule = (rule: FraudRule, flags: string): CompiledFraudRule | undefined => {
+      try {
+        return { rule, regex: new RegExp(rule.pattern ?? '', flags), weight: parseFloat(rule.weight) };
+      } catch (error) {
+        console.warn(`Skipping fraud rule ${rule.id} with invalid pattern: ${rule.pattern}`);
+        return undefined;
+      }
+    };
+    const isCompiled = (rule: CompiledFraudRule | undefined): rule is CompiledFraudRule => !!rule;
+
+    return {
+      version: ruleSet.version,
+      label: `rules-v${ruleSet.version}`,
+      fraudPatterns: ruleSet.rules
+        .filter(rule => rule.ruleType === 'known_fraud_pattern')
+        .map(rule => compileRule(rule, 'i'))
+        .filter(isCompiled),
+      textRules: ruleSet.rules
+        .filter(rule => rule.ruleType === 'suspicious_text')
+        .map(rule => compileRule(rule, 'gi'))
+        .filter(isCompiled),
+      requiredTerms: ruleSet.rules
+        .filter(rule => rule.ruleType === 'required_terms')
+        .map(rule => ({ rule, weight: parseFloat(rule.weight) })),
+      templates: ruleSet.templates.map(toFraudTemplate),
+      blacklistedSerials: new Set(blacklistValues(ruleSet.blacklist, 'serial')),
+      blacklistedIssuers: blacklistValues(ruleSet.blacklist, 'issuer'),
+    };
+  }
+}
+
+function toFraudTemplate(template: DocumentTemplate): FraudTemplate {
+  return {
+    id: template.id,
+    templateName: template.templateName,
+    documentType: template.documentType,
+    issuerName: template.issuerName,
+    expectedFields: (template.expectedFields as string[] | null) ?? [],
+    validationRules: (template.validationRules as Record<string, any> | null) ?? {},
+    layoutSignature: template.layoutSignature ?? '',
+    securityFeatures: (template.securityFeatures as string[] | null) ?? [],
+    confidence: parseFloat(template.confidence ?? '0'),
+  };
+}
+
+function blacklistValues(entries: FraudBlacklistEntry[], listType: string): string[] {
+  return entries.filter(entry => entry.listType === listType).map(entry => entry.value.toLowerCase());
+}
+
+export const fraudRuleService = FraudRuleService.getInstance();
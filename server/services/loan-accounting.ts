@@ -0,0 +1,473 @@
+// Loan Accounting Service - Origination, daily interest accrual, payoff quotes, repayments and paid extensions for pawn loans
+// Interest is charged per started day at PLATFORM_FEES.LOAN_INTEREST_APR on the outstanding
+// principal, with the admin fee waiver applied when a payoff quote is produced. Repayments
+// go to fees first, then interest, then principal.
+
+import { storage, type LoanPaymentAllocation, type RwaSubmissionApprovalResult } from "../storage";
+import { loanPolicyService } from "./loan-policy";
+import type { OriginationCollateral } from "./collateral-monitor";
+import {
+  LOAN_EXTENSION_DAYS,
+  MAX_LOAN_EXTENSIONS,
+  REPAYMENT_INSTALLMENT_DAYS,
+  type PawnLoan,
+  type User,
+  type Transaction,
+  type RwaSubmission,
+  type LoanPolicy,
+  type LoanValuation,
+  type LoanPayoffQuote,
+  type LoanExtensionQuote,
+  type LoanRepaymentSchedule,
+  type LoanPayment,
+} from "@shared/schema";
+import {
+  calculateLoanInterestForUser,
+  calculateLoanExtensionFeeForUser,
+  calculateFeeWithWaiverForUser,
+  type UserForFeeWaiver,
+} from "../fee-waiver";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Payoff quotes are valid for 15 minutes, or until the next accrual day starts
+const QUOTE_TTL_MS = 15 * 60 * 1000;
+
+// How often the background sweep re-accrues interest on active loans
+const ACCRUAL_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export class LoanAccountingService {
+  private static instance: LoanAccountingService;
+  private accrualTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): LoanAccountingService {
+    if (!LoanAccountingService.instance) {
+      LoanAccountingService.instance = new LoanAccountingService();
+    }
+    return LoanAccountingService.instance;
+  }
+
+  // Start the periodic accrual sweep over all active loans
+  startAccrualSchedule(): void {
+    if (this.accrualTimer) {
+      return;
+    }
+
+    const runSweep = async () => {
+      try {
+        const accrued = await this.accrueActiveLoans();
+        console.log(`Loan interest accrual sweep completed (${accrued} loans updated)`);
+      } catch (error) {
+        console.error("Error during loan interest accrual sweep:", error);
+      }
+    };
+
+    runSweep();
+    this.accrualTimer = setInterval(runSweep, ACCRUAL_SWEEP_INTERVAL_MS);
+  }
+
+  stopAccrualSchedule(): void {
+    if (this.accrualTimer) {
+      clearInterval(this.accrualTimer);
+      this.accrualTimer = null;
+    }
+  }
+
+  /**
+   * Approve a pending submission and create its loan, sized by the policy against the reconciled
+   * valuation, along with its pending disbursement transaction - all in one transaction. Market-
+   * priced collateral is recorded with the symbol and price it is revalued against. Undefined if
+   * the submission was no longer pending, e.g. another admin approved it first
+   */
+  async originateLoan(
+    submission: RwaSubmission,
+    policy: LoanPolicy,
+    valuation: LoanValuation,
+    review: { adminNotes?: string; reviewedBy?: string },
+    collateral?: OriginationCollateral
+  ): Promise<RwaSubmissionApprovalResult | undefined> {
+    const terms = loanPolicyService.calculateLoanTerms(policy, parseFloat(valuation.reconciledValue));
+
+    const loan = {
+      submissionId: submission.id,
+      userId: submission.userId,
+      loanAmount: terms.loanAmount.toFixed(2),
+      assetValue: parseFloat(valuation.reconciledValue).toFixed(2),
+      feeAmount: terms.feeAmount.toFixed(2),
+      expiryDate: terms.expiryDate,
+      status: "active",
+      policyId: policy.id,
+      policyVersion: policy.version,
+      valuation,
+      collateralSymbol: collateral?.symbol ?? null,
+      collateralReferencePrice: collateral ? collateral.referencePrice.toString() : null,
+    };
+
+    const disbursement = {
+      userId: submission.userId,
+      type: "loan_disbursement",
+      amount: terms.loanAmount.toFixed(2),
+      currency: "ICP",
+      status: "pending",
+      metadata: {
+        policy: {
+          id: policy.id,
+          category: policy.category,
+          version: policy.version,
+          ltvRatio: policy.ltvRatio,
+          termDays: policy.termDays
+        },
+        valuation: {
+          reconciledValue: valuation.reconciledValue,
+          basis: valuation.basis,
+          cappedBy: valuation.cappedBy
+        }
+      }
+    };
+
+    return await storage.approveRwaSubmissionWithLoan(submission.id, {
+      adminNotes: review.adminNotes,
+      reviewedBy: review.reviewedBy,
+      loan,
+      disbursement,
+    });
+  }
+
+  // Number of interest days charged - every started day counts as a full day
+  getAccrualDays(loan: PawnLoan, asOf: Date = new Date()): number {
+    const elapsed = Math.max(0, asOf.getTime() - this.getAccrualStart(loan).getTime());
+    return Math.floor(elapsed / DAY_MS) + 1;
+  }
+
+  // When the current accrual day ends and the next day's interest is charged
+  getNextAccrualAt(loan: PawnLoan, asOf: Date = new Date()): Date {
+    const days = this.getAccrualDays(loan, asOf);
+    return new Date(this.getAccrualStart(loan).getTime() + days * DAY_MS);
+  }
+
+  // Principal still owed after partial repayments
+  getOutstandingPrincipal(loan: PawnLoan): number {
+    return this.roundCurrency(parseFloat(loan.loanAmount) - parseFloat(loan.principalRepaid));
+  }
+
+  // Gross interest (before waivers) accrued through the current accrual day - interest settled
+  // on earlier principal balances plus the outstanding principal since the last repayment
+  calculateAccruedInterest(loan: PawnLoan, asOf: Date = new Date()): number {
+    const days = Math.max(0, this.getAccrualDays(loan, asOf) - loan.settledDays);
+    const interest = calculateLoanInterestForUser(this.getOutstandingPrincipal(loan), days, null);
+    return this.roundCurrency(parseFloat(loan.settledInterest) + interest.originalFee);
+  }
+
+  // Persist accrued interest on a loan if it has moved since the last accrual
+  async accrueInterest(loan: PawnLoan, asOf: Date = new Date()): Promise<PawnLoan> {
+    if (loan.status !== "active") {
+      return loan;
+    }
+
+    const accruedInterest = this.calculateAccruedInterest(loan, asOf).toFixed(2);
+    if (accruedInterest === parseFloat(loan.accruedInterest).toFixed(2)) {
+      return loan;
+    }
+
+    return await storage.updatePawnLoanAccrual(loan.id, accruedInterest, asOf);
+  }
+
+  // Accrue interest on every active loan, returning how many rows changed
+  async accrueActiveLoans(asOf: Date = new Date()): Promise<number> {
+    const activeLoans = await storage.getActivePawnLoans();
+    let updated = 0;
+
+    for (const loan of activeLoans) {
+      try {
+        const accrued = await this.accrueInterest(loan, asOf);
+        if (accrued !== loan) {
+          updated++;
+        }
+      } catch (error) {
+        console.error(`Error accruing interest for loan ${loan.id}:`, error);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Build a payoff quote for an active loan: principal, accrued interest and
+   * outstanding fees, with the borrower's fee waiver applied
+   */
+  async getPayoffQuote(loan: PawnLoan, user: User | undefined, asOf: Date = new Date()): Promise<LoanPayoffQuote> {
+    if (loan.status !== "active") {
+      throw new Error(`Cannot quote payoff for a loan with status ${loan.status}`);
+    }
+
+    const accruedLoan = await this.accrueInterest(loan, asOf);
+    const { principal, interestDue, feesDue, waiver } = this.getBalance(accruedLoan, user, asOf);
+    const interestDays = this.getAccrualDays(accruedLoan, asOf);
+
+    const expiresAt = this.getQuoteExpiry(accruedLoan, asOf);
+
+    return {
+      loanId: accruedLoan.id,
+      principal: principal.toFixed(2),
+      accruedInterest: interestDue.toFixed(2),
+      interestDays,
+      fees: feesDue.toFixed(2),
+      waiver,
+      totalDue: this.roundCurrency(principal + interestDue + feesDue).toFixed(2),
+      currency: "ICP",
+      quotedAt: asOf.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Rebuild the payoff quote the borrower was shown at quotedAt, so a redemption confirmed after
+   * the quote was issued pays exactly what was quoted. Undefined once the quote has expired
+   */
+  async getHonoredPayoffQuote(
+    loan: PawnLoan,
+    user: User | undefined,
+    quotedAt: Date,
+    now: Date = new Date()
+  ): Promise<LoanPayoffQuote | undefined> {
+    if (!this.isQuoteHonored(loan, quotedAt, now)) {
+      return undefined;
+    }
+    return await this.getPayoffQuote(loan, user, quotedAt);
+  }
+
+  // Whether a payoff quote issued at quotedAt is still honored
+  isQuoteHonored(loan: PawnLoan, quotedAt: Date, now: Date = new Date()): boolean {
+    return quotedAt.getTime() <= now.getTime() && this.getQuoteExpiry(loan, quotedAt).getTime() > now.getTime();
+  }
+
+  // A quote is honored for QUOTE_TTL_MS, or until the next accrual day starts if that is sooner
+  getQuoteExpiry(loan: PawnLoan, quotedAt: Date): Date {
+    return new Date(Math.min(this.getNextAccrualAt(loan, quotedAt).getTime(), quotedAt.getTime() + QUOTE_TTL_MS));
+  }
+
+  // Outstanding principal, unpaid interest and unpaid fees, with the borrower's waiver applied
+  getBalance(loan: PawnLoan, user: User | undefined, asOf: Date = new Date()) {
+    const waiverUser = this.toWaiverUser(user);
+    const interest = calculateFeeWithWaiverForUser(this.calculateAccruedInterest(loan, asOf), waiverUser, 'interest');
+    const fees = calculateFeeWithWaiverForUser(parseFloat(loan.feeAmount), waiverUser, 'other');
+
+    return {
+      principal: this.getOutstandingPrincipal(loan),
+      interestDue: Math.max(0, this.roundCurrency(interest.finalFee - parseFloat(loan.interestPaid))),
+      feesDue: Math.max(0, this.roundCurrency(fees.finalFee - parseFloat(loan.feesPaid))),
+      waiver: {
+        applied: interest.isWaived || fees.isWaived,
+        amount: this.roundCurrency(
+          (interest.originalFee - interest.finalFee) + (fees.originalFee - fees.finalFee)
+        ).toFixed(2),
+        reason: interest.reason || fees.reason,
+      },
+    };
+  }
+
+  // Why a repayment of this amount cannot be taken right now, or null if it can
+  getPaymentBlocker(loan: PawnLoan, amount: number, user: User | undefined, asOf: Date = new Date()): string | null {
+    if (loan.status !== "active") {
+      return `Cannot take a payment on a loan with status ${loan.status}`;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      return "Payment amount must be greater than zero";
+    }
+
+    const { principal, interestDue, feesDue } = this.getBalance(loan, user, asOf);
+    const totalDue = this.roundCurrency(principal + interestDue + feesDue);
+    if (this.roundCurrency(amount) > totalDue) {
+      return `Payment amount exceeds the ${totalDue.toFixed(2)} currently owed`;
+    }
+    return null;
+  }
+
+  /**
+   * Split a repayment across fees, interest and principal. Interest on the current principal is
+   * settled through today so later accrual runs on the reduced balance
+   */
+  allocatePayment(loan: PawnLoan, amount: number, user: User | undefined, asOf: Date = new Date()): LoanPaymentAllocation {
+    const { principal, interestDue, feesDue } = this.getBalance(loan, user, asOf);
+
+    let remaining = this.roundCurrency(amount);
+    const feesPortion = Math.min(remaining, feesDue);
+    remaining = this.roundCurrency(remaining - feesPortion);
+    const interestPortion = Math.min(remaining, interestDue);
+    remaining = this.roundCurrency(remaining - interestPortion);
+    const principalPortion = Math.min(remaining, principal);
+    const unappliedAmount = this.roundCurrency(remaining - principalPortion);
+
+    return {
+      feesPortion,
+      interestPortion,
+      principalPortion,
+      unappliedAmount,
+      settledInterest: this.calculateAccruedInterest(loan, asOf),
+      settledDays: this.getAccrualDays(loan, asOf),
+      paidInFull: principalPortion === principal && interestPortion === interestDue && feesPortion === feesDue,
+    };
+  }
+
+  /**
+   * Apply a repayment verified on the ICP ledger. Paying the full balance redeems the loan.
+   * Returns undefined if the loan is no longer active or the payment was already applied
+   */
+  async applyPayment(
+    loan: PawnLoan,
+    payment: Transaction,
+    user: User | undefined,
+    blockHeight: number
+  ): Promise<{ loan: PawnLoan; payment: LoanPayment } | undefined> {
+    return await storage.applyPawnLoanPayment(loan.id, {
+      transactionId: payment.id,
+      userId: payment.userId,
+      blockHeight: blockHeight.toString(),
+      allocate: (current, amount) => this.allocatePayment(current, amount, user),
+    });
+  }
+
+  /**
+   * Apply a redemption payment verified on the ICP ledger. While its payoff quote is honored the
+   * payment is allocated as of the quote, so paying the quoted total redeems the loan; after that
+   * it is applied like any repayment. Returns undefined if the loan is no longer active or the
+   * payment was already applied
+   */
+  async applyRedemption(
+    loan: PawnLoan,
+    payment: Transaction,
+    user: User | undefined,
+    blockHeight: number,
+    quotedAt: Date
+  ): Promise<{ loan: PawnLoan; payment: LoanPayment } | undefined> {
+    const now = new Date();
+    const asOf = this.isQuoteHonored(loan, quotedAt, now) ? quotedAt : now;
+    return await storage.applyPawnLoanPayment(loan.id, {
+      transactionId: payment.id,
+      userId: payment.userId,
+      blockHeight: blockHeight.toString(),
+      allocate: (current, amount) => this.allocatePayment(current, amount, user, asOf),
+    });
+  }
+
+  /**
+   * Suggested equal-principal installments from today until expiry, with interest projected
+   * on the declining balance. Anything already due is added to the first installment
+   */
+  getRepaymentSchedule(loan: PawnLoan, user: User | undefined, asOf: Date = new Date()): LoanRepaymentSchedule {
+    const waiverUser = this.toWaiverUser(user);
+    const { principal, interestDue, feesDue } = this.getBalance(loan, user, asOf);
+    const expiryDate = new Date(loan.expiryDate);
+    const daysToExpiry = Math.max(0, Math.ceil((expiryDate.getTime() - asOf.getTime()) / DAY_MS));
+    const installmentCount = principal > 0 ? Math.max(1, Math.ceil(daysToExpiry / REPAYMENT_INSTALLMENT_DAYS)) : 0;
+
+    const installments: LoanRepaymentSchedule["installments"] = [];
+    let balance = principal;
+    let periodStart = asOf.getTime();
+
+    for (let number = 1; number <= installmentCount; number++) {
+      const isLast = number === installmentCount;
+      const dueAt = isLast ? expiryDate.getTime() : asOf.getTime() + number * REPAYMENT_INSTALLMENT_DAYS * DAY_MS;
+      const periodDays = Math.max(0, Math.ceil((dueAt - periodStart) / DAY_MS));
+
+      const principalPortion = isLast ? balance : this.roundCurrency(principal / installmentCount);
+      const projected = calculateLoanInterestForUser(balance, periodDays, waiverUser).finalFee;
+      const interest = this.roundCurrency(projected + (number === 1 ? interestDue : 0));
+      const fees = number === 1 ? feesDue : 0;
+      balance = this.roundCurrency(balance - principalPortion);
+
+      installments.push({
+        number,
+        dueDate: new Date(dueAt).toISOString(),
+        principal: principalPortion.toFixed(2),
+        interest: interest.toFixed(2),
+        fees: fees.toFixed(2),
+        total: this.roundCurrency(principalPortion + interest + fees).toFixed(2),
+        balanceAfter: balance.toFixed(2),
+      });
+      periodStart = dueAt;
+    }
+
+    return {
+      loanId: loan.id,
+      outstandingPrincipal: principal.toFixed(2),
+      interestDue: interestDue.toFixed(2),
+      feesDue: feesDue.toFixed(2),
+      totalDue: this.roundCurrency(principal + interestDue + feesDue).toFixed(2),
+      principalRepaid: parseFloat(loan.principalRepaid).toFixed(2),
+      currency: "ICP",
+      installments,
+    };
+  }
+
+  // Quote the fee and resulting expiry date for extending an active loan by one term
+  getExtensionQuote(loan: PawnLoan, user: User | undefined): LoanExtensionQuote {
+    const fee = calculateLoanExtensionFeeForUser(this.getOutstandingPrincipal(loan), this.toWaiverUser(user));
+    const currentExpiryDate = new Date(loan.expiryDate);
+    const newExpiryDate = new Date(currentExpiryDate.getTime() + LOAN_EXTENSION_DAYS * DAY_MS);
+
+    return {
+      loanId: loan.id,
+      extensionDays: LOAN_EXTENSION_DAYS,
+      fee: this.roundCurrency(fee.finalFee).toFixed(2),
+      waiver: {
+        applied: fee.isWaived,
+        amount: this.roundCurrency(fee.originalFee - fee.finalFee).toFixed(2),
+        reason: fee.reason,
+      },
+      extensionsUsed: loan.extensionCount,
+      maxExtensions: MAX_LOAN_EXTENSIONS,
+      currentExpiryDate: currentExpiryDate.toISOString(),
+      newExpiryDate: newExpiryDate.toISOString(),
+      currency: "ICP",
+    };
+  }
+
+  // Why a loan cannot be extended right now, or null if it can
+  getExtensionBlocker(loan: PawnLoan, asOf: Date = new Date()): string | null {
+    if (loan.status !== "active") {
+      return `Cannot extend a loan with status ${loan.status}`;
+    }
+    if (new Date(loan.expiryDate) <= asOf) {
+      return "Loan has already expired";
+    }
+    if (loan.extensionCount >= MAX_LOAN_EXTENSIONS) {
+      return `Loan has already been extended the maximum of ${MAX_LOAN_EXTENSIONS} times`;
+    }
+    return null;
+  }
+
+  /**
+   * Apply a confirmed extension fee payment to a loan. Returns undefined if the
+   * loan is no longer eligible or the payment has already been applied
+   */
+  async applyExtension(loan: PawnLoan, payment: Transaction, blockHeight?: number): Promise<PawnLoan | undefined> {
+    return await storage.extendPawnLoan(loan.id, {
+      days: LOAN_EXTENSION_DAYS,
+      maxExtensions: MAX_LOAN_EXTENSIONS,
+      transactionId: payment.id,
+      userId: payment.userId,
+      blockHeight,
+      metadata: { memo: payment.memo },
+    });
+  }
+
+  private getAccrualStart(loan: PawnLoan): Date {
+    return new Date(loan.startDate ?? loan.createdAt ?? new Date());
+  }
+
+  private toWaiverUser(user: User | undefined): UserForFeeWaiver | undefined {
+    if (!user) return undefined;
+    return {
+      email: user.email,
+      isAdmin: user.isAdmin ?? undefined,
+      role: user.role ?? undefined,
+    };
+  }
+
+  private roundCurrency(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const loanAccounting = LoanAccountingService.getInstance();
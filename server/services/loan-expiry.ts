@@ -0,0 +1,283 @@
+// Loan Expiry Service - Scheduled expiry and forfeiture of unredeemed pawn loans
+// Uses a durable database-backed job (the loan_expiry_jobs row) so only one instance
+// sweeps at a time and the schedule survives process restarts.
+
+import { storage } from "../storage";
+import { notificationService } from "./notification-service";
+import { AUCTION_DURATION_DAYS, loanExpiryJobs, type LoanExpiryRun } from "@shared/schema";
+import { db } from "../db";
+import { and, eq, isNull, lt, lte, or } from "drizzle-orm";
+
+const SWEEP_JOB_ID = "loan-expiry-sweep";
+
+// Days after expiry before an unredeemed loan is forfeited to the marketplace
+const GRACE_PERIOD_DAYS = parseInt(process.env.LOAN_EXPIRY_GRACE_DAYS || "3", 10);
+
+// How often the expiry sweep runs (default 15 minutes)
+const SWEEP_INTERVAL_MS = parseInt(process.env.LOAN_EXPIRY_SWEEP_INTERVAL_MS || String(15 * 60 * 1000), 10);
+
+// Forfeited assets are listed at 80% of their appraised value
+const STARTING_PRICE_RATIO = 0.8;
+
+// Scheduler polling interval and advisory lock timeout
+const POLL_INTERVAL_MS = 30 * 1000;
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LoanExpirySchedule {
+  graceDays: number;
+  intervalMs: number;
+  nextRunAt: Date | null;
+  lastError: string | null;
+  isRunning: boolean;
+}
+
+export class LoanExpiryService {
+  private static instance: LoanExpiryService;
+  private globalTimer: NodeJS.Timeout | null = null;
+  private instanceId: string;
+  private isRunning: boolean = false;
+
+  constructor() {
+    this.instanceId = `loan-expiry-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  static getInstance(): LoanExpiryService {
+    if (!LoanExpiryService.instance) {
+      LoanExpiryService.instance = new LoanExpiryService();
+    }
+    return LoanExpiryService.instance;
+  }
+
+  // Start the scheduled expiry sweep
+  async startScheduler(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    console.log(`Starting Loan Expiry Service (grace period: ${GRACE_PERIOD_DAYS} days)...`);
+    this.isRunning = true;
+
+    await this.cleanupStaleLocks();
+
+    // Register the sweep job once - an existing row keeps its schedule across restarts
+    await db
+      .insert(loanExpiryJobs)
+      .values({ id: SWEEP_JOB_ID, nextRunAt: new Date(), intervalMs: SWEEP_INTERVAL_MS })
+      .onConflictDoUpdate({
+        target: loanExpiryJobs.id,
+        set: { intervalMs: SWEEP_INTERVAL_MS, updatedAt: new Date() },
+      });
+
+    const scheduleNextCheck = async () => {
+      if (!this.isRunning) return;
+
+      try {
+        await this.processSweepJob();
+      } catch (error) {
+        console.error("Error processing loan expiry job:", error);
+      }
+
+      this.globalTimer = setTimeout(scheduleNextCheck, POLL_INTERVAL_MS);
+    };
+
+    scheduleNextCheck();
+  }
+
+  stopScheduler(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    this.isRunning = false;
+    if (this.globalTimer) {
+      clearTimeout(this.globalTimer);
+      this.globalTimer = null;
+    }
+    console.log("Loan expiry service stopped");
+  }
+
+  // Run a sweep immediately (admin trigger). Returns null if a sweep is already in progress
+  async runNow(triggeredBy: string): Promise<LoanExpiryRun | null> {
+    const claimed = await this.claimSweepJob(true);
+    if (!claimed) {
+      return null;
+    }
+    return await this.runClaimedSweep("manual", triggeredBy);
+  }
+
+  async getSchedule(): Promise<LoanExpirySchedule> {
+    const [job] = await db
+      .select({ nextRunAt: loanExpiryJobs.nextRunAt, lastError: loanExpiryJobs.lastError, lockedBy: loanExpiryJobs.lockedBy })
+      .from(loanExpiryJobs)
+      .where(eq(loanExpiryJobs.id, SWEEP_JOB_ID));
+
+    return {
+      graceDays: GRACE_PERIOD_DAYS,
+      intervalMs: SWEEP_INTERVAL_MS,
+      nextRunAt: job?.nextRunAt ?? null,
+      lastError: job?.lastError ?? null,
+      isRunning: !!job?.lockedBy,
+    };
+  }
+
+  private async cleanupStaleLocks(): Promise<void> {
+    try {
+      const staleTime = new Date(Date.now() - LOCK_TIMEOUT_MS);
+      await db
+        .update(loanExpiryJobs)
+        .set({ lockedBy: null, lockedAt: null, updatedAt: new Date() })
+        .where(or(lt(loanExpiryJobs.lockedAt, staleTime), eq(loanExpiryJobs.lockedBy, this.instanceId)));
+    } catch (error) {
+      console.error("Error cleaning up stale loan expiry locks:", error);
+      // Don't throw - this is best effort cleanup
+    }
+  }
+
+  // Take the advisory lock on the sweep job, optionally ignoring its schedule
+  private async claimSweepJob(ignoreSchedule: boolean = false): Promise<boolean> {
+    const now = new Date();
+    const staleTime = new Date(Date.now() - LOCK_TIMEOUT_MS);
+
+    const claimed = await db
+      .update(loanExpiryJobs)
+      .set({ lockedBy: this.instanceId, lockedAt: now, updatedAt: now })
+      .where(and(
+        eq(loanExpiryJobs.id, SWEEP_JOB_ID),
+        or(isNull(loanExpiryJobs.lockedBy), lt(loanExpiryJobs.lockedAt, staleTime)),
+        ignoreSchedule ? undefined : lte(loanExpiryJobs.nextRunAt, now),
+      ))
+      .returning({ id: loanExpiryJobs.id });
+
+    return claimed.length > 0;
+  }
+
+  private async processSweepJob(): Promise<void> {
+    if (await this.claimSweepJob()) {
+      await this.runClaimedSweep("scheduled");
+    }
+  }
+
+  // Run the sweep while holding the job lock, then release it and schedule the next run
+  private async runClaimedSweep(trigger: "scheduled" | "manual", triggeredBy?: string): Promise<LoanExpiryRun> {
+    try {
+      const run = await this.sweepExpiredLoans(trigger, triggeredBy);
+      const nextRunAt = new Date(Date.now() + SWEEP_INTERVAL_MS);
+
+      await db
+        .update(loanExpiryJobs)
+        .set({
+          nextRunAt,
+          retryCount: 0,
+          lastError: null,
+          lastRunId: run.id,
+          lockedBy: null,
+          lockedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(loanExpiryJobs.id, SWEEP_JOB_ID));
+
+      return run;
+    } catch (error) {
+      // Retry with exponential backoff, capped at the normal sweep interval
+      const [job] = await db
+        .select({ retryCount: loanExpiryJobs.retryCount })
+        .from(loanExpiryJobs)
+        .where(eq(loanExpiryJobs.id, SWEEP_JOB_ID));
+      const retryCount = (job?.retryCount ?? 0) + 1;
+      const backoffMs = Math.min(POLL_INTERVAL_MS * Math.pow(2, retryCount), SWEEP_INTERVAL_MS);
+      const nextRunAt = new Date(Date.now() + backoffMs);
+
+      await db
+        .update(loanExpiryJobs)
+        .set({
+          nextRunAt,
+          retryCount,
+          lastError: error instanceof Error ? error.message : 'Unknown error',
+          lockedBy: null,
+          lockedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(loanExpiryJobs.id, SWEEP_JOB_ID));
+
+      throw error;
+    }
+  }
+
+  /**
+   * Forfeit every active loan whose expiry plus grace period has passed. Each loan is
+   * processed in its own DB transaction so one failure does not block the rest
+   */
+  private async sweepExpiredLoans(trigger: "scheduled" | "manual", triggeredBy?: string): Promise<LoanExpiryRun> {
+    const run = await storage.createLoanExpiryRun({
+      trigger,
+      triggeredBy: triggeredBy ?? null,
+      status: "running",
+      graceDays: GRACE_PERIOD_DAYS,
+    });
+
+    const cutoff = new Date(Date.now() - GRACE_PERIOD_DAYS * DAY_MS);
+    const errors: Array<{ loanId: string; error: string }> = [];
+    let loansScanned = 0;
+    let loansForfeited = 0;
+    let assetsCreated = 0;
+
+    try {
+      const expiredLoans = await storage.getPawnLoansExpiredBefore(cutoff);
+      loansScanned = expiredLoans.length;
+
+      for (const loan of expiredLoans) {
+        try {
+          const result = await storage.forfeitPawnLoan(loan.id, {
+            cutoff,
+            startingPriceRatio: STARTING_PRICE_RATIO,
+            auctionDays: AUCTION_DURATION_DAYS,
+            runId: run.id,
+          });
+
+          if (result) {
+            loansForfeited++;
+            if (result.asset) {
+              assetsCreated++;
+            }
+
+            // Notification failures are logged but never undo a committed forfeiture
+            notificationService.notifyLoanForfeited(result.loan, result.asset).catch((error) => {
+              console.error(`Error sending forfeiture notice for loan ${loan.id}:`, error);
+            });
+          }
+        } catch (error) {
+          console.error(`Error forfeiting expired loan ${loan.id}:`, error);
+          errors.push({ loanId: loan.id, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+      }
+
+      console.log(`Loan expiry sweep completed: ${loansForfeited}/${loansScanned} loans forfeited, ${assetsCreated} assets listed, ${errors.length} errors`);
+
+      return await storage.updateLoanExpiryRun(run.id, {
+        status: "completed",
+        loansScanned,
+        loansForfeited,
+        assetsCreated,
+        errorCount: errors.length,
+        errors,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      errors.push({ loanId: "*", error: error instanceof Error ? error.message : 'Unknown error' });
+      await storage.updateLoanExpiryRun(run.id, {
+        status: "failed",
+        loansScanned,
+        loansForfeited,
+        assetsCreated,
+        errorCount: errors.length,
+        errors,
+        completedAt: new Date(),
+      });
+      throw error;
+    }
+  }
+}
+
+export const loanExpiryService = LoanExpiryService.getInstance();
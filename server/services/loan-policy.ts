@@ -0,0 +1,97 @@
+// Loan Policy Service - Versioned LTV, term, fee and principal limits per asset category
+// Policies are immutable: editing a category creates a new version with its own effective
+// dates, and every loan records the policy version it was created under.
+
+import { storage } from "../storage";
+import {
+  LOAN_POLICY_CATEGORIES,
+  SUBMISSION_POLICY_CATEGORIES,
+  type LoanPolicy,
+  type LoanPolicyCategory,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Terms the platform used before policies were configurable - seeded as version 1
+const DEFAULT_POLICY_TERMS = {
+  ltvRatio: "0.7000",
+  termDays: 90,
+  feeAmount: "2.00",
+  maxPrincipal: "5000000.00",
+};
+
+export interface LoanTerms {
+  policy: LoanPolicy;
+  loanAmount: number;
+  feeAmount: number;
+  expiryDate: Date;
+}
+
+export class LoanPolicyService {
+  private static instance: LoanPolicyService;
+
+  static getInstance(): LoanPolicyService {
+    if (!LoanPolicyService.instance) {
+      LoanPolicyService.instance = new LoanPolicyService();
+    }
+    return LoanPolicyService.instance;
+  }
+
+  // Seed a version 1 policy for any category that has never had one
+  async ensureDefaultPolicies(): Promise<void> {
+    for (const category of LOAN_POLICY_CATEGORIES) {
+      const existing = await storage.getLoanPolicies(category);
+      if (existing.length > 0) {
+        continue;
+      }
+
+      await storage.createLoanPolicyVersion({
+        category,
+        ...DEFAULT_POLICY_TERMS,
+        effectiveFrom: new Date(0),
+        notes: "Default policy",
+      }, "system");
+      console.log(`Seeded default loan policy for category ${category}`);
+    }
+  }
+
+  // Map a submission category (e.g. art-collectibles) onto its loan policy category
+  resolveCategory(submissionCategory: string): LoanPolicyCategory | undefined {
+    if ((LOAN_POLICY_CATEGORIES as readonly string[]).includes(submissionCategory)) {
+      return submissionCategory as LoanPolicyCategory;
+    }
+    return SUBMISSION_POLICY_CATEGORIES[submissionCategory];
+  }
+
+  async getEffectivePolicy(submissionCategory: string, asOf: Date = new Date()): Promise<LoanPolicy | undefined> {
+    const category = this.resolveCategory(submissionCategory);
+    if (!category) {
+      return undefined;
+    }
+    return await storage.getEffectiveLoanPolicy(category, asOf);
+  }
+
+  // The current policy for every category, keyed by category
+  async getEffectivePolicies(asOf: Date = new Date()): Promise<Record<string, LoanPolicy | null>> {
+    const effective: Record<string, LoanPolicy | null> = {};
+    for (const category of LOAN_POLICY_CATEGORIES) {
+      effective[category] = (await storage.getEffectiveLoanPolicy(category, asOf)) ?? null;
+    }
+    return effective;
+  }
+
+  // Size and price a loan for an asset under a policy
+  calculateLoanTerms(policy: LoanPolicy, assetValue: number, startDate: Date = new Date()): LoanTerms {
+    const ltvAmount = assetValue * parseFloat(policy.ltvRatio);
+    const loanAmount = Math.floor(Math.min(ltvAmount, parseFloat(policy.maxPrincipal)) * 100) / 100;
+
+    return {
+      policy,
+      loanAmount,
+      feeAmount: parseFloat(policy.feeAmount),
+      expiryDate: new Date(startDate.getTime() + policy.termDays * DAY_MS),
+    };
+  }
+}
+
+export const loanPolicyService = LoanPolicyService.getInstance();
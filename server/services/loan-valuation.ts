@@ -0,0 +1,109 @@
+// Loan Valuation Service - Reconciles the value a loan is sized against
+// The admin appraisal is the basis, capped by the latest PricingService estimate for the
+// submission and by the user's own claim, so a loan is never sized above what anyone believes
+// the asset is worth. Admin appraisals that stray from the reference need a written reason, and
+// no loan is approved until an admin has appraised the asset.
+
+import { storage } from "../storage";
+import {
+  VALUATION_OVERRIDE_TOLERANCE,
+  type LoanValuation,
+  type RwaSubmission,
+} from "@shared/schema";
+
+export interface ValuationInput {
+  adminValue?: number; // Appraisal entered at approval time
+  overrideReason?: string;
+}
+
+export class LoanValuationService {
+  private static instance: LoanValuationService;
+
+  static getInstance(): LoanValuationService {
+    if (!LoanValuationService.instance) {
+      LoanValuationService.instance = new LoanValuationService();
+    }
+    return LoanValuationService.instance;
+  }
+
+  /**
+   * Build the valuation breakdown for a submission. When no appraisal is given at approval
+   * time, the most recent asset review valuation is used instead. Without either the claim is
+   * only shown as the basis for previews - getMissingValuationBlocker stops the approval
+   */
+  async reconcile(submission: RwaSubmission, input: ValuationInput = {}): Promise<LoanValuation> {
+    const claimedValue = parseFloat(submission.estimatedValue);
+
+    let adminValue: number | null = null;
+    let adminValueSource: LoanValuation["adminValueSource"] = null;
+    if (input.adminValue !== undefined && !isNaN(input.adminValue)) {
+      adminValue = input.adminValue;
+      adminValueSource = "approval";
+    } else {
+      const reviews = await storage.getAssetReviewsBySubmission(submission.id);
+      const appraised = reviews.find((review) => review.estimatedValue !== null);
+      if (appraised?.estimatedValue) {
+        adminValue = parseFloat(appraised.estimatedValue);
+        adminValueSource = "asset_review";
+      }
+    }
+
+    const [latestEstimate] = await storage.getPricingEstimatesBySubmission(submission.id);
+    const pricingEstimate = latestEstimate ? parseFloat(latestEstimate.estimatedValue) : null;
+
+    const basisValue = adminValue ?? claimedValue;
+    let reconciledValue = basisValue;
+    let cappedBy: LoanValuation["cappedBy"] = null;
+
+    if (pricingEstimate !== null && pricingEstimate < reconciledValue) {
+      reconciledValue = pricingEstimate;
+      cappedBy = "pricing_estimate";
+    }
+    if (claimedValue < reconciledValue) {
+      reconciledValue = claimedValue;
+      cappedBy = "claimed_value";
+    }
+
+    // Deviation is measured against the market estimate when there is one, otherwise the claim
+    const referenceValue = pricingEstimate ?? claimedValue;
+    const deviation = adminValue !== null && referenceValue > 0
+      ? (adminValue - referenceValue) / referenceValue
+      : null;
+    const overrideReason = input.overrideReason?.trim() || null;
+
+    return {
+      claimedValue: claimedValue.toFixed(2),
+      adminValue: adminValue !== null ? adminValue.toFixed(2) : null,
+      adminValueSource,
+      pricingEstimate: pricingEstimate !== null ? pricingEstimate.toFixed(2) : null,
+      pricingEstimateId: latestEstimate?.id ?? null,
+      basis: adminValue !== null ? "admin_valuation" : "claimed_value",
+      cappedBy,
+      reconciledValue: reconciledValue.toFixed(2),
+      deviation: deviation !== null ? Math.round(deviation * 10000) / 10000 : null,
+      overrideRequired: deviation !== null && Math.abs(deviation) > VALUATION_OVERRIDE_TOLERANCE,
+      overrideReason,
+      reconciledAt: new Date().toISOString(),
+    };
+  }
+
+  // Reason an approval cannot proceed without an admin appraisal, or null if there is one
+  getMissingValuationBlocker(valuation: LoanValuation): string | null {
+    if (valuation.basis !== "admin_valuation" || valuation.adminValue === null) {
+      return "The asset must be appraised by an admin before a loan can be approved";
+    }
+    return null;
+  }
+
+  // Reason an approval cannot proceed with this valuation, or null if it can
+  getOverrideBlocker(valuation: LoanValuation): string | null {
+    if (valuation.overrideRequired && !valuation.overrideReason) {
+      const percent = Math.round(Math.abs(valuation.deviation ?? 0) * 100);
+      const reference = valuation.pricingEstimate !== null ? "the pricing estimate" : "the claimed value";
+      return `Admin valuation differs from ${reference} by ${percent}% - an override reason is required`;
+    }
+    return null;
+  }
+}
+
+export const loanValuationService = LoanValuationService.getInstance();
@@ -0,0 +1,334 @@
+// Notification Service - In-app inbox and email delivery for borrower and bidder notifications
+// Reminders go out 14, 7, 3 and 1 day before a loan expires, plus a final notice on forfeiture.
+// Borrowers get a margin call when market-priced collateral pushes their loan past an LTV threshold.
+// Bidders and watchers are alerted when they are outbid, when an auction is ending and when it settles.
+// Every notification carries a dedupe key so overlapping sweeps never send the same reminder twice.
+
+import { storage, type AuctionSettlementResult } from "../storage";
+import { emailService } from "./email-service";
+import {
+  COLLATERAL_LTV_THRESHOLDS,
+  type PawnLoan,
+  type RwaSubmission,
+  type CollateralHealth,
+  type MarketplaceAsset,
+  type Bid,
+  type Notification,
+  type InsertNotification,
+} from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days before expiry at which a reminder is sent
+export const EXPIRY_REMINDER_DAYS = [14, 7, 3, 1] as const;
+
+// How often the reminder sweep looks for loans approaching expiry
+const REMINDER_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Minutes before an auction ends at which watchers and bidders are alerted
+export const AUCTION_ENDING_SOON_MINUTES = 60;
+
+// Why the recipient gets each type of notification, for the email footer
+const EMAIL_REASONS: Record<string, string> = {
+  loan_expiry_reminder: "you have a pawn loan",
+  loan_forfeited: "you have a pawn loan",
+  loan_margin_call: "you have a pawn loan",
+  auction_outbid: "you bid on this auction",
+  auction_ending_soon: "you are watching or bidding on this auction",
+  auction_won: "you bid on this auction",
+  auction_lost: "you bid on this auction",
+};
+
+export class NotificationService {
+  private static instance: NotificationService;
+  private reminderTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): NotificationService {
+    if (!NotificationService.instance) {
+      NotificationService.instance = new NotificationService();
+    }
+    return NotificationService.instance;
+  }
+
+  // Start the periodic pre-expiry reminder sweep
+  startReminderSchedule(): void {
+    if (this.reminderTimer) {
+      return;
+    }
+
+    const runSweep = async () => {
+      try {
+        const sent = await this.sendExpiryReminders();
+        console.log(`Loan expiry reminder sweep completed (${sent} reminders sent)`);
+      } catch (error) {
+        console.error("Error during loan expiry reminder sweep:", error);
+      }
+    };
+
+    runSweep();
+    this.reminderTimer = setInterval(runSweep, REMINDER_SWEEP_INTERVAL_MS);
+  }
+
+  stopReminderSchedule(): void {
+    if (this.reminderTimer) {
+      clearInterval(this.reminderTimer);
+      this.reminderTimer = null;
+    }
+  }
+
+  /**
+   * Record a notification in the user's inbox and email it. Returns undefined if a
+   * notification with the same dedupe key was already sent
+   */
+  async notify(notification: InsertNotification): Promise<Notification | undefined> {
+    const created = await storage.createNotification(notification);
+    if (!created) {
+      return undefined;
+    }
+
+    const user = await storage.getUser(created.userId);
+    if (!user?.email) {
+      return await storage.updateNotificationEmailStatus(created.id, "skipped", "User has no email address");
+    }
+
+    const delivery = await emailService.sendNotificationEmail({
+      to: user.email,
+      subject: created.title,
+      message: created.message,
+      link: created.link,
+      reason: EMAIL_REASONS[created.type],
+    });
+
+    return await storage.updateNotificationEmailStatus(
+      created.id,
+      delivery.success ? "sent" : "failed",
+      delivery.error
+    );
+  }
+
+  // Which reminder threshold applies to a loan right now, if any
+  getReminderThreshold(loan: PawnLoan, asOf: Date = new Date()): number | null {
+    const daysRemaining = Math.ceil((new Date(loan.expiryDate).getTime() - asOf.getTime()) / DAY_MS);
+    if (daysRemaining <= 0) {
+      return null;
+    }
+
+    // Only the tightest threshold is sent, so a loan first seen 5 days out gets the 7-day reminder only
+    const thresholds = EXPIRY_REMINDER_DAYS.filter((days) => daysRemaining <= days);
+    return thresholds.length > 0 ? Math.min(...thresholds) : null;
+  }
+
+  // Send any due pre-expiry reminders, returning how many were sent
+  async sendExpiryReminders(asOf: Date = new Date()): Promise<number> {
+    const expiringLoans = await storage.getExpiringPawnLoans(Math.max(...EXPIRY_REMINDER_DAYS));
+    let sent = 0;
+
+    for (const loan of expiringLoans) {
+      try {
+        const threshold = this.getReminderThreshold(loan, asOf);
+        if (threshold === null) {
+          continue;
+        }
+
+        const expiryDate = new Date(loan.expiryDate);
+        const submission = await storage.getRwaSubmission(loan.submissionId);
+        const assetName = submission?.assetName || "your pawned asset";
+
+        const notification = await this.notify({
+          userId: loan.userId,
+          type: "loan_expiry_reminder",
+          title: threshold === 1 ? "Your loan expires within 24 hours" : `Your loan expires within ${threshold} days`,
+          message: `The loan on ${assetName} expires on ${expiryDate.toUTCString()}. Redeem or extend it before then to keep your asset.`,
+          loanId: loan.id,
+          link: "/dashboard",
+          // Keyed on the expiry date so an extended loan gets a fresh set of reminders
+          dedupeKey: `loan_expiry_reminder:${loan.id}:${threshold}:${expiryDate.getTime()}`,
+          metadata: { reminderDays: threshold, expiryDate: expiryDate.toISOString() },
+        });
+
+        if (notification) {
+          sent++;
+        }
+      } catch (error) {
+        console.error(`Error sending expiry reminder for loan ${loan.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  // Tell the borrower their loan was forfeited and the asset listed on the marketplace
+  async notifyLoanForfeited(loan: PawnLoan, asset?: MarketplaceAsset): Promise<Notification | undefined> {
+    const submission = await storage.getRwaSubmission(loan.submissionId);
+    const assetName = asset?.assetName || submission?.assetName || "your pawned asset";
+
+    return await this.notify({
+      userId: loan.userId,
+      type: "loan_forfeited",
+      title: "Your loan has been forfeited",
+      message: `The loan on ${assetName} expired without being redeemed and the asset has been moved to the marketplace.`,
+      loanId: loan.id,
+      link: asset ? `/asset/${asset.id}` : "/dashboard",
+      dedupeKey: `loan_forfeited:${loan.id}`,
+      metadata: { marketplaceAssetId: asset?.id },
+    });
+  }
+
+  // Margin call: the borrower's crypto or metals collateral has fallen far enough to put the loan at risk
+  async notifyMarginCall(loan: PawnLoan, submission: RwaSubmission, health: CollateralHealth): Promise<Notification | undefined> {
+    const ltvPercent = (parseFloat(loan.currentLtv ?? '0') * 100).toFixed(1);
+    const warningPercent = Math.round(COLLATERAL_LTV_THRESHOLDS.warning * 100);
+    const changedAt = loan.collateralHealthChangedAt ? new Date(loan.collateralHealthChangedAt).getTime() : Date.now();
+
+    return await this.notify({
+      userId: loan.userId,
+      type: "loan_margin_call",
+      title: health === 'liquidation'
+        ? `Margin call: your loan on ${submission.assetName} may be liquidated`
+        : `Collateral warning for your loan on ${submission.assetName}`,
+      message: health === 'liquidation'
+        ? `The value of ${submission.assetName} has fallen and your loan is now at ${ltvPercent}% loan-to-value. Repay part of the loan to bring it below ${warningPercent}%, or the collateral may be liquidated.`
+        : `The value of ${submission.assetName} has fallen and your loan is now at ${ltvPercent}% loan-to-value. Consider repaying part of the loan to bring it below ${warningPercent}% before it reaches the liquidation threshold.`,
+      loanId: loan.id,
+      link: "/dashboard",
+      // Keyed on when the loan entered this state, so a loan that recovers and falls again is notified again
+      dedupeKey: `loan_margin_call:${loan.id}:${health}:${changedAt}`,
+      metadata: {
+        health,
+        currentLtv: loan.currentLtv,
+        collateralValue: loan.collateralValue,
+        symbol: loan.collateralSymbol,
+      },
+    });
+  }
+
+  // Tell bidders whose bids were just displaced that they have been outbid
+  async notifyOutbid(asset: MarketplaceAsset, newBid: Bid, outbid: Bid[]): Promise<number> {
+    let sent = 0;
+
+    for (const bid of outbid) {
+      if (bid.bidderId === newBid.bidderId) {
+        continue;
+      }
+
+      const notification = await this.notify({
+        userId: bid.bidderId,
+        type: "auction_outbid",
+        title: `You've been outbid on ${asset.assetName}`,
+        message: `Someone bid ${parseFloat(newBid.amount).toLocaleString()} ICP on ${asset.assetName}, beating your bid of ${parseFloat(bid.amount).toLocaleString()} ICP. Your escrow will be refunded - bid again to stay in the auction.`,
+        link: `/asset/${asset.id}`,
+        dedupeKey: `auction_outbid:${bid.id}`,
+        metadata: { marketplaceAssetId: asset.id, bidId: bid.id, outbidBy: newBid.id, currentBid: newBid.amount },
+      });
+
+      if (notification) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  // Alert watchers and bidders once when an auction enters its final hour
+  async notifyAuctionEndingSoon(asset: MarketplaceAsset, asOf: Date = new Date()): Promise<number> {
+    if (asset.status !== "available" || !asset.auctionEndsAt) {
+      return 0;
+    }
+
+    const endsAt = new Date(asset.auctionEndsAt);
+    const msRemaining = endsAt.getTime() - asOf.getTime();
+    if (msRemaining <= 0 || msRemaining > AUCTION_ENDING_SOON_MINUTES * 60 * 1000) {
+      return 0;
+    }
+
+    const [watcherIds, assetBids] = await Promise.all([
+      storage.getAssetWatcherIds(asset.id),
+      storage.getBidsByAsset(asset.id),
+    ]);
+    const recipients = new Set([...watcherIds, ...assetBids.map((bid) => bid.bidderId)]);
+    let sent = 0;
+
+    for (const userId of Array.from(recipients)) {
+      const notification = await this.notify({
+        userId,
+        type: "auction_ending_soon",
+        title: `${asset.assetName} is ending soon`,
+        message: `The auction for ${asset.assetName} ends at ${endsAt.toUTCString()}. The current bid is ${parseFloat(asset.currentBid ?? asset.startingPrice).toLocaleString()} ICP.`,
+        link: `/asset/${asset.id}`,
+        // One alert per user per auction - anti-sniping extensions don't re-send it
+        dedupeKey: `auction_ending_soon:${asset.id}:${userId}`,
+        metadata: { marketplaceAssetId: asset.id, auctionEndsAt: endsAt.toISOString() },
+      });
+
+      if (notification) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+
+  // Send ending-soon alerts for every auction closing within the alert window
+  async sendAuctionEndingSoonAlerts(asOf: Date = new Date()): Promise<number> {
+    const closingAuctions = await storage.getAuctionsEndedBefore(new Date(asOf.getTime() + AUCTION_ENDING_SOON_MINUTES * 60 * 1000));
+    let sent = 0;
+
+    for (const asset of closingAuctions) {
+      try {
+        sent += await this.notifyAuctionEndingSoon(asset, asOf);
+      } catch (error) {
+        console.error(`Error sending ending-soon alerts for asset ${asset.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  // Tell the winner they won and every other bidder that they lost once an auction settles
+  async notifyAuctionResult(result: AuctionSettlementResult): Promise<number> {
+    const { asset, winningBid, feeTransaction, losingBids } = result;
+    let sent = 0;
+
+    if (winningBid) {
+      const feeNote = feeTransaction ? ` plus a ${parseFloat(feeTransaction.amount).toLocaleString()} ICP marketplace fee` : "";
+      const notification = await this.notify({
+        userId: winningBid.bidderId,
+        type: "auction_won",
+        title: `You won ${asset.assetName}`,
+        message: `Your bid of ${parseFloat(winningBid.amount).toLocaleString()} ICP won the auction for ${asset.assetName}${feeNote}.`,
+        link: `/asset/${asset.id}`,
+        dedupeKey: `auction_won:${asset.id}`,
+        metadata: { marketplaceAssetId: asset.id, bidId: winningBid.id, feeTransactionId: feeTransaction?.id },
+      });
+      if (notification) {
+        sent++;
+      }
+    }
+
+    const loserIds = new Set(losingBids.map((bid) => bid.bidderId));
+    if (winningBid) {
+      loserIds.delete(winningBid.bidderId);
+    }
+
+    for (const userId of Array.from(loserIds)) {
+      const notification = await this.notify({
+        userId,
+        type: "auction_lost",
+        title: `The auction for ${asset.assetName} has ended`,
+        message: winningBid
+          ? `${asset.assetName} sold for ${parseFloat(winningBid.amount).toLocaleString()} ICP. Any escrow you paid is being refunded.`
+          : `${asset.assetName} did not meet its reserve price and went unsold. Any escrow you paid is being refunded.`,
+        link: `/asset/${asset.id}`,
+        dedupeKey: `auction_lost:${asset.id}:${userId}`,
+        metadata: { marketplaceAssetId: asset.id, status: asset.status },
+      });
+      if (notification) {
+        sent++;
+      }
+    }
+
+    return sent;
+  }
+}
+
+export const notificationService = NotificationService.getInstance();
@@ -0,0 +1,90 @@
+// OCR Provider Registry - Picks the OCR engine document analysis runs on. OCR_PROVIDER selects
+// one explicitly; otherwise Textract is used when AWS credentials are set and local Tesseract
+// when they aren't, so development and air-gapped deployments still get real extraction.
+// A format the selected provider can't read (PDFs under Tesseract) goes to another configured one.
+
+import { textractOcrProvider } from "./textract";
+import { tesseractOcrProvider } from "./tesseract";
+import { UnknownOcrProviderError, UnsupportedOcrFormatError, type OcrProvider } from "./types";
+
+export * from "./types";
+
+export class OcrProviderRegistry {
+  private static instance: OcrProviderRegistry;
+  private providers = new Map<string, OcrProvider>();
+  private activeProvider: OcrProvider | null = null;
+
+  static getInstance(): OcrProviderRegistry {
+    if (!OcrProviderRegistry.instance) {
+      OcrProviderRegistry.instance = new OcrProviderRegistry();
+      OcrProviderRegistry.instance.registerProvider(textractOcrProvider);
+      OcrProviderRegistry.instance.registerProvider(tesseractOcrProvider);
+    }
+    return OcrProviderRegistry.instance;
+  }
+
+  registerProvider(provider: OcrProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProviders(): OcrProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * The configured provider, resolved on first use. Throws UnknownOcrProviderError if
+   * OCR_PROVIDER names a provider that isn't registered
+   */
+  getProvider(): OcrProvider {
+    if (!this.activeProvider) {
+      this.activeProvider = this.resolveProvider();
+      console.log(`Document OCR provider: ${this.activeProvider.name}`);
+    }
+    return this.activeProvider;
+  }
+
+  /**
+   * The provider to read a document of the given type with: the configured provider, or another
+   * configured provider when it can't read the format. Throws UnsupportedOcrFormatError if none can
+   */
+  getProviderFor(mimeType: string): OcrProvider {
+    const provider = this.findProviderFor(mimeType);
+    if (!provider) {
+      throw new UnsupportedOcrFormatError(mimeType);
+    }
+    return provider;
+  }
+
+  /**
+   * Whether a document of the given type can be read, so uploads can be turned away up front
+   */
+  canAnalyze(mimeType: string): boolean {
+    return !!this.findProviderFor(mimeType);
+  }
+
+  private findProviderFor(mimeType: string): OcrProvider | undefined {
+    const provider = this.getProvider();
+    if (provider.supportedFormats.includes(mimeType)) {
+      return provider;
+    }
+    return this.getProviders().find(candidate => candidate.isConfigured() && candidate.supportedFormats.includes(mimeType));
+  }
+
+  private resolveProvider(): OcrProvider {
+    const configured = process.env.OCR_PROVIDER?.trim().toLowerCase();
+    if (configured) {
+      const provider = this.providers.get(configured);
+      if (!provider) {
+        throw new UnknownOcrProviderError(configured);
+      }
+      if (!provider.isConfigured()) {
+        console.warn(`OCR provider ${provider.name} is selected but not configured`);
+      }
+      return provider;
+    }
+
+    return textractOcrProvider.isConfigured() ? textractOcrProvider : tesseractOcrProvider;
+  }
+}
+
+export const ocrProviderRegistry = OcrProviderRegistry.getInstance();
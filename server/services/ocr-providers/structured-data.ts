@@ -0,0 +1,215 @@
+// Document field extraction shared by every OCR provider - classifies the document from its text
+// and pulls out serial numbers, issuers, dates and asset details, so extracted fields don't
+// depend on which engine read the document
+
+import type { ExtractedDocumentData, FormData } from "../textract-service";
+
+// Minimum confidence for a form field to be copied into the extracted details
+const MIN_FIELD_CONFIDENCE = 80;
+
+/**
+ * Extract structured data from OCR text and forms
+ */
+export function extractStructuredData(ocrText: string, forms: FormData[]): ExtractedDocumentData {
+  const keyValuePairs: Record<string, string> = {};
+  forms.forEach(form => {
+    keyValuePairs[form.key] = form.value;
+  });
+
+  // Pattern matching for common document types
+  const extractedData: ExtractedDocumentData = { keyValuePairs };
+
+  // Certificate of Authenticity patterns
+  if (detectDocumentType(ocrText, 'coa')) {
+    extractedData.documentType = 'certificate_of_authenticity';
+    extractedData.serialNumber = extractSerialNumber(ocrText);
+    extractedData.issuer = extractIssuer(ocrText);
+    extractedData.dateIssued = extractDateIssued(ocrText);
+    extractedData.assetDetails = extractAssetDetails(ocrText, forms);
+  }
+
+  // NFT Certificate patterns
+  if (detectDocumentType(ocrText, 'nft')) {
+    extractedData.documentType = 'nft_certificate';
+    extractedData.serialNumber = extractTokenId(ocrText);
+    extractedData.certificationInfo = extractNFTInfo(ocrText, forms);
+  }
+
+  // Appraisal document patterns
+  if (detectDocumentType(ocrText, 'appraisal')) {
+    extractedData.documentType = 'appraisal';
+    extractedData.issuer = extractAppraiser(ocrText);
+    extractedData.dateIssued = extractAppraisalDate(ocrText);
+    extractedData.assetDetails = extractAppraisalDetails(ocrText, forms);
+  }
+
+  return extractedData;
+}
+
+// Document type detection methods
+function detectDocumentType(text: string, type: string): boolean {
+  const normalizedText = text.toLowerCase();
+  
+  const patterns = {
+    coa: ['certificate of authenticity', 'authenticity certificate', 'coa', 'authentication'],
+    nft: ['non-fungible token', 'nft', 'token id', 'blockchain certificate', 'digital asset'],
+    appraisal: ['appraisal', 'appraised value', 'appraiser', 'valuation', 'market value'],
+    insurance: ['insurance', 'policy', 'coverage', 'insured value', 'premium'],
+  };
+
+  const typePatterns = patterns[type as keyof typeof patterns] || [];
+  return typePatterns.some(pattern => normalizedText.includes(pattern));
+}
+
+// Data extraction methods
+function extractSerialNumber(text: string): string | undefined {
+  const patterns = [
+    /serial\s*(?:number|#)[\s:]*([A-Z0-9-]+)/i,
+    /s\/n[\s:]*([A-Z0-9-]+)/i,
+    /serial[\s:]*([A-Z0-9-]+)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+
+  return undefined;
+}
+
+function extractIssuer(text: string): string | undefined {
+  const patterns = [
+    /issued\s+by[\s:]*([^\n]+)/i,
+    /issuer[\s:]*([^\n]+)/i,
+    /certified\s+by[\s:]*([^\n]+)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1].trim();
+  }
+
+  return undefined;
+}
+
+function extractDateIssued(text: string): string | undefined {
+  const patterns = [
+    /issue\s*date[\s:]*(\d{1,2}\/\d{1,2}\/\d{4})/i,
+    /dated[\s:]*(\d{1,2}\/\d{1,2}\/\d{4})/i,
+    /(\d{1,2}\/\d{1,2}\/\d{4})/,
+    /(\d{4}-\d{2}-\d{2})/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+
+  return undefined;
+}
+
+function extractTokenId(text: string): string | undefined {
+  const patterns = [
+    /token\s*id[\s:]*([A-Z0-9-]+)/i,
+    /nft[\s#:]*([A-Z0-9-]+)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+
+  return undefined;
+}
+
+function extractAppraiser(text: string): string | undefined {
+  const patterns = [
+    /appraiser[\s:]*([^\n]+)/i,
+    /certified\s+appraiser[\s:]*([^\n]+)/i,
+    /by[\s:]*([^\n]+appraiser[^\n]*)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1].trim();
+  }
+
+  return undefined;
+}
+
+function extractAppraisalDate(text: string): string | undefined {
+  const patterns = [
+    /appraisal\s*date[\s:]*(\d{1,2}\/\d{1,2}\/\d{4})/i,
+    /date\s*of\s*appraisal[\s:]*(\d{1,2}\/\d{1,2}\/\d{4})/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match[1];
+  }
+
+  return extractDateIssued(text);
+}
+
+function extractAssetDetails(text: string, forms: FormData[]): Record<string, any> {
+  const details: Record<string, any> = {};
+
+  // Extract common asset details
+  const valueMatch = text.match(/(?:value|worth)[\s:]*\$?([\d,]+(?:\.\d{2})?)/i);
+  if (valueMatch) details.estimatedValue = valueMatch[1];
+
+  const weightMatch = text.match(/([\d.]+)\s*(grams?|oz|ounces?|carats?)/i);
+  if (weightMatch) {
+    details.weight = parseFloat(weightMatch[1]);
+    details.weightUnit = weightMatch[2];
+  }
+
+  // Add form data as additional details
+  forms.forEach(form => {
+    if (form.confidence >= MIN_FIELD_CONFIDENCE) {
+      details[form.key.toLowerCase().replace(/\s+/g, '_')] = form.value;
+    }
+  });
+
+  return details;
+}
+
+function extractNFTInfo(text: string, forms: FormData[]): Record<string, any> {
+  const info: Record<string, any> = {};
+
+  // Extract blockchain information
+  const blockchainMatch = text.match(/blockchain[\s:]*([^\n]+)/i);
+  if (blockchainMatch) info.blockchain = blockchainMatch[1].trim();
+
+  const contractMatch = text.match(/contract[\s:]*([0-9a-fA-Fx]+)/i);
+  if (contractMatch) info.contractAddress = contractMatch[1];
+
+  // Add form data
+  forms.forEach(form => {
+    if (form.confidence >= MIN_FIELD_CONFIDENCE) {
+      info[form.key.toLowerCase().replace(/\s+/g, '_')] = form.value;
+    }
+  });
+
+  return info;
+}
+
+function extractAppraisalDetails(text: string, forms: FormData[]): Record<string, any> {
+  const details: Record<string, any> = {};
+
+  // Extract appraisal-specific information
+  const marketValueMatch = text.match(/market\s*value[\s:]*\$?([\d,]+(?:\.\d{2})?)/i);
+  if (marketValueMatch) details.marketValue = marketValueMatch[1];
+
+  const replacementValueMatch = text.match(/replacement\s*value[\s:]*\$?([\d,]+(?:\.\d{2})?)/i);
+  if (replacementValueMatch) details.replacementValue = replacementValueMatch[1];
+
+  // Add form data
+  forms.forEach(form => {
+    if (form.confidence >= MIN_FIELD_CONFIDENCE) {
+      details[form.key.toLowerCase().replace(/\s+/g, '_')] = form.value;
+    }
+  });
+
+  return details;
+}
@@ -0,0 +1,237 @@
+// Local Tesseract OCR provider - runs tesseract.js in-process, so documents are read without any
+// cloud service. Images only: PDFs have no pixels for Tesseract to read without a rasterizer.
+// Forms come from "Key: Value" lines and tables from lines split into aligned columns by wide gaps.
+// Language data is downloaded on first use unless TESSERACT_LANG_PATH points at local files.
+
+import Tesseract from "tesseract.js";
+import sharp from "sharp";
+import type { AnalysisOptions, BoundingBox, FormData, TableData, TextractResult } from "../textract-service";
+import { extractStructuredData } from "./structured-data";
+import type { OcrProvider } from "./types";
+
+const SUPPORTED_FORMATS = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Words below this confidence are left out of the bounding boxes, as with Textract
+const MIN_WORD_CONFIDENCE = 80;
+
+// A horizontal gap this many line heights wide separates two table columns
+const COLUMN_GAP_LINE_HEIGHTS = 1.5;
+
+// "Serial Number: ABC-123" - a short label, a colon, then the value
+const FORM_LINE_PATTERN = /^([^:]{2,40}):\s*(.+)$/;
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+
+// One worker, created on first use. Tesseract workers queue their jobs, so calls run one at a time
+function getWorker(): Promise<Tesseract.Worker> {
+  if (!workerPromise) {
+    const languages = (process.env.TESSERACT_LANGUAGES || 'eng').split(',').map(language => language.trim());
+    const workerOptions: Partial<Tesseract.WorkerOptions> = {
+      // Without a handler tesseract.js rethrows job failures outside the job's promise, taking the process down
+      errorHandler: error => console.error('Tesseract worker error:', error),
+    };
+    if (process.env.TESSERACT_LANG_PATH) workerOptions.langPath = process.env.TESSERACT_LANG_PATH;
+    if (process.env.TESSERACT_CACHE_PATH) workerOptions.cachePath = process.env.TESSERACT_CACHE_PATH;
+
+    workerPromise = Tesseract.createWorker(languages, undefined, workerOptions).catch(error => {
+      // Let the next document retry, e.g. once the language data is reachable
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+export const tesseractOcrProvider: OcrProvider = {
+  name: 'tesseract',
+  supportedFormats: SUPPORTED_FORMATS,
+
+  isConfigured() {
+    return true;
+  },
+
+  async analyzeDocument(documentBuffer, mimeType, options = {}) {
+    const startTime = Date.now();
+
+    if (!SUPPORTED_FORMATS.includes(mimeType)) {
+      throw new Error(`Unsupported document format for Tesseract: ${mimeType}. Supported formats: ${SUPPORTED_FORMATS.join(', ')}`);
+    }
+
+    const analysisOptions: Pick<AnalysisOptions, 'extractTables' | 'extractForms'> = {
+      extractTables: true,
+      extractForms: true,
+      ...options,
+    };
+
+    try {
+      // Upright greyscale PNG: applies EXIF rotation, and Tesseract reads it more reliably than webp
+      const image = await sharp(documentBuffer).rotate().grayscale().normalize().png().toBuffer({ resolveWithObject: true });
+      const size: ImageSize = { width: image.info.width, height: image.info.height };
+
+      const worker = await getWorker();
+      const { data } = await worker.recognize(image.data, {}, { text: true, blocks: true });
+
+      const lines = (data.blocks ?? []).flatMap(block => block.paragraphs.flatMap(paragraph => paragraph.lines));
+      const ocrText = lines.map(line => line.text.trim()).filter(text => text.length > 0).join('\n');
+      const forms = analysisOptions.extractForms ? extractForms(lines) : [];
+
+      const result: TextractResult = {
+        ocrText,
+        extractedData: extractStructuredData(ocrText, forms),
+        boundingBoxes: extractBoundingBoxes(lines, size),
+        tables: analysisOptions.extractTables ? extractTables(lines, size) : [],
+        forms,
+        confidence: data.confidence,
+        processingTime: Date.now() - startTime,
+        // Tesseract's blocks reference their page, so only a plain summary is kept
+        rawResponse: {
+          provider: 'tesseract',
+          version: data.version,
+          psm: data.psm,
+          oem: data.oem,
+          image: size,
+          lines: lines.map(line => ({
+            text: line.text.trim(),
+            confidence: line.confidence,
+            bbox: line.bbox,
+          })),
+        },
+      };
+
+      return result;
+    } catch (error) {
+      console.error('Tesseract analysis failed:', error);
+      throw new Error(`Document analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  },
+};
+
+/**
+ * Word-level bounding boxes, as fractions of the page like Textract's geometry
+ */
+function extractBoundingBoxes(lines: Tesseract.Line[], size: ImageSize): BoundingBox[] {
+  return lines
+    .flatMap(line => line.words)
+    .filter(word => word.confidence >= MIN_WORD_CONFIDENCE)
+    .map(word => {
+      const box = toRelativeBox(word.bbox, size);
+      return {
+        text: word.text,
+        confidence: word.confidence,
+        geometry: {
+          boundingBox: box,
+          polygon: [
+            { x: box.left, y: box.top },
+            { x: box.left + box.width, y: box.top },
+            { x: box.left + box.width, y: box.top + box.height },
+            { x: box.left, y: box.top + box.height },
+          ],
+        },
+      };
+    });
+}
+
+/**
+ * Key-value pairs from lines shaped like "Key: Value". Key and value confidences are those of
+ * the words on either side of the colon
+ */
+function extractForms(lines: Tesseract.Line[]): FormData[] {
+  const forms: FormData[] = [];
+
+  for (const line of lines) {
+    const match = line.text.trim().match(FORM_LINE_PATTERN);
+    if (!match) continue;
+
+    const colonWord = line.words.findIndex(word => word.text.includes(':'));
+    const keyWords = colonWord >= 0 ? line.words.slice(0, colonWord + 1) : [];
+    const valueWords = colonWord >= 0 ? line.words.slice(colonWord + 1) : [];
+    const keyConfidence = averageConfidence(keyWords) ?? line.confidence;
+    const valueConfidence = averageConfidence(valueWords) ?? line.confidence;
+
+    forms.push({
+      key: match[1].trim(),
+      value: match[2].trim(),
+      confidence: Math.min(keyConfidence, valueConfidence),
+      keyConfidence,
+      valueConfidence,
+    });
+  }
+
+  return forms;
+}
+
+/**
+ * Tables from runs of two or more consecutive lines that split into the same number (at least
+ * two) of columns. Tesseract doesn't detect tables itself, so this only finds plainly laid out ones
+ */
+function extractTables(lines: Tesseract.Line[], size: ImageSize): TableData[] {
+  const tables: TableData[] = [];
+  let run: Array<{ line: Tesseract.Line; cells: string[] }> = [];
+
+  const closeRun = () => {
+    if (run.length >= 2) {
+      const bbox = {
+        x0: Math.min(...run.map(row => row.line.bbox.x0)),
+        y0: Math.min(...run.map(row => row.line.bbox.y0)),
+        x1: Math.max(...run.map(row => row.line.bbox.x1)),
+        y1: Math.max(...run.map(row => row.line.bbox.y1)),
+      };
+      tables.push({
+        rows: run.map(row => row.cells),
+        confidence: run.reduce((sum, row) => sum + row.line.confidence, 0) / run.length,
+        position: toRelativeBox(bbox, size),
+      });
+    }
+    run = [];
+  };
+
+  for (const line of lines) {
+    const cells = splitIntoCells(line);
+    if (cells.length < 2) {
+      closeRun();
+      continue;
+    }
+    if (run.length > 0 && run[0].cells.length !== cells.length) {
+      closeRun();
+    }
+    run.push({ line, cells });
+  }
+  closeRun();
+
+  return tables;
+}
+
+// Split a line's words into cells wherever the gap between two words is wide
+function splitIntoCells(line: Tesseract.Line): string[] {
+  const lineHeight = line.bbox.y1 - line.bbox.y0;
+  const cells: string[][] = [];
+
+  line.words.forEach((word, index) => {
+    const previous = line.words[index - 1];
+    if (!previous || word.bbox.x0 - previous.bbox.x1 > lineHeight * COLUMN_GAP_LINE_HEIGHTS) {
+      cells.push([]);
+    }
+    cells[cells.length - 1].push(word.text);
+  });
+
+  return cells.map(words => words.join(' '));
+}
+
+function averageConfidence(words: Tesseract.Word[]): number | undefined {
+  if (words.length === 0) return undefined;
+  return words.reduce((sum, word) => sum + word.confidence, 0) / words.length;
+}
+
+function toRelativeBox(bbox: Tesseract.Bbox, size: ImageSize) {
+  return {
+    width: (bbox.x1 - bbox.x0) / size.width,
+    height: (bbox.y1 - bbox.y0) / size.height,
+    left: bbox.x0 / size.width,
+    top: bbox.y0 / size.height,
+  };
+}
@@ -0,0 +1,18 @@
+// AWS Textract OCR provider - needs AWS credentials. Without them the Textract service answers
+// with a canned development response, so it's only picked by default when credentials are set
+
+import textractService from "../textract-service";
+import type { OcrProvider } from "./types";
+
+export const textractOcrProvider: OcrProvider = {
+  name: 'textract',
+  supportedFormats: ['image/jpeg', 'image/png', 'application/pdf'],
+
+  isConfigured() {
+    return !!process.env.AWS_ACCESS_KEY_ID && !!process.env.AWS_SECRET_ACCESS_KEY;
+  },
+
+  analyzeDocument(documentBuffer, mimeType, options) {
+    return textractService.analyzeDocument(documentBuffer, mimeType, options);
+  },
+};
@@ -0,0 +1,33 @@
+// OCR provider contract - every engine returns the TextractResult shape (text, bounding boxes,
+// forms, tables, confidence), so document analysis and fraud detection work with any of them
+
+import type { AnalysisOptions, TextractResult } from "../textract-service";
+
+export const OCR_PROVIDER_NAMES = ['textract', 'tesseract'] as const;
+
+export type OcrProviderName = typeof OCR_PROVIDER_NAMES[number];
+
+export interface OcrProvider {
+  name: OcrProviderName;
+  // MIME types the provider can read
+  supportedFormats: readonly string[];
+  // Whether the provider can run with the current environment
+  isConfigured(): boolean;
+  analyzeDocument(documentBuffer: Buffer, mimeType: string, options?: Partial<AnalysisOptions>): Promise<TextractResult>;
+}
+
+export class UnknownOcrProviderError extends Error {
+  constructor(name: string) {
+    super(`Unknown OCR provider: ${name}. Supported: ${OCR_PROVIDER_NAMES.join(', ')}`);
+    this.name = 'UnknownOcrProviderError';
+    Object.setPrototypeOf(this, UnknownOcrProviderError.prototype);
+  }
+}
+
+export class UnsupportedOcrFormatError extends Error {
+  constructor(mimeType: string) {
+    super(`No configured OCR provider can read ${mimeType} documents`);
+    this.name = 'UnsupportedOcrFormatError';
+    Object.setPrototypeOf(this, UnsupportedOcrFormatError.prototype);
+  }
+}
@@ -0,0 +1,161 @@
+// Price History Service - Snapshots tracked crypto and metals prices on a schedule
+// Snapshots back OHLC candles for charts and point-in-time valuations, e.g. what collateral
+// was worth at loan origination versus today. Prices from fallback providers aren't recorded.
+
+import { storage } from "../storage";
+import { pricingService } from "./pricing-service";
+import { pricingProviderRegistry } from "./pricing-providers";
+import type { PriceHistory, PriceHistoryInterval, PriceHistoryQuery, PriceHistoryResponse } from "@shared/schema";
+
+// How often tracked series are snapshotted
+const CAPTURE_INTERVAL_MS = 15 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type HistoryCategory = PriceHistoryQuery['category'];
+
+export const TRACKED_PRICE_SERIES: Array<{ category: HistoryCategory; symbol: string }> = [
+  ...['BTC', 'ETH', 'ICP', 'USDC', 'USDT', 'ADA', 'DOT', 'LINK'].map(symbol => ({ category: 'crypto' as const, symbol })),
+  ...['XAU', 'XAG', 'XPT', 'XPD'].map(symbol => ({ category: 'precious_metals' as const, symbol })),
+];
+
+export interface PriceCaptureSummary {
+  captured: number;
+  skipped: number;
+  errors: Array<{ symbol: string; error: string }>;
+}
+
+export interface PointInTimeValuation {
+  category: string;
+  symbol: string;
+  at: string;
+  price: number;
+  capturedAt: string;
+  confidence: number;
+  sources: string[];
+  current: { price: number; capturedAt: string } | null;
+  changePercent: number | null;
+}
+
+export class PriceHistoryService {
+  private static instance: PriceHistoryService;
+  private captureTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): PriceHistoryService {
+    if (!PriceHistoryService.instance) {
+      PriceHistoryService.instance = new PriceHistoryService();
+    }
+    return PriceHistoryService.instance;
+  }
+
+  // Start the periodic price capture
+  startCaptureSchedule(): void {
+    if (this.captureTimer) {
+      return;
+    }
+
+    const runCapture = async () => {
+      try {
+        const summary = await this.captureTrackedPrices();
+        console.log(`Price history capture completed: ${summary.captured} captured, ${summary.skipped} skipped, ${summary.errors.length} errors`);
+      } catch (error) {
+        console.error("Error during price history capture:", error);
+      }
+    };
+
+    runCapture();
+    this.captureTimer = setInterval(runCapture, CAPTURE_INTERVAL_MS);
+  }
+
+  stopCaptureSchedule(): void {
+    if (this.captureTimer) {
+      clearInterval(this.captureTimer);
+      this.captureTimer = null;
+    }
+  }
+
+  // Snapshot every tracked series. One at a time, to stay inside the free API tiers' rate limits
+  async captureTrackedPrices(): Promise<PriceCaptureSummary> {
+    const summary: PriceCaptureSummary = { captured: 0, skipped: 0, errors: [] };
+
+    for (const { category, symbol } of TRACKED_PRICE_SERIES) {
+      try {
+        const pricing = await pricingService.getAssetPricing({ category, symbol, forceRefresh: false });
+
+        // Fixed fallback values would draw a flat line that looks like real market data
+        if (pricingProviderRegistry.isFallbackOnly(category, pricing.sources)) {
+          summary.skipped++;
+          continue;
+        }
+
+        await storage.recordPriceSnapshot({
+          category,
+          symbol,
+          price: pricing.median.toString(),
+          p25Price: pricing.p25?.toString(),
+          p75Price: pricing.p75?.toString(),
+          currency: pricing.currency,
+          sources: pricing.sources,
+          confidence: pricing.confidence.toFixed(2),
+          capturedAt: new Date(),
+        });
+        summary.captured++;
+      } catch (error) {
+        summary.errors.push({ symbol, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return summary;
+  }
+
+  // OHLC candles over the trailing window. Hourly candles for up to 2 days, daily beyond
+  async getHistory(query: PriceHistoryQuery): Promise<PriceHistoryResponse> {
+    const to = new Date();
+    const from = new Date(to.getTime() - query.days * DAY_MS);
+    const interval: PriceHistoryInterval = query.interval ?? (query.days <= 2 ? 'hour' : 'day');
+
+    const candles = await storage.getPriceCandles(query.category, query.symbol, from, to, interval);
+
+    return {
+      category: query.category,
+      symbol: query.symbol,
+      interval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      candles,
+    };
+  }
+
+  /**
+   * The last recorded price at or before a moment, alongside the latest recorded price.
+   * Undefined if nothing was recorded for the series by then
+   */
+  async getValuationAt(category: HistoryCategory, symbol: string, at: Date): Promise<PointInTimeValuation | undefined> {
+    const snapshot = await storage.getPriceAt(category, symbol, at);
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const latest = await storage.getPriceAt(category, symbol, new Date());
+    const price = parseFloat(snapshot.price);
+    const currentPrice = latest ? parseFloat(latest.price) : null;
+
+    return {
+      category,
+      symbol,
+      at: at.toISOString(),
+      price,
+      capturedAt: this.capturedAt(snapshot),
+      confidence: parseFloat(snapshot.confidence),
+      sources: snapshot.sources,
+      current: latest && currentPrice !== null ? { price: currentPrice, capturedAt: this.capturedAt(latest) } : null,
+      changePercent: currentPrice !== null && price > 0 ? Math.round(((currentPrice - price) / price) * 10000) / 100 : null,
+    };
+  }
+
+  private capturedAt(snapshot: PriceHistory): string {
+    return new Date(snapshot.capturedAt).toISOString();
+  }
+}
+
+export const priceHistoryService = PriceHistoryService.getInstance();
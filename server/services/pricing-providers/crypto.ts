@@ -0,0 +1,148 @@
+// Cryptocurrency pricing providers - CoinGecko and Coinbase are free public APIs,
+// CoinMarketCap is used when an API key is configured
+
+import type { PricingQuery } from "@shared/schema";
+import { InvalidPricingQueryError, type PriceQuote, type PricingProvider } from "./types";
+
+const COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
+const COINMARKETCAP_BASE_URL = "https://pro-api.coinmarketcap.com/v1";
+const COINBASE_BASE_URL = "https://api.coinbase.com/v2";
+
+// Tickers the platform lists. CoinGecko looks coins up by id rather than ticker
+const COINGECKO_IDS: Record<string, string> = {
+  BTC: "bitcoin",
+  ETH: "ethereum",
+  ICP: "internet-computer",
+  USDC: "usd-coin",
+  USDT: "tether",
+  ADA: "cardano",
+  DOT: "polkadot",
+  LINK: "chainlink",
+};
+
+// Market spreads are tight for listed coins, so a 2% band approximates the quartiles
+const CRYPTO_SPREAD = 0.02;
+
+function requireSymbol(query: PricingQuery): string {
+  if (!query.symbol) {
+    throw new InvalidPricingQueryError("Symbol required for crypto pricing");
+  }
+  return query.symbol.toUpperCase();
+}
+
+function spreadQuote(price: number, confidence: number, methodology: string, metadata?: Record<string, any>): PriceQuote {
+  return {
+    price,
+    p25: price * (1 - CRYPTO_SPREAD),
+    p75: price * (1 + CRYPTO_SPREAD),
+    confidence,
+    methodology,
+    metadata,
+  };
+}
+
+export const coinGeckoProvider: PricingProvider = {
+  name: "CoinGecko",
+  kind: 'market',
+  categories: ['crypto'],
+
+  async quote(query) {
+    const symbol = requireSymbol(query);
+    const id = COINGECKO_IDS[symbol] ?? symbol.toLowerCase();
+
+    const response = await fetch(
+      `${COINGECKO_BASE_URL}/simple/price?ids=${id}&vs_currencies=usd&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true`
+    );
+    if (!response.ok) {
+      throw new Error(`CoinGecko API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const coinData = data[id];
+    if (!coinData) {
+      throw new InvalidPricingQueryError(`Cryptocurrency not found: ${symbol}`);
+    }
+
+    // Higher confidence for higher market cap and volume
+    const marketCapScore = Math.min(1, (coinData.usd_market_cap || 0) / 1000000000); // Normalize by 1B
+    const volumeScore = Math.min(1, (coinData.usd_24h_vol || 0) / 100000000); // Normalize by 100M
+    const confidence = Math.max(0.6, (marketCapScore + volumeScore) / 2);
+
+    return spreadQuote(coinData.usd, confidence, "Real-time market data from CoinGecko API", {
+      market_cap: coinData.usd_market_cap,
+      volume_24h: coinData.usd_24h_vol,
+      change_24h: coinData.usd_24h_change,
+    });
+  },
+};
+
+export const coinMarketCapProvider: PricingProvider = {
+  name: "CoinMarketCap",
+  kind: 'market',
+  categories: ['crypto'],
+
+  supports() {
+    return !!process.env.COINMARKETCAP_API_KEY;
+  },
+
+  async quote(query) {
+    const symbol = requireSymbol(query);
+
+    const response = await fetch(
+      `${COINMARKETCAP_BASE_URL}/cryptocurrency/quotes/latest?symbol=${symbol}`,
+      {
+        headers: {
+          'X-CMC_PRO_API_KEY': process.env.COINMARKETCAP_API_KEY!,
+          'Accept': 'application/json',
+        }
+      }
+    );
+    if (!response.ok) {
+      throw new Error(`CoinMarketCap API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const coinData = data.data?.[symbol];
+    if (!coinData) {
+      throw new InvalidPricingQueryError(`Cryptocurrency not found in CoinMarketCap: ${symbol}`);
+    }
+
+    const quote = coinData.quote.USD;
+    const confidence = Math.min(0.9, Math.max(0.6, quote.market_cap / 1000000000)); // Scale by market cap
+
+    return spreadQuote(quote.price, confidence, "Real-time market data from CoinMarketCap API", {
+      market_cap: quote.market_cap,
+      volume_24h: quote.volume_24h,
+      change_24h: quote.percent_change_24h,
+    });
+  },
+};
+
+export const coinbaseProvider: PricingProvider = {
+  name: "Coinbase",
+  kind: 'market',
+  categories: ['crypto'],
+
+  // Coinbase only quotes by ticker, and not every coin is listed there
+  supports(query) {
+    return !!query.symbol && query.symbol.toUpperCase() in COINGECKO_IDS;
+  },
+
+  async quote(query) {
+    const symbol = requireSymbol(query);
+
+    const response = await fetch(`${COINBASE_BASE_URL}/prices/${symbol}-USD/spot`);
+    if (!response.ok) {
+      throw new Error(`Coinbase API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const price = parseFloat(data.data?.amount);
+    if (!price) {
+      throw new InvalidPricingQueryError(`Cryptocurrency not found on Coinbase: ${symbol}`);
+    }
+
+    // Exchange spot price, without market cap or volume to weigh it by
+    return spreadQuote(price, 0.8, "Spot price from Coinbase exchange");
+  },
+};
@@ -0,0 +1,377 @@
+// Pricing Provider Registry - Queries every provider for a category in parallel, drops quotes
+// that disagree with the rest, and reports the median with a confidence that reflects agreement.
+// Tracks each provider's health and stops calling one that keeps failing until it cools down.
+
+import type { PricingQuery, PricingResponse } from "@shared/schema";
+import { coinbaseProvider, coinGeckoProvider, coinMarketCapProvider } from "./crypto";
+import { metalsApiProvider, metalsFallbackProvider } from "./metals";
+import {
+  artworkEstimateProvider,
+  collectiblesEstimateProvider,
+  electronicsEstimateProvider,
+  jewelryEstimateProvider,
+  watchesEstimateProvider,
+} from "./estimates";
+import {
+  InvalidPricingQueryError,
+  type PriceQuote,
+  type PricingCategory,
+  type PricingProvider,
+  type PricingProviderContext,
+  type PricingProviderHealth,
+} from "./types";
+
+export * from "./types";
+
+// A provider that doesn't answer in time counts as failed
+const PROVIDER_TIMEOUT_MS = 8000;
+
+// With three or more quotes, drop those this far from the median
+const MAX_DEVIATION_FROM_MEDIAN = 0.05;
+
+// Open a provider's circuit after 5 failures in 5 minutes, and try it again 5 minutes later
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_FAILURE_WINDOW_MS = 5 * 60 * 1000;
+const CIRCUIT_RESET_MS = 5 * 60 * 1000;
+
+interface ProviderState {
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  totalLatencyMs: number;
+  recentFailures: number[];
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  openedAt: number | null;
+}
+
+interface ProviderQuote {
+  provider: PricingProvider;
+  quote: PriceQuote;
+  latencyMs: number;
+}
+
+export class PricingProviderRegistry {
+  private static instance: PricingProviderRegistry;
+  private providers = new Map<string, PricingProvider>();
+  private health = new Map<string, ProviderState>();
+
+  static getInstance(): PricingProviderRegistry {
+    if (!PricingProviderRegistry.instance) {
+      const registry = new PricingProviderRegistry();
+      [
+        coinGeckoProvider,
+        coinMarketCapProvider,
+        coinbaseProvider,
+        metalsApiProvider,
+        metalsFallbackProvider,
+        jewelryEstimateProvider,
+        electronicsEstimateProvider,
+        collectiblesEstimateProvider,
+        artworkEstimateProvider,
+        watchesEstimateProvider,
+      ].forEach(provider => registry.registerProvider(provider));
+      PricingProviderRegistry.instance = registry;
+    }
+    return PricingProviderRegistry.instance;
+  }
+
+  // A provider registered under an existing name replaces it
+  registerProvider(provider: PricingProvider): void {
+    this.providers.set(provider.name, provider);
+    if (!this.health.has(provider.name)) {
+      this.health.set(provider.name, this.emptyState());
+    }
+  }
+
+  getProviders(category: PricingCategory): PricingProvider[] {
+    return Array.from(this.providers.values()).filter(provider => provider.categories.includes(category));
+  }
+
+  // Whether a price came only from fallback providers, i.e. fixed estimates rather than market data
+  isFallbackOnly(category: PricingCategory, sources: string[]): boolean {
+    const fallbackNames = this.getProviders(category)
+      .filter(provider => provider.kind === 'fallback')
+      .map(provider => provider.name);
+    return sources.every(source => fallbackNames.includes(source));
+  }
+
+  // Whether any provider for the category can currently be called
+  isCategoryAvailable(category: PricingCategory): boolean {
+    return this.getProviders(category).some(provider => !this.isCircuitOpen(provider.name));
+  }
+
+  /**
+   * Price a query from every available provider for its category. Fallback providers are only
+   * asked when none of the others return a quote
+   */
+  async getPricing(query: PricingQuery, context: PricingProviderContext): Promise<PricingResponse> {
+    const candidates = this.getProviders(query.category).filter(provider => !provider.supports || provider.supports(query));
+    if (candidates.length === 0) {
+      throw new Error(`Unsupported asset category: ${query.category}`);
+    }
+
+    const available = candidates.filter(provider => !this.isCircuitOpen(provider.name));
+    const primary = available.filter(provider => provider.kind !== 'fallback');
+    const fallback = available.filter(provider => provider.kind === 'fallback');
+
+    const errors: Array<{ provider: string; error: unknown }> = [];
+    let quotes = await this.collectQuotes(primary, query, context, errors);
+    if (quotes.length === 0 && fallback.length > 0) {
+      quotes = await this.collectQuotes(fallback, query, context, errors);
+    }
+
+    if (quotes.length === 0) {
+      // A query no provider understands is the caller's problem, not an outage
+      const invalid = errors.find(({ error }) => error instanceof InvalidPricingQueryError);
+      if (invalid) {
+        throw invalid.error;
+      }
+      if (available.length === 0) {
+        throw new Error(`All pricing providers for ${query.category} are unavailable`);
+      }
+      throw new Error(`All pricing providers failed for ${query.category}: ${errors
+        .map(({ provider, error }) => `${provider}: ${error instanceof Error ? error.message : String(error)}`)
+        .join('; ')}`);
+    }
+
+    return this.aggregate(quotes, errors);
+  }
+
+  getHealth(): PricingProviderHealth[] {
+    return Array.from(this.providers.values()).map(provider => {
+      const state = this.getState(provider.name);
+      const circuitOpen = this.isCircuitOpen(provider.name);
+      return {
+        name: provider.name,
+        kind: provider.kind,
+        categories: provider.categories,
+        successes: state.successes,
+        failures: state.failures,
+        consecutiveFailures: state.consecutiveFailures,
+        averageLatencyMs: state.successes > 0 ? Math.round(state.totalLatencyMs / state.successes) : 0,
+        lastSuccessAt: state.lastSuccessAt ? new Date(state.lastSuccessAt).toISOString() : null,
+        lastFailureAt: state.lastFailureAt ? new Date(state.lastFailureAt).toISOString() : null,
+        lastError: state.lastError,
+        circuitOpen,
+      };
+    });
+  }
+
+  // Close one provider's circuit, or every circuit when no name is given. False if the name is unknown
+  resetCircuitBreakers(providerName?: string): boolean {
+    if (providerName) {
+      if (!this.providers.has(providerName)) {
+        return false;
+      }
+      this.closeCircuit(this.getState(providerName));
+      return true;
+    }
+
+    this.health.forEach(state => this.closeCircuit(state));
+    return true;
+  }
+
+  private async collectQuotes(
+    providers: PricingProvider[],
+    query: PricingQuery,
+    context: PricingProviderContext,
+    errors: Array<{ provider: string; error: unknown }>
+  ): Promise<ProviderQuote[]> {
+    const results = await Promise.allSettled(providers.map(provider => this.requestQuote(provider, query, context)));
+
+    const quotes: ProviderQuote[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(result.value);
+      } else {
+        errors.push({ provider: providers[index].name, error: result.reason });
+      }
+    });
+    return quotes;
+  }
+
+  private async requestQuote(provider: PricingProvider, query: PricingQuery, context: PricingProviderContext): Promise<ProviderQuote> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const quote = await Promise.race([
+        provider.quote(query, context),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`${provider.name} timed out after ${PROVIDER_TIMEOUT_MS}ms`)), PROVIDER_TIMEOUT_MS);
+        }),
+      ]);
+      if (!Number.isFinite(quote.price) || quote.price <= 0) {
+        throw new Error(`${provider.name} returned an invalid price: ${quote.price}`);
+      }
+
+      const latencyMs = Date.now() - startedAt;
+      this.recordSuccess(provider.name, latencyMs);
+      return { provider, quote, latencyMs };
+    } catch (error) {
+      if (!(error instanceof InvalidPricingQueryError)) {
+        this.recordFailure(provider.name, error);
+        console.warn(`Pricing provider ${provider.name} failed:`, error instanceof Error ? error.message : error);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private aggregate(quotes: ProviderQuote[], errors: Array<{ provider: string; error: unknown }>): PricingResponse {
+    let accepted = quotes;
+    let rejected: ProviderQuote[] = [];
+
+    // Two quotes that disagree can't say which is wrong, so outliers are only dropped from three or more
+    if (quotes.length >= 3) {
+      const center = median(quotes.map(({ quote }) => quote.price));
+      accepted = quotes.filter(({ quote }) => Math.abs(quote.price - center) / center <= MAX_DEVIATION_FROM_MEDIAN);
+      rejected = quotes.filter(({ quote }) => Math.abs(quote.price - center) / center > MAX_DEVIATION_FROM_MEDIAN);
+
+      // No quote near the median means no consensus; keep them all and let the dispersion lower confidence
+      if (accepted.length === 0) {
+        accepted = quotes;
+        rejected = [];
+      }
+    }
+
+    const price = median(accepted.map(({ quote }) => quote.price));
+    const p25Ratios = accepted.filter(({ quote }) => quote.p25 != null).map(({ quote }) => quote.p25! / quote.price);
+    const p75Ratios = accepted.filter(({ quote }) => quote.p75 != null).map(({ quote }) => quote.p75! / quote.price);
+
+    const providers = quotes.map(({ provider, quote, latencyMs }) => ({
+      name: provider.name,
+      price: quote.price,
+      confidence: quote.confidence,
+      latency_ms: latencyMs,
+      accepted: accepted.some(item => item.provider === provider),
+    }));
+
+    if (accepted.length === 1) {
+      const [{ provider, quote }] = accepted;
+      return {
+        median: price,
+        p25: quote.p25,
+        p75: quote.p75,
+        currency: "USD",
+        sources: [provider.name],
+        confidence: this.penalize(quote.confidence, rejected.length),
+        timestamp: new Date().toISOString(),
+        methodology: quote.methodology,
+        metadata: {
+          ...quote.metadata,
+          providers,
+          rejected_sources: rejected.map(({ provider }) => provider.name),
+          failed_sources: errors.map(({ provider }) => provider),
+        },
+      };
+    }
+
+    // Agreement between independent sources earns a little confidence, spread between them costs it
+    const averageConfidence = accepted.reduce((sum, { quote }) => sum + quote.confidence, 0) / accepted.length;
+    const dispersion = Math.max(...accepted.map(({ quote }) => Math.abs(quote.price - price) / price));
+    const agreementBonus = Math.min(0.1, (accepted.length - 1) * 0.05);
+    const confidence = this.penalize(averageConfidence + agreementBonus - dispersion * 2, rejected.length);
+
+    return {
+      median: price,
+      p25: p25Ratios.length > 0 ? price * median(p25Ratios) : undefined,
+      p75: p75Ratios.length > 0 ? price * median(p75Ratios) : undefined,
+      currency: "USD",
+      sources: accepted.map(({ provider }) => provider.name),
+      confidence,
+      timestamp: new Date().toISOString(),
+      methodology: `Median of ${accepted.length} sources with outlier rejection`,
+      metadata: {
+        providers,
+        rejected_sources: rejected.map(({ provider }) => provider.name),
+        failed_sources: errors.map(({ provider }) => provider),
+        max_deviation: MAX_DEVIATION_FROM_MEDIAN,
+      },
+    };
+  }
+
+  // Each rejected outlier means the sources didn't fully agree
+  private penalize(confidence: number, rejectedCount: number): number {
+    const adjusted = confidence - rejectedCount * 0.05;
+    return Math.round(Math.min(0.99, Math.max(0.1, adjusted)) * 100) / 100;
+  }
+
+  private isCircuitOpen(providerName: string): boolean {
+    const state = this.getState(providerName);
+    if (state.openedAt === null) {
+      return false;
+    }
+
+    // Cooled down: let the provider be tried again
+    if (Date.now() - state.openedAt > CIRCUIT_RESET_MS) {
+      this.closeCircuit(state);
+      return false;
+    }
+    return true;
+  }
+
+  private recordSuccess(providerName: string, latencyMs: number): void {
+    const state = this.getState(providerName);
+    state.successes++;
+    state.consecutiveFailures = 0;
+    state.totalLatencyMs += latencyMs;
+    state.lastSuccessAt = Date.now();
+    state.recentFailures.shift();
+  }
+
+  private recordFailure(providerName: string, error: unknown): void {
+    const state = this.getState(providerName);
+    const now = Date.now();
+    state.failures++;
+    state.consecutiveFailures++;
+    state.lastFailureAt = now;
+    state.lastError = error instanceof Error ? error.message : String(error);
+    state.recentFailures = [...state.recentFailures.filter(at => now - at < CIRCUIT_FAILURE_WINDOW_MS), now];
+
+    if (state.openedAt === null && state.recentFailures.length >= CIRCUIT_FAILURE_THRESHOLD) {
+      state.openedAt = now;
+      console.warn(`Pricing provider ${providerName} circuit opened after ${state.recentFailures.length} failures`);
+    }
+  }
+
+  private closeCircuit(state: ProviderState): void {
+    state.openedAt = null;
+    state.recentFailures = [];
+    state.consecutiveFailures = 0;
+  }
+
+  private getState(providerName: string): ProviderState {
+    let state = this.health.get(providerName);
+    if (!state) {
+      state = this.emptyState();
+      this.health.set(providerName, state);
+    }
+    return state;
+  }
+
+  private emptyState(): ProviderState {
+    return {
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      totalLatencyMs: 0,
+      recentFailures: [],
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null,
+      openedAt: null,
+    };
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+export const pricingProviderRegistry = PricingProviderRegistry.getInstance();
@@ -0,0 +1,98 @@
+// Precious metals pricing providers - spot prices per gram for gold, silver, platinum and
+// palladium, with fixed approximate values when no live source answers
+
+import type { PricingQuery } from "@shared/schema";
+import { InvalidPricingQueryError, type PricingProvider } from "./types";
+
+const METALS_API_BASE_URL = "https://api.metals.live/v1";
+
+const SUPPORTED_METALS = ['XAU', 'XAG', 'XPT', 'XPD'];
+
+const GRAMS_PER_TROY_OUNCE = 31.1035;
+
+function requireMetalSymbol(query: PricingQuery): string {
+  if (!query.symbol) {
+    throw new InvalidPricingQueryError("Symbol required for metals pricing (XAU, XAG, XPT, XPD)");
+  }
+
+  const symbol = query.symbol.toUpperCase();
+  if (!SUPPORTED_METALS.includes(symbol)) {
+    throw new InvalidPricingQueryError(`Unsupported metal symbol: ${symbol}. Supported: ${SUPPORTED_METALS.join(', ')}`);
+  }
+  return symbol;
+}
+
+export const metalsApiProvider: PricingProvider = {
+  name: "Metals-API",
+  kind: 'market',
+  categories: ['precious_metals'],
+
+  supports() {
+    return !!process.env.METALS_API_KEY;
+  },
+
+  async quote(query) {
+    const symbol = requireMetalSymbol(query);
+
+    const response = await fetch(`${METALS_API_BASE_URL}/latest?access_key=${process.env.METALS_API_KEY}&base=USD&symbols=${symbol}`);
+    if (!response.ok) {
+      throw new Error(`Metals API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(`Metals API failed: ${data.error?.info || 'Unknown error'}`);
+    }
+
+    const rate = data.rates[symbol];
+    if (!rate) {
+      throw new Error(`Metal rate not found: ${symbol}`);
+    }
+
+    // Convert from per-ounce to per-gram for easier calculations
+    const pricePerOunce = 1 / rate; // metals-api returns USD per ounce as inverse
+    const pricePerGram = pricePerOunce / GRAMS_PER_TROY_OUNCE;
+
+    return {
+      price: pricePerGram,
+      p25: pricePerGram * 0.995, // Tighter spreads for metals
+      p75: pricePerGram * 1.005,
+      confidence: 0.95, // High confidence for metals pricing
+      methodology: "Spot market prices from metals exchange data",
+      metadata: {
+        symbol,
+        price_per_ounce: pricePerOunce,
+        price_per_gram: pricePerGram,
+        unit: "USD per gram"
+      }
+    };
+  },
+};
+
+export const metalsFallbackProvider: PricingProvider = {
+  name: "Fallback estimates",
+  kind: 'fallback',
+  categories: ['precious_metals'],
+
+  async quote(query) {
+    const symbol = requireMetalSymbol(query);
+
+    // Approximate fallback values (per gram in USD)
+    const fallbackPrices: Record<string, number> = {
+      'XAU': 65, // Gold
+      'XAG': 0.8, // Silver
+      'XPT': 35, // Platinum
+      'XPD': 50, // Palladium
+    };
+    const price = fallbackPrices[symbol];
+
+    return {
+      price,
+      p25: price * 0.95,
+      p75: price * 1.05,
+      confidence: 0.5, // Low confidence for fallback data
+      methodology: "Fallback pricing when API unavailable",
+      metadata: { symbol, unit: "USD per gram" },
+    };
+  },
+};
@@ -0,0 +1,63 @@
+// Pricing provider types - each provider prices one or more asset categories from a single
+// source; the registry queries every provider for a category and aggregates their quotes
+
+import type { PricingQuery, PricingResponse } from "@shared/schema";
+
+export type PricingCategory = PricingQuery['category'];
+
+// market: live data from an external source, queried in parallel with its peers
+// model: an internal valuation model, treated like a market source
+// fallback: only used when every other provider for the category has failed
+export type PricingProviderKind = 'market' | 'model' | 'fallback';
+
+// One provider's view of an asset's price, in USD
+export interface PriceQuote {
+  price: number;
+  p25?: number;
+  p75?: number;
+  confidence: number; // 0-1
+  methodology: string;
+  metadata?: Record<string, any>;
+}
+
+// Lets a provider price an input it depends on (e.g. jewelry needs the gold price)
+// through the same aggregation as everything else
+export interface PricingProviderContext {
+  getPricing(query: PricingQuery): Promise<PricingResponse>;
+}
+
+export interface PricingProvider {
+  name: string; // reported in a price's sources
+  kind: PricingProviderKind;
+  categories: PricingCategory[];
+
+  // Whether the provider can price this query at all, e.g. it is configured and knows the symbol
+  supports?(query: PricingQuery): boolean;
+
+  // Reject when the source fails or has no price
+  quote(query: PricingQuery, context: PricingProviderContext): Promise<PriceQuote>;
+}
+
+// Thrown when the query itself can't be priced (missing symbol, unknown coin), as opposed to the
+// source being down. Doesn't count against the provider's health
+export class InvalidPricingQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPricingQueryError";
+    Object.setPrototypeOf(this, InvalidPricingQueryError.prototype);
+  }
+}
+
+export interface PricingProviderHealth {
+  name: string;
+  kind: PricingProviderKind;
+  categories: PricingCategory[];
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  circuitOpen: boolean;
+}
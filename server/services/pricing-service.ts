@@ -1,44 +1,20 @@
-import type { PricingQuery, PricingResponse, InsertAssetPricingCache } from "@shared/schema";
-
-// Pricing provider interfaces
-interface CryptoPriceData {
-  symbol: string;
-  current_price: number;
-  price_change_24h: number;
-  market_cap: number;
-  volume: number;
-  confidence_score: number;
-}
-
-interface MetalsPriceData {
-  symbol: string; // XAU, XAG, XPT, XPD
-  price_usd: number;
-  timestamp: number;
-  source: string;
-}
-
-interface PhysicalAssetEstimate {
-  category: string;
-  itemType: string;
-  estimated_value: number;
-  confidence: number;
-  methodology: string;
-  sources: string[];
-}
+import type { PricingQuery, PricingResponse } from "@shared/schema";
+import {
+  InvalidPricingQueryError,
+  pricingProviderRegistry,
+  type PricingCategory,
+  type PricingProviderHealth,
+} from "./pricing-providers";
 
 /**
  * Comprehensive pricing service with multiple provider integrations
- * Supports cryptocurrencies, precious metals, and physical asset valuations
+ * Supports cryptocurrencies, precious metals, and physical asset valuations.
+ * Prices come from the provider registry; this layer caches them per category
  */
 export class PricingService {
   private static instance: PricingService;
   private cache = new Map<string, { data: PricingResponse; expires: number }>();
   
-  // API configuration
-  private readonly COINGECKO_BASE_URL = "https://api.coingecko.com/api/v3";
-  private readonly METALS_API_BASE_URL = "https://api.metals.live/v1";
-  private readonly COINMARKETCAP_BASE_URL = "https://pro-api.coinmarketcap.com/v1";
-  
   // Cache TTL configuration (in seconds)
   private readonly CACHE_TTL = {
     crypto: 60, // 1 minute for volatile crypto markets
@@ -71,34 +47,10 @@ export class PricingService {
       return cached.data;
     }
 
-    let pricing: PricingResponse;
-
     try {
-      switch (query.category) {
-        case 'crypto':
-          pricing = await this.getCryptoPricing(query);
-          break;
-        case 'precious_metals':
-          pricing = await this.getMetalsPricing(query);
-          break;
-        case 'jewelry':
-          pricing = await this.getJewelryPricing(query);
-          break;
-        case 'electronics':
-          pricing = await this.getElectronicsPricing(query);
-          break;
-        case 'collectibles':
-          pricing = await this.getCollectiblesPricing(query);
-          break;
-        case 'artwork':
-          pricing = await this.getArtworkPricing(query);
-          break;
-        case 'watches':
-          pricing = await this.getWatchesPricing(query);
-          break;
-        default:
-          throw new Error(`Unsupported asset category: ${query.category}`);
-      }
+      const pricing = await pricingProviderRegistry.getPricing(query, {
+        getPricing: (dependency) => this.getAssetPricing(dependency),
+      });
 
       // Cache the result
       const ttl = this.CACHE_TTL[query.category] || 3600;
@@ -109,11 +61,14 @@ export class PricingService {
 
       return pricing;
     } catch (error) {
+      if (error instanceof InvalidPricingQueryError) {
+        throw error;
+      }
       console.error(`Pricing error for ${query.category}:`, error);
       
       // Return cached data if available, even if expired
       if (cached) {
-        return { ...cached.data, confidence: cached.data.confidence * 0.5 }; // Reduce confidence for stale data
+        return { ...cached.data, confidence: cached.data.confidence * 0.5, stale: true }; // Reduce confidence for stale data
       }
       
       throw new Error(`Unable to fetch pricing for ${query.category}: ${error.message}`);
@@ -121,598 +76,30 @@ export class PricingService {
   }
 
   /**
-   * Cryptocurrency pricing using CoinGecko API (primary) and CoinMarketCap (backup)
+   * Whether any provider for the category is currently callable
    */
-  private async getCryptoPricing(query: PricingQuery): Promise<PricingResponse> {
-    if (!query.symbol) {
-      throw new Error("Symbol required for crypto pricing");
-    }
-
-    const symbol = query.symbol.toLowerCase();
-    
-    try {
-      // Primary: CoinGecko (free tier)
-      const response = await fetch(
-        `${this.COINGECKO_BASE_URL}/simple/price?ids=${symbol}&vs_currencies=usd&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true`
-      );
-      
-      if (!response.ok) {
-        throw new Error(`CoinGecko API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const coinData = data[symbol];
-      
-      if (!coinData) {
-        throw new Error(`Cryptocurrency not found: ${symbol}`);
-      }
-
-      // Calculate confidence based on market cap and volume
-      const confidence = this.calculateCryptoConfidence(coinData);
-      
-      return {
-        median: coinData.usd,
-        p25: coinData.usd * 0.98, // 2% spread approximation
-        p75: coinData.usd * 1.02,
-        currency: "USD",
-        sources: ["CoinGecko"],
-        confidence,
-        timestamp: new Date().toISOString(),
-        methodology: "Real-time market data from CoinGecko API",
-        metadata: {
-          market_cap: coinData.usd_market_cap,
-          volume_24h: coinData.usd_24h_vol,
-          change_24h: coinData.usd_24h_change,
-        }
-      };
-    } catch (error) {
-      console.warn("CoinGecko failed, trying CoinMarketCap backup:", error.message);
-      return this.getCryptoPricingBackup(query.symbol);
-    }
+  isCategoryAvailable(category: PricingCategory): boolean {
+    return pricingProviderRegistry.isCategoryAvailable(category);
   }
 
   /**
-   * Backup cryptocurrency pricing using CoinMarketCap
+   * Per-provider success, failure, latency and circuit breaker state
    */
-  private async getCryptoPricingBackup(symbol: string): Promise<PricingResponse> {
-    const apiKey = process.env.COINMARKETCAP_API_KEY;
-    if (!apiKey) {
-      throw new Error("CoinMarketCap API key not configured");
-    }
-
-    const response = await fetch(
-      `${this.COINMARKETCAP_BASE_URL}/cryptocurrency/quotes/latest?symbol=${symbol.toUpperCase()}`,
-      {
-        headers: {
-          'X-CMC_PRO_API_KEY': apiKey,
-          'Accept': 'application/json',
-        }
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`CoinMarketCap API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const coinData = data.data[symbol.toUpperCase()];
-
-    if (!coinData) {
-      throw new Error(`Cryptocurrency not found in backup source: ${symbol}`);
-    }
-
-    const quote = coinData.quote.USD;
-    const confidence = Math.min(0.9, Math.max(0.6, quote.market_cap / 1000000000)); // Scale by market cap
-
-    return {
-      median: quote.price,
-      p25: quote.price * 0.98,
-      p75: quote.price * 1.02,
-      currency: "USD",
-      sources: ["CoinMarketCap"],
-      confidence,
-      timestamp: new Date().toISOString(),
-      methodology: "Real-time market data from CoinMarketCap API (backup)",
-      metadata: {
-        market_cap: quote.market_cap,
-        volume_24h: quote.volume_24h,
-        change_24h: quote.percent_change_24h,
-      }
-    };
+  getProviderHealth(): PricingProviderHealth[] {
+    return pricingProviderRegistry.getHealth();
   }
 
   /**
-   * Precious metals pricing (Gold, Silver, Platinum, Palladium)
+   * Reset one provider's circuit breaker, or all of them
    */
-  private async getMetalsPricing(query: PricingQuery): Promise<PricingResponse> {
-    if (!query.symbol) {
-      throw new Error("Symbol required for metals pricing (XAU, XAG, XPT, XPD)");
-    }
-
-    const symbol = query.symbol.toUpperCase();
-    const supportedMetals = ['XAU', 'XAG', 'XPT', 'XPD'];
-    
-    if (!supportedMetals.includes(symbol)) {
-      throw new Error(`Unsupported metal symbol: ${symbol}. Supported: ${supportedMetals.join(', ')}`);
-    }
-
-    try {
-      // Use metals-api.com for spot prices
-      const response = await fetch(`${this.METALS_API_BASE_URL}/latest?access_key=${process.env.METALS_API_KEY}&base=USD&symbols=${symbol}`);
-      
-      if (!response.ok) {
-        throw new Error(`Metals API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(`Metals API failed: ${data.error?.info || 'Unknown error'}`);
-      }
-
-      const rate = data.rates[symbol];
-      if (!rate) {
-        throw new Error(`Metal rate not found: ${symbol}`);
-      }
-
-      // Convert from per-ounce to per-gram for easier calculations
-      const pricePerOunce = 1 / rate; // metals-api returns USD per ounce as inverse
-      const pricePerGram = pricePerOunce / 31.1035; // troy ounce to grams
-
-      return {
-        median: pricePerGram,
-        p25: pricePerGram * 0.995, // Tighter spreads for metals
-        p75: pricePerGram * 1.005,
-        currency: "USD",
-        sources: ["Metals-API"],
-        confidence: 0.95, // High confidence for metals pricing
-        timestamp: new Date().toISOString(),
-        methodology: "Spot market prices from metals exchange data",
-        metadata: {
-          symbol,
-          price_per_ounce: pricePerOunce,
-          price_per_gram: pricePerGram,
-          unit: "USD per gram"
-        }
-      };
-    } catch (error) {
-      console.error("Metals pricing error:", error);
-      // Fallback to approximate values if API fails
-      return this.getMetalsFallbackPricing(symbol);
-    }
+  resetCircuitBreakers(providerName?: string): boolean {
+    return pricingProviderRegistry.resetCircuitBreakers(providerName);
   }
 
-  /**
-   * Jewelry pricing estimation based on metal content and craftsmanship
-   */
-  private async getJewelryPricing(query: PricingQuery): Promise<PricingResponse> {
-    const specs = query.specifications || {};
-    const weight = specs.weight || 10; // grams
-    const purity = specs.purity || "14k";
-    const type = query.itemType || "ring";
-
-    // Get base metal pricing
-    const metalSymbol = this.getMetalSymbolFromPurity(purity);
-    const metalPricing = await this.getMetalsPricing({ 
-      category: 'precious_metals', 
-      symbol: metalSymbol 
-    });
-
-    // Calculate metal value
-    const purityMultiplier = this.getPurityMultiplier(purity);
-    const metalValue = metalPricing.median * weight * purityMultiplier;
-
-    // Add craftsmanship and retail markup
-    const craftmanshipMultiplier = this.getCraftsmanshipMultiplier(type);
-    const retailMultiplier = 2.5; // Typical retail markup
-
-    const estimatedValue = metalValue * craftmanshipMultiplier * retailMultiplier;
-
-    return {
-      median: estimatedValue,
-      p25: estimatedValue * 0.8, // Wide range for jewelry due to subjective factors
-      p75: estimatedValue * 1.4,
-      currency: "USD",
-      sources: ["Metal spot prices + craftsmanship estimates"],
-      confidence: 0.7, // Moderate confidence due to subjective valuation factors
-      timestamp: new Date().toISOString(),
-      methodology: "Metal spot price + craftsmanship value + retail markup estimation",
-      metadata: {
-        metal_value: metalValue,
-        weight_grams: weight,
-        purity,
-        type,
-        craftsmanship_multiplier: craftmanshipMultiplier,
-        retail_multiplier: retailMultiplier
-      }
-    };
-  }
-
-  /**
-   * Electronics pricing with depreciation modeling
-   */
-  private async getElectronicsPricing(query: PricingQuery): Promise<PricingResponse> {
-    const specs = query.specifications || {};
-    const brand = specs.brand || "generic";
-    const model = specs.model || "";
-    const age = specs.age_years || 1;
-    const condition = specs.condition || "good"; // excellent, good, fair, poor
-
-    // Base value estimation using brand and model
-    const baseValue = this.getElectronicsBaseValue(query.itemType, brand, model);
-    
-    // Apply depreciation
-    const depreciationFactor = this.calculateElectronicsDepreciation(query.itemType, age);
-    
-    // Apply condition factor
-    const conditionMultiplier = this.getConditionMultiplier(condition);
-    
-    const estimatedValue = baseValue * depreciationFactor * conditionMultiplier;
-
-    return {
-      median: estimatedValue,
-      p25: estimatedValue * 0.85,
-      p75: estimatedValue * 1.15,
-      currency: "USD",
-      sources: ["Market data + depreciation modeling"],
-      confidence: 0.75,
-      timestamp: new Date().toISOString(),
-      methodology: "Base value estimation with depreciation and condition adjustments",
-      metadata: {
-        base_value: baseValue,
-        depreciation_factor: depreciationFactor,
-        condition_multiplier: conditionMultiplier,
-        age_years: age,
-        condition,
-        brand,
-        model
-      }
-    };
-  }
-
-  /**
-   * Collectibles pricing - highly category-specific
-   */
-  private async getCollectiblesPricing(query: PricingQuery): Promise<PricingResponse> {
-    const specs = query.specifications || {};
-    const subcategory = query.itemType || "unknown";
-
-    // This would integrate with specialized APIs for different collectible types
-    // For now, providing basic estimation framework
-    
-    let baseValue = 100; // Default base value
-    let confidence = 0.6; // Lower confidence for collectibles
-    
-    switch (subcategory) {
-      case "trading_cards":
-        baseValue = this.estimateTradingCardValue(specs);
-        confidence = 0.7;
-        break;
-      case "coins":
-        baseValue = this.estimateCoinValue(specs);
-        confidence = 0.8;
-        break;
-      case "stamps":
-        baseValue = this.estimateStampValue(specs);
-        confidence = 0.6;
-        break;
-      case "comics":
-        baseValue = this.estimateComicValue(specs);
-        confidence = 0.7;
-        break;
-      default:
-        baseValue = specs.estimated_value || 100;
-    }
-
-    return {
-      median: baseValue,
-      p25: baseValue * 0.6, // Wide ranges for collectibles
-      p75: baseValue * 1.8,
-      currency: "USD",
-      sources: ["Market estimates + category-specific data"],
-      confidence,
-      timestamp: new Date().toISOString(),
-      methodology: "Category-specific valuation with market trend analysis",
-      metadata: {
-        subcategory,
-        base_estimate: baseValue,
-        ...specs
-      }
-    };
-  }
-
-  /**
-   * Artwork pricing - highly subjective
-   */
-  private async getArtworkPricing(query: PricingQuery): Promise<PricingResponse> {
-    const specs = query.specifications || {};
-    const artist = specs.artist || "unknown";
-    const medium = specs.medium || "unknown";
-    const size = specs.size || "medium";
-    const provenance = specs.provenance || false;
-
-    // Basic artwork valuation framework
-    let baseValue = 500; // Starting point for unknown artists
-    
-    // Artist recognition factor (this would integrate with art databases)
-    const artistMultiplier = this.getArtistMultiplier(artist);
-    
-    // Medium and size factors
-    const mediumMultiplier = this.getMediumMultiplier(medium);
-    const sizeMultiplier = this.getSizeMultiplier(size);
-    
-    // Provenance premium
-    const provenanceMultiplier = provenance ? 1.5 : 1.0;
-    
-    const estimatedValue = baseValue * artistMultiplier * mediumMultiplier * sizeMultiplier * provenanceMultiplier;
-
-    return {
-      median: estimatedValue,
-      p25: estimatedValue * 0.5, // Very wide ranges for art
-      p75: estimatedValue * 2.5,
-      currency: "USD",
-      sources: ["Art market data + expert estimates"],
-      confidence: 0.5, // Low confidence due to subjective nature
-      timestamp: new Date().toISOString(),
-      methodology: "Artist recognition + medium + size + provenance factors",
-      metadata: {
-        artist,
-        medium,
-        size,
-        provenance,
-        artist_multiplier: artistMultiplier,
-        medium_multiplier: mediumMultiplier,
-        size_multiplier: sizeMultiplier,
-        provenance_multiplier: provenanceMultiplier
-      }
-    };
-  }
-
-  /**
-   * Luxury watches pricing
-   */
-  private async getWatchesPricing(query: PricingQuery): Promise<PricingResponse> {
-    const specs = query.specifications || {};
-    const brand = specs.brand || "unknown";
-    const model = specs.model || "";
-    const year = specs.year || new Date().getFullYear();
-    const condition = specs.condition || "good";
-
-    // Watch brand hierarchy and base values
-    const baseValue = this.getWatchBaseValue(brand, model);
-    
-    // Age factor for watches (some appreciate, others depreciate)
-    const ageFactor = this.getWatchAgeFactor(brand, year);
-    
-    // Condition factor
-    const conditionMultiplier = this.getConditionMultiplier(condition);
-    
-    const estimatedValue = baseValue * ageFactor * conditionMultiplier;
-
-    return {
-      median: estimatedValue,
-      p25: estimatedValue * 0.85,
-      p75: estimatedValue * 1.25,
-      currency: "USD",
-      sources: ["Watch market data + brand analysis"],
-      confidence: 0.8, // Good confidence for established brands
-      timestamp: new Date().toISOString(),
-      methodology: "Brand value + age factor + condition assessment",
-      metadata: {
-        brand,
-        model,
-        year,
-        condition,
-        base_value: baseValue,
-        age_factor: ageFactor,
-        condition_multiplier: conditionMultiplier
-      }
-    };
-  }
-
-  // Helper methods for various calculations
   private generateCacheKey(query: PricingQuery): string {
     return `${query.category}_${query.symbol || ''}_${query.itemType || ''}_${JSON.stringify(query.specifications || {})}`;
   }
 
-  private calculateCryptoConfidence(data: any): number {
-    // Higher confidence for higher market cap and volume
-    const marketCapScore = Math.min(1, (data.usd_market_cap || 0) / 1000000000); // Normalize by 1B
-    const volumeScore = Math.min(1, (data.usd_24h_vol || 0) / 100000000); // Normalize by 100M
-    return Math.max(0.6, (marketCapScore + volumeScore) / 2);
-  }
-
-  private getMetalsFallbackPricing(symbol: string): PricingResponse {
-    // Approximate fallback values (per gram in USD)
-    const fallbackPrices = {
-      'XAU': 65, // Gold
-      'XAG': 0.8, // Silver  
-      'XPT': 35, // Platinum
-      'XPD': 50, // Palladium
-    };
-
-    const price = fallbackPrices[symbol] || 1;
-    
-    return {
-      median: price,
-      p25: price * 0.95,
-      p75: price * 1.05,
-      currency: "USD",
-      sources: ["Fallback estimates"],
-      confidence: 0.5, // Low confidence for fallback data
-      timestamp: new Date().toISOString(),
-      methodology: "Fallback pricing when API unavailable"
-    };
-  }
-
-  private getMetalSymbolFromPurity(purity: string): string {
-    if (purity.includes('k') || purity.includes('ct')) {
-      return 'XAU'; // Gold
-    }
-    if (purity.includes('silver') || purity.includes('ag')) {
-      return 'XAG'; // Silver
-    }
-    if (purity.includes('platinum') || purity.includes('pt')) {
-      return 'XPT'; // Platinum
-    }
-    return 'XAU'; // Default to gold
-  }
-
-  private getPurityMultiplier(purity: string): number {
-    const purityMap = {
-      '10k': 0.417,
-      '14k': 0.583,
-      '18k': 0.750,
-      '22k': 0.917,
-      '24k': 1.000,
-      'sterling': 0.925, // Silver
-      'fine': 0.999, // Silver
-      '950': 0.950, // Platinum
-      '900': 0.900, // Platinum
-    };
-    
-    return purityMap[purity.toLowerCase()] || 0.583; // Default to 14k
-  }
-
-  private getCraftsmanshipMultiplier(type: string): number {
-    const multipliers = {
-      'ring': 1.2,
-      'necklace': 1.3,
-      'earrings': 1.25,
-      'bracelet': 1.15,
-      'watch': 2.0,
-      'pendant': 1.1,
-    };
-    
-    return multipliers[type.toLowerCase()] || 1.2;
-  }
-
-  private getElectronicsBaseValue(itemType: string, brand: string, model: string): number {
-    // This would integrate with pricing databases
-    // For now, basic estimation
-    const baseValues = {
-      'smartphone': { 'apple': 800, 'samsung': 600, 'google': 500, 'generic': 200 },
-      'laptop': { 'apple': 1500, 'dell': 800, 'hp': 700, 'lenovo': 750, 'generic': 400 },
-      'tablet': { 'apple': 500, 'samsung': 350, 'microsoft': 400, 'generic': 150 },
-      'tv': { 'samsung': 600, 'lg': 550, 'sony': 700, 'generic': 300 },
-      'gaming_console': { 'sony': 400, 'microsoft': 350, 'nintendo': 300 },
-    };
-    
-    const categoryBrands = baseValues[itemType?.toLowerCase()] || {};
-    return categoryBrands[brand?.toLowerCase()] || categoryBrands['generic'] || 100;
-  }
-
-  private calculateElectronicsDepreciation(itemType: string, age: number): number {
-    // Different depreciation rates for different electronics
-    const depreciationRates = {
-      'smartphone': 0.3, // 30% per year
-      'laptop': 0.25,    // 25% per year
-      'tablet': 0.28,    // 28% per year
-      'tv': 0.15,        // 15% per year
-      'gaming_console': 0.20, // 20% per year
-    };
-    
-    const rate = depreciationRates[itemType?.toLowerCase()] || 0.25;
-    return Math.pow(1 - rate, age);
-  }
-
-  private getConditionMultiplier(condition: string): number {
-    const multipliers = {
-      'excellent': 1.0,
-      'good': 0.85,
-      'fair': 0.65,
-      'poor': 0.40,
-    };
-    
-    return multipliers[condition?.toLowerCase()] || 0.85;
-  }
-
-  // Placeholder methods for collectibles - would integrate with specialized APIs
-  private estimateTradingCardValue(specs: any): number {
-    return specs.estimated_value || 50;
-  }
-
-  private estimateCoinValue(specs: any): number {
-    return specs.estimated_value || 25;
-  }
-
-  private estimateStampValue(specs: any): number {
-    return specs.estimated_value || 10;
-  }
-
-  private estimateComicValue(specs: any): number {
-    return specs.estimated_value || 30;
-  }
-
-  // Artwork helper methods
-  private getArtistMultiplier(artist: string): number {
-    // This would integrate with art databases
-    const knownArtists = {
-      'banksy': 50,
-      'kaws': 25,
-      'takashi murakami': 30,
-      'david hockney': 100,
-    };
-    
-    return knownArtists[artist?.toLowerCase()] || 1;
-  }
-
-  private getMediumMultiplier(medium: string): number {
-    const mediumValues = {
-      'oil': 1.5,
-      'acrylic': 1.2,
-      'watercolor': 1.0,
-      'drawing': 0.8,
-      'print': 0.6,
-      'digital': 0.5,
-    };
-    
-    return mediumValues[medium?.toLowerCase()] || 1.0;
-  }
-
-  private getSizeMultiplier(size: string): number {
-    const sizeValues = {
-      'large': 1.5,
-      'medium': 1.0,
-      'small': 0.7,
-    };
-    
-    return sizeValues[size?.toLowerCase()] || 1.0;
-  }
-
-  // Watch helper methods
-  private getWatchBaseValue(brand: string, model: string): number {
-    const brandValues = {
-      'rolex': 5000,
-      'omega': 2000,
-      'tag heuer': 1500,
-      'seiko': 300,
-      'casio': 100,
-      'citizen': 200,
-    };
-    
-    // Model-specific premiums could be added here
-    return brandValues[brand?.toLowerCase()] || 100;
-  }
-
-  private getWatchAgeFactor(brand: string, year: number): number {
-    const currentYear = new Date().getFullYear();
-    const age = currentYear - year;
-    
-    // Luxury brands often appreciate with age if vintage
-    const luxuryBrands = ['rolex', 'patek philippe', 'audemars piguet'];
-    
-    if (luxuryBrands.includes(brand?.toLowerCase()) && age > 20) {
-      return 1.2; // Vintage premium
-    }
-    
-    if (age > 10) {
-      return 0.8; // General depreciation for older watches
-    }
-    
-    return 1.0; // Recent watches hold value
-  }
-
   /**
    * Clear expired cache entries
    */
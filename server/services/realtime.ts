@@ -0,0 +1,154 @@
+// Realtime Service - Server-Sent Events channel for live bid, bridge and document updates
+// Each client holds one authenticated stream subscribed to topics: its own user:<id> topic plus
+// resource topics (asset:, bridge:, document:) that the route has checked it may read.
+// Subscriptions are held in this process, so events only reach clients connected to the same server.
+
+import type { Response } from "express";
+import { randomUUID } from "crypto";
+
+// Keeps idle streams open through proxies that drop silent connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long a disconnected EventSource waits before reconnecting
+const CLIENT_RETRY_MS = 5000;
+
+export const REALTIME_TOPIC_KINDS = ["user", "asset", "bridge", "document"] as const;
+export type RealtimeTopicKind = typeof REALTIME_TOPIC_KINDS[number];
+
+// Most topics a single stream may subscribe to
+export const MAX_REALTIME_TOPICS = 20;
+
+export type RealtimeEventType =
+  | "bid.placed"
+  | "bid.outbid"
+  | "auction.settled"
+  | "listing.sold"
+  | "bridge.status"
+  | "document.analysis";
+
+export interface RealtimeEvent {
+  type: RealtimeEventType;
+  topic: string;
+  data: unknown;
+  publishedAt: string;
+}
+
+interface RealtimeSubscriber {
+  id: string;
+  userId: string;
+  topics: Set<string>;
+  res: Response;
+}
+
+// Split "asset:<id>" into its kind and resource id, or null if it is not a valid topic
+export function parseRealtimeTopic(topic: string): { kind: RealtimeTopicKind; id: string } | null {
+  const match = /^(\w+):([\w-]{1,64})$/.exec(topic);
+  if (!match || !(REALTIME_TOPIC_KINDS as readonly string[]).includes(match[1])) {
+    return null;
+  }
+  return { kind: match[1] as RealtimeTopicKind, id: match[2] };
+}
+
+export class RealtimeService {
+  private static instance: RealtimeService;
+  private subscribers = new Map<string, RealtimeSubscriber>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  static getInstance(): RealtimeService {
+    if (!RealtimeService.instance) {
+      RealtimeService.instance = new RealtimeService();
+    }
+    return RealtimeService.instance;
+  }
+
+  // Start the heartbeat that keeps open streams alive
+  startHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const subscriber of Array.from(this.subscribers.values())) {
+        subscriber.res.write(": heartbeat\n\n");
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  // Stop the heartbeat and end every open stream
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const subscriber of Array.from(this.subscribers.values())) {
+      subscriber.res.end();
+    }
+    this.subscribers.clear();
+  }
+
+  /**
+   * Turn the response into an event stream for the given topics. The user's own topic is
+   * always included. The stream is dropped when the client disconnects
+   */
+  subscribe(userId: string, topics: string[], res: Response): void {
+    const subscriber: RealtimeSubscriber = {
+      id: randomUUID(),
+      userId,
+      topics: new Set([`user:${userId}`, ...topics]),
+      res,
+    };
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no", // stop nginx-style proxies buffering the stream
+    });
+    res.flushHeaders();
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+    this.subscribers.set(subscriber.id, subscriber);
+    res.on("close", () => {
+      this.subscribers.delete(subscriber.id);
+    });
+
+    this.send(subscriber, { type: "ready", topics: Array.from(subscriber.topics) });
+  }
+
+  /**
+   * Send an event to every stream subscribed to any of the topics. A stream subscribed to
+   * several of them receives the event once. Returns how many streams it was sent to
+   */
+  publish(topics: string[], type: RealtimeEventType, data: unknown): number {
+    let delivered = 0;
+
+    for (const subscriber of Array.from(this.subscribers.values())) {
+      const topic = topics.find((candidate) => subscriber.topics.has(candidate));
+      if (!topic) {
+        continue;
+      }
+
+      const event: RealtimeEvent = { type, topic, data, publishedAt: new Date().toISOString() };
+      this.send(subscriber, event);
+      delivered++;
+    }
+
+    return delivered;
+  }
+
+  getSubscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  private send(subscriber: RealtimeSubscriber, payload: object): void {
+    try {
+      subscriber.res.write(`data: ${JSON.stringify(payload)}\n\n`);
+    } catch (error) {
+      console.error(`Error writing realtime event to subscriber ${subscriber.id}:`, error);
+      this.subscribers.delete(subscriber.id);
+    }
+  }
+}
+
+export const realtimeService = RealtimeService.getInstance();
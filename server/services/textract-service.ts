@@ -12,6 +12,7 @@ import {
 } from '@aws-sdk/client-textract';
 import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { randomUUID } from 'crypto';
+import { extractStructuredData } from './ocr-providers/structured-data';
 
 // Configuration
 const TEXTRACT_REGION = process.env.AWS_TEXTRACT_REGION || 'us-east-1';
@@ -236,7 +237,7 @@ class TextractService {
     const boundingBoxes = this.extractBoundingBoxes(blocks);
     const tables = this.extractTables(blocks);
     const forms = this.extractForms(blocks);
-    const extractedData = this.extractStructuredData(ocrText, forms);
+    const extractedData = extractStructuredData(ocrText, forms);
     const confidence = this.calculateOverallConfidence(blocks);
 
     return {
@@ -379,45 +380,6 @@ class TextractService {
     return forms;
   }
 
-  /**
-   * Extract structured data from OCR text and forms
-   */
-  private extractStructuredData(ocrText: string, forms: FormData[]): ExtractedDocumentData {
-    const keyValuePairs: Record<string, string> = {};
-    forms.forEach(form => {
-      keyValuePairs[form.key] = form.value;
-    });
-
-    // Pattern matching for common document types
-    const extractedData: ExtractedDocumentData = { keyValuePairs };
-
-    // Certificate of Authenticity patterns
-    if (this.detectDocumentType(ocrText, 'coa')) {
-      extractedData.documentType = 'certificate_of_authenticity';
-      extractedData.serialNumber = this.extractSerialNumber(ocrText);
-      extractedData.issuer = this.extractIssuer(ocrText);
-      extractedData.dateIssued = this.extractDateIssued(ocrText);
-      extractedData.assetDetails = this.extractAssetDetails(ocrText, forms);
-    }
-
-    // NFT Certificate patterns
-    if (this.detectDocumentType(ocrText, 'nft')) {
-      extractedData.documentType = 'nft_certificate';
-      extractedData.serialNumber = this.extractTokenId(ocrText);
-      extractedData.certificationInfo = this.extractNFTInfo(ocrText, forms);
-    }
-
-    // Appraisal document patterns
-    if (this.detectDocumentType(ocrText, 'appraisal')) {
-      extractedData.documentType = 'appraisal';
-      extractedData.issuer = this.extractAppraiser(ocrText);
-      extractedData.dateIssued = this.extractAppraisalDate(ocrText);
-      extractedData.assetDetails = this.extractAppraisalDetails(ocrText, forms);
-    }
-
-    return extractedData;
-  }
-
   /**
    * Helper methods for text extraction and pattern matching
    */
@@ -461,174 +423,6 @@ class TextractService {
     }
   }
 
-  // Document type detection methods
-  private detectDocumentType(text: string, type: string): boolean {
-    const normalizedText = text.toLowerCase();
-    
-    const patterns = {
-      coa: ['certificate of authenticity', 'authenticity certificate', 'coa', 'authentication'],
-      nft: ['non-fungible token', 'nft', 'token id', 'blockchain certificate', 'digital asset'],
-      appraisal: ['appraisal', 'appraised value', 'appraiser', 'valuation', 'market value'],
-      insurance: ['insurance', 'policy', 'coverage', 'insured value', 'premium'],
-    };
-
-    const typePatterns = patterns[type as keyof typeof patterns] || [];
-    return typePatterns.some(pattern => normalizedText.includes(pattern));
-  }
-
-  // Data extraction methods
-  private extractSerialNumber(text: string): string | undefined {
-    const patterns = [
-      /serial\s*(?:number|#)[\s:]*([A-Z0-9-]+)/i,
-      /s\/n[\s:]*([A-Z0-9-]+)/i,
-      /serial[\s:]*([A-Z0-9-]+)/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1];
-    }
-
-    return undefined;
-  }
-
-  private extractIssuer(text: string): string | undefined {
-    const patterns = [
-      /issued\s+by[\s:]*([^\n]+)/i,
-      /issuer[\s:]*([^\n]+)/i,
-      /certified\s+by[\s:]*([^\n]+)/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1].trim();
-    }
-
-    return undefined;
-  }
-
-  private extractDateIssued(text: string): string | undefined {
-    const patterns = [
-      /issue\s*date[\s:]*(\d{1,2}\/\d{1,2}\/\d{4})/i,
-      /dated[\s:]*(\d{1,2}\/\d{1,2}\/\d{4})/i,
-      /(\d{1,2}\/\d{1,2}\/\d{4})/,
-      /(\d{4}-\d{2}-\d{2})/,
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1];
-    }
-
-    return undefined;
-  }
-
-  private extractTokenId(text: string): string | undefined {
-    const patterns = [
-      /token\s*id[\s:]*([A-Z0-9-]+)/i,
-      /nft[\s#:]*([A-Z0-9-]+)/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1];
-    }
-
-    return undefined;
-  }
-
-  private extractAppraiser(text: string): string | undefined {
-    const patterns = [
-      /appraiser[\s:]*([^\n]+)/i,
-      /certified\s+appraiser[\s:]*([^\n]+)/i,
-      /by[\s:]*([^\n]+appraiser[^\n]*)/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1].trim();
-    }
-
-    return undefined;
-  }
-
-  private extractAppraisalDate(text: string): string | undefined {
-    const patterns = [
-      /appraisal\s*date[\s:]*(\d{1,2}\/\d{1,2}\/\d{4})/i,
-      /date\s*of\s*appraisal[\s:]*(\d{1,2}\/\d{1,2}\/\d{4})/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) return match[1];
-    }
-
-    return this.extractDateIssued(text);
-  }
-
-  private extractAssetDetails(text: string, forms: FormData[]): Record<string, any> {
-    const details: Record<string, any> = {};
-
-    // Extract common asset details
-    const valueMatch = text.match(/(?:value|worth)[\s:]*\$?([\d,]+(?:\.\d{2})?)/i);
-    if (valueMatch) details.estimatedValue = valueMatch[1];
-
-    const weightMatch = text.match(/([\d.]+)\s*(grams?|oz|ounces?|carats?)/i);
-    if (weightMatch) {
-      details.weight = parseFloat(weightMatch[1]);
-      details.weightUnit = weightMatch[2];
-    }
-
-    // Add form data as additional details
-    forms.forEach(form => {
-      if (form.confidence >= TEXTRACT_CONFIG.confidenceThreshold) {
-        details[form.key.toLowerCase().replace(/\s+/g, '_')] = form.value;
-      }
-    });
-
-    return details;
-  }
-
-  private extractNFTInfo(text: string, forms: FormData[]): Record<string, any> {
-    const info: Record<string, any> = {};
-
-    // Extract blockchain information
-    const blockchainMatch = text.match(/blockchain[\s:]*([^\n]+)/i);
-    if (blockchainMatch) info.blockchain = blockchainMatch[1].trim();
-
-    const contractMatch = text.match(/contract[\s:]*([0-9a-fA-Fx]+)/i);
-    if (contractMatch) info.contractAddress = contractMatch[1];
-
-    // Add form data
-    forms.forEach(form => {
-      if (form.confidence >= TEXTRACT_CONFIG.confidenceThreshold) {
-        info[form.key.toLowerCase().replace(/\s+/g, '_')] = form.value;
-      }
-    });
-
-    return info;
-  }
-
-  private extractAppraisalDetails(text: string, forms: FormData[]): Record<string, any> {
-    const details: Record<string, any> = {};
-
-    // Extract appraisal-specific information
-    const marketValueMatch = text.match(/market\s*value[\s:]*\$?([\d,]+(?:\.\d{2})?)/i);
-    if (marketValueMatch) details.marketValue = marketValueMatch[1];
-
-    const replacementValueMatch = text.match(/replacement\s*value[\s:]*\$?([\d,]+(?:\.\d{2})?)/i);
-    if (replacementValueMatch) details.replacementValue = replacementValueMatch[1];
-
-    // Add form data
-    forms.forEach(form => {
-      if (form.confidence >= TEXTRACT_CONFIG.confidenceThreshold) {
-        details[form.key.toLowerCase().replace(/\s+/g, '_')] = form.value;
-      }
-    });
-
-    return details;
-  }
-
   // Mock response for development mode
   private getMockAnalysisResult(startTime: number): TextractResult {
     return {
@@ -674,5 +468,5 @@ Document contains key information that would normally be extracted by AWS Textra
   }
 }
 
-export { TextractService, TextractResult, AnalysisOptions };
+export { TextractService, TextractResult, AnalysisOptions, ExtractedDocumentData, BoundingBox, TableData, FormData };
 export default new TextractService();
\ No newline at end of file
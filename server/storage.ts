@@ -2,18 +2,29 @@ import {
   users,
   rwaSubmissions,
   pawnLoans,
+  loanPolicies,
+  loanEvents,
+  loanPayments,
+  loanExpiryRuns,
+  notifications,
   marketplaceAssets,
   bids,
+  watchlist,
   transactions,
   bridgeTransactions,
   assetPricingCache,
+  priceHistory,
   pricingEstimates,
   documents,
   documentAnalysisResults,
   fraudDetectionResults,
+  documentFingerprints,
   documentVerifications,
   documentAnalysisQueue,
   documentTemplates,
+  fraudRuleSetVersions,
+  fraudRules,
+  fraudBlacklistEntries,
   adminActions,
   fraudAlerts,
   assetReviews,
@@ -34,6 +45,15 @@ import {
   type InsertRwaSubmission,
   type PawnLoan,
   type InsertPawnLoan,
+  type LoanPolicy,
+  type InsertLoanPolicy,
+  type LoanEvent,
+  type InsertLoanEvent,
+  type LoanPayment,
+  type LoanExpiryRun,
+  type InsertLoanExpiryRun,
+  type Notification,
+  type InsertNotification,
   type MarketplaceAsset,
   type InsertMarketplaceAsset,
   type Bid,
@@ -42,22 +62,34 @@ import {
   type InsertTransaction,
   type BridgeTransaction,
   type InsertBridgeTransaction,
+  type BridgeLimitRejection,
   type AssetPricingCache,
   type InsertAssetPricingCache,
   type PricingEstimate,
   type InsertPricingEstimate,
+  type PriceHistory,
+  type InsertPriceHistory,
+  type PriceHistoryInterval,
+  type PriceCandle,
+  type CollateralHealth,
   type Document,
   type InsertDocument,
   type DocumentAnalysisResult,
   type InsertDocumentAnalysisResult,
   type FraudDetectionResult,
+  type DocumentFingerprint,
+  type InsertDocumentFingerprint,
   type InsertFraudDetectionResult,
   type DocumentVerification,
   type InsertDocumentVerification,
   type DocumentAnalysisQueue,
   type InsertDocumentAnalysisQueue,
+  type DocumentAnalysisQueueStats,
   type DocumentTemplate,
   type InsertDocumentTemplate,
+  type FraudRuleSetVersion,
+  type FraudRule,
+  type FraudBlacklistEntry,
   type DocumentSearch,
   type AdminAction,
   type InsertAdminAction,
@@ -88,13 +120,275 @@ import {
   type InsertUserActivityLog,
   type FormSubmission,
   type InsertFormSubmission,
+  type BidRejection,
+  type MarketplaceSearch,
+  type MarketplaceSortOrder,
+  type MarketplaceAssetPage,
+  type WatchlistItem,
+  type WatchedMarketplaceAsset,
+  type PurchaseRejection,
+  AUCTION_MIN_INCREMENT_RATIO,
+  AUCTION_SNIPING_WINDOW_MINUTES,
+  AUCTION_EXTENSION_MINUTES,
+  CLAIMABLE_QUEUE_STATUSES,
+  getBidRejection,
+  getBuyNowRejection,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, lt, gte, sql, ilike } from "drizzle-orm";
+import { eq, ne, asc, desc, and, or, lt, lte, gt, gte, sql, ilike, isNull, isNotNull, inArray, type SQL } from "drizzle-orm";
+import type { FeeWaiverResult } from "./fee-waiver";
 import bcrypt from "bcryptjs";
 import { randomUUID } from "crypto";
 import { EncryptionService } from "./encryption-service";
 
+// A verified extension fee payment to apply to a pawn loan
+export interface PawnLoanExtension {
+  days: number;
+  maxExtensions: number;
+  transactionId: string;
+  userId: string;
+  blockHeight?: number;
+  metadata?: Record<string, any>;
+}
+
+// How a repayment is split across fees, interest and principal, and the interest
+// settled on the old principal up to the payment date
+export interface LoanPaymentAllocation {
+  feesPortion: number;
+  interestPortion: number;
+  principalPortion: number;
+  unappliedAmount: number;
+  settledInterest: number;
+  settledDays: number;
+  paidInFull: boolean;
+}
+
+// A verified repayment to apply to a pawn loan. The allocation is computed against the
+// locked loan row so concurrent payments never double-count a balance
+export interface PawnLoanPayment {
+  transactionId: string;
+  userId: string;
+  blockHeight: string;
+  allocate: (loan: PawnLoan, amount: number) => LoanPaymentAllocation;
+}
+
+// Approving a pending submission together with the loan it funds. The submission only moves from
+// pending once, so concurrent approvals cannot originate two loans
+export interface RwaSubmissionApproval {
+  adminNotes?: string;
+  reviewedBy?: string;
+  loan: typeof pawnLoans.$inferInsert;
+  disbursement: InsertTransaction; // The new loan's id is added to its metadata
+}
+
+export interface RwaSubmissionApprovalResult {
+  submission: RwaSubmission;
+  loan: PawnLoan;
+  transaction: Transaction;
+}
+
+// Result of re-pricing a loan's crypto or precious metals collateral against the market
+export interface PawnLoanRevaluation {
+  collateralSymbol: string;
+  collateralReferencePrice: string;
+  collateralValue: string;
+  currentLtv: string;
+  collateralHealth: CollateralHealth;
+  collateralHealthChangedAt: Date | null;
+  revaluedAt: Date;
+}
+
+// Fields a fraud rule set change supplies - versions and authorship are filled in on publish
+type FraudRuleSetManagedFields = 'id' | 'introducedInVersion' | 'retiredInVersion' | 'createdBy' | 'createdAt';
+
+// One published change to the fraud rule set. Replacing an entry retires it and adds its successor
+export interface FraudRuleSetChange {
+  changeSummary: string;
+  createdBy?: string;
+  templateCreatedBy?: string | null; // User id, since templates reference users
+  retire?: { rules?: string[]; templates?: string[]; blacklist?: string[] };
+  add?: {
+    rules?: Omit<typeof fraudRules.$inferInsert, FraudRuleSetManagedFields>[];
+    templates?: Omit<typeof documentTemplates.$inferInsert, FraudRuleSetManagedFields | 'isActive' | 'updatedAt'>[];
+    blacklist?: Omit<typeof fraudBlacklistEntries.$inferInsert, FraudRuleSetManagedFields>[];
+  };
+}
+
+// The fraud rules, templates and blacklist entries in force at one rule set version
+export interface FraudRuleSet {
+  version: number;
+  rules: FraudRule[];
+  templates: DocumentTemplate[];
+  blacklist: FraudBlacklistEntry[];
+}
+
+export interface FraudRuleSetPublication {
+  version: FraudRuleSetVersion;
+  rules: FraudRule[];
+  templates: DocumentTemplate[];
+  blacklist: FraudBlacklistEntry[];
+}
+
+// Another user's document whose image or serial number matches a fingerprint
+export interface DocumentFingerprintMatch {
+  fingerprint: DocumentFingerprint;
+  hashDistance: number | null; // Differing bits between the perceptual hashes, null when only the serial matched
+  serialMatch: boolean;
+}
+
+// A queue item with the document it analyzes, for the admin queue screen
+export interface DocumentAnalysisQueueEntry extends DocumentAnalysisQueue {
+  document: Pick<Document, 'id' | 'originalFileName' | 'documentType' | 'analysisStatus' | 'submissionId'> | null;
+}
+
+// Terms for forfeiting an expired pawn loan to the marketplace
+export interface PawnLoanForfeiture {
+  cutoff: Date; // Only loans that expired before this instant are forfeited
+  startingPriceRatio: number; // Marketplace starting price as a fraction of asset value
+  auctionDays: number; // How long the marketplace auction runs before settlement
+  runId?: string;
+}
+
+// A ledger-verified escrow to place as a bid on a marketplace auction. The auction rules
+// are re-checked against the locked asset row, so concurrent bids are serialized
+export interface MarketplaceBidPlacement {
+  transactionId: string; // Pending bid_payment escrow created by the bid intent
+  bidderId: string;
+  blockHeight: string;
+  asOf: Date;
+}
+
+export interface MarketplaceBidResult {
+  asset: MarketplaceAsset;
+  escrow: Transaction;
+  bid?: Bid;
+  rejection?: BidRejection; // Set when the auction moved on while the escrow was in flight
+  outbid: Bid[]; // Bids this one displaced as the highest bid
+  refunds: Transaction[]; // Refunds for outbid escrows, or for this escrow if it was rejected
+}
+
+// A ledger-verified buy-now payment for a marketplace listing. The first verified buyer
+// takes the asset; later payments are refunded
+export interface MarketplacePurchase {
+  transactionId: string; // Pending purchase_payment created by the purchase intent
+  buyerId: string;
+  blockHeight: string;
+  asOf: Date;
+}
+
+export interface MarketplacePurchaseResult {
+  asset: MarketplaceAsset;
+  payment: Transaction;
+  rejection?: PurchaseRejection; // Set when the listing sold or changed while the payment was in flight
+  refund?: Transaction;
+}
+
+// Settles a marketplace auction whose end time has passed. The buyer's fee is computed
+// against the locked asset row so it always matches the recorded sale price
+export interface AuctionSettlement {
+  asOf: Date;
+  calculateFee: (buyer: User, salePrice: number) => FeeWaiverResult;
+}
+
+export interface AuctionSettlementResult {
+  asset: MarketplaceAsset;
+  winningBid?: Bid;
+  fee?: FeeWaiverResult;
+  feeTransaction?: Transaction;
+  losingBids: Bid[];
+  releasedTransactions: Transaction[]; // Unpaid bid payments for losing bids, cancelled
+  refundTransactions: Transaction[]; // Refunds owed for losing bids that were already paid
+}
+
+export interface BridgeTokenVolume {
+  token: string;
+  amount: string;
+  count: number;
+}
+
+// Bridge volume a limit check needs, read under the locks the new bridge is created under
+export interface BridgeLimitVolumes {
+  userDaily: BridgeTokenVolume[];
+  userWeekly: BridgeTokenVolume[];
+  tokenDaily: BridgeTokenVolume[]; // the whole platform's volume of the bridge's source token
+}
+
+// Creates a bridge only if it fits the limits. Requests from the same user, or for the same
+// source token, are checked one at a time so each sees the volume of the ones before it
+export interface BridgeLimitGuard {
+  dailySince: Date;
+  weeklySince: Date;
+  check: (volumes: BridgeLimitVolumes) => BridgeLimitRejection | null;
+}
+
+export interface BridgeCreationResult {
+  bridge?: BridgeTransaction;
+  rejection?: BridgeLimitRejection;
+}
+
+// Keyset pagination for marketplace search: each sort order pages on (key, id) so rows
+// inserted or re-priced between requests never shift later pages. Timestamp keys are cut to
+// milliseconds, the precision of the JS Date a cursor is encoded from, so a row is never
+// compared against a cursor that rounded its own key down
+const marketplacePriceKey = sql`coalesce(${marketplaceAssets.currentBid}, ${marketplaceAssets.startingPrice})`;
+const marketplaceRecentKey = sql`date_trunc('milliseconds', ${marketplaceAssets.createdAt})`;
+const marketplaceEndingKey = sql`coalesce(date_trunc('milliseconds', ${marketplaceAssets.auctionEndsAt}), 'infinity'::timestamp)`;
+
+const MARKETPLACE_SORTS: Record<MarketplaceSortOrder, {
+  key: SQL;
+  cast: "timestamp" | "numeric" | "integer";
+  descending: boolean;
+  cursorValue: (asset: MarketplaceAsset) => string;
+}> = {
+  "recent": {
+    key: marketplaceRecentKey,
+    cast: "timestamp",
+    descending: true,
+    cursorValue: (asset) => (asset.createdAt ?? new Date(0)).toISOString(),
+  },
+  "price-low": {
+    key: marketplacePriceKey,
+    cast: "numeric",
+    descending: false,
+    cursorValue: (asset) => asset.currentBid ?? asset.startingPrice,
+  },
+  "price-high": {
+    key: marketplacePriceKey,
+    cast: "numeric",
+    descending: true,
+    cursorValue: (asset) => asset.currentBid ?? asset.startingPrice,
+  },
+  "ending": {
+    key: marketplaceEndingKey,
+    cast: "timestamp",
+    descending: false,
+    cursorValue: (asset) => asset.auctionEndsAt?.toISOString() ?? "infinity",
+  },
+  "days-expired": {
+    key: sql`${marketplaceAssets.daysExpired}`,
+    cast: "integer",
+    descending: true,
+    cursorValue: (asset) => String(asset.daysExpired),
+  },
+};
+
+const encodeMarketplaceCursor = (value: string, id: string) => Buffer.from(`${value}|${id}`).toString("base64url");
+
+const decodeMarketplaceCursor = (cursor: string, cast: "timestamp" | "numeric" | "integer"): { value: string; id: string } | undefined => {
+  const decoded = Buffer.from(cursor, "base64url").toString();
+  const separator = decoded.lastIndexOf("|");
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  const value = decoded.slice(0, separator);
+  const id = decoded.slice(separator + 1);
+  const validValue = cast === "timestamp"
+    ? value === "infinity" || !isNaN(Date.parse(value))
+    : value.trim() !== "" && !isNaN(Number(value));
+  return validValue && id ? { value, id } : undefined;
+};
+
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
@@ -165,6 +459,7 @@ export interface IStorage {
   getRwaSubmissionsByUser(userId: string): Promise<RwaSubmission[]>;
   getPendingRwaSubmissions(): Promise<any[]>;
   updateRwaSubmissionStatus(id: string, status: string, adminNotes?: string, reviewedBy?: string): Promise<RwaSubmission>;
+  approveRwaSubmissionWithLoan(id: string, approval: RwaSubmissionApproval): Promise<RwaSubmissionApprovalResult | undefined>;
 
   // Pawn Loan operations
   createPawnLoan(loan: InsertPawnLoan): Promise<PawnLoan>;
@@ -173,10 +468,40 @@ export interface IStorage {
   getActivePawnLoans(): Promise<PawnLoan[]>;
   getExpiringPawnLoans(days: number): Promise<PawnLoan[]>;
   updatePawnLoanStatus(id: string, status: string): Promise<PawnLoan>;
+  updatePawnLoanAccrual(id: string, accruedInterest: string, accruedAt: Date): Promise<PawnLoan>;
+  extendPawnLoan(id: string, extension: PawnLoanExtension): Promise<PawnLoan | undefined>;
+  createLoanEvent(event: InsertLoanEvent): Promise<LoanEvent>;
+  getLoanEvents(loanId: string): Promise<LoanEvent[]>;
+  getPawnLoansExpiredBefore(cutoff: Date): Promise<PawnLoan[]>;
+  updatePawnLoanCollateral(id: string, revaluation: PawnLoanRevaluation): Promise<PawnLoan | undefined>;
+  getCollateralRiskLoans(): Promise<Array<{ loan: PawnLoan; submission: RwaSubmission }>>;
+  forfeitPawnLoan(id: string, forfeiture: PawnLoanForfeiture): Promise<{ loan: PawnLoan; asset?: MarketplaceAsset } | undefined>;
+  applyPawnLoanPayment(id: string, payment: PawnLoanPayment): Promise<{ loan: PawnLoan; payment: LoanPayment } | undefined>;
+  getLoanPayments(loanId: string): Promise<LoanPayment[]>;
+
+  // Loan expiry run operations
+  createLoanExpiryRun(run: InsertLoanExpiryRun): Promise<LoanExpiryRun>;
+  updateLoanExpiryRun(id: string, updates: Partial<InsertLoanExpiryRun> & { completedAt?: Date }): Promise<LoanExpiryRun>;
+  getLoanExpiryRuns(limit?: number): Promise<LoanExpiryRun[]>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification | undefined>;
+  getNotificationsByUser(userId: string, options?: { unreadOnly?: boolean; limit?: number }): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+  updateNotificationEmailStatus(id: string, status: string, error?: string): Promise<Notification>;
+
+  // Loan policy operations
+  createLoanPolicyVersion(policy: InsertLoanPolicy, createdBy?: string): Promise<LoanPolicy>;
+  getLoanPolicies(category?: string): Promise<LoanPolicy[]>;
+  getLoanPolicy(id: string): Promise<LoanPolicy | undefined>;
+  getEffectiveLoanPolicy(category: string, asOf?: Date): Promise<LoanPolicy | undefined>;
 
   // Marketplace operations
   createMarketplaceAsset(asset: InsertMarketplaceAsset): Promise<MarketplaceAsset>;
   getMarketplaceAssets(): Promise<MarketplaceAsset[]>;
+  searchMarketplaceAssets(search: MarketplaceSearch): Promise<MarketplaceAssetPage | undefined>;
   getMarketplaceAsset(id: string): Promise<MarketplaceAsset | undefined>;
   updateMarketplaceAsset(id: string, updates: Partial<InsertMarketplaceAsset>): Promise<MarketplaceAsset>;
 
@@ -184,20 +509,41 @@ export interface IStorage {
   createBid(bid: InsertBid): Promise<Bid>;
   getBidsByAsset(assetId: string): Promise<Bid[]>;
   getHighestBid(assetId: string): Promise<Bid | undefined>;
+  placeBid(assetId: string, placement: MarketplaceBidPlacement): Promise<MarketplaceBidResult | undefined>;
+  purchaseMarketplaceAsset(assetId: string, purchase: MarketplacePurchase): Promise<MarketplacePurchaseResult | undefined>;
+
+  // Auction settlement operations
+  getAuctionsEndedBefore(asOf: Date): Promise<MarketplaceAsset[]>;
+  settleAuction(id: string, settlement: AuctionSettlement): Promise<AuctionSettlementResult | undefined>;
+
+  // Watchlist operations
+  addToWatchlist(userId: string, assetId: string): Promise<WatchlistItem>;
+  removeFromWatchlist(userId: string, assetId: string): Promise<boolean>;
+  getWatchedAssets(userId: string): Promise<WatchedMarketplaceAsset[]>;
+  getAssetWatcherIds(assetId: string): Promise<string[]>;
 
   // Transaction operations
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  getTransaction(id: string): Promise<Transaction | undefined>;
   getTransactionsByUser(userId: string): Promise<Transaction[]>;
   updateTransactionStatus(id: string, status: string, txHash?: string, blockHeight?: number): Promise<Transaction>;
 
   // Bridge operations - Enhanced for Chain Fusion
   createBridgeTransaction(bridge: InsertBridgeTransaction): Promise<BridgeTransaction>;
+  createBridgeTransactionWithinLimits(bridge: InsertBridgeTransaction, guard: BridgeLimitGuard): Promise<BridgeCreationResult>;
   getBridgeTransaction(id: string): Promise<BridgeTransaction | undefined>;
   getBridgeTransactionsByUser(userId: string, limit?: number, offset?: number): Promise<BridgeTransaction[]>;
   updateBridgeTransaction(id: string, updates: Partial<BridgeTransaction>): Promise<BridgeTransaction>;
   updateBridgeTransactionStatus(id: string, status: string, updates?: Partial<BridgeTransaction>): Promise<BridgeTransaction>;
+  updateBridgeTransactionStatusIf(id: string, expectedStatus: string, status: string, updates?: Partial<BridgeTransaction>): Promise<BridgeTransaction | undefined>;
   getBridgeTransactionsByStatus(status: string): Promise<BridgeTransaction[]>;
   getBridgeTransactionsWithFilters(filters: any): Promise<BridgeTransaction[]>;
+  getBridgeTransactionsNeedingRefund(): Promise<BridgeTransaction[]>;
+  getBridgeTransactionsByRefundStatus(refundStatus: string): Promise<BridgeTransaction[]>;
+  updateBridgeRefund(id: string, expectedRefundStatus: string | null, updates: Partial<BridgeTransaction>): Promise<BridgeTransaction | undefined>;
+  claimBridgeRefund(id: string, refundAttempts: number): Promise<BridgeTransaction | undefined>;
+  getBridgeVolumeSince(since: Date, filters?: { userId?: string; fromToken?: string }): Promise<BridgeTokenVolume[]>;
+  countBridgeTransactionsSince(userId: string, since: Date): Promise<number>;
 
   // Pricing operations
   storePricingCache(cache: InsertAssetPricingCache): Promise<AssetPricingCache>;
@@ -209,6 +555,11 @@ export interface IStorage {
   createPricingEstimate(estimate: InsertPricingEstimate): Promise<PricingEstimate>;
   getPricingEstimatesBySubmission(submissionId: string): Promise<PricingEstimate[]>;
 
+  // Price history
+  recordPriceSnapshot(snapshot: InsertPriceHistory): Promise<PriceHistory>;
+  getPriceCandles(category: string, symbol: string, from: Date, to: Date, interval: PriceHistoryInterval): Promise<PriceCandle[]>;
+  getPriceAt(category: string, symbol: string, at: Date): Promise<PriceHistory | undefined>;
+
   // Admin statistics
   getAdminStats(): Promise<{
     pendingApprovals: number;
@@ -236,6 +587,10 @@ export interface IStorage {
   getFraudDetectionResults(documentId: string): Promise<FraudDetectionResult[]>;
   deleteFraudDetectionResult(documentId: string): Promise<void>;
 
+  // Document Fingerprint operations
+  upsertDocumentFingerprint(fingerprint: InsertDocumentFingerprint): Promise<DocumentFingerprint>;
+  findDocumentFingerprintMatches(fingerprint: DocumentFingerprint, maxHashDistance: number): Promise<DocumentFingerprintMatch[]>;
+
   // Document Verification operations
   createDocumentVerification(verification: InsertDocumentVerification): Promise<DocumentVerification>;
   getDocumentVerifications(documentId: string): Promise<DocumentVerification[]>;
@@ -243,9 +598,16 @@ export interface IStorage {
 
   // Document Analysis Queue operations
   addToAnalysisQueue(queueItem: InsertDocumentAnalysisQueue): Promise<DocumentAnalysisQueue>;
-  getAnalysisQueue(): Promise<DocumentAnalysisQueue[]>;
+  getAnalysisQueue(): Promise<DocumentAnalysisQueueEntry[]>;
   getAnalysisQueueItem(id: string): Promise<DocumentAnalysisQueue | undefined>;
   updateAnalysisQueueStatus(id: string, status: string, updates?: Partial<DocumentAnalysisQueue>): Promise<DocumentAnalysisQueue>;
+  claimAnalysisQueueItems(workerId: string, limit: number, leaseMs: number): Promise<DocumentAnalysisQueue[]>;
+  renewAnalysisQueueLease(id: string, workerId: string, leaseMs: number): Promise<DocumentAnalysisQueue | undefined>;
+  releaseAnalysisQueueItem(id: string, workerId: string, status: string, updates?: Partial<DocumentAnalysisQueue>): Promise<DocumentAnalysisQueue | undefined>;
+  deadLetterAbandonedQueueItems(): Promise<DocumentAnalysisQueue[]>;
+  expediteAnalysisQueueItem(id: string): Promise<DocumentAnalysisQueue | undefined>;
+  replayDeadLetteredQueueItem(id: string): Promise<DocumentAnalysisQueue | undefined>;
+  getAnalysisQueueStats(): Promise<DocumentAnalysisQueueStats>;
   updateQueuePriority(documentId: string, priority: number): Promise<void>;
   getDocumentQueueHistory(documentId: string): Promise<DocumentAnalysisQueue[]>;
 
@@ -256,6 +618,12 @@ export interface IStorage {
   updateDocumentTemplate(id: string, updates: Partial<DocumentTemplate>): Promise<DocumentTemplate>;
   deleteDocumentTemplate(id: string): Promise<void>;
 
+  // Fraud rule set operations
+  getCurrentFraudRuleSetVersion(): Promise<number>;
+  getFraudRuleSetVersions(limit?: number): Promise<FraudRuleSetVersion[]>;
+  getFraudRuleSet(version?: number): Promise<FraudRuleSet>;
+  publishFraudRuleSetChange(change: FraudRuleSetChange): Promise<FraudRuleSetPublication | undefined>;
+
   // Document Statistics and Management
   getDocumentStatistics(): Promise<{
     totalDocuments: number;
@@ -283,6 +651,7 @@ export interface IStorage {
   getFraudAlertsByUser(userId: string): Promise<FraudAlert[]>;
   getFraudAlertsByStatus(status: string): Promise<FraudAlert[]>;
   getFraudAlertsByRiskScore(minScore: number): Promise<FraudAlert[]>;
+  getFraudAlertsForTarget(targetId: string): Promise<FraudAlert[]>;
 
   // Asset Review operations
   createAssetReview(review: InsertAssetReview): Promise<AssetReview>;
@@ -1327,6 +1696,8 @@ export class DatabaseStorage implements IStorage {
       }
 
       // Safe to delete - only delete if no financial dependencies
+      await db.delete(notifications).where(eq(notifications.userId, id));
+      await db.delete(watchlist).where(eq(watchlist.userId, id));
       await db.delete(users).where(eq(users.id, id));
       return { success: true };
     } catch (error) {
@@ -1474,6 +1845,37 @@ export class DatabaseStorage implements IStorage {
     return submission;
   }
 
+  async approveRwaSubmissionWithLoan(id: string, approval: RwaSubmissionApproval): Promise<RwaSubmissionApprovalResult | undefined> {
+    return await db.transaction(async (tx) => {
+      const [submission] = await tx
+        .update(rwaSubmissions)
+        .set({
+          status: "approved",
+          adminNotes: approval.adminNotes,
+          reviewedBy: approval.reviewedBy,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(rwaSubmissions.id, id), eq(rwaSubmissions.status, "pending")))
+        .returning();
+
+      if (!submission) {
+        return undefined;
+      }
+
+      const [loan] = await tx.insert(pawnLoans).values([approval.loan]).returning();
+      const [transaction] = await tx
+        .insert(transactions)
+        .values([{
+          ...approval.disbursement,
+          metadata: { loanId: loan.id, ...(approval.disbursement.metadata as Record<string, unknown> | null) },
+        }])
+        .returning();
+
+      return { submission, loan, transaction };
+    });
+  }
+
   // Pawn Loan operations
   async createPawnLoan(loan: InsertPawnLoan): Promise<PawnLoan> {
     const [pawnLoan] = await db.insert(pawnLoans).values([loan]).returning();
@@ -1523,6 +1925,441 @@ export class DatabaseStorage implements IStorage {
     return loan;
   }
 
+  // Record a collateral revaluation; undefined if the loan is no longer active
+  async updatePawnLoanCollateral(id: string, revaluation: PawnLoanRevaluation): Promise<PawnLoan | undefined> {
+    const [loan] = await db
+      .update(pawnLoans)
+      .set({ ...revaluation, updatedAt: new Date() })
+      .where(and(eq(pawnLoans.id, id), eq(pawnLoans.status, "active")))
+      .returning();
+    return loan || undefined;
+  }
+
+  // Active loans at or past the collateral warning threshold, riskiest first
+  async getCollateralRiskLoans(): Promise<Array<{ loan: PawnLoan; submission: RwaSubmission }>> {
+    return await db
+      .select({ loan: pawnLoans, submission: rwaSubmissions })
+      .from(pawnLoans)
+      .innerJoin(rwaSubmissions, eq(pawnLoans.submissionId, rwaSubmissions.id))
+      .where(and(
+        eq(pawnLoans.status, "active"),
+        inArray(pawnLoans.collateralHealth, ["warning", "liquidation"]),
+      ))
+      .orderBy(desc(pawnLoans.currentLtv));
+  }
+
+  async updatePawnLoanAccrual(id: string, accruedInterest: string, accruedAt: Date): Promise<PawnLoan> {
+    const [loan] = await db
+      .update(pawnLoans)
+      .set({ accruedInterest, interestAccruedAt: accruedAt, updatedAt: new Date() })
+      .where(eq(pawnLoans.id, id))
+      .returning();
+    return loan;
+  }
+
+  async extendPawnLoan(id: string, extension: PawnLoanExtension): Promise<PawnLoan | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the loan so concurrent confirmations cannot exceed the extension cap
+      const [current] = await tx
+        .select()
+        .from(pawnLoans)
+        .where(eq(pawnLoans.id, id))
+        .for("update");
+
+      if (!current || current.status !== "active" || current.extensionCount >= extension.maxExtensions) {
+        return undefined;
+      }
+
+      // Each fee payment can only be applied once
+      const [pending] = await tx
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(and(eq(transactions.id, extension.transactionId), eq(transactions.status, "pending")))
+        .for("update");
+
+      if (!pending) {
+        return undefined;
+      }
+
+      // A loan that expired while the fee payment was confirming is not extended
+      const now = new Date();
+      const newExpiryDate = new Date(current.expiryDate.getTime() + extension.days * 24 * 60 * 60 * 1000);
+      const [loan] = await tx
+        .update(pawnLoans)
+        .set({
+          expiryDate: newExpiryDate,
+          extensionCount: current.extensionCount + 1,
+          updatedAt: now,
+        })
+        .where(and(
+          eq(pawnLoans.id, id),
+          eq(pawnLoans.status, "active"),
+          gt(pawnLoans.expiryDate, now),
+          lt(pawnLoans.extensionCount, extension.maxExtensions),
+        ))
+        .returning();
+
+      if (!loan) {
+        return undefined;
+      }
+
+      const [payment] = await tx
+        .update(transactions)
+        .set({
+          status: "confirmed",
+          txHash: extension.blockHeight?.toString(),
+          blockHeight: extension.blockHeight?.toString(),
+          updatedAt: now,
+        })
+        .where(eq(transactions.id, pending.id))
+        .returning();
+
+      await tx.insert(loanEvents).values([{
+        loanId: id,
+        userId: extension.userId,
+        eventType: "extended",
+        previousExpiryDate: current.expiryDate,
+        newExpiryDate,
+        amount: payment.amount,
+        transactionId: payment.id,
+        metadata: {
+          extensionDays: extension.days,
+          extensionNumber: loan.extensionCount,
+          maxExtensions: extension.maxExtensions,
+          ...extension.metadata,
+        },
+      }]);
+
+      return loan;
+    });
+  }
+
+  async createLoanEvent(event: InsertLoanEvent): Promise<LoanEvent> {
+    const [loanEvent] = await db.insert(loanEvents).values([event]).returning();
+    return loanEvent;
+  }
+
+  async getLoanEvents(loanId: string): Promise<LoanEvent[]> {
+    return await db.select().from(loanEvents).where(eq(loanEvents.loanId, loanId)).orderBy(desc(loanEvents.createdAt));
+  }
+
+  async applyPawnLoanPayment(id: string, payment: PawnLoanPayment): Promise<{ loan: PawnLoan; payment: LoanPayment } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the loan so concurrent payments are allocated against the latest balance
+      const [current] = await tx
+        .select()
+        .from(pawnLoans)
+        .where(eq(pawnLoans.id, id))
+        .for("update");
+
+      if (!current || current.status !== "active") {
+        return undefined;
+      }
+
+      // A ledger block can only ever pay down one loan
+      const [existing] = await tx
+        .select({ id: loanPayments.id })
+        .from(loanPayments)
+        .where(eq(loanPayments.blockHeight, payment.blockHeight));
+      if (existing) {
+        return undefined;
+      }
+
+      // Each repayment transaction can only be applied once
+      const [confirmed] = await tx
+        .update(transactions)
+        .set({
+          status: "confirmed",
+          txHash: payment.blockHeight,
+          blockHeight: payment.blockHeight,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(transactions.id, payment.transactionId), eq(transactions.status, "pending")))
+        .returning();
+
+      if (!confirmed) {
+        return undefined;
+      }
+
+      const allocation = payment.allocate(current, parseFloat(confirmed.amount));
+      const principalRepaid = parseFloat(current.principalRepaid) + allocation.principalPortion;
+      const principalAfter = parseFloat(current.loanAmount) - principalRepaid;
+      const now = new Date();
+
+      const [loan] = await tx
+        .update(pawnLoans)
+        .set({
+          principalRepaid: principalRepaid.toFixed(2),
+          interestPaid: (parseFloat(current.interestPaid) + allocation.interestPortion).toFixed(2),
+          feesPaid: (parseFloat(current.feesPaid) + allocation.feesPortion).toFixed(2),
+          settledInterest: allocation.settledInterest.toFixed(2),
+          settledDays: allocation.settledDays,
+          accruedInterest: allocation.settledInterest.toFixed(2),
+          interestAccruedAt: now,
+          ...(allocation.paidInFull ? { status: "redeemed", redeemedAt: now } : {}),
+          updatedAt: now,
+        })
+        .where(eq(pawnLoans.id, id))
+        .returning();
+
+      const [loanPayment] = await tx
+        .insert(loanPayments)
+        .values([{
+          loanId: id,
+          userId: payment.userId,
+          transactionId: confirmed.id,
+          amount: confirmed.amount,
+          feesPortion: allocation.feesPortion.toFixed(2),
+          interestPortion: allocation.interestPortion.toFixed(2),
+          principalPortion: allocation.principalPortion.toFixed(2),
+          unappliedAmount: allocation.unappliedAmount.toFixed(2),
+          principalAfter: principalAfter.toFixed(2),
+          blockHeight: payment.blockHeight,
+        }])
+        .returning();
+
+      await tx.insert(loanEvents).values([{
+        loanId: id,
+        userId: payment.userId,
+        eventType: allocation.paidInFull ? "redeemed" : "payment",
+        amount: confirmed.amount,
+        transactionId: confirmed.id,
+        metadata: {
+          loanPaymentId: loanPayment.id,
+          principalPortion: loanPayment.principalPortion,
+          interestPortion: loanPayment.interestPortion,
+          feesPortion: loanPayment.feesPortion,
+          principalAfter: loanPayment.principalAfter,
+        },
+      }]);
+
+      return { loan, payment: loanPayment };
+    });
+  }
+
+  async getLoanPayments(loanId: string): Promise<LoanPayment[]> {
+    return await db.select().from(loanPayments).where(eq(loanPayments.loanId, loanId)).orderBy(desc(loanPayments.createdAt));
+  }
+
+  async getPawnLoansExpiredBefore(cutoff: Date): Promise<PawnLoan[]> {
+    return await db
+      .select()
+      .from(pawnLoans)
+      .where(and(eq(pawnLoans.status, "active"), lt(pawnLoans.expiryDate, cutoff)))
+      .orderBy(pawnLoans.expiryDate);
+  }
+
+  async forfeitPawnLoan(id: string, forfeiture: PawnLoanForfeiture): Promise<{ loan: PawnLoan; asset?: MarketplaceAsset } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the loan so a concurrent redemption, extension or sweep cannot interleave
+      const [current] = await tx
+        .select()
+        .from(pawnLoans)
+        .where(eq(pawnLoans.id, id))
+        .for("update");
+
+      if (!current || current.status !== "active" || current.expiryDate >= forfeiture.cutoff) {
+        return undefined;
+      }
+
+      const [submission] = await tx.select().from(rwaSubmissions).where(eq(rwaSubmissions.id, current.submissionId));
+      if (!submission) {
+        throw new Error(`Submission ${current.submissionId} not found for loan ${id}`);
+      }
+
+      const now = new Date();
+      const daysExpired = Math.max(0, Math.floor((now.getTime() - current.expiryDate.getTime()) / (1000 * 60 * 60 * 24)));
+      const startingPrice = (parseFloat(current.assetValue) * forfeiture.startingPriceRatio).toFixed(2);
+      // The asset is not sold for less than the principal the borrower never repaid
+      const reservePrice = (parseFloat(current.loanAmount) - parseFloat(current.principalRepaid)).toFixed(2);
+      const minBidIncrement = Math.max(1, parseFloat(startingPrice) * AUCTION_MIN_INCREMENT_RATIO).toFixed(2);
+
+      // Unique index on loan_id makes the listing idempotent if a previous attempt already created it
+      const [asset] = await tx
+        .insert(marketplaceAssets)
+        .values([{
+          loanId: current.id,
+          assetName: submission.assetName,
+          category: submission.category,
+          originalValue: current.assetValue,
+          startingPrice,
+          daysExpired,
+          reservePrice,
+          minBidIncrement,
+          auctionStartsAt: now,
+          auctionEndsAt: new Date(now.getTime() + forfeiture.auctionDays * 24 * 60 * 60 * 1000),
+          description: submission.description || "",
+          status: "available",
+        }])
+        .onConflictDoNothing({ target: marketplaceAssets.loanId })
+        .returning();
+
+      const [loan] = await tx
+        .update(pawnLoans)
+        .set({ status: "expired", updatedAt: new Date() })
+        .where(eq(pawnLoans.id, id))
+        .returning();
+
+      await tx.insert(loanEvents).values([{
+        loanId: id,
+        userId: current.userId,
+        eventType: "forfeited",
+        previousExpiryDate: current.expiryDate,
+        metadata: {
+          runId: forfeiture.runId,
+          marketplaceAssetId: asset?.id,
+          startingPrice,
+          daysExpired,
+        },
+      }]);
+
+      return { loan, asset };
+    });
+  }
+
+  // Loan expiry run operations
+  async createLoanExpiryRun(run: InsertLoanExpiryRun): Promise<LoanExpiryRun> {
+    const [expiryRun] = await db.insert(loanExpiryRuns).values([run]).returning();
+    return expiryRun;
+  }
+
+  async updateLoanExpiryRun(id: string, updates: Partial<InsertLoanExpiryRun> & { completedAt?: Date }): Promise<LoanExpiryRun> {
+    const [expiryRun] = await db
+      .update(loanExpiryRuns)
+      .set(updates)
+      .where(eq(loanExpiryRuns.id, id))
+      .returning();
+    return expiryRun;
+  }
+
+  async getLoanExpiryRuns(limit: number = 20): Promise<LoanExpiryRun[]> {
+    return await db.select().from(loanExpiryRuns).orderBy(desc(loanExpiryRuns.startedAt)).limit(limit);
+  }
+
+  // Loan policy operations
+  async createLoanPolicyVersion(policy: InsertLoanPolicy, createdBy?: string): Promise<LoanPolicy> {
+    return await db.transaction(async (tx) => {
+      // Versions of a category are created one at a time, so two can never get the same number
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`loan_policy_version:${policy.category}`}))`);
+
+      const [latest] = await tx
+        .select({ version: sql<number>`coalesce(max(${loanPolicies.version}), 0)::int` })
+        .from(loanPolicies)
+        .where(eq(loanPolicies.category, policy.category));
+
+      // The new version supersedes any open-ended version that started before it
+      await tx
+        .update(loanPolicies)
+        .set({ effectiveTo: policy.effectiveFrom })
+        .where(
+          and(
+            eq(loanPolicies.category, policy.category),
+            isNull(loanPolicies.effectiveTo),
+            lt(loanPolicies.effectiveFrom, policy.effectiveFrom)
+          )
+        );
+
+      const [created] = await tx
+        .insert(loanPolicies)
+        .values([{ ...policy, version: (latest?.version ?? 0) + 1, createdBy }])
+        .returning();
+      return created;
+    });
+  }
+
+  async getLoanPolicies(category?: string): Promise<LoanPolicy[]> {
+    return await db
+      .select()
+      .from(loanPolicies)
+      .where(category ? eq(loanPolicies.category, category) : undefined)
+      .orderBy(loanPolicies.category, desc(loanPolicies.version));
+  }
+
+  async getLoanPolicy(id: string): Promise<LoanPolicy | undefined> {
+    const [policy] = await db.select().from(loanPolicies).where(eq(loanPolicies.id, id));
+    return policy || undefined;
+  }
+
+  async getEffectiveLoanPolicy(category: string, asOf: Date = new Date()): Promise<LoanPolicy | undefined> {
+    const [policy] = await db
+      .select()
+      .from(loanPolicies)
+      .where(
+        and(
+          eq(loanPolicies.category, category),
+          lte(loanPolicies.effectiveFrom, asOf),
+          or(isNull(loanPolicies.effectiveTo), gt(loanPolicies.effectiveTo, asOf))
+        )
+      )
+      .orderBy(desc(loanPolicies.effectiveFrom), desc(loanPolicies.version))
+      .limit(1);
+    return policy || undefined;
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    // Returns undefined when a notification with the same dedupe key already exists
+    const [created] = await db
+      .insert(notifications)
+      .values([notification])
+      .onConflictDoNothing({ target: notifications.dedupeKey })
+      .returning();
+    return created || undefined;
+  }
+
+  async getNotificationsByUser(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<Notification[]> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (options.unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit ?? 50);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result?.count ?? 0;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async updateNotificationEmailStatus(id: string, status: string, error?: string): Promise<Notification> {
+    const [notification] = await db
+      .update(notifications)
+      .set({
+        emailStatus: status,
+        emailError: error ?? null,
+        emailSentAt: status === "sent" ? new Date() : null,
+      })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
   // Marketplace operations
   async createMarketplaceAsset(asset: InsertMarketplaceAsset): Promise<MarketplaceAsset> {
     const [marketplaceAsset] = await db.insert(marketplaceAssets).values([asset]).returning();
@@ -1537,6 +2374,61 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(marketplaceAssets.createdAt));
   }
 
+  // Filtered, sorted page of marketplace assets. Returns undefined if the cursor is invalid
+  async searchMarketplaceAssets(search: MarketplaceSearch): Promise<MarketplaceAssetPage | undefined> {
+    const sort = MARKETPLACE_SORTS[search.sortBy];
+    const conditions: SQL[] = [eq(marketplaceAssets.status, search.status)];
+
+    if (search.q) {
+      conditions.push(sql`to_tsvector('english', ${marketplaceAssets.assetName} || ' ' || coalesce(${marketplaceAssets.description}, '')) @@ plainto_tsquery('english', ${search.q})`);
+    }
+    if (search.category) {
+      conditions.push(eq(marketplaceAssets.category, search.category));
+    }
+    if (search.listingType) {
+      conditions.push(eq(marketplaceAssets.listingType, search.listingType));
+    }
+    if (search.minPrice !== undefined) {
+      conditions.push(sql`${marketplacePriceKey} >= ${search.minPrice}`);
+    }
+    if (search.maxPrice !== undefined) {
+      conditions.push(sql`${marketplacePriceKey} <= ${search.maxPrice}`);
+    }
+    if (search.minDaysExpired !== undefined) {
+      conditions.push(gte(marketplaceAssets.daysExpired, search.minDaysExpired));
+    }
+    if (search.maxDaysExpired !== undefined) {
+      conditions.push(lte(marketplaceAssets.daysExpired, search.maxDaysExpired));
+    }
+
+    if (search.cursor) {
+      const cursor = decodeMarketplaceCursor(search.cursor, sort.cast);
+      if (!cursor) {
+        return undefined;
+      }
+      const cursorValue = sql`cast(${cursor.value} as ${sql.raw(sort.cast)})`;
+      conditions.push(sort.descending
+        ? sql`(${sort.key}, ${marketplaceAssets.id}) < (${cursorValue}, ${cursor.id})`
+        : sql`(${sort.key}, ${marketplaceAssets.id}) > (${cursorValue}, ${cursor.id})`);
+    }
+
+    const direction = sort.descending ? desc : asc;
+    const rows = await db
+      .select()
+      .from(marketplaceAssets)
+      .where(and(...conditions))
+      .orderBy(direction(sort.key), direction(marketplaceAssets.id))
+      .limit(search.limit + 1);
+
+    // One extra row tells us whether there is another page
+    const assets = rows.slice(0, search.limit);
+    const last = assets[assets.length - 1];
+    return {
+      assets,
+      nextCursor: rows.length > search.limit && last ? encodeMarketplaceCursor(sort.cursorValue(last), last.id) : null,
+    };
+  }
+
   async getMarketplaceAsset(id: string): Promise<MarketplaceAsset | undefined> {
     const [asset] = await db.select().from(marketplaceAssets).where(eq(marketplaceAssets.id, id));
     return asset || undefined;
@@ -1571,39 +2463,462 @@ export class DatabaseStorage implements IStorage {
     return bid || undefined;
   }
 
-  // Transaction operations
-  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
-    const [newTransaction] = await db.insert(transactions).values([transaction]).returning();
-    return newTransaction;
-  }
-
-  async getTransactionsByUser(userId: string): Promise<Transaction[]> {
-    return await db.select().from(transactions).where(eq(transactions.userId, userId)).orderBy(desc(transactions.createdAt));
-  }
+  async placeBid(assetId: string, placement: MarketplaceBidPlacement): Promise<MarketplaceBidResult | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the asset so concurrent bids are checked against the latest highest bid
+      const [current] = await tx
+        .select()
+        .from(marketplaceAssets)
+        .where(eq(marketplaceAssets.id, assetId))
+        .for("update");
 
-  async updateTransactionStatus(id: string, status: string, txHash?: string, blockHeight?: number): Promise<Transaction> {
-    const updateData: any = { status, updatedAt: new Date() };
-    if (txHash) {
-      updateData.txHash = txHash;
-    }
-    if (blockHeight !== undefined) {
-      updateData.blockHeight = blockHeight;
-    }
+      if (!current) {
+        return undefined;
+      }
 
-    const [transaction] = await db
-      .update(transactions)
-      .set(updateData)
-      .where(eq(transactions.id, id))
-      .returning();
-    return transaction;
-  }
+      // A ledger block can only ever fund one escrow
+      const [reused] = await tx
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(and(eq(transactions.blockHeight, placement.blockHeight), eq(transactions.status, "confirmed")));
+      if (reused) {
+        return undefined;
+      }
 
-  // Bridge operations - Enhanced for Chain Fusion
-  async createBridgeTransaction(bridge: InsertBridgeTransaction): Promise<BridgeTransaction> {
+      // Each escrow can only be applied once, and only to the auction it was created for
+      const now = new Date();
+      const [escrow] = await tx
+        .update(transactions)
+        .set({
+          status: "confirmed",
+          txHash: placement.blockHeight,
+          blockHeight: placement.blockHeight,
+          updatedAt: now,
+        })
+        .where(and(
+          eq(transactions.id, placement.transactionId),
+          eq(transactions.userId, placement.bidderId),
+          eq(transactions.type, "bid_payment"),
+          eq(transactions.status, "pending"),
+          sql`${transactions.metadata}->>'assetId' = ${assetId}`,
+        ))
+        .returning();
+
+      if (!escrow) {
+        return undefined;
+      }
+
+      const refundEscrow = async (payment: Transaction, bidId?: string): Promise<Transaction> => {
+        const [refund] = await tx
+          .insert(transactions)
+          .values([{
+            userId: payment.userId,
+            type: "bid_refund",
+            amount: payment.amount,
+            currency: payment.currency,
+            network: payment.network,
+            status: "pending",
+            metadata: { assetId, bidId, refundOf: payment.id },
+          }])
+          .returning();
+        return refund;
+      };
+
+      // The funds are on the ledger even if the auction moved on, so a rejected escrow is refunded
+      const rejection = getBidRejection(current, placement.bidderId, parseFloat(escrow.amount), placement.asOf);
+      if (rejection) {
+        return { asset: current, escrow, rejection, outbid: [], refunds: [await refundEscrow(escrow)] };
+      }
+
+      const [bid] = await tx
+        .insert(bids)
+        .values([{
+          assetId,
+          bidderId: placement.bidderId,
+          amount: escrow.amount,
+          transactionId: escrow.id,
+        }])
+        .returning();
+
+      const [fundedEscrow] = await tx
+        .update(transactions)
+        .set({ metadata: { ...(escrow.metadata as Record<string, unknown> | null), bidId: bid.id } })
+        .where(eq(transactions.id, escrow.id))
+        .returning();
+
+      // Every other active bid is now outbid and its escrow is released back to the bidder
+      const outbid = await tx
+        .update(bids)
+        .set({ status: "outbid" })
+        .where(and(eq(bids.assetId, assetId), eq(bids.status, "active"), sql`${bids.id} <> ${bid.id}`))
+        .returning();
+
+      const refunds: Transaction[] = [];
+      for (const outbidBid of outbid) {
+        if (!outbidBid.transactionId) {
+          continue;
+        }
+        const [outbidEscrow] = await tx
+          .select()
+          .from(transactions)
+          .where(and(eq(transactions.id, outbidBid.transactionId), eq(transactions.status, "confirmed")));
+        if (outbidEscrow) {
+          refunds.push(await refundEscrow(outbidEscrow, outbidBid.id));
+        }
+      }
+
+      // Bids in the closing minutes push the end time back so the auction cannot be sniped
+      let auctionEndsAt = current.auctionEndsAt;
+      let auctionExtensions = current.auctionExtensions;
+      if (auctionEndsAt && auctionEndsAt.getTime() - placement.asOf.getTime() < AUCTION_SNIPING_WINDOW_MINUTES * 60 * 1000) {
+        auctionEndsAt = new Date(placement.asOf.getTime() + AUCTION_EXTENSION_MINUTES * 60 * 1000);
+        auctionExtensions++;
+      }
+
+      const [asset] = await tx
+        .update(marketplaceAssets)
+        .set({
+          currentBid: bid.amount,
+          highestBidder: placement.bidderId,
+          auctionEndsAt,
+          auctionExtensions,
+          updatedAt: now,
+        })
+        .where(eq(marketplaceAssets.id, assetId))
+        .returning();
+
+      return { asset, escrow: fundedEscrow, bid, outbid, refunds };
+    });
+  }
+
+  async purchaseMarketplaceAsset(assetId: string, purchase: MarketplacePurchase): Promise<MarketplacePurchaseResult | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the asset so only the first verified buyer can take it
+      const [current] = await tx
+        .select()
+        .from(marketplaceAssets)
+        .where(eq(marketplaceAssets.id, assetId))
+        .for("update");
+
+      if (!current) {
+        return undefined;
+      }
+
+      // A ledger block can only ever fund one payment
+      const [reused] = await tx
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(and(eq(transactions.blockHeight, purchase.blockHeight), eq(transactions.status, "confirmed")));
+      if (reused) {
+        return undefined;
+      }
+
+      const now = new Date();
+      const [payment] = await tx
+        .update(transactions)
+        .set({
+          status: "confirmed",
+          txHash: purchase.blockHeight,
+          blockHeight: purchase.blockHeight,
+          updatedAt: now,
+        })
+        .where(and(
+          eq(transactions.id, purchase.transactionId),
+          eq(transactions.userId, purchase.buyerId),
+          eq(transactions.type, "purchase_payment"),
+          eq(transactions.status, "pending"),
+          sql`${transactions.metadata}->>'assetId' = ${assetId}`,
+        ))
+        .returning();
+
+      if (!payment) {
+        return undefined;
+      }
+
+      const quotedPrice = (payment.metadata as { price?: string } | null)?.price;
+      const rejection = getBuyNowRejection(current, purchase.asOf) ??
+        (quotedPrice !== current.buyNowPrice
+          ? { code: "PRICE_CHANGED" as const, error: "The buy-now price changed after this payment was quoted" }
+          : null);
+
+      // The funds are on the ledger even though the sale cannot go through, so they are refunded
+      if (rejection) {
+        const [refund] = await tx
+          .insert(transactions)
+          .values([{
+            userId: payment.userId,
+            type: "purchase_refund",
+            amount: payment.amount,
+            currency: payment.currency,
+            network: payment.network,
+            status: "pending",
+            metadata: { assetId, refundOf: payment.id, reason: rejection.code },
+          }])
+          .returning();
+        return { asset: current, payment, rejection, refund };
+      }
+
+      const [asset] = await tx
+        .update(marketplaceAssets)
+        .set({
+          status: "sold",
+          buyerId: purchase.buyerId,
+          soldAt: purchase.asOf,
+          soldPrice: current.buyNowPrice,
+          settledAt: now,
+          updatedAt: now,
+        })
+        .where(eq(marketplaceAssets.id, assetId))
+        .returning();
+
+      return { asset, payment };
+    });
+  }
+
+  // Auction settlement operations
+  async getAuctionsEndedBefore(asOf: Date): Promise<MarketplaceAsset[]> {
+    return await db
+      .select()
+      .from(marketplaceAssets)
+      .where(and(
+        eq(marketplaceAssets.status, "available"),
+        isNotNull(marketplaceAssets.auctionEndsAt),
+        lte(marketplaceAssets.auctionEndsAt, asOf),
+      ))
+      .orderBy(marketplaceAssets.auctionEndsAt);
+  }
+
+  async settleAuction(id: string, settlement: AuctionSettlement): Promise<AuctionSettlementResult | undefined> {
+    return await db.transaction(async (tx) => {
+      // Lock the asset so a late bid or a concurrent settlement run cannot interleave
+      const [current] = await tx
+        .select()
+        .from(marketplaceAssets)
+        .where(eq(marketplaceAssets.id, id))
+        .for("update");
+
+      if (!current || current.status !== "available" || !current.auctionEndsAt || current.auctionEndsAt > settlement.asOf) {
+        return undefined;
+      }
+
+      // Highest bid wins; ties go to whoever bid first
+      const assetBids = await tx
+        .select()
+        .from(bids)
+        .where(eq(bids.assetId, id))
+        .orderBy(desc(bids.amount), bids.createdAt);
+
+      const [topBid] = assetBids;
+      const reserveMet = !!topBid && (!current.reservePrice || parseFloat(topBid.amount) >= parseFloat(current.reservePrice));
+      const now = new Date();
+
+      const [asset] = await tx
+        .update(marketplaceAssets)
+        .set(reserveMet
+          ? { status: "sold", winningBidId: topBid.id, buyerId: topBid.bidderId, soldAt: settlement.asOf, soldPrice: topBid.amount, settledAt: now, updatedAt: now }
+          : { status: "unsold", settledAt: now, updatedAt: now })
+        .where(eq(marketplaceAssets.id, id))
+        .returning();
+
+      let winningBid: Bid | undefined;
+      let fee: FeeWaiverResult | undefined;
+      let feeTransaction: Transaction | undefined;
+
+      if (reserveMet) {
+        [winningBid] = await tx
+          .update(bids)
+          .set({ status: "won" })
+          .where(eq(bids.id, topBid.id))
+          .returning();
+
+        const [buyer] = await tx.select().from(users).where(eq(users.id, topBid.bidderId));
+        if (!buyer) {
+          throw new Error(`Bidder ${topBid.bidderId} not found for asset ${id}`);
+        }
+
+        fee = settlement.calculateFee(buyer, parseFloat(topBid.amount));
+        if (fee.finalFee > 0) {
+          [feeTransaction] = await tx
+            .insert(transactions)
+            .values([{
+              userId: buyer.id,
+              type: "marketplace_fee",
+              amount: fee.finalFee.toFixed(2),
+              currency: "ICP",
+              status: "pending",
+              metadata: { assetId: id, bidId: topBid.id, salePrice: topBid.amount, originalFee: fee.originalFee.toFixed(2) },
+            }])
+            .returning();
+        }
+      }
+
+      const releasedTransactions: Transaction[] = [];
+      const refundTransactions: Transaction[] = [];
+      const losingBids = assetBids.filter((bid) => bid.id !== winningBid?.id);
+      const losingBidIds = losingBids.map((bid) => bid.id);
+
+      if (losingBidIds.length > 0) {
+        await tx.update(bids).set({ status: "lost" }).where(inArray(bids.id, losingBidIds));
+
+        const bidPayments = await tx
+          .select()
+          .from(transactions)
+          .where(and(
+            eq(transactions.type, "bid_payment"),
+            inArray(sql`${transactions.metadata}->>'bidId'`, losingBidIds),
+          ));
+
+        // Escrows of outbid bids were already refunded when they were outbid
+        const refunded = bidPayments.length > 0
+          ? await tx
+            .select({ refundOf: sql<string>`${transactions.metadata}->>'refundOf'` })
+            .from(transactions)
+            .where(and(
+              eq(transactions.type, "bid_refund"),
+              inArray(sql`${transactions.metadata}->>'refundOf'`, bidPayments.map((payment) => payment.id)),
+            ))
+          : [];
+        const refundedIds = new Set(refunded.map((refund) => refund.refundOf));
+
+        for (const payment of bidPayments) {
+          if (refundedIds.has(payment.id)) {
+            continue;
+          }
+          if (payment.status === "pending") {
+            // Never paid - cancel it so it can no longer be confirmed against this auction
+            const [released] = await tx
+              .update(transactions)
+              .set({ status: "cancelled", updatedAt: now })
+              .where(and(eq(transactions.id, payment.id), eq(transactions.status, "pending")))
+              .returning();
+            if (released) {
+              releasedTransactions.push(released);
+            }
+          } else if (payment.status === "confirmed") {
+            const [refund] = await tx
+              .insert(transactions)
+              .values([{
+                userId: payment.userId,
+                type: "bid_refund",
+                amount: payment.amount,
+                currency: payment.currency,
+                network: payment.network,
+                status: "pending",
+                metadata: { assetId: id, bidId: (payment.metadata as { bidId?: string } | null)?.bidId, refundOf: payment.id },
+              }])
+              .returning();
+            refundTransactions.push(refund);
+          }
+        }
+      }
+
+      return { asset, winningBid, fee, feeTransaction, losingBids, releasedTransactions, refundTransactions };
+    });
+  }
+
+  // Watchlist operations
+  async addToWatchlist(userId: string, assetId: string): Promise<WatchlistItem> {
+    // Watching an asset twice is a no-op that returns the existing entry
+    const [created] = await db
+      .insert(watchlist)
+      .values([{ userId, assetId }])
+      .onConflictDoNothing({ target: [watchlist.userId, watchlist.assetId] })
+      .returning();
+    if (created) {
+      return created;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(watchlist)
+      .where(and(eq(watchlist.userId, userId), eq(watchlist.assetId, assetId)));
+    return existing;
+  }
+
+  async removeFromWatchlist(userId: string, assetId: string): Promise<boolean> {
+    const removed = await db
+      .delete(watchlist)
+      .where(and(eq(watchlist.userId, userId), eq(watchlist.assetId, assetId)))
+      .returning({ id: watchlist.id });
+    return removed.length > 0;
+  }
+
+  async getWatchedAssets(userId: string): Promise<WatchedMarketplaceAsset[]> {
+    return await db
+      .select({ watchlistItem: watchlist, asset: marketplaceAssets })
+      .from(watchlist)
+      .innerJoin(marketplaceAssets, eq(watchlist.assetId, marketplaceAssets.id))
+      .where(eq(watchlist.userId, userId))
+      .orderBy(desc(watchlist.createdAt));
+  }
+
+  async getAssetWatcherIds(assetId: string): Promise<string[]> {
+    const watchers = await db
+      .select({ userId: watchlist.userId })
+      .from(watchlist)
+      .where(eq(watchlist.assetId, assetId));
+    return watchers.map((watcher) => watcher.userId);
+  }
+
+  // Transaction operations
+  async createTransaction(transaction: InsertTransaction): Promise<Transaction> {
+    const [newTransaction] = await db.insert(transactions).values([transaction]).returning();
+    return newTransaction;
+  }
+
+  async getTransaction(id: string): Promise<Transaction | undefined> {
+    const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
+    return transaction || undefined;
+  }
+
+  async getTransactionsByUser(userId: string): Promise<Transaction[]> {
+    return await db.select().from(transactions).where(eq(transactions.userId, userId)).orderBy(desc(transactions.createdAt));
+  }
+
+  async updateTransactionStatus(id: string, status: string, txHash?: string, blockHeight?: number): Promise<Transaction> {
+    const updateData: any = { status, updatedAt: new Date() };
+    if (txHash) {
+      updateData.txHash = txHash;
+    }
+    if (blockHeight !== undefined) {
+      updateData.blockHeight = blockHeight;
+    }
+
+    const [transaction] = await db
+      .update(transactions)
+      .set(updateData)
+      .where(eq(transactions.id, id))
+      .returning();
+    return transaction;
+  }
+
+  // Bridge operations - Enhanced for Chain Fusion
+  async createBridgeTransaction(bridge: InsertBridgeTransaction): Promise<BridgeTransaction> {
     const [bridgeTransaction] = await db.insert(bridgeTransactions).values([bridge]).returning();
     return bridgeTransaction;
   }
 
+  async createBridgeTransactionWithinLimits(bridge: InsertBridgeTransaction, guard: BridgeLimitGuard): Promise<BridgeCreationResult> {
+    return await db.transaction(async (tx) => {
+      // Held until commit. Always taken user first, then token, so two requests cannot deadlock
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`bridge_user:${bridge.userId}`}))`);
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`bridge_token:${bridge.fromToken}`}))`);
+
+      const volumes: BridgeLimitVolumes = {
+        userDaily: await this.selectBridgeVolume(tx, guard.dailySince, { userId: bridge.userId }),
+        userWeekly: await this.selectBridgeVolume(tx, guard.weeklySince, { userId: bridge.userId }),
+        tokenDaily: await this.selectBridgeVolume(tx, guard.dailySince, { fromToken: bridge.fromToken }),
+      };
+      const rejection = guard.check(volumes);
+      if (rejection) {
+        return { rejection };
+      }
+
+      const [created] = await tx.insert(bridgeTransactions).values([bridge]).returning();
+      return { bridge: created };
+    });
+  }
+
   async getBridgeTransaction(id: string): Promise<BridgeTransaction | undefined> {
     const [bridge] = await db.select().from(bridgeTransactions).where(eq(bridgeTransactions.id, id));
     return bridge || undefined;
@@ -1651,6 +2966,23 @@ export class DatabaseStorage implements IStorage {
     return bridge;
   }
 
+  // Only applies while the bridge is still in the expected status, so a bridge that timed out or was
+  // cancelled is never moved on by the route still processing it (or the other way round)
+  async updateBridgeTransactionStatusIf(id: string, expectedStatus: string, status: string, updates?: Partial<BridgeTransaction>): Promise<BridgeTransaction | undefined> {
+    const updateData: any = { status, updatedAt: new Date(), ...updates };
+
+    if (status === 'completed' && !updateData.completedAt) {
+      updateData.completedAt = new Date();
+    }
+
+    const [bridge] = await db
+      .update(bridgeTransactions)
+      .set(updateData)
+      .where(and(eq(bridgeTransactions.id, id), eq(bridgeTransactions.status, expectedStatus)))
+      .returning();
+    return bridge || undefined;
+  }
+
   async getBridgeTransactionsByStatus(status: string): Promise<BridgeTransaction[]> {
     return await db
       .select()
@@ -1659,6 +2991,102 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(bridgeTransactions.createdAt));
   }
 
+  // Failed bridges whose source funds were received but that have no refund yet
+  async getBridgeTransactionsNeedingRefund(): Promise<BridgeTransaction[]> {
+    return await db
+      .select()
+      .from(bridgeTransactions)
+      .where(and(
+        eq(bridgeTransactions.status, 'failed'),
+        isNotNull(bridgeTransactions.txHashFrom),
+        isNull(bridgeTransactions.refundStatus),
+      ))
+      .orderBy(bridgeTransactions.updatedAt);
+  }
+
+  async getBridgeTransactionsByRefundStatus(refundStatus: string): Promise<BridgeTransaction[]> {
+    return await db
+      .select()
+      .from(bridgeTransactions)
+      .where(eq(bridgeTransactions.refundStatus, refundStatus))
+      .orderBy(bridgeTransactions.refundQueuedAt);
+  }
+
+  async updateBridgeRefund(id: string, expectedRefundStatus: string | null, updates: Partial<BridgeTransaction>): Promise<BridgeTransaction | undefined> {
+    // Only applies if the refund is still in the expected state, so two workers never act on the same refund
+    const [bridge] = await db
+      .update(bridgeTransactions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(bridgeTransactions.id, id),
+        expectedRefundStatus === null
+          ? isNull(bridgeTransactions.refundStatus)
+          : eq(bridgeTransactions.refundStatus, expectedRefundStatus),
+      ))
+      .returning();
+    return bridge || undefined;
+  }
+
+  // Move a queued refund to processing, but only for a bridge that is still failed and released
+  // nothing - a bridge that went on to release funds after it was queued must not be refunded too
+  async claimBridgeRefund(id: string, refundAttempts: number): Promise<BridgeTransaction | undefined> {
+    const [bridge] = await db
+      .update(bridgeTransactions)
+      .set({ refundStatus: 'processing', refundAttempts, updatedAt: new Date() })
+      .where(and(
+        eq(bridgeTransactions.id, id),
+        eq(bridgeTransactions.refundStatus, 'queued'),
+        eq(bridgeTransactions.status, 'failed'),
+        isNull(bridgeTransactions.txHashTo),
+      ))
+      .returning();
+    return bridge || undefined;
+  }
+
+  // Source amount bridged per token since a time. Failed and refunded bridges moved nothing, so they don't count
+  async getBridgeVolumeSince(since: Date, filters: { userId?: string; fromToken?: string } = {}): Promise<BridgeTokenVolume[]> {
+    return await this.selectBridgeVolume(db, since, filters);
+  }
+
+  private async selectBridgeVolume(
+    executor: Pick<typeof db, "select">,
+    since: Date,
+    filters: { userId?: string; fromToken?: string },
+  ): Promise<BridgeTokenVolume[]> {
+    const conditions: SQL[] = [
+      gte(bridgeTransactions.createdAt, since),
+      sql`${bridgeTransactions.status} NOT IN ('failed', 'refunded')`,
+    ];
+    if (filters.userId) {
+      conditions.push(eq(bridgeTransactions.userId, filters.userId));
+    }
+    if (filters.fromToken) {
+      conditions.push(eq(bridgeTransactions.fromToken, filters.fromToken));
+    }
+
+    return await executor
+      .select({
+        token: bridgeTransactions.fromToken,
+        amount: sql<string>`COALESCE(SUM(${bridgeTransactions.amount}), 0)::text`,
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(bridgeTransactions)
+      .where(and(...conditions))
+      .groupBy(bridgeTransactions.fromToken);
+  }
+
+  // Every bridge a user started since a time, whatever became of it
+  async countBridgeTransactionsSince(userId: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(bridgeTransactions)
+      .where(and(
+        eq(bridgeTransactions.userId, userId),
+        gte(bridgeTransactions.createdAt, since),
+      ));
+    return result?.count ?? 0;
+  }
+
   async getBridgeTransactionsWithFilters(filters: {
     status?: string;
     fromNetwork?: string;
@@ -1783,6 +3211,59 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(pricingEstimates.createdAt));
   }
 
+  async recordPriceSnapshot(snapshot: InsertPriceHistory): Promise<PriceHistory> {
+    const [recorded] = await db.insert(priceHistory).values(snapshot).returning();
+    return recorded;
+  }
+
+  // Open/high/low/close of the snapshots in each interval; intervals without snapshots are omitted
+  async getPriceCandles(category: string, symbol: string, from: Date, to: Date, interval: PriceHistoryInterval): Promise<PriceCandle[]> {
+    // Inlined rather than bound so the SELECT and GROUP BY expressions are identical to Postgres
+    const bucket = sql`date_trunc(${sql.raw(`'${interval}'`)}, ${priceHistory.capturedAt})`;
+    const rows = await db
+      .select({
+        time: sql<Date>`${bucket}`,
+        open: sql<string>`(array_agg(${priceHistory.price} ORDER BY ${priceHistory.capturedAt} ASC))[1]::text`,
+        high: sql<string>`MAX(${priceHistory.price})::text`,
+        low: sql<string>`MIN(${priceHistory.price})::text`,
+        close: sql<string>`(array_agg(${priceHistory.price} ORDER BY ${priceHistory.capturedAt} DESC))[1]::text`,
+        samples: sql<number>`COUNT(*)::int`,
+      })
+      .from(priceHistory)
+      .where(and(
+        eq(priceHistory.category, category),
+        eq(priceHistory.symbol, symbol),
+        gte(priceHistory.capturedAt, from),
+        lte(priceHistory.capturedAt, to),
+      ))
+      .groupBy(bucket)
+      .orderBy(bucket);
+
+    return rows.map(row => ({
+      time: new Date(row.time).toISOString(),
+      open: parseFloat(row.open),
+      high: parseFloat(row.high),
+      low: parseFloat(row.low),
+      close: parseFloat(row.close),
+      samples: row.samples,
+    }));
+  }
+
+  // The last snapshot taken at or before a moment
+  async getPriceAt(category: string, symbol: string, at: Date): Promise<PriceHistory | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(priceHistory)
+      .where(and(
+        eq(priceHistory.category, category),
+        eq(priceHistory.symbol, symbol),
+        lte(priceHistory.capturedAt, at),
+      ))
+      .orderBy(desc(priceHistory.capturedAt))
+      .limit(1);
+    return snapshot || undefined;
+  }
+
   // Admin statistics
   async getAdminStats(): Promise<{
     pendingApprovals: number;
@@ -1914,6 +3395,60 @@ export class DatabaseStorage implements IStorage {
       .where(eq(fraudDetectionResults.documentId, documentId));
   }
 
+  // Document Fingerprint operations
+  async upsertDocumentFingerprint(fingerprint: InsertDocumentFingerprint): Promise<DocumentFingerprint> {
+    const [saved] = await db
+      .insert(documentFingerprints)
+      .values([fingerprint])
+      .onConflictDoUpdate({
+        target: documentFingerprints.documentId,
+        set: {
+          // Re-analysis without the original file can't rehash it, so keep the hash already indexed
+          perceptualHash: sql`coalesce(excluded.perceptual_hash, ${documentFingerprints.perceptualHash})`,
+          serialNumber: fingerprint.serialNumber ?? null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async findDocumentFingerprintMatches(fingerprint: DocumentFingerprint, maxHashDistance: number): Promise<DocumentFingerprintMatch[]> {
+    const { perceptualHash, serialNumber } = fingerprint;
+    if (!perceptualHash && !serialNumber) {
+      return [];
+    }
+
+    // Hamming distance between the two 64-bit hashes
+    const hashDistance = perceptualHash
+      ? sql<number | null>`case when ${documentFingerprints.perceptualHash} is null then null
+          else bit_count(('x' || ${documentFingerprints.perceptualHash})::bit(64) # ('x' || ${perceptualHash})::bit(64))::integer end`
+      : sql<number | null>`null::integer`;
+
+    const matchConditions: SQL[] = [];
+    if (perceptualHash) {
+      matchConditions.push(sql`${hashDistance} <= ${maxHashDistance}`);
+    }
+    if (serialNumber) {
+      matchConditions.push(eq(documentFingerprints.serialNumber, serialNumber));
+    }
+
+    const rows = await db
+      .select({ fingerprint: documentFingerprints, hashDistance })
+      .from(documentFingerprints)
+      .where(and(
+        ne(documentFingerprints.userId, fingerprint.userId),
+        or(...matchConditions)
+      ))
+      .orderBy(asc(documentFingerprints.createdAt));
+
+    return rows.map(row => ({
+      fingerprint: row.fingerprint,
+      hashDistance: row.hashDistance !== null && row.hashDistance <= maxHashDistance ? row.hashDistance : null,
+      serialMatch: !!serialNumber && row.fingerprint.serialNumber === serialNumber,
+    }));
+  }
+
   // Document Verification operations
   async createDocumentVerification(verification: InsertDocumentVerification): Promise<DocumentVerification> {
     const [newVerification] = await db.insert(documentVerifications).values([verification]).returning();
@@ -1941,10 +3476,23 @@ export class DatabaseStorage implements IStorage {
     return newQueueItem;
   }
 
-  async getAnalysisQueue(): Promise<DocumentAnalysisQueue[]> {
-    return await db.select().from(documentAnalysisQueue)
-      .where(eq(documentAnalysisQueue.queueStatus, 'queued'))
+  async getAnalysisQueue(): Promise<DocumentAnalysisQueueEntry[]> {
+    const rows = await db
+      .select({
+        item: documentAnalysisQueue,
+        document: {
+          id: documents.id,
+          originalFileName: documents.originalFileName,
+          documentType: documents.documentType,
+          analysisStatus: documents.analysisStatus,
+          submissionId: documents.submissionId,
+        },
+      })
+      .from(documentAnalysisQueue)
+      .leftJoin(documents, eq(documents.id, documentAnalysisQueue.documentId))
+      .where(inArray(documentAnalysisQueue.queueStatus, [...CLAIMABLE_QUEUE_STATUSES, 'processing', 'dead_letter']))
       .orderBy(desc(documentAnalysisQueue.priority), documentAnalysisQueue.createdAt);
+    return rows.map(row => ({ ...row.item, document: row.document }));
   }
 
   async getAnalysisQueueItem(id: string): Promise<DocumentAnalysisQueue | undefined> {
@@ -1963,6 +3511,161 @@ export class DatabaseStorage implements IStorage {
     return queueItem;
   }
 
+  async claimAnalysisQueueItems(workerId: string, limit: number, leaseMs: number): Promise<DocumentAnalysisQueue[]> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      // Skip rows another worker is claiming right now instead of waiting on them
+      const claimable = await tx
+        .select({ id: documentAnalysisQueue.id })
+        .from(documentAnalysisQueue)
+        .where(
+          or(
+            and(
+              inArray(documentAnalysisQueue.queueStatus, [...CLAIMABLE_QUEUE_STATUSES]),
+              or(isNull(documentAnalysisQueue.nextRetryAt), lte(documentAnalysisQueue.nextRetryAt, now))
+            ),
+            // Abandoned by a worker that stopped renewing its lease
+            and(
+              eq(documentAnalysisQueue.queueStatus, 'processing'),
+              lt(documentAnalysisQueue.leaseExpiresAt, now),
+              lt(documentAnalysisQueue.attempts, documentAnalysisQueue.maxAttempts)
+            )
+          )
+        )
+        .orderBy(desc(documentAnalysisQueue.priority), asc(documentAnalysisQueue.createdAt))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+
+      if (claimable.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .update(documentAnalysisQueue)
+        .set({
+          queueStatus: 'processing',
+          processingNode: workerId,
+          attempts: sql`${documentAnalysisQueue.attempts} + 1`,
+          startedAt: now,
+          heartbeatAt: now,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          updatedAt: now,
+        })
+        .where(inArray(documentAnalysisQueue.id, claimable.map(item => item.id)))
+        .returning();
+    });
+  }
+
+  async renewAnalysisQueueLease(id: string, workerId: string, leaseMs: number): Promise<DocumentAnalysisQueue | undefined> {
+    const now = new Date();
+    const [item] = await db
+      .update(documentAnalysisQueue)
+      .set({ heartbeatAt: now, leaseExpiresAt: new Date(now.getTime() + leaseMs), updatedAt: now })
+      .where(and(
+        eq(documentAnalysisQueue.id, id),
+        eq(documentAnalysisQueue.queueStatus, 'processing'),
+        eq(documentAnalysisQueue.processingNode, workerId)
+      ))
+      .returning();
+    return item || undefined;
+  }
+
+  async releaseAnalysisQueueItem(
+    id: string,
+    workerId: string,
+    status: string,
+    updates?: Partial<DocumentAnalysisQueue>
+  ): Promise<DocumentAnalysisQueue | undefined> {
+    // Only the worker still holding the lease may record the outcome
+    const [item] = await db
+      .update(documentAnalysisQueue)
+      .set({ queueStatus: status, leaseExpiresAt: null, updatedAt: new Date(), ...updates })
+      .where(and(
+        eq(documentAnalysisQueue.id, id),
+        eq(documentAnalysisQueue.queueStatus, 'processing'),
+        eq(documentAnalysisQueue.processingNode, workerId)
+      ))
+      .returning();
+    return item || undefined;
+  }
+
+  async deadLetterAbandonedQueueItems(): Promise<DocumentAnalysisQueue[]> {
+    const now = new Date();
+    return await db
+      .update(documentAnalysisQueue)
+      .set({
+        queueStatus: 'dead_letter',
+        lastError: 'Worker stopped renewing its lease on the final attempt',
+        leaseExpiresAt: null,
+        deadLetteredAt: now,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(documentAnalysisQueue.queueStatus, 'processing'),
+        lt(documentAnalysisQueue.leaseExpiresAt, now),
+        gte(documentAnalysisQueue.attempts, documentAnalysisQueue.maxAttempts)
+      ))
+      .returning();
+  }
+
+  async expediteAnalysisQueueItem(id: string): Promise<DocumentAnalysisQueue | undefined> {
+    const [item] = await db
+      .update(documentAnalysisQueue)
+      .set({ queueStatus: 'queued', nextRetryAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(documentAnalysisQueue.id, id),
+        inArray(documentAnalysisQueue.queueStatus, [...CLAIMABLE_QUEUE_STATUSES])
+      ))
+      .returning();
+    return item || undefined;
+  }
+
+  async replayDeadLetteredQueueItem(id: string): Promise<DocumentAnalysisQueue | undefined> {
+    // A replay starts over with a full set of attempts; lastError is kept until the next failure
+    const [item] = await db
+      .update(documentAnalysisQueue)
+      .set({
+        queueStatus: 'queued',
+        attempts: 0,
+        nextRetryAt: null,
+        deadLetteredAt: null,
+        processingNode: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(documentAnalysisQueue.id, id), eq(documentAnalysisQueue.queueStatus, 'dead_letter')))
+      .returning();
+    return item || undefined;
+  }
+
+  async getAnalysisQueueStats(): Promise<DocumentAnalysisQueueStats> {
+    const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const [stats] = await db
+      .select({
+        queued: sql<number>`cast(count(*) filter (where ${documentAnalysisQueue.queueStatus} = 'queued') as integer)`,
+        retrying: sql<number>`cast(count(*) filter (where ${documentAnalysisQueue.queueStatus} = 'retrying') as integer)`,
+        processing: sql<number>`cast(count(*) filter (where ${documentAnalysisQueue.queueStatus} = 'processing') as integer)`,
+        deadLetter: sql<number>`cast(count(*) filter (where ${documentAnalysisQueue.queueStatus} = 'dead_letter') as integer)`,
+        oldestQueuedAt: sql<Date | null>`min(${documentAnalysisQueue.createdAt}) filter (where ${documentAnalysisQueue.queueStatus} in ('queued', 'retrying'))`
+          .mapWith(documentAnalysisQueue.createdAt),
+        completedLastHour: sql<number>`cast(count(*) filter (where ${documentAnalysisQueue.queueStatus} = 'completed' and ${documentAnalysisQueue.completedAt} >= ${hourAgo}) as integer)`,
+        failedLastHour: sql<number>`cast(count(*) filter (where ${documentAnalysisQueue.queueStatus} in ('retrying', 'dead_letter') and ${documentAnalysisQueue.updatedAt} >= ${hourAgo}) as integer)`,
+        avgProcessingSeconds: sql<number | null>`avg(${documentAnalysisQueue.actualProcessingTime}) filter (where ${documentAnalysisQueue.queueStatus} = 'completed' and ${documentAnalysisQueue.completedAt} >= ${hourAgo})`
+          .mapWith(Number),
+      })
+      .from(documentAnalysisQueue);
+
+    return {
+      queued: stats?.queued || 0,
+      retrying: stats?.retrying || 0,
+      processing: stats?.processing || 0,
+      deadLetter: stats?.deadLetter || 0,
+      oldestQueuedAt: stats?.oldestQueuedAt ?? null,
+      completedLastHour: stats?.completedLastHour || 0,
+      failedLastHour: stats?.failedLastHour || 0,
+      avgProcessingSeconds: stats?.avgProcessingSeconds ?? null,
+    };
+  }
+
   async updateQueuePriority(documentId: string, priority: number): Promise<void> {
     await db
       .update(documentAnalysisQueue)
@@ -2010,6 +3713,124 @@ export class DatabaseStorage implements IStorage {
       .where(eq(documentTemplates.id, id));
   }
 
+  // Fraud rule set operations
+  async getCurrentFraudRuleSetVersion(): Promise<number> {
+    const [latest] = await db
+      .select({ version: sql<number>`coalesce(max(${fraudRuleSetVersions.version}), 0)::int` })
+      .from(fraudRuleSetVersions);
+    return latest?.version ?? 0;
+  }
+
+  async getFraudRuleSetVersions(limit: number = 50): Promise<FraudRuleSetVersion[]> {
+    return await db
+      .select()
+      .from(fraudRuleSetVersions)
+      .orderBy(desc(fraudRuleSetVersions.version))
+      .limit(limit);
+  }
+
+  async getFraudRuleSet(version?: number): Promise<FraudRuleSet> {
+    const asOf = version ?? await this.getCurrentFraudRuleSetVersion();
+
+    const [rules, templates, blacklist] = await Promise.all([
+      db.select().from(fraudRules)
+        .where(and(
+          lte(fraudRules.introducedInVersion, asOf),
+          or(isNull(fraudRules.retiredInVersion), gt(fraudRules.retiredInVersion, asOf))
+        ))
+        .orderBy(fraudRules.ruleType, fraudRules.createdAt),
+      db.select().from(documentTemplates)
+        .where(and(
+          lte(documentTemplates.introducedInVersion, asOf),
+          or(isNull(documentTemplates.retiredInVersion), gt(documentTemplates.retiredInVersion, asOf))
+        ))
+        .orderBy(documentTemplates.documentType, documentTemplates.createdAt),
+      db.select().from(fraudBlacklistEntries)
+        .where(and(
+          lte(fraudBlacklistEntries.introducedInVersion, asOf),
+          or(isNull(fraudBlacklistEntries.retiredInVersion), gt(fraudBlacklistEntries.retiredInVersion, asOf))
+        ))
+        .orderBy(fraudBlacklistEntries.listType, fraudBlacklistEntries.value),
+    ]);
+
+    return { version: asOf, rules, templates, blacklist };
+  }
+
+  async publishFraudRuleSetChange(change: FraudRuleSetChange): Promise<FraudRuleSetPublication | undefined> {
+    // Returns undefined if an entry to retire doesn't exist or was already retired
+    return await db.transaction(async (tx) => {
+      // Publishers take turns until commit, so two changes can never both claim the next version
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('fraud_rule_set_version'))`);
+
+      const retireRules = change.retire?.rules ?? [];
+      const retireTemplates = change.retire?.templates ?? [];
+      const retireBlacklist = change.retire?.blacklist ?? [];
+
+      if (retireRules.length > 0) {
+        const current = await tx.select({ id: fraudRules.id }).from(fraudRules)
+          .where(and(inArray(fraudRules.id, retireRules), isNull(fraudRules.retiredInVersion)))
+          .for('update');
+        if (current.length !== retireRules.length) return undefined;
+      }
+      if (retireTemplates.length > 0) {
+        const current = await tx.select({ id: documentTemplates.id }).from(documentTemplates)
+          .where(and(inArray(documentTemplates.id, retireTemplates), isNull(documentTemplates.retiredInVersion)))
+          .for('update');
+        if (current.length !== retireTemplates.length) return undefined;
+      }
+      if (retireBlacklist.length > 0) {
+        const current = await tx.select({ id: fraudBlacklistEntries.id }).from(fraudBlacklistEntries)
+          .where(and(inArray(fraudBlacklistEntries.id, retireBlacklist), isNull(fraudBlacklistEntries.retiredInVersion)))
+          .for('update');
+        if (current.length !== retireBlacklist.length) return undefined;
+      }
+
+      const [latest] = await tx
+        .select({ version: sql<number>`coalesce(max(${fraudRuleSetVersions.version}), 0)::int` })
+        .from(fraudRuleSetVersions);
+      const version = (latest?.version ?? 0) + 1;
+
+      const [published] = await tx
+        .insert(fraudRuleSetVersions)
+        .values([{ version, changeSummary: change.changeSummary, createdBy: change.createdBy }])
+        .returning();
+
+      if (retireRules.length > 0) {
+        await tx.update(fraudRules).set({ retiredInVersion: version }).where(inArray(fraudRules.id, retireRules));
+      }
+      if (retireTemplates.length > 0) {
+        await tx.update(documentTemplates)
+          .set({ retiredInVersion: version, isActive: false, updatedAt: new Date() })
+          .where(inArray(documentTemplates.id, retireTemplates));
+      }
+      if (retireBlacklist.length > 0) {
+        await tx.update(fraudBlacklistEntries).set({ retiredInVersion: version }).where(inArray(fraudBlacklistEntries.id, retireBlacklist));
+      }
+
+      const addRules = change.add?.rules ?? [];
+      const addTemplates = change.add?.templates ?? [];
+      const addBlacklist = change.add?.blacklist ?? [];
+
+      const rules = addRules.length > 0
+        ? await tx.insert(fraudRules)
+          .values(addRules.map(rule => ({ ...rule, introducedInVersion: version, createdBy: change.createdBy })))
+          .returning()
+        : [];
+      const templates = addTemplates.length > 0
+        ? await tx.insert(documentTemplates)
+          .values(addTemplates.map(template => ({ ...template, introducedInVersion: version, isActive: true, createdBy: change.templateCreatedBy ?? null })))
+          .returning()
+        : [];
+      const blacklist = addBlacklist.length > 0
+        ? await tx.insert(fraudBlacklistEntries)
+          .values(addBlacklist.map(entry => ({ ...entry, introducedInVersion: version, createdBy: change.createdBy })))
+          .returning()
+        : [];
+
+      return { version: published, rules, templates, blacklist };
+    });
+  }
+
   // Document Statistics and Management
   async getDocumentStatistics(): Promise<{
     totalDocuments: number;
@@ -2046,7 +3867,7 @@ export class DatabaseStorage implements IStorage {
     const [queuedDocs] = await db
       .select({ count: sql<number>`cast(count(*) as integer)` })
       .from(documentAnalysisQueue)
-      .where(eq(documentAnalysisQueue.queueStatus, 'queued'));
+      .where(inArray(documentAnalysisQueue.queueStatus, [...CLAIMABLE_QUEUE_STATUSES]));
 
     return {
       totalDocuments: totalDocs?.count || 0,
@@ -2268,6 +4089,13 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(fraudAlerts.riskScore), desc(fraudAlerts.createdAt));
   }
 
+  // Alerts naming the target either as their subject or as the related target
+  async getFraudAlertsForTarget(targetId: string): Promise<FraudAlert[]> {
+    return await db.select().from(fraudAlerts)
+      .where(or(eq(fraudAlerts.targetId, targetId), eq(fraudAlerts.relatedTargetId, targetId)))
+      .orderBy(desc(fraudAlerts.createdAt));
+  }
+
   // Asset Review operations
   async createAssetReview(review: InsertAssetReview): Promise<AssetReview> {
     const [newReview] = await db.insert(assetReviews).values([review]).returning();
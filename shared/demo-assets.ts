@@ -24,9 +24,19 @@ export const demoMarketplaceAssets: MarketplaceAsset[] = [
     imageUrl: null,
     description: "Stunning contemporary 4-bedroom, 5-bathroom villa featuring open-concept living spaces, floor-to-ceiling windows, gourmet kitchen with premium appliances, infinity pool, and breathtaking city views. Located in the prestigious Beverly Hills area with 24/7 security.",
     daysExpired: 7,
+    listingType: "auction",
+    buyNowPrice: null,
+    reservePrice: null,
+    minBidIncrement: "1.00",
+    auctionStartsAt: null,
+    auctionEndsAt: null,
+    auctionExtensions: 0,
     status: "available",
+    winningBidId: null,
+    buyerId: null,
     soldAt: null,
     soldPrice: null,
+    settledAt: null,
     createdAt: new Date("2024-12-15T00:00:00.000Z"),
     updatedAt: new Date("2024-12-22T00:00:00.000Z"),
   },
@@ -42,9 +52,19 @@ export const demoMarketplaceAssets: MarketplaceAsset[] = [
     imageUrl: null,
     description: "Exquisite tennis necklace featuring 15 carats of premium VS1 clarity diamonds set in 18K white gold. Each diamond is expertly cut and hand-selected for maximum brilliance. Includes GIA certification and original Cartier presentation box.",
     daysExpired: 3,
+    listingType: "auction",
+    buyNowPrice: null,
+    reservePrice: null,
+    minBidIncrement: "1.00",
+    auctionStartsAt: null,
+    auctionEndsAt: null,
+    auctionExtensions: 0,
     status: "available",
+    winningBidId: null,
+    buyerId: null,
     soldAt: null,
     soldPrice: null,
+    settledAt: null,
     createdAt: new Date("2024-12-18T00:00:00.000Z"),
     updatedAt: new Date("2024-12-21T00:00:00.000Z"),
   },
@@ -60,9 +80,19 @@ export const demoMarketplaceAssets: MarketplaceAsset[] = [
     imageUrl: null,
     description: "Pristine 2023 Porsche 911 Turbo S in Jet Black Metallic with only 1,200 miles. Features twin-turbo 3.8L flat-six engine producing 640 HP, PDK transmission, sport chrono package, premium leather interior, and ceramic composite brakes. Includes full manufacturer warranty.",
     daysExpired: 12,
+    listingType: "auction",
+    buyNowPrice: null,
+    reservePrice: null,
+    minBidIncrement: "1.00",
+    auctionStartsAt: null,
+    auctionEndsAt: null,
+    auctionExtensions: 0,
     status: "available",
+    winningBidId: null,
+    buyerId: null,
     soldAt: null,
     soldPrice: null,
+    settledAt: null,
     createdAt: new Date("2024-12-10T00:00:00.000Z"),
     updatedAt: new Date("2024-12-22T00:00:00.000Z"),
   }
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, numeric, integer, boolean, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, numeric, integer, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -212,6 +212,25 @@ export const rwaSubmissions = pgTable("rwa_submissions", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Loan policies table (versioned LTV, term, fee and principal limits per asset category)
+export const loanPolicies = pgTable("loan_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: text("category").notNull(), // pricing category - watches, jewelry, artwork, precious_metals, etc.
+  version: integer("version").notNull(),
+  ltvRatio: numeric("ltv_ratio", { precision: 5, scale: 4 }).notNull(), // 0.7000 = 70% of asset value
+  termDays: integer("term_days").notNull(),
+  feeAmount: numeric("fee_amount", { precision: 12, scale: 2 }).notNull(),
+  maxPrincipal: numeric("max_principal", { precision: 12, scale: 2 }).notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  effectiveTo: timestamp("effective_to"), // null = open-ended
+  notes: text("notes"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  loanPoliciesCategoryVersionUnique: uniqueIndex("loan_policies_category_version_unique").on(table.category, table.version),
+  loanPoliciesCategoryEffectiveIdx: index("loan_policies_category_effective_idx").on(table.category, table.effectiveFrom),
+}));
+
 // Active pawn loans table
 export const pawnLoans = pgTable("pawn_loans", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -223,11 +242,150 @@ export const pawnLoans = pgTable("pawn_loans", {
   startDate: timestamp("start_date").defaultNow(),
   expiryDate: timestamp("expiry_date").notNull(),
   status: text("status").notNull().default("active"), // active, redeemed, expired
+  accruedInterest: numeric("accrued_interest", { precision: 12, scale: 2 }).notNull().default("0.00"), // Gross interest accrued to date (before waivers)
+  interestAccruedAt: timestamp("interest_accrued_at"), // Last time daily interest was accrued
+  extensionCount: integer("extension_count").notNull().default(0), // Paid 30-day extensions applied to this loan
+  policyId: varchar("policy_id").references(() => loanPolicies.id), // Loan policy used to size and price this loan
+  policyVersion: integer("policy_version"),
+  valuation: jsonb("valuation"), // Reconciled valuation breakdown used as assetValue (see loanValuationSchema)
+  principalRepaid: numeric("principal_repaid", { precision: 12, scale: 2 }).notNull().default("0.00"), // Principal paid down by partial repayments
+  interestPaid: numeric("interest_paid", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  feesPaid: numeric("fees_paid", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  settledInterest: numeric("settled_interest", { precision: 12, scale: 2 }).notNull().default("0.00"), // Gross interest accrued before the last principal change
+  settledDays: integer("settled_days").notNull().default(0), // Accrual days covered by settledInterest
+  collateralSymbol: text("collateral_symbol"), // Market symbol of crypto/precious_metals collateral (BTC, XAU...)
+  collateralReferencePrice: numeric("collateral_reference_price", { precision: 20, scale: 8 }), // Symbol's unit price that assetValue corresponds to
+  collateralValue: numeric("collateral_value", { precision: 12, scale: 2 }), // assetValue moved with the market at the last revaluation
+  currentLtv: numeric("current_ltv", { precision: 7, scale: 4 }), // Outstanding debt / collateralValue
+  collateralHealth: text("collateral_health"), // healthy, warning, liquidation - null until first revalued
+  collateralHealthChangedAt: timestamp("collateral_health_changed_at"),
+  revaluedAt: timestamp("revalued_at"),
   redeemedAt: timestamp("redeemed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Collateral that is re-priced against the market while a loan is active
+export const REVALUED_COLLATERAL_CATEGORIES = ['crypto', 'precious_metals'] as const;
+
+// Current LTV at which the borrower gets a warning, and at which the loan is flagged for liquidation
+export const COLLATERAL_LTV_THRESHOLDS = {
+  warning: 0.8,
+  liquidation: 0.9,
+} as const;
+
+export type CollateralHealth = 'healthy' | 'warning' | 'liquidation';
+
+// An active loan whose revalued collateral is at or past the warning threshold
+export interface CollateralRiskLoan {
+  loanId: string;
+  userId: string;
+  assetName: string;
+  category: string;
+  symbol: string;
+  loanAmount: string;
+  collateralValue: string;
+  assetValue: string;
+  currentLtv: number;
+  collateralHealth: CollateralHealth;
+  healthChangedAt: string | null;
+  revaluedAt: string | null;
+  expiryDate: string;
+}
+
+// Loan events table (audit history of changes to a pawn loan)
+export const loanEvents = pgTable("loan_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loanId: varchar("loan_id").notNull().references(() => pawnLoans.id),
+  userId: varchar("user_id").references(() => users.id),
+  eventType: text("event_type").notNull(), // extension_requested, extended, forfeited, payment, redeemed, collateral_health_changed
+  previousExpiryDate: timestamp("previous_expiry_date"),
+  newExpiryDate: timestamp("new_expiry_date"),
+  amount: numeric("amount", { precision: 12, scale: 2 }),
+  transactionId: varchar("transaction_id").references(() => transactions.id),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  loanEventsLoanIdIdx: index("loan_events_loan_id_idx").on(table.loanId),
+}));
+
+// Loan payments table (ledger of verified partial and full repayments)
+export const loanPayments = pgTable("loan_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  loanId: varchar("loan_id").notNull().references(() => pawnLoans.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  transactionId: varchar("transaction_id").notNull().references(() => transactions.id),
+  amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  feesPortion: numeric("fees_portion", { precision: 12, scale: 2 }).notNull(), // Applied to outstanding fees first
+  interestPortion: numeric("interest_portion", { precision: 12, scale: 2 }).notNull(), // Then to accrued interest
+  principalPortion: numeric("principal_portion", { precision: 12, scale: 2 }).notNull(), // Remainder reduces principal
+  unappliedAmount: numeric("unapplied_amount", { precision: 12, scale: 2 }).notNull().default("0.00"), // Overpayment beyond the payoff amount
+  principalAfter: numeric("principal_after", { precision: 12, scale: 2 }).notNull(), // Outstanding principal after this payment
+  blockHeight: text("block_height").notNull(), // ICP ledger block holding the transfer
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  loanPaymentsLoanIdIdx: index("loan_payments_loan_id_idx").on(table.loanId),
+  loanPaymentsTransactionIdUnique: uniqueIndex("loan_payments_transaction_id_unique").on(table.transactionId),
+  loanPaymentsBlockHeightUnique: uniqueIndex("loan_payments_block_height_unique").on(table.blockHeight),
+}));
+
+// Loan expiry jobs table (durable schedule and lock for the expiry sweep, one row per job)
+export const loanExpiryJobs = pgTable("loan_expiry_jobs", {
+  id: varchar("id").primaryKey(), // job name
+  nextRunAt: timestamp("next_run_at").notNull(), // when the sweep runs next
+  intervalMs: integer("interval_ms").notNull(), // sweep interval
+  retryCount: integer("retry_count").default(0), // consecutive failed sweeps
+  lastError: text("last_error"), // last sweep error
+  lastRunId: varchar("last_run_id"), // most recent loan_expiry_runs row
+  lockedBy: varchar("locked_by"), // advisory lock holder
+  lockedAt: timestamp("locked_at"), // when lock was acquired
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Loan expiry runs table (history of the scheduled expiry/forfeiture sweep)
+export const loanExpiryRuns = pgTable("loan_expiry_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: text("trigger").notNull(), // scheduled, manual
+  triggeredBy: text("triggered_by"), // admin username for manual runs
+  status: text("status").notNull().default("running"), // running, completed, failed
+  graceDays: integer("grace_days").notNull(),
+  loansScanned: integer("loans_scanned").notNull().default(0),
+  loansForfeited: integer("loans_forfeited").notNull().default(0),
+  assetsCreated: integer("assets_created").notNull().default(0),
+  errorCount: integer("error_count").notNull().default(0),
+  errors: jsonb("errors"), // [{ loanId, error }]
+  startedAt: timestamp("started_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  loanExpiryRunsStartedAtIdx: index("loan_expiry_runs_started_at_idx").on(table.startedAt),
+}));
+
+// Notifications table (in-app inbox, mirrored to email where possible)
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // loan_expiry_reminder, loan_forfeited, loan_margin_call, auction_outbid, auction_ending_soon, auction_won, auction_lost
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  loanId: varchar("loan_id").references(() => pawnLoans.id),
+  link: text("link"), // in-app route to open from the inbox
+  dedupeKey: text("dedupe_key").notNull(), // one notification per key, e.g. reminder:<loanId>:<days>:<expiry>
+  emailStatus: text("email_status").notNull().default("pending"), // pending, sent, failed, skipped
+  emailError: text("email_error"),
+  emailSentAt: timestamp("email_sent_at"),
+  readAt: timestamp("read_at"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  notificationsDedupeKeyUnique: uniqueIndex("notifications_dedupe_key_unique").on(table.dedupeKey),
+  notificationsUserIdIdx: index("notifications_user_id_idx").on(table.userId, table.createdAt),
+}));
+
+// Loan extension terms - each paid extension pushes expiry out by 30 days, up to 3 times per loan
+export const LOAN_EXTENSION_DAYS = 30;
+export const MAX_LOAN_EXTENSIONS = 3;
+
 // Marketplace assets (expired/unredeemed items)
 export const marketplaceAssets = pgTable("marketplace_assets", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -241,12 +399,150 @@ export const marketplaceAssets = pgTable("marketplace_assets", {
   imageUrl: text("image_url"),
   description: text("description"),
   daysExpired: integer("days_expired").notNull(),
-  status: text("status").notNull().default("available"), // available, sold
+  listingType: text("listing_type").notNull().default("auction"), // auction, fixed_price, auction_with_buy_now
+  buyNowPrice: numeric("buy_now_price", { precision: 12, scale: 2 }), // Price to buy outright, for fixed_price and auction_with_buy_now
+  reservePrice: numeric("reserve_price", { precision: 12, scale: 2 }), // Lowest winning bid the asset sells for
+  minBidIncrement: numeric("min_bid_increment", { precision: 12, scale: 2 }).notNull().default("1.00"),
+  auctionStartsAt: timestamp("auction_starts_at"),
+  auctionEndsAt: timestamp("auction_ends_at"), // null for open-ended listings, which are never settled
+  auctionExtensions: integer("auction_extensions").notNull().default(0), // anti-sniping extensions applied
+  status: text("status").notNull().default("available"), // available, sold, unsold
+  winningBidId: varchar("winning_bid_id"),
+  buyerId: varchar("buyer_id").references(() => users.id), // Auction winner or buy-now purchaser
   soldAt: timestamp("sold_at"),
   soldPrice: numeric("sold_price", { precision: 12, scale: 2 }),
+  settledAt: timestamp("settled_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  // A forfeited loan is listed on the marketplace exactly once
+  marketplaceAssetsLoanIdUnique: uniqueIndex("marketplace_assets_loan_id_unique").on(table.loanId),
+  marketplaceAssetsAuctionEndsIdx: index("marketplace_assets_auction_ends_idx").on(table.status, table.auctionEndsAt),
+  // Marketplace search: full-text on name and description, plus one index per sort order
+  marketplaceAssetsSearchIdx: index("marketplace_assets_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', ${table.assetName} || ' ' || coalesce(${table.description}, ''))`,
+  ),
+  marketplaceAssetsCategoryIdx: index("marketplace_assets_category_idx").on(table.status, table.category),
+  marketplaceAssetsCreatedIdx: index("marketplace_assets_created_idx").on(table.status, table.createdAt, table.id),
+  marketplaceAssetsPriceIdx: index("marketplace_assets_price_idx").on(
+    table.status,
+    sql`coalesce(${table.currentBid}, ${table.startingPrice})`,
+    table.id,
+  ),
+  marketplaceAssetsEndingIdx: index("marketplace_assets_ending_idx").on(
+    table.status,
+    sql`coalesce(${table.auctionEndsAt}, 'infinity'::timestamp)`,
+    table.id,
+  ),
+  marketplaceAssetsDaysExpiredIdx: index("marketplace_assets_days_expired_idx").on(table.status, table.daysExpired, table.id),
+}));
+
+export const MARKETPLACE_LISTING_TYPES = ["auction", "fixed_price", "auction_with_buy_now"] as const;
+export type MarketplaceListingType = typeof MARKETPLACE_LISTING_TYPES[number];
+
+// Auction terms for forfeited assets - bids in the final minutes push the end time back
+// so the auction closes only after a quiet period
+export const AUCTION_DURATION_DAYS = 7;
+export const AUCTION_SNIPING_WINDOW_MINUTES = 5;
+export const AUCTION_EXTENSION_MINUTES = 5;
+export const AUCTION_MIN_INCREMENT_RATIO = 0.01; // Minimum raise as a fraction of the starting price
+
+// Lowest amount the next bid on an asset may be: the starting price for the first bid,
+// otherwise the current bid plus the minimum increment
+export const getMinimumNextBid = (asset: Pick<MarketplaceAsset, "currentBid" | "startingPrice" | "minBidIncrement">) => {
+  if (!asset.currentBid) {
+    return parseFloat(asset.startingPrice);
+  }
+  return Math.round((parseFloat(asset.currentBid) + parseFloat(asset.minBidIncrement)) * 100) / 100;
+};
+
+export interface BidRejection {
+  code: "NOT_AN_AUCTION" | "AUCTION_ENDED" | "AUCTION_NOT_STARTED" | "ALREADY_HIGHEST_BIDDER" | "BID_TOO_LOW";
+  error: string;
+  minimumBid?: string;
+}
+
+export interface PurchaseRejection {
+  code: "BUY_NOW_UNAVAILABLE" | "LISTING_CLOSED" | "LISTING_NOT_STARTED" | "PRICE_CHANGED";
+  error: string;
+}
+
+// Why an asset cannot be bought outright right now, or null if it can. On auctions with a
+// buy-now price the option disappears once bidding starts
+export const getBuyNowRejection = (asset: MarketplaceAsset, asOf: Date = new Date()): PurchaseRejection | null => {
+  if (asset.listingType === "auction" || !asset.buyNowPrice) {
+    return { code: "BUY_NOW_UNAVAILABLE", error: "This listing cannot be bought outright" };
+  }
+  if (asset.status !== "available" || (asset.auctionEndsAt && new Date(asset.auctionEndsAt) <= asOf)) {
+    return { code: "LISTING_CLOSED", error: "This listing has closed" };
+  }
+  if (asset.auctionStartsAt && new Date(asset.auctionStartsAt) > asOf) {
+    return { code: "LISTING_NOT_STARTED", error: "This listing has not opened yet" };
+  }
+  if (asset.listingType === "auction_with_buy_now" && asset.currentBid) {
+    return { code: "BUY_NOW_UNAVAILABLE", error: "Buy now is no longer available once bidding has started" };
+  }
+  return null;
+};
+
+export const MARKETPLACE_SORT_ORDERS = ["recent", "price-low", "price-high", "ending", "days-expired"] as const;
+export type MarketplaceSortOrder = typeof MARKETPLACE_SORT_ORDERS[number];
+
+// Query strings send empty values for cleared filters
+const optionalQueryNumber = z.preprocess(
+  (val) => (val === "" || val === null ? undefined : val),
+  z.coerce.number().min(0).optional(),
+);
+
+// Marketplace search query. Prices compare against the current bid, or the starting
+// price when there are no bids yet. The cursor is opaque and comes from the previous page
+export const marketplaceSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  category: z.string().max(100).optional(),
+  status: z.enum(["available", "sold", "unsold"]).default("available"),
+  listingType: z.enum(MARKETPLACE_LISTING_TYPES).optional(),
+  minPrice: optionalQueryNumber,
+  maxPrice: optionalQueryNumber,
+  minDaysExpired: optionalQueryNumber,
+  maxDaysExpired: optionalQueryNumber,
+  sortBy: z.enum(MARKETPLACE_SORT_ORDERS).default("recent"),
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+});
+
+export interface MarketplaceAssetPage {
+  assets: MarketplaceAsset[];
+  nextCursor: string | null;
+}
+
+// A marketplace asset the user is watching, as listed in their profile
+export interface WatchedMarketplaceAsset {
+  watchlistItem: WatchlistItem;
+  asset: MarketplaceAsset;
+}
+
+// Why a bid cannot be accepted on an asset right now, or null if it can
+export const getBidRejection = (asset: MarketplaceAsset, bidderId: string, amount: number, asOf: Date = new Date()): BidRejection | null => {
+  if (asset.listingType === "fixed_price") {
+    return { code: "NOT_AN_AUCTION", error: "This listing is fixed price and does not take bids" };
+  }
+  if (asset.status !== "available" || (asset.auctionEndsAt && new Date(asset.auctionEndsAt) <= asOf)) {
+    return { code: "AUCTION_ENDED", error: "This auction has ended" };
+  }
+  if (asset.auctionStartsAt && new Date(asset.auctionStartsAt) > asOf) {
+    return { code: "AUCTION_NOT_STARTED", error: "This auction has not started yet" };
+  }
+  if (asset.highestBidder === bidderId) {
+    return { code: "ALREADY_HIGHEST_BIDDER", error: "You are already the highest bidder" };
+  }
+
+  const minimumBid = getMinimumNextBid(asset);
+  if (isNaN(amount) || amount < minimumBid) {
+    return { code: "BID_TOO_LOW", error: `Bid must be at least ${minimumBid.toFixed(2)}`, minimumBid: minimumBid.toFixed(2) };
+  }
+  return null;
+};
 
 // Bids table
 export const bids = pgTable("bids", {
@@ -254,21 +550,37 @@ export const bids = pgTable("bids", {
   assetId: varchar("asset_id").notNull().references(() => marketplaceAssets.id),
   bidderId: varchar("bidder_id").notNull().references(() => users.id),
   amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
+  transactionId: varchar("transaction_id").references(() => transactions.id), // Ledger-verified bid_payment escrow
+  status: text("status").notNull().default("active"), // active, outbid, won, lost
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  // An escrow funds exactly one bid
+  bidsTransactionIdUnique: uniqueIndex("bids_transaction_id_unique").on(table.transactionId),
+}));
+
+// Marketplace assets a user is following for bid and auction alerts
+export const watchlist = pgTable("watchlist", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  assetId: varchar("asset_id").notNull().references(() => marketplaceAssets.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  watchlistUserAssetUnique: uniqueIndex("watchlist_user_asset_unique").on(table.userId, table.assetId),
+  watchlistAssetIdIdx: index("watchlist_asset_id_idx").on(table.assetId),
+}));
 
 // Blockchain transactions table (real ICP transactions)
 export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  type: text("type").notNull(), // fee_payment, loan_disbursement, redemption_payment, bid_payment
+  type: text("type").notNull(), // fee_payment, loan_disbursement, redemption_payment, bid_payment, bid_refund, purchase_payment, purchase_refund, marketplace_fee, extension_fee, loan_repayment
   amount: numeric("amount", { precision: 12, scale: 2 }).notNull(),
   currency: text("currency").notNull().default("ICP"),
   network: text("network").notNull().default("ICP"), // support multi-chain transactions
   txHash: text("tx_hash"), // nullable to allow payment intent creation before confirmation
   memo: text("memo"), // ICP transaction memo for verification
   blockHeight: text("block_height"), // text type to handle 64-bit ICP block heights safely
-  status: text("status").notNull().default("pending"), // pending, confirmed, failed
+  status: text("status").notNull().default("pending"), // pending, confirmed, failed, cancelled
   metadata: jsonb("metadata"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -285,9 +597,11 @@ export const bridgeTransactions = pgTable("bridge_transactions", {
   amount: numeric("amount", { precision: 18, scale: 8 }).notNull(), // Higher precision for crypto
   fromAddress: text("from_address").notNull(),
   toAddress: text("to_address").notNull(),
+  refundPrincipal: text("refund_principal"), // ICP principal that owns fromAddress - ICRC-1 refunds go to a principal, not an account id
   status: text("status").notNull().default("pending"), // pending, processing, completed, failed, refunded
   txHashFrom: text("tx_hash_from"), // Source network transaction hash
   txHashTo: text("tx_hash_to"), // Destination network transaction hash
+  releaseOutcome: text("release_outcome"), // pending, released, rejected, unknown - null until the destination release is sent
   bridgeFee: numeric("bridge_fee", { precision: 18, scale: 8 }).notNull(),
   estimatedTime: integer("estimated_time").notNull(), // Estimated completion time in minutes
   actualTime: integer("actual_time"), // Actual completion time in minutes
@@ -297,10 +611,60 @@ export const bridgeTransactions = pgTable("bridge_transactions", {
   bridgeData: jsonb("bridge_data"), // Additional Chain Fusion bridge data
   errorMessage: text("error_message"),
   refundTxHash: text("refund_tx_hash"),
+  refundStatus: text("refund_status"), // queued, processing, submitted, confirmed, failed, manual_review - null when no refund is owed
+  refundAmount: numeric("refund_amount", { precision: 18, scale: 8 }),
+  refundConfirmations: integer("refund_confirmations").notNull().default(0),
+  refundAttempts: integer("refund_attempts").notNull().default(0),
+  refundError: text("refund_error"),
+  refundQueuedAt: timestamp("refund_queued_at"),
+  refundSubmittedAt: timestamp("refund_submitted_at"),
+  refundedAt: timestamp("refunded_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   completedAt: timestamp("completed_at"),
-});
+}, (table) => ({
+  bridgeTransactionsRefundStatusIdx: index("bridge_transactions_refund_status_idx").on(table.refundStatus, table.status),
+  bridgeTransactionsUserCreatedIdx: index("bridge_transactions_user_created_idx").on(table.userId, table.createdAt),
+  bridgeTransactionsTokenCreatedIdx: index("bridge_transactions_token_created_idx").on(table.fromToken, table.createdAt),
+}));
+
+// Bridge refunds return source funds to fromAddress when the destination leg fails.
+// A refund is retried up to this many times before it is left failed for an admin
+export const BRIDGE_REFUND_MAX_ATTEMPTS = 3;
+
+// Default bridge volume limits (in USD) over rolling windows, overridable with BRIDGE_LIMIT_TIERS.
+// Staff covers managers and administrators, verified covers registered_kyc users and anyone whose KYC has completed
+export const BRIDGE_LIMIT_TIERS = {
+  basic: { dailyUsd: 1000, weeklyUsd: 2500 },
+  verified: { dailyUsd: 25000, weeklyUsd: 100000 },
+  staff: { dailyUsd: 100000, weeklyUsd: 500000 },
+} as const;
+
+export type BridgeLimitTier = keyof typeof BRIDGE_LIMIT_TIERS;
+
+export interface BridgeLimitWindow {
+  limitUsd: number;
+  usedUsd: number;
+  remainingUsd: number;
+}
+
+// How much more a user may bridge, reported by /api/bridge/estimate and /api/bridge/initiate
+export interface BridgeAllowance {
+  tier: BridgeLimitTier;
+  daily: BridgeLimitWindow;
+  weekly: BridgeLimitWindow;
+  remainingUsd: number; // the tighter of the daily and weekly windows
+  token?: {
+    symbol: string;
+    circuitBreakerOpen: boolean;
+    platformRemaining: string | null; // token units left under the platform cap, null if uncapped
+  };
+}
+
+export interface BridgeLimitRejection {
+  code: "DAILY_LIMIT_EXCEEDED" | "WEEKLY_LIMIT_EXCEEDED" | "CIRCUIT_BREAKER_OPEN";
+  error: string;
+}
 
 // Role-based access control constants and types
 export const USER_ROLES = {
@@ -491,12 +855,74 @@ export const insertRwaSubmissionSchema = createInsertSchema(rwaSubmissions).omit
     .optional(),
 });
 
+// Loan policies are keyed by pricing category; submissions are mapped onto them at approval
+export const LOAN_POLICY_CATEGORIES = ['crypto', 'precious_metals', 'jewelry', 'electronics', 'collectibles', 'artwork', 'watches'] as const;
+export type LoanPolicyCategory = typeof LOAN_POLICY_CATEGORIES[number];
+
+export const SUBMISSION_POLICY_CATEGORIES: Record<string, LoanPolicyCategory> = {
+  'jewelry': 'jewelry',
+  'art-collectibles': 'artwork',
+  'electronics': 'electronics',
+  'luxury-goods': 'watches',
+  'vehicles': 'collectibles',
+  'watches': 'watches',
+  'collectibles': 'collectibles',
+};
+
+export const MAX_LOAN_TERM_DAYS = 365;
+
+export const insertLoanPolicySchema = createInsertSchema(loanPolicies).omit({
+  id: true,
+  version: true,
+  effectiveTo: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  category: z.enum(LOAN_POLICY_CATEGORIES),
+  ltvRatio: z.union([z.string(), z.number()])
+    .transform(val => typeof val === 'string' ? parseFloat(val) : val)
+    .refine(val => !isNaN(val), 'LTV ratio must be a valid number')
+    .refine(val => val > 0 && val <= 0.95, 'LTV ratio must be between 0 and 0.95')
+    .transform(val => val.toFixed(4)),
+  termDays: z.number()
+    .int('Term must be a whole number of days')
+    .min(7, 'Term must be at least 7 days')
+    .max(MAX_LOAN_TERM_DAYS, `Term cannot exceed ${MAX_LOAN_TERM_DAYS} days`),
+  feeAmount: z.union([z.string(), z.number()])
+    .transform(val => typeof val === 'string' ? parseFloat(val) : val)
+    .refine(val => !isNaN(val), 'Fee amount must be a valid number')
+    .refine(val => val >= 0 && val <= 1000, 'Fee amount must be between 0 and 1,000')
+    .transform(val => val.toFixed(2)),
+  maxPrincipal: z.union([z.string(), z.number()])
+    .transform(val => typeof val === 'string' ? parseFloat(val) : val)
+    .refine(val => !isNaN(val), 'Maximum principal must be a valid number')
+    .refine(val => val >= 10 && val <= 5000000, 'Maximum principal must be between $10 and $5,000,000')
+    .transform(val => val.toFixed(2)),
+  effectiveFrom: z.union([z.string(), z.date()])
+    .transform(val => typeof val === 'string' ? new Date(val) : val)
+    .refine(val => !isNaN(val.getTime()), 'Invalid effective date'),
+  notes: z.string().max(1000, 'Notes too long').optional(),
+});
+
 export const insertPawnLoanSchema = createInsertSchema(pawnLoans).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   startDate: true,
   redeemedAt: true,
+  accruedInterest: true,
+  interestAccruedAt: true,
+  extensionCount: true,
+  principalRepaid: true,
+  interestPaid: true,
+  feesPaid: true,
+  settledInterest: true,
+  settledDays: true,
+  collateralValue: true,
+  currentLtv: true,
+  collateralHealth: true,
+  collateralHealthChangedAt: true,
+  revaluedAt: true,
 }).extend({
   submissionId: z.string()
     .min(1, 'Submission ID is required')
@@ -532,7 +958,31 @@ export const insertPawnLoanSchema = createInsertSchema(pawnLoans).omit({
     .transform(val => typeof val === 'string' ? new Date(val) : val)
     .refine(val => !isNaN(val.getTime()), 'Invalid expiry date')
     .refine(val => val > new Date(), 'Expiry date must be in the future')
-    .refine(val => val <= new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), 'Expiry date cannot be more than 90 days in the future'),
+    .refine(val => val <= new Date(Date.now() + MAX_LOAN_TERM_DAYS * 24 * 60 * 60 * 1000), `Expiry date cannot be more than ${MAX_LOAN_TERM_DAYS} days in the future`),
+});
+
+export const insertLoanEventSchema = createInsertSchema(loanEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLoanPaymentSchema = createInsertSchema(loanPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLoanExpiryRunSchema = createInsertSchema(loanExpiryRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+  emailStatus: true,
+  emailError: true,
+  emailSentAt: true,
+  readAt: true,
 });
 
 export const insertMarketplaceAssetSchema = createInsertSchema(marketplaceAssets).omit({
@@ -540,9 +990,25 @@ export const insertMarketplaceAssetSchema = createInsertSchema(marketplaceAssets
   createdAt: true,
   updatedAt: true,
   soldAt: true,
-});
+  winningBidId: true,
+  buyerId: true,
+  settledAt: true,
+}).extend({
+  listingType: z.enum(MARKETPLACE_LISTING_TYPES).optional(),
+  auctionStartsAt: z.coerce.date().nullable().optional(),
+  auctionEndsAt: z.coerce.date().nullable().optional(),
+}).refine(
+  (asset) => !asset.listingType || asset.listingType === "auction" || !!asset.buyNowPrice,
+  { message: "A buy-now price is required for fixed price and buy-now listings", path: ["buyNowPrice"] }
+);
 
 export const insertBidSchema = createInsertSchema(bids).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+});
+
+export const insertWatchlistSchema = createInsertSchema(watchlist).omit({
   id: true,
   createdAt: true,
 });
@@ -565,7 +1031,16 @@ export const insertBridgeTransactionSchema = createInsertSchema(bridgeTransactio
   txHashFrom: true,
   txHashTo: true,
   errorMessage: true,
+  releaseOutcome: true,
   refundTxHash: true,
+  refundStatus: true,
+  refundAmount: true,
+  refundConfirmations: true,
+  refundAttempts: true,
+  refundError: true,
+  refundQueuedAt: true,
+  refundSubmittedAt: true,
+  refundedAt: true,
 });
 
 // Document Analysis API Validation Schemas
@@ -955,6 +1430,21 @@ export const fraudDetectionResults = pgTable("fraud_detection_results", {
   index("idx_fraud_results_manual_review").on(table.requiresManualReview),
 ]);
 
+// Document Fingerprints - Perceptual image hashes and normalized serial numbers for cross-submission duplicate detection
+export const documentFingerprints = pgTable("document_fingerprints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().unique().references(() => documents.id),
+  submissionId: varchar("submission_id").notNull().references(() => rwaSubmissions.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  perceptualHash: text("perceptual_hash"), // 64-bit DCT hash as 16 hex characters, images only
+  serialNumber: text("serial_number"), // Uppercase, letters and digits only
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_document_fingerprints_serial_number").on(table.serialNumber),
+  index("idx_document_fingerprints_user_id").on(table.userId),
+]);
+
 // Document Verification Actions - Admin review and decisions
 export const documentVerifications = pgTable("document_verifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -979,7 +1469,7 @@ export const documentVerifications = pgTable("document_verifications", {
 export const documentAnalysisQueue = pgTable("document_analysis_queue", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   documentId: varchar("document_id").notNull().references(() => documents.id),
-  queueStatus: text("queue_status").notNull().default("queued"), // queued, processing, completed, failed, retrying
+  queueStatus: text("queue_status").notNull().default("queued"), // queued, processing, completed, retrying, dead_letter
   priority: integer("priority").notNull().default(1), // Higher number = higher priority
   attempts: integer("attempts").notNull().default(0),
   maxAttempts: integer("max_attempts").notNull().default(3),
@@ -988,6 +1478,9 @@ export const documentAnalysisQueue = pgTable("document_analysis_queue", {
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   processingNode: text("processing_node"), // Which server/worker is processing
+  leaseExpiresAt: timestamp("lease_expires_at"), // Other workers may reclaim a processing item after this
+  heartbeatAt: timestamp("heartbeat_at"), // Last lease renewal by the processing worker
+  deadLetteredAt: timestamp("dead_lettered_at"), // When the item ran out of attempts
   estimatedProcessingTime: integer("estimated_processing_time"), // Seconds
   actualProcessingTime: integer("actual_processing_time"), // Seconds
   createdAt: timestamp("created_at").defaultNow(),
@@ -996,8 +1489,24 @@ export const documentAnalysisQueue = pgTable("document_analysis_queue", {
   index("idx_analysis_queue_status").on(table.queueStatus),
   index("idx_analysis_queue_priority").on(table.priority),
   index("idx_analysis_queue_next_retry").on(table.nextRetryAt),
+  index("idx_analysis_queue_lease").on(table.leaseExpiresAt),
 ]);
 
+// Statuses a worker may claim once nextRetryAt has passed - dead_letter items only return through a replay
+export const CLAIMABLE_QUEUE_STATUSES = ['queued', 'retrying'] as const;
+
+// Queue depth and recent throughput for the admin queue screen
+export interface DocumentAnalysisQueueStats {
+  queued: number;
+  retrying: number;
+  processing: number;
+  deadLetter: number;
+  oldestQueuedAt: Date | null;
+  completedLastHour: number;
+  failedLastHour: number; // Items whose latest attempt failed in the last hour, retrying or dead-lettered
+  avgProcessingSeconds: number | null; // Over items completed in the last hour
+}
+
 // Document Templates - Known authentic document patterns
 export const documentTemplates = pgTable("document_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1012,7 +1521,9 @@ export const documentTemplates = pgTable("document_templates", {
   sampleImages: text("sample_images").array(), // Reference authentic samples
   isActive: boolean("is_active").default(true),
   confidence: numeric("confidence", { precision: 4, scale: 3 }), // Template reliability score
-  createdBy: varchar("created_by").notNull().references(() => users.id),
+  introducedInVersion: integer("introduced_in_version").notNull().default(1), // Fraud rule set version that added this template
+  retiredInVersion: integer("retired_in_version"), // Fraud rule set version that replaced or removed it, null while current
+  createdBy: varchar("created_by").references(() => users.id), // null for seeded templates
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -1021,6 +1532,53 @@ export const documentTemplates = pgTable("document_templates", {
   index("idx_document_templates_active").on(table.isActive),
 ]);
 
+// Fraud Rule Set Versions - every change to fraud rules, document templates or blacklists publishes
+// a new version. Rows are never edited: a change retires the old row and adds a new one, so any
+// version can be rebuilt from the rows whose introduced/retired range covers it
+export const fraudRuleSetVersions = pgTable("fraud_rule_set_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: integer("version").notNull(),
+  changeSummary: text("change_summary").notNull(),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("fraud_rule_set_versions_version_unique").on(table.version),
+]);
+
+// Fraud Rules - text patterns and required terms checked against a document's OCR text
+export const fraudRules = pgTable("fraud_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ruleType: text("rule_type").notNull(), // known_fraud_pattern, suspicious_text, required_terms
+  name: text("name").notNull(), // Shown as the issue description when the rule fires
+  documentType: text("document_type"), // null = applies to every document type
+  pattern: text("pattern"), // Case-insensitive regex for pattern rules
+  terms: text("terms").array(), // Terms for required_terms rules
+  minTermsPresent: integer("min_terms_present"), // required_terms fires when fewer terms than this are found
+  severity: text("severity").notNull(), // low, medium, high, critical
+  weight: numeric("weight", { precision: 4, scale: 3 }).notNull(), // Confidence of the match (0-1)
+  introducedInVersion: integer("introduced_in_version").notNull(),
+  retiredInVersion: integer("retired_in_version"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_fraud_rules_versions").on(table.introducedInVersion, table.retiredInVersion),
+]);
+
+// Fraud Blacklist Entries - serial numbers and issuers that fail cross-reference checks
+export const fraudBlacklistEntries = pgTable("fraud_blacklist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  listType: text("list_type").notNull(), // serial, issuer
+  value: text("value").notNull(), // Stored lowercase; serials match exactly, issuers as a substring
+  reason: text("reason"),
+  introducedInVersion: integer("introduced_in_version").notNull(),
+  retiredInVersion: integer("retired_in_version"),
+  createdBy: text("created_by"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_fraud_blacklist_versions").on(table.introducedInVersion, table.retiredInVersion),
+  index("idx_fraud_blacklist_value").on(table.listType, table.value),
+]);
+
 // Document Analysis Insert Schemas
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
@@ -1040,6 +1598,12 @@ export const insertFraudDetectionResultSchema = createInsertSchema(fraudDetectio
   createdAt: true,
 });
 
+export const insertDocumentFingerprintSchema = createInsertSchema(documentFingerprints).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertDocumentVerificationSchema = createInsertSchema(documentVerifications).omit({
   id: true,
   reviewedAt: true,
@@ -1052,6 +1616,9 @@ export const insertDocumentAnalysisQueueSchema = createInsertSchema(documentAnal
   updatedAt: true,
   startedAt: true,
   completedAt: true,
+  leaseExpiresAt: true,
+  heartbeatAt: true,
+  deadLetteredAt: true,
 });
 
 export const insertDocumentTemplateSchema = createInsertSchema(documentTemplates).omit({
@@ -1060,6 +1627,89 @@ export const insertDocumentTemplateSchema = createInsertSchema(documentTemplates
   updatedAt: true,
 });
 
+export const FRAUD_RULE_TYPES = ['known_fraud_pattern', 'suspicious_text', 'required_terms'] as const;
+export const FRAUD_SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+export const FRAUD_BLACKLIST_TYPES = ['serial', 'issuer'] as const;
+export const FRAUD_DOCUMENT_TYPES = ['coa', 'nft_certificate', 'insurance', 'appraisal', 'photo', 'video', 'other'] as const;
+
+const fraudWeightSchema = z.union([z.string(), z.number()])
+  .transform(val => typeof val === 'string' ? parseFloat(val) : val)
+  .refine(val => !isNaN(val) && val >= 0 && val <= 1, 'Weight must be between 0 and 1')
+  .transform(val => val.toFixed(3));
+
+const changeSummarySchema = z.string().trim().max(500, 'Change summary too long').optional();
+
+export const insertFraudRuleSchema = createInsertSchema(fraudRules).omit({
+  id: true,
+  introducedInVersion: true,
+  retiredInVersion: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  ruleType: z.enum(FRAUD_RULE_TYPES),
+  name: z.string().trim().min(1, 'Name is required').max(200, 'Name too long'),
+  documentType: z.enum(FRAUD_DOCUMENT_TYPES).nullable().optional(),
+  pattern: z.string().max(200, 'Pattern too long').nullable().optional()
+    .refine(val => {
+      if (!val) return true;
+      try {
+        new RegExp(val, 'i');
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Pattern must be a valid regular expression'),
+  terms: z.array(z.string().trim().toLowerCase().min(1)).max(50, 'Too many terms').nullable().optional(),
+  minTermsPresent: z.number().int().min(1).nullable().optional(),
+  severity: z.enum(FRAUD_SEVERITIES),
+  weight: fraudWeightSchema,
+  changeSummary: changeSummarySchema,
+}).superRefine((rule, ctx) => {
+  if (rule.ruleType === 'required_terms') {
+    if (!rule.terms?.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['terms'], message: 'Required terms rules need at least one term' });
+    } else if (!rule.minTermsPresent || rule.minTermsPresent > rule.terms.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['minTermsPresent'], message: 'Minimum terms present must be between 1 and the number of terms' });
+    }
+  } else if (!rule.pattern) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pattern'], message: 'Pattern rules need a pattern' });
+  }
+});
+
+export const fraudTemplateInputSchema = insertDocumentTemplateSchema.omit({
+  introducedInVersion: true,
+  retiredInVersion: true,
+  isActive: true,
+  createdBy: true,
+}).extend({
+  templateName: z.string().trim().min(1, 'Template name is required').max(200),
+  documentType: z.enum(FRAUD_DOCUMENT_TYPES),
+  issuerName: z.string().trim().min(1, 'Issuer is required').max(200),
+  templateVersion: z.string().trim().min(1).max(50).default('1'),
+  expectedFields: z.array(z.string().trim().toLowerCase().min(1)).min(1, 'At least one expected field is required').max(50),
+  validationRules: z.record(z.any()).default({}),
+  securityFeatures: z.array(z.string().trim().min(1)).max(50).default([]),
+  confidence: fraudWeightSchema,
+  changeSummary: changeSummarySchema,
+});
+
+export const insertFraudBlacklistEntrySchema = createInsertSchema(fraudBlacklistEntries).omit({
+  id: true,
+  introducedInVersion: true,
+  retiredInVersion: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  listType: z.enum(FRAUD_BLACKLIST_TYPES),
+  value: z.string().trim().toLowerCase().min(1, 'Value is required').max(200, 'Value too long'),
+  reason: z.string().trim().max(500, 'Reason too long').nullable().optional(),
+  changeSummary: changeSummarySchema,
+});
+
+export const retireFraudRuleSetEntrySchema = z.object({
+  changeSummary: changeSummarySchema,
+});
+
 // Pricing estimates linked to RWA submissions for audit trail
 export const pricingEstimates = pgTable("pricing_estimates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -1075,6 +1725,23 @@ export const pricingEstimates = pgTable("pricing_estimates", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Price snapshots of tracked crypto and metals symbols, captured on a schedule so an asset can be
+// valued at any past moment (e.g. loan origination) and charted over time
+export const priceHistory = pgTable("price_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  category: text("category").notNull(), // crypto, precious_metals
+  symbol: text("symbol").notNull(), // BTC, ETH, ICP, XAU, XAG...
+  price: numeric("price", { precision: 20, scale: 8 }).notNull(), // Median across providers
+  p25Price: numeric("p25_price", { precision: 20, scale: 8 }),
+  p75Price: numeric("p75_price", { precision: 20, scale: 8 }),
+  currency: text("currency").notNull().default("USD"),
+  sources: text("sources").array().notNull(),
+  confidence: numeric("confidence", { precision: 3, scale: 2 }).notNull(),
+  capturedAt: timestamp("captured_at").notNull().defaultNow(),
+}, (table) => ({
+  priceHistorySymbolCapturedIdx: index("price_history_symbol_captured_idx").on(table.category, table.symbol, table.capturedAt),
+}));
+
 // Insert schemas for pricing tables
 export const insertAssetPricingCacheSchema = createInsertSchema(assetPricingCache).omit({
   id: true,
@@ -1087,6 +1754,10 @@ export const insertPricingEstimateSchema = createInsertSchema(pricingEstimates).
   createdAt: true,
 });
 
+export const insertPriceHistorySchema = createInsertSchema(priceHistory).omit({
+  id: true,
+});
+
 // Pricing query schemas for API validation
 export const pricingQuerySchema = z.object({
   category: z.enum(['crypto', 'precious_metals', 'jewelry', 'electronics', 'collectibles', 'artwork', 'watches']),
@@ -1107,12 +1778,49 @@ export const pricingResponseSchema = z.object({
   timestamp: z.string(),
   methodology: z.string().optional(),
   metadata: z.record(z.any()).optional(),
+  stale: z.boolean().optional(), // every provider failed and an expired cached price was returned
+});
+
+// Price history queries - candles over a trailing window, or the price at a moment in time
+export const priceHistoryIntervals = z.enum(['hour', 'day', 'week']);
+
+export const priceHistoryQuerySchema = z.object({
+  category: z.enum(['crypto', 'precious_metals']),
+  symbol: z.string().min(1, "Symbol is required").transform(val => val.toUpperCase()),
+  days: z.coerce.number().int().min(1).max(365).default(7),
+  interval: priceHistoryIntervals.optional(), // Defaults to hourly for up to 2 days, daily beyond
+});
+
+export const priceAtQuerySchema = z.object({
+  category: z.enum(['crypto', 'precious_metals']),
+  symbol: z.string().min(1, "Symbol is required").transform(val => val.toUpperCase()),
+  at: z.coerce.date(),
+});
+
+export const priceCandleSchema = z.object({
+  time: z.string(), // Start of the interval
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  samples: z.number(),
+});
+
+export const priceHistoryResponseSchema = z.object({
+  category: z.string(),
+  symbol: z.string(),
+  interval: priceHistoryIntervals,
+  from: z.string(),
+  to: z.string(),
+  candles: z.array(priceCandleSchema),
 });
 
 // Chain Fusion Bridge Schemas
 export const supportedNetworks = z.enum(['ethereum', 'icp', 'bitcoin']);
 export const supportedTokens = z.enum(['ETH', 'USDC', 'BTC', 'ckETH', 'ckUSDC', 'ckBTC']);
 export const bridgeStatus = z.enum(['pending', 'processing', 'completed', 'failed', 'refunded']);
+export const bridgeRefundStatus = z.enum(['queued', 'processing', 'submitted', 'confirmed', 'failed', 'manual_review']);
+export const bridgeReleaseOutcome = z.enum(['pending', 'released', 'rejected', 'unknown']);
 
 // Bridge estimation schema
 export const bridgeEstimationSchema = z.object({
@@ -1132,6 +1840,7 @@ export const bridgeInitiationSchema = z.object({
   amount: z.string().min(1, "Amount is required").regex(/^\d+(\.\d{1,18})?$/, "Invalid amount format"),
   fromAddress: z.string().min(1, "From address is required").max(100, "From address too long"),
   toAddress: z.string().min(1, "To address is required").max(100, "To address too long"),
+  refundPrincipal: z.string().max(100, "Refund principal too long").optional(),
   slippageTolerance: z.number().min(0).max(5).default(1), // 1% default
 }).superRefine((data, ctx) => {
   // Validate fromAddress format based on network
@@ -1151,6 +1860,14 @@ export const bridgeInitiationSchema = z.object({
         path: ['fromAddress']
       });
     }
+    // Refunds of ck tokens are sent to the principal behind the account
+    if (!data.refundPrincipal) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "The principal that owns the ICP source account is required for refunds",
+        path: ['refundPrincipal']
+      });
+    }
   } else if (data.fromNetwork === 'bitcoin') {
     // Bitcoin addresses can be P2PKH (starting with 1), P2SH (starting with 3), or Bech32 (starting with bc1)
     if (!/^(1|3|bc1)[a-zA-HJ-NP-Z0-9]{25,62}$/.test(data.fromAddress)) {
@@ -1306,6 +2023,82 @@ export const bridgeEstimationResponseSchema = z.object({
   receiveAmount: z.string(),
 });
 
+// Loan payoff quote returned by GET /api/pawn-loans/:id/payoff-quote
+export const loanPayoffQuoteSchema = z.object({
+  loanId: z.string(),
+  principal: z.string(),
+  accruedInterest: z.string(), // Interest owed after waivers
+  interestDays: z.number(),
+  fees: z.string(), // Outstanding loan fees after waivers
+  waiver: z.object({
+    applied: z.boolean(),
+    amount: z.string(), // Interest and fees waived
+    reason: z.string().optional(),
+  }),
+  totalDue: z.string(),
+  currency: z.string(),
+  quotedAt: z.string(),
+  expiresAt: z.string(),
+});
+
+export const loanExtensionQuoteSchema = z.object({
+  loanId: z.string(),
+  extensionDays: z.number(),
+  fee: z.string(), // Extension fee after waivers
+  waiver: z.object({
+    applied: z.boolean(),
+    amount: z.string(),
+    reason: z.string().optional(),
+  }),
+  extensionsUsed: z.number(),
+  maxExtensions: z.number(),
+  currentExpiryDate: z.string(),
+  newExpiryDate: z.string(),
+  currency: z.string(),
+});
+
+// Suggested installment period for the repayment schedule shown to borrowers
+export const REPAYMENT_INSTALLMENT_DAYS = 30;
+
+// Outstanding balance, suggested installments and payment history for a loan
+export const loanRepaymentScheduleSchema = z.object({
+  loanId: z.string(),
+  outstandingPrincipal: z.string(),
+  interestDue: z.string(), // Accrued, unpaid interest after waivers
+  feesDue: z.string(),
+  totalDue: z.string(),
+  principalRepaid: z.string(),
+  currency: z.string(),
+  installments: z.array(z.object({
+    number: z.number(),
+    dueDate: z.string(),
+    principal: z.string(),
+    interest: z.string(), // Projected interest (plus any already due on the first installment)
+    fees: z.string(),
+    total: z.string(),
+    balanceAfter: z.string(),
+  })),
+});
+
+// Admin valuations that differ from the pricing estimate (or the user's claim when there
+// is no estimate) by more than this fraction need an explicit override reason
+export const VALUATION_OVERRIDE_TOLERANCE = 0.1;
+
+export const loanValuationSchema = z.object({
+  claimedValue: z.string(), // User's self-declared value from the submission
+  adminValue: z.string().nullable(), // Admin appraisal, if one was made
+  adminValueSource: z.enum(['approval', 'asset_review']).nullable(),
+  pricingEstimate: z.string().nullable(), // Latest PricingService estimate recorded for the submission
+  pricingEstimateId: z.string().nullable(),
+  basis: z.enum(['admin_valuation', 'claimed_value']),
+  cappedBy: z.enum(['pricing_estimate', 'claimed_value']).nullable(),
+  reconciledValue: z.string(), // min(basis, pricing estimate, claimed value)
+  deviation: z.number().nullable(), // Admin value vs reference value, as a signed fraction
+  overrideRequired: z.boolean(),
+  overrideReason: z.string().nullable(),
+  reconciledAt: z.string(),
+});
+
 // Admin Management Tables - Enhanced admin dashboard functionality
 
 // Admin Actions - Audit trail of admin decisions and actions
@@ -1341,6 +2134,7 @@ export const fraudAlerts = pgTable("fraud_alerts", {
   status: text("status").notNull().default("open"), // open, investigating, resolved, false_positive
   targetType: text("target_type").notNull(), // user, document, submission, transaction
   targetId: varchar("target_id").notNull(),
+  relatedTargetId: varchar("related_target_id"), // Second target of the same type, e.g. the earlier submission a duplicate matched
   userId: varchar("user_id").references(() => users.id), // User associated with the alert
   riskScore: numeric("risk_score", { precision: 4, scale: 3 }).notNull(), // 0-1 risk score
   alertData: jsonb("alert_data").notNull(), // Specific alert details and evidence
@@ -1362,6 +2156,8 @@ export const fraudAlerts = pgTable("fraud_alerts", {
   index("idx_fraud_alerts_status").on(table.status),
   index("idx_fraud_alerts_severity").on(table.severity),
   index("idx_fraud_alerts_target_type").on(table.targetType),
+  index("idx_fraud_alerts_target_id").on(table.targetId),
+  index("idx_fraud_alerts_related_target_id").on(table.relatedTargetId),
   index("idx_fraud_alerts_user_id").on(table.userId),
   index("idx_fraud_alerts_risk_score").on(table.riskScore),
   index("idx_fraud_alerts_created_at").on(table.createdAt),
@@ -1796,10 +2592,23 @@ export type RwaSubmission = typeof rwaSubmissions.$inferSelect;
 export type InsertRwaSubmission = z.infer<typeof insertRwaSubmissionSchema>;
 export type PawnLoan = typeof pawnLoans.$inferSelect;
 export type InsertPawnLoan = z.infer<typeof insertPawnLoanSchema>;
+export type LoanPolicy = typeof loanPolicies.$inferSelect;
+export type InsertLoanPolicy = z.infer<typeof insertLoanPolicySchema>;
+export type LoanEvent = typeof loanEvents.$inferSelect;
+export type InsertLoanEvent = z.infer<typeof insertLoanEventSchema>;
+export type LoanPayment = typeof loanPayments.$inferSelect;
+export type InsertLoanPayment = z.infer<typeof insertLoanPaymentSchema>;
+export type LoanExpiryRun = typeof loanExpiryRuns.$inferSelect;
+export type InsertLoanExpiryRun = z.infer<typeof insertLoanExpiryRunSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type MarketplaceAsset = typeof marketplaceAssets.$inferSelect;
 export type InsertMarketplaceAsset = z.infer<typeof insertMarketplaceAssetSchema>;
+export type MarketplaceSearch = z.infer<typeof marketplaceSearchSchema>;
 export type Bid = typeof bids.$inferSelect;
 export type InsertBid = z.infer<typeof insertBidSchema>;
+export type WatchlistItem = typeof watchlist.$inferSelect;
+export type InsertWatchlistItem = z.infer<typeof insertWatchlistSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type BridgeTransaction = typeof bridgeTransactions.$inferSelect;
@@ -1819,6 +2628,8 @@ export type InsertRwapawnBalance = z.infer<typeof insertRwapawnBalanceSchema>;
 export type SupportedNetwork = z.infer<typeof supportedNetworks>;
 export type SupportedToken = z.infer<typeof supportedTokens>;
 export type BridgeStatus = z.infer<typeof bridgeStatus>;
+export type BridgeRefundStatus = z.infer<typeof bridgeRefundStatus>;
+export type BridgeReleaseOutcome = z.infer<typeof bridgeReleaseOutcome>;
 export type BridgeEstimation = z.infer<typeof bridgeEstimationSchema>;
 export type BridgeInitiation = z.infer<typeof bridgeInitiationSchema>;
 export type BridgeStatusUpdate = z.infer<typeof bridgeStatusUpdateSchema>;
@@ -1826,6 +2637,12 @@ export type BridgeHistoryFilter = z.infer<typeof bridgeHistoryFilterSchema>;
 export type BridgeNetworkConfig = z.infer<typeof bridgeNetworkConfig>;
 export type BridgeEstimationResponse = z.infer<typeof bridgeEstimationResponseSchema>;
 
+// Loan accounting types
+export type LoanPayoffQuote = z.infer<typeof loanPayoffQuoteSchema>;
+export type LoanExtensionQuote = z.infer<typeof loanExtensionQuoteSchema>;
+export type LoanValuation = z.infer<typeof loanValuationSchema>;
+export type LoanRepaymentSchedule = z.infer<typeof loanRepaymentScheduleSchema>;
+
 // Pricing types
 export type AssetPricingCache = typeof assetPricingCache.$inferSelect;
 export type InsertAssetPricingCache = z.infer<typeof insertAssetPricingCacheSchema>;
@@ -1833,6 +2650,12 @@ export type PricingEstimate = typeof pricingEstimates.$inferSelect;
 export type InsertPricingEstimate = z.infer<typeof insertPricingEstimateSchema>;
 export type PricingQuery = z.infer<typeof pricingQuerySchema>;
 export type PricingResponse = z.infer<typeof pricingResponseSchema>;
+export type PriceHistory = typeof priceHistory.$inferSelect;
+export type InsertPriceHistory = z.infer<typeof insertPriceHistorySchema>;
+export type PriceHistoryInterval = z.infer<typeof priceHistoryIntervals>;
+export type PriceHistoryQuery = z.infer<typeof priceHistoryQuerySchema>;
+export type PriceCandle = z.infer<typeof priceCandleSchema>;
+export type PriceHistoryResponse = z.infer<typeof priceHistoryResponseSchema>;
 
 // Document Analysis types
 export type Document = typeof documents.$inferSelect;
@@ -1841,12 +2664,20 @@ export type DocumentAnalysisResult = typeof documentAnalysisResults.$inferSelect
 export type InsertDocumentAnalysisResult = z.infer<typeof insertDocumentAnalysisResultSchema>;
 export type FraudDetectionResult = typeof fraudDetectionResults.$inferSelect;
 export type InsertFraudDetectionResult = z.infer<typeof insertFraudDetectionResultSchema>;
+export type DocumentFingerprint = typeof documentFingerprints.$inferSelect;
+export type InsertDocumentFingerprint = z.infer<typeof insertDocumentFingerprintSchema>;
 export type DocumentVerification = typeof documentVerifications.$inferSelect;
 export type InsertDocumentVerification = z.infer<typeof insertDocumentVerificationSchema>;
 export type DocumentAnalysisQueue = typeof documentAnalysisQueue.$inferSelect;
 export type InsertDocumentAnalysisQueue = z.infer<typeof insertDocumentAnalysisQueueSchema>;
 export type DocumentTemplate = typeof documentTemplates.$inferSelect;
 export type InsertDocumentTemplate = z.infer<typeof insertDocumentTemplateSchema>;
+export type FraudRuleSetVersion = typeof fraudRuleSetVersions.$inferSelect;
+export type FraudRule = typeof fraudRules.$inferSelect;
+export type InsertFraudRule = z.infer<typeof insertFraudRuleSchema>;
+export type FraudTemplateInput = z.infer<typeof fraudTemplateInputSchema>;
+export type FraudBlacklistEntry = typeof fraudBlacklistEntries.$inferSelect;
+export type InsertFraudBlacklistEntry = z.infer<typeof insertFraudBlacklistEntrySchema>;
 
 // Document Analysis API types
 export type DocumentUpload = z.infer<typeof documentUploadSchema>;